@@ -1,8 +1,20 @@
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { NovelState, NovelSettings, AppearanceSettings, Chapter, Character, WorldData, PlotData } from './types';
+import { NovelState, NovelSettings, AppearanceSettings, Chapter, Character, WorldData, PlotData, ModelConfig, ModelTask, ChapterVersionSource, RewriteAllOptions, RewriteJob, GenerationJob, FactEntry, GrammarIssue } from './types';
 import * as GeminiService from './services/geminiService';
-import { DAOFactory } from './services/dao'; 
+import { LLMClientFactory } from './services/llmClient';
+import { DAOFactory, SQLiteDAO } from './services/dao'; 
+import { GenerationQueue, MAX_JOB_ATTEMPTS, getBackoffDelay, isRateLimitError, isSafetyError } from './services/generationQueue';
+import { applyCharacterStates } from './services/characterState';
+import { replaceName, RenameTarget } from './services/renameCharacter';
+import { buildEpub } from './services/epubExport';
+import { buildDocx } from './services/docxExport';
+import { buildPdf } from './services/pdfExport';
+import { printHtml, renderNovelHtml } from './services/htmlExport';
+import { renderNovelText } from './services/textExport';
+import { ArchiveRestoreMode, createProjectArchive, parseProjectArchive, restoreProjectArchive } from './services/projectArchive';
+import { defaultExportOptions, defaultPageLayout, downloadBlob, exportFileName, ExportDocument, prepareExport } from './services/exportUtils';
+import { ChapterComplianceResult, complianceConfig, scanChapters, scanCompliance } from './services/compliance';
 import SettingsForm from './components/SettingsForm';
 import Reader from './components/Reader';
 import CharacterList from './components/CharacterList';
@@ -11,12 +23,17 @@ import WorldBuilder from './components/WorldBuilder';
 import PlotPlanner from './components/PlotPlanner';
 import Importer from './components/Importer';
 import ExportModal from './components/ExportModal';
+import RewriteAllModal from './components/RewriteAllModal';
+import GrammarBatchModal from './components/GrammarBatchModal';
+import ComplianceModal from './components/ComplianceModal';
+import GenerationQueuePanel from './components/GenerationQueuePanel';
+import FactLedger from './components/FactLedger';
 import AppSidebar, { ViewType } from './components/AppSidebar';
 import ModelConfigManager from './components/ModelConfigManager';
 import PromptConfigManager from './components/PromptConfigManager';
 import StorageConfigManager from './components/StorageConfigManager';
 import LanguageConfigManager from './components/LanguageConfigManager';
-import { Users, Globe2, GitMerge, FileSearch, Save, Loader2 } from 'lucide-react';
+import { Users, Globe2, GitMerge, FileSearch, Save, Loader2, BookMarked } from 'lucide-react';
 
 const getBaseDefaultSettings = (): NovelSettings => ({
   title: '',
@@ -62,8 +79,29 @@ const getBaseDefaultSettings = (): NovelSettings => ({
   customPrompts: {}
 });
 
+// Makes the saved model configs available to task routing
+const registerModelConfigs = async (settings: NovelSettings) => {
+    try {
+        LLMClientFactory.registerModelConfigs(await DAOFactory.getDAO(settings).listModelConfigs());
+    } catch (e) {
+        console.warn("Failed to load model configs", e);
+    }
+};
+
+// Older saves embedded whole model configs (API keys included) in the routing; only their ids are kept
+const routingIds = (routing: Record<string, string | ModelConfig | undefined>): Partial<Record<ModelTask, string>> =>
+    Object.fromEntries(Object.entries(routing)
+        .map(([task, route]) => [task, typeof route === 'string' ? route : route?.id])
+        .filter(([, id]) => id));
+
 const createDefaultSettings = async (): Promise<NovelSettings> => {
     const base = getBaseDefaultSettings();
+    try {
+        const saved = localStorage.getItem('model_routing');
+        if (saved) base.modelRouting = routingIds(JSON.parse(saved));
+    } catch (e) {
+        console.warn("Failed to load model routing preference", e);
+    }
     try {
         const activeModelId = localStorage.getItem('active_model_config_id');
         if (activeModelId) {
@@ -136,27 +174,6 @@ const groupChaptersByVolume = (chapters: Chapter[]): VolumeGroup[] => {
     return result;
 };
 
-const getContextFromChapters = (chapters: Chapter[], currentId: number, maxChars: number = 12000): string => {
-    let context = "";
-    const idx = chapters.findIndex(c => c.id === currentId);
-    if (idx <= 0) return ""; 
-
-    for (let i = idx - 1; i >= 0; i--) {
-        const ch = chapters[i];
-        if (ch.isDone && ch.content) {
-            const text = ch.content;
-            if (context.length + text.length > maxChars) {
-                const needed = maxChars - context.length;
-                context = text.slice(-needed) + "\n\n" + context;
-                break;
-            } else {
-                context = text + "\n\n" + context;
-            }
-        }
-    }
-    return context;
-};
-
 export const App: React.FC = () => {
   const [state, setState] = useState<NovelState>({
     settings: getBaseDefaultSettings(), 
@@ -165,6 +182,7 @@ export const App: React.FC = () => {
     currentChapterId: null,
     status: 'idle',
     consistencyReport: null,
+    factLedger: [],
     usage: { inputTokens: 0, outputTokens: 0 }
   });
 
@@ -176,6 +194,16 @@ export const App: React.FC = () => {
   const [showPlotPlanner, setShowPlotPlanner] = useState(false);
   const [showImporter, setShowImporter] = useState(false);
   const [showConsistencyReport, setShowConsistencyReport] = useState(false);
+  const [showRewriteAll, setShowRewriteAll] = useState(false);
+  const [showGrammarBatch, setShowGrammarBatch] = useState(false);
+  const [showCompliance, setShowCompliance] = useState(false);
+  // Issues from the whole-novel check, handed to the Reader for the chapter opened from the results
+  const [grammarReview, setGrammarReview] = useState<{ chapterId: number; issues: GrammarIssue[] } | null>(null);
+  const [showFactLedger, setShowFactLedger] = useState(false);
+  const [rewriteJob, setRewriteJob] = useState<RewriteJob | null>(null);
+  const [showQueuePanel, setShowQueuePanel] = useState(false);
+  const [queueJobs, setQueueJobs] = useState<GenerationJob[]>([]);
+  const [isQueueRunning, setIsQueueRunning] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [lastAutoSaveTime, setLastAutoSaveTime] = useState<Date | null>(null);
   
@@ -185,6 +213,13 @@ export const App: React.FC = () => {
   const [expandedVolumes, setExpandedVolumes] = useState<Record<number, boolean>>({});
 
   const settingsRef = useRef(state.settings);
+  const stateRef = useRef(state);
+  // Why the running rewrite job was aborted ('discard' = the novel was closed, drop the job silently)
+  const rewriteStopRef = useRef<'pause' | 'cancel' | 'discard' | null>(null);
+  const queueControllerRef = useRef<AbortController | null>(null);
+  // Settles when the current queue worker has fully unwound
+  const queueWorkerRef = useRef<Promise<void> | null>(null);
+  const queueStopRef = useRef<'pause' | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
   const autoSaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
@@ -200,7 +235,8 @@ export const App: React.FC = () => {
                      apiKey: defaults.apiKey,
                      modelName: defaults.modelName,
                      baseUrl: defaults.baseUrl,
-                     maxOutputTokens: defaults.maxOutputTokens
+                     maxOutputTokens: defaults.maxOutputTokens,
+                     modelRouting: defaults.modelRouting
                  }
              }));
          }
@@ -212,8 +248,12 @@ export const App: React.FC = () => {
     settingsRef.current = state.settings;
   }, [state.settings]);
 
+  useEffect(() => {
+    stateRef.current = state;
+  }, [state]);
+
   const refreshLibrary = async () => {
-      const dao = DAOFactory.getDAO(state.settings.storage.type === 'mysql' ? state.settings : getBaseDefaultSettings());
+      const dao = DAOFactory.getDAO(state.settings);
       try {
           const novels = await dao.listNovels();
           setSavedNovels(novels.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()));
@@ -224,7 +264,16 @@ export const App: React.FC = () => {
 
   useEffect(() => {
       refreshLibrary();
-  }, [state.settings.storage.type]); 
+      registerModelConfigs(state.settings);
+      const dao = DAOFactory.getDAO(state.settings);
+      if (dao instanceof SQLiteDAO) {
+          dao.init()
+              .then(() => {
+                  if (dao.isReadOnly()) alert("该数据库已在另一个标签页中打开，此标签页为只读，修改不会被保存。请关闭其他标签页后刷新。");
+              })
+              .catch(e => console.error("Failed to open database", e));
+      }
+  }, [state.settings.storage.type, state.settings.storage.sqlitePath]); 
 
   const handleLoadNovel = async (id: string) => {
       if (state.status === 'generating_outline') return;
@@ -255,12 +304,19 @@ export const App: React.FC = () => {
                  loaded.settings.roles = [];
                  loaded.settings.plots = [];
               }
+              if (loadedSettings.modelRouting) loaded.settings.modelRouting = routingIds(loadedSettings.modelRouting);
               if (!loaded.settings.pacing) loaded.settings.pacing = 'Moderate';
               if (!loaded.settings.rhetoricLevel) loaded.settings.rhetoricLevel = 'Moderate';
+              // Remote storage keeps no API keys; fall back to this browser's key for the same provider
+              if (!loaded.settings.apiKey && loaded.settings.provider === state.settings.provider) {
+                  loaded.settings.apiKey = state.settings.apiKey;
+              }
 
               if (loaded.characters && Array.isArray(loaded.characters)) {
-                  loaded.characters = loaded.characters.map(GeminiService.sanitizeCharacter);
+                  // Older saves have no character ids and free-text relationships
+                  loaded.characters = GeminiService.sanitizeCharacters(loaded.characters);
               }
+              discardRewriteJob();
               setState(loaded);
               setLastAutoSaveTime(new Date());
               setSidebarOpen(true);
@@ -291,7 +347,7 @@ export const App: React.FC = () => {
       }
   };
 
-  const performSave = async (currentState: NovelState, isAuto: boolean = false) => {
+  const performSave = async (currentState: NovelState, isAuto: boolean = false): Promise<string | undefined> => {
       if (!currentState.settings.title) return; 
       if (!isAuto) setIsSaving(true);
       try {
@@ -302,6 +358,7 @@ export const App: React.FC = () => {
           }
           setLastAutoSaveTime(new Date());
           await refreshLibrary();
+          return id;
       } catch (e) {
           console.error("Save failed", e);
           if (!isAuto) alert("保存失败 (Save Failed): " + (e as Error).message);
@@ -332,6 +389,7 @@ export const App: React.FC = () => {
         }
       }
       
+      discardRewriteJob();
       if (abortControllerRef.current) {
           abortControllerRef.current.abort();
           abortControllerRef.current = null;
@@ -345,6 +403,7 @@ export const App: React.FC = () => {
         currentChapterId: null,
         status: 'idle',
         consistencyReport: null,
+        factLedger: [],
         usage: { inputTokens: 0, outputTokens: 0 }
       });
       setResetKey(prev => prev + 1); 
@@ -379,15 +438,93 @@ export const App: React.FC = () => {
     setAppearance(prev => ({ ...prev, ...newAppearance }));
   };
 
-  const handleUpdateChapter = (chapterId: number, newContent: string) => {
+  // Snapshots the chapter's current text before it is replaced. Needs a saved novel (for its id).
+  const snapshotChapterVersion = async (chapter: Chapter, source: ChapterVersionSource) => {
+      const settings = settingsRef.current;
+      if (!settings.id || !chapter.content) return;
+      try {
+          await DAOFactory.getDAO(settings).saveChapterVersion({
+              id: crypto.randomUUID(),
+              novelId: settings.id,
+              chapterId: chapter.id,
+              title: chapter.title,
+              content: chapter.content,
+              source,
+              createdAt: new Date()
+          });
+      } catch (e) {
+          console.error("Failed to save chapter version", e);
+      }
+  };
+
+  // Re-extracts a chapter's facts into the ledger. Entries the user added or edited for that chapter are kept.
+  const updateFactLedger = async (chapterId: number, content: string) => {
+      const novelId = settingsRef.current.id;
+      try {
+          const facts = await GeminiService.extractChapterFacts(content, chapterId, stateRef.current.characters, settingsRef.current, handleUsageUpdate);
+          setState(prev => prev.settings.id !== novelId ? prev : ({
+              ...prev,
+              factLedger: [...(prev.factLedger || []).filter(f => f.chapterId !== chapterId || f.isManual), ...facts]
+          }));
+      } catch (e) {
+          console.error("Fact extraction failed", e);
+      }
+  };
+
+  const updateCharacterStates = async (chapterId: number, content: string) => {
+      const novelId = settingsRef.current.id;
+      try {
+          const updates = await GeminiService.extractCharacterStates(content, chapterId, stateRef.current.characters, settingsRef.current, handleUsageUpdate);
+          setState(prev => prev.settings.id !== novelId ? prev : ({
+              ...prev,
+              characters: applyCharacterStates(prev.characters, chapterId, updates)
+          }));
+      } catch (e) {
+          console.error("Character state extraction failed", e);
+      }
+  };
+
+  // Continuity bookkeeping after a chapter is written: fact ledger and character states
+  const trackChapterContinuity = (chapterId: number, content: string) =>
+      Promise.all([updateFactLedger(chapterId, content), updateCharacterStates(chapterId, content)]);
+
+  const handleUpdateFactLedger = (facts: FactEntry[]) => {
+      setState(prev => ({ ...prev, factLedger: facts }));
+  };
+
+  const handleUpdateChapter = (chapterId: number, newContent: string, source?: ChapterVersionSource) => {
+    const current = state.chapters.find(c => c.id === chapterId);
+    if (source && current && current.content !== newContent) {
+        snapshotChapterVersion(current, source);
+    }
     setState(prev => {
         const nextChapters = prev.chapters.map(c => 
-            c.id === chapterId ? { ...c, content: newContent, isDone: true } : c
+            c.id === chapterId
+                ? {
+                    ...c, content: newContent, isDone: true, isManuallyEdited: source === 'manual_edit' ? true : c.isManuallyEdited,
+                    // A flagged chapter is re-scanned so the flag clears once the terms are edited out
+                    complianceHits: c.complianceHits === undefined ? undefined : scanCompliance(newContent, complianceConfig(prev.settings).rules).length
+                  }
+                : c
         );
         return { ...prev, chapters: nextChapters };
     });
   };
 
+  // Rule matches in freshly generated text, or undefined when scanning after generation is off
+  const generatedComplianceHits = (content: string) => {
+    const config = complianceConfig(settingsRef.current);
+    return config.checkOnGenerate && config.rules.length > 0 ? scanCompliance(content, config.rules).length : undefined;
+  };
+
+  const recordComplianceResults = (results: ChapterComplianceResult[]) => {
+    const hits = new Map(results.map(r => [r.chapterId, r.hits.length]));
+    setState(prev => ({
+        ...prev,
+        chapters: prev.chapters.map(c => hits.has(c.id) ? { ...c, complianceHits: hits.get(c.id) } : c)
+    }));
+  };
+
   const handleUpdateChapterData = (chapterId: number, data: Partial<Chapter>) => {
     setState(prev => ({
         ...prev,
@@ -399,6 +536,29 @@ export const App: React.FC = () => {
       setState(prev => ({ ...prev, characters: newCharacters }));
   };
 
+  // Carries a character's new name through the text after the user confirmed the preview
+  const handleRenameCharacter = async (oldName: string, newName: string, targets: RenameTarget[]) => {
+      const current = stateRef.current;
+      const preview = replaceName(oldName, newName, targets, {
+          chapters: current.chapters, settings: current.settings, facts: current.factLedger || []
+      });
+      const changed = current.chapters.filter((c, i) => preview.chapters[i].content !== c.content);
+      await Promise.all(changed.map(c => snapshotChapterVersion(c, 'rename')));
+      // Replace against the latest state: chapters may have been edited or generated while the snapshots were saved
+      setState(prev => {
+          if (prev.settings.id !== current.settings.id) return prev;
+          const renamed = replaceName(oldName, newName, targets, {
+              chapters: prev.chapters, settings: prev.settings, facts: prev.factLedger || []
+          });
+          return {
+              ...prev,
+              chapters: renamed.chapters,
+              settings: { ...prev.settings, plotData: renamed.settings.plotData, structuredWorld: renamed.settings.structuredWorld },
+              factLedger: renamed.facts
+          };
+      });
+  };
+
   const handleUpdateWorld = (newWorld: WorldData) => {
       const summary = `
 Geography: ${newWorld.geography}
@@ -432,7 +592,7 @@ Technology: ${newWorld.technology}
           ...state,
           settings: { ...state.settings, ...newSettings },
           chapters: newChapters,
-          characters: newCharacters,
+          characters: GeminiService.sanitizeCharacters(newCharacters),
           status: 'ready',
           currentChapterId: newChapters[0]?.id || null,
           usage: state.usage
@@ -497,6 +657,9 @@ Technology: ${newWorld.technology}
   };
 
   const handleStopGeneration = () => {
+      if (queueControllerRef.current) {
+          pauseGenerationQueue();
+      }
       if (abortControllerRef.current) {
           abortControllerRef.current.abort();
           abortControllerRef.current = null;
@@ -536,16 +699,12 @@ Technology: ${newWorld.technology}
     if (!force && (chapter.isDone || chapter.isGenerating)) return;
 
     if (force) {
-        if (!window.confirm("确定要重写本章吗？现有内容将被覆盖。\nAre you sure you want to rewrite this chapter? Current content will be lost.")) {
+        if (!window.confirm("确定要重写本章吗？当前内容会保存到版本历史。\nRewrite this chapter? The current text will be kept in version history.")) {
             return;
         }
+        await snapshotChapterVersion(chapter, 'ai_rewrite');
     }
 
-    const previousChapters = state.chapters.filter(c => c.isDone && c.id < chapterId);
-    const storySummaries = previousChapters.map(c => `Chapter ${c.id}: ${c.summary}`).join("\n");
-    
-    const previousChapterContent = getContextFromChapters(state.chapters, chapterId, 12000);
-
     setState(prev => {
       const newChapters = [...prev.chapters];
       newChapters[chapterIndex] = { ...chapter, isGenerating: true, content: force ? '' : (chapter.content || ''), isDone: false };
@@ -556,9 +715,9 @@ Technology: ${newWorld.technology}
       let stream = GeminiService.generateChapterStream(
           settingsRef.current, 
           chapter, 
-          storySummaries, 
-          previousChapterContent,
+          state.chapters,
           state.characters, 
+          state.factLedger || [],
           controller.signal,
           handleUsageUpdate
       );
@@ -621,13 +780,14 @@ Technology: ${newWorld.technology}
             const generatedSummary = await GeminiService.summarizeChapter(fullContent, settingsRef.current, handleUsageUpdate);
             if (generatedSummary) finalSummary = generatedSummary;
           } catch (err) { console.error("Summary failed", err); }
+          await trackChapterContinuity(chapterId, fullContent);
       }
 
       setState(prev => {
         const nextChapters = [...prev.chapters];
         const idx = nextChapters.findIndex(c => c.id === chapterId);
         if (idx !== -1) {
-          nextChapters[idx] = { ...nextChapters[idx], content: fullContent, summary: finalSummary, isGenerating: false, isDone: true };
+          nextChapters[idx] = { ...nextChapters[idx], content: fullContent, summary: finalSummary, isGenerating: false, isDone: true, isManuallyEdited: false };
         }
         return { ...prev, chapters: nextChapters };
       });
@@ -651,6 +811,16 @@ Technology: ${newWorld.technology}
     }
   };
 
+  const refreshQueueJobs = async (novelId: string | undefined = settingsRef.current.id) => {
+      if (!novelId) {
+          setQueueJobs([]);
+          return [];
+      }
+      const jobs = await GenerationQueue.getInstance().list(novelId);
+      if (settingsRef.current.id === novelId) setQueueJobs(jobs);
+      return jobs;
+  };
+
   const handleAutoGenerate = async () => {
     if (state.chapters.every(c => c.isDone)) {
         if (window.confirm("All chapters done. Rewrite all?")) {
@@ -658,174 +828,531 @@ Technology: ${newWorld.technology}
         }
         return;
     }
+    if (rewriteJob?.status === 'running') {
+        alert("批量重写进行中，请先暂停或取消。");
+        return;
+    }
 
-    if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
+    // Jobs are keyed by novel id, so an unsaved novel is saved first
+    const novelId = state.settings.id || await performSave(state, true);
+    if (!novelId) {
+        alert("请先填写作品标题并保存。");
+        return;
     }
-    const controller = new AbortController();
-    abortControllerRef.current = controller;
 
-    let cumulativeSummaries = "";
-    const alreadyDone = state.chapters.filter(c => c.isDone);
-    cumulativeSummaries = alreadyDone.map(c => `Chapter ${c.id}: ${c.summary}`).join("\n");
-    
-    const lastDoneId = alreadyDone.length > 0 ? alreadyDone[alreadyDone.length - 1].id : 0;
-    let previousChapterContent = getContextFromChapters(state.chapters, lastDoneId + 1, 12000); 
-
-    for (let i = 0; i < state.chapters.length; i++) {
-        if (controller.signal.aborted) break;
-
-        const chapter = state.chapters[i];
-        if (chapter.isDone) {
-             if (!cumulativeSummaries.includes(`Chapter ${chapter.id}:`)) cumulativeSummaries += `\nChapter ${chapter.id}: ${chapter.summary}`;
-             if (chapter.content) {
-                 previousChapterContent = (previousChapterContent + "\n\n" + chapter.content).slice(-12000);
-             }
-             continue;
-        }
+    try {
+        const queue = GenerationQueue.getInstance();
+        await queue.enqueue(novelId, state.chapters.filter(c => !c.isDone).map(c => c.id));
+        // Enqueuing again also resumes anything paused earlier
+        const paused = (await queue.list(novelId)).filter(j => j.status === 'paused');
+        await queue.updateMany(paused.map(j => ({ ...j, status: 'pending', nextAttemptAt: Date.now() })));
+        await refreshQueueJobs(novelId);
+    } catch (e: any) {
+        console.error("Failed to enqueue chapters", e);
+        alert("无法创建生成队列: " + e.message);
+        return;
+    }
+    setShowQueuePanel(true);
+    runGenerationQueue(novelId);
+  };
 
-        if (i > 0) {
-            await new Promise(resolve => setTimeout(resolve, 5000)); 
-        }
-        if (controller.signal.aborted) break;
-
-        setState(prev => ({ 
-            ...prev, 
-            currentChapterId: chapter.id,
-            chapters: prev.chapters.map((c, idx) => idx === i ? { ...c, isGenerating: true } : c)
-        }));
-
-        let retries = 0;
-        const MAX_RETRIES = 1;
-        let success = false;
-
-        while (!success && retries <= MAX_RETRIES) {
-            if (controller.signal.aborted) break;
-            try {
-                let fullContent = "";
-                let stream = GeminiService.generateChapterStream(
-                    settingsRef.current, chapter, cumulativeSummaries, previousChapterContent, state.characters, 
-                    controller.signal, handleUsageUpdate
-                );
-                
-                for await (const chunk of stream) {
-                    fullContent += chunk;
-                    setState(prev => {
-                        const nextChapters = [...prev.chapters];
-                        nextChapters[i] = { ...nextChapters[i], content: fullContent };
-                        return { ...prev, chapters: nextChapters };
-                    });
-                }
-                
-                let summary = chapter.summary;
-                if (!controller.signal.aborted) {
-                    try {
-                        const genSummary = await GeminiService.summarizeChapter(fullContent, settingsRef.current, handleUsageUpdate); 
-                        if (genSummary) summary = genSummary;
-                    } catch (e) {}
-                }
-
-                setState(prev => {
-                    const nextChapters = [...prev.chapters];
-                    nextChapters[i] = { ...nextChapters[i], content: fullContent, summary: summary, isGenerating: false, isDone: true };
-                    return { ...prev, chapters: nextChapters };
-                });
-
-                cumulativeSummaries += `\nChapter ${chapter.id}: ${summary}`;
-                previousChapterContent = (previousChapterContent + "\n\n" + fullContent).slice(-12000);
-                
-                await performSave(state, true);
-                success = true;
-
-            } catch (error: any) {
-                if (error.name === 'AbortError' || error.message?.includes('Aborted')) break;
-                
-                const errorMsg = error.message || "";
-                if (errorMsg.includes("Content Safety") || errorMsg.includes("inappropriate content")) {
-                    console.warn(`Chapter ${chapter.id} skipped due to Content Safety.`);
-                    setState(prev => {
-                        const nextChapters = [...prev.chapters];
-                        nextChapters[i] = { ...nextChapters[i], isGenerating: false, content: (nextChapters[i].content || "") + "\n\n[Skipped Safety]", isDone: true };
-                        return { ...prev, chapters: nextChapters };
-                    });
-                    success = true;
-                    continue;
-                }
-
-                const isRateLimit = errorMsg.includes('429') || errorMsg.includes('quota');
-                if (isRateLimit && retries < MAX_RETRIES) {
-                    retries++;
-                    await new Promise(resolve => setTimeout(resolve, 60000));
-                    continue; 
-                }
-
-                setState(prev => {
-                    const nextChapters = [...prev.chapters];
-                    nextChapters[i] = { ...nextChapters[i], isGenerating: false };
-                    return { ...prev, chapters: nextChapters };
-                });
-                alert(`Auto-generation paused at Chapter ${chapter.id}: ${errorMsg}`);
-                return; 
+  // Drains the persisted queue of one novel in chapter order. Later chapters wait for earlier
+  // ones (they need their text as context), including while an earlier job backs off.
+  const runGenerationQueue = async (novelId: string) => {
+      if (queueControllerRef.current) return;
+      const controller = new AbortController();
+      queueControllerRef.current = controller;
+      let settleWorker = () => {};
+      queueWorkerRef.current = new Promise<void>(resolve => { settleWorker = resolve; });
+      queueStopRef.current = null;
+      setIsQueueRunning(true);
+
+      const queue = GenerationQueue.getInstance();
+      try {
+          while (!controller.signal.aborted && settingsRef.current.id === novelId) {
+              const jobs = await refreshQueueJobs(novelId);
+              const next = jobs.find(j => j.status === 'pending');
+              if (!next) break;
+
+              const delay = next.nextAttemptAt - Date.now();
+              if (delay > 0) {
+                  await new Promise<void>(resolve => {
+                      const timer = setTimeout(resolve, delay);
+                      controller.signal.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+                  });
+                  continue;
+              }
+              await processGenerationJob(next, controller);
+          }
+      } catch (e) {
+          console.error("Generation queue stopped", e);
+      } finally {
+          if (queueControllerRef.current === controller) queueControllerRef.current = null;
+          setIsQueueRunning(false);
+          refreshQueueJobs().catch(() => {});
+          settleWorker();
+      }
+  };
+
+  const processGenerationJob = async (job: GenerationJob, controller: AbortController) => {
+      const queue = GenerationQueue.getInstance();
+      const chapters = stateRef.current.chapters;
+      const chapter = chapters.find(c => c.id === job.chapterId);
+      if (!chapter || chapter.isDone) {
+          await queue.remove(job.id);
+          return;
+      }
+
+      const running: GenerationJob = { ...job, status: 'running', attempts: job.attempts + 1 };
+      await queue.update(running);
+      await refreshQueueJobs(job.novelId);
+
+      // Ignore late stream chunks once the user has switched to another novel
+      const setChapter = (data: Partial<Chapter>) => setState(prev => prev.settings.id !== job.novelId ? prev : ({
+          ...prev,
+          chapters: prev.chapters.map(c => c.id === job.chapterId ? { ...c, ...data } : c)
+      }));
+      setState(prev => prev.settings.id !== job.novelId ? prev : ({ ...prev, currentChapterId: job.chapterId }));
+      setChapter({ isGenerating: true, content: '' });
+
+      try {
+          let fullContent = "";
+          const stream = GeminiService.generateChapterStream(
+              settingsRef.current, chapter, chapters, stateRef.current.characters, stateRef.current.factLedger || [],
+              controller.signal, handleUsageUpdate
+          );
+          for await (const chunk of stream) {
+              fullContent += chunk;
+              setChapter({ content: fullContent });
+          }
+          if (controller.signal.aborted) throw new DOMException('Aborted', 'AbortError');
+
+          let summary = chapter.summary;
+          try {
+              const generated = await GeminiService.summarizeChapter(fullContent, settingsRef.current, handleUsageUpdate);
+              if (generated) summary = generated;
+          } catch (e) { console.error("Summary failed", e); }
+          await trackChapterContinuity(job.chapterId, fullContent);
+
+          setChapter({
+              content: fullContent, summary, isGenerating: false, isDone: true, isManuallyEdited: false,
+              complianceHits: generatedComplianceHits(fullContent)
+          });
+          await queue.remove(job.id);
+      } catch (error: any) {
+          setChapter({ content: chapter.content, isGenerating: false });
+
+          if (controller.signal.aborted || error.name === 'AbortError') {
+              // An interrupted attempt doesn't count against the job
+              await queue.update({ ...running, attempts: job.attempts, status: queueStopRef.current === 'pause' ? 'paused' : 'pending' });
+              return;
+          }
+
+          const errorMsg = error.message || "Unknown";
+          if (isSafetyError(errorMsg) || running.attempts >= MAX_JOB_ATTEMPTS) {
+              await queue.update({ ...running, status: 'failed', lastError: errorMsg });
+          } else {
+              await queue.update({
+                  ...running,
+                  status: 'pending',
+                  lastError: errorMsg,
+                  nextAttemptAt: Date.now() + getBackoffDelay(running.attempts, errorMsg)
+              });
+          }
+      }
+  };
+
+  const pauseGenerationQueue = async () => {
+      const novelId = settingsRef.current.id;
+      queueStopRef.current = 'pause';
+      queueControllerRef.current?.abort();
+      if (!novelId) return;
+      const queue = GenerationQueue.getInstance();
+      const pending = (await queue.list(novelId)).filter(j => j.status === 'pending');
+      await queue.updateMany(pending.map(j => ({ ...j, status: 'paused' })));
+      await refreshQueueJobs(novelId);
+  };
+
+  const resumeGenerationQueue = async () => {
+      const novelId = settingsRef.current.id;
+      if (!novelId) return;
+      const queue = GenerationQueue.getInstance();
+      const resumable = (await queue.list(novelId)).filter(j => j.status === 'paused');
+      await queue.updateMany(resumable.map(j => ({ ...j, status: 'pending', nextAttemptAt: Date.now() })));
+      await refreshQueueJobs(novelId);
+      runGenerationQueue(novelId);
+  };
+
+  // Failed jobs get a fresh set of attempts
+  const retryQueueJob = async (jobId?: string) => {
+      const novelId = settingsRef.current.id;
+      if (!novelId) return;
+      const queue = GenerationQueue.getInstance();
+      const failed = (await queue.list(novelId)).filter(j => j.status === 'failed' && (!jobId || j.id === jobId));
+      await queue.updateMany(failed.map(j => ({ ...j, status: 'pending', attempts: 0, nextAttemptAt: Date.now() })));
+      await refreshQueueJobs(novelId);
+      runGenerationQueue(novelId);
+  };
+
+  const removeQueueJob = async (jobId: string) => {
+      const job = queueJobs.find(j => j.id === jobId);
+      if (job?.status === 'running') return;
+      await GenerationQueue.getInstance().remove(jobId);
+      await refreshQueueJobs();
+  };
+
+  const clearGenerationQueue = async () => {
+      const novelId = settingsRef.current.id;
+      if (!novelId || !window.confirm("清空该作品的生成队列？")) return;
+      queueStopRef.current = 'pause';
+      queueControllerRef.current?.abort();
+      await GenerationQueue.getInstance().clear(novelId);
+      await refreshQueueJobs(novelId);
+  };
+
+  // Pick the queue back up whenever a novel is opened (including after a page reload)
+  useEffect(() => {
+      const novelId = state.settings.id;
+      const previousWorker = queueWorkerRef.current;
+      if (queueControllerRef.current) {
+          queueStopRef.current = null;
+          queueControllerRef.current.abort();
+      }
+      if (!novelId) {
+          setQueueJobs([]);
+          return;
+      }
+      (async () => {
+          try {
+              // Let the aborted worker of the previous novel unwind first; until it does, it still
+              // holds queueControllerRef and a new worker would refuse to start
+              await previousWorker;
+              const queue = GenerationQueue.getInstance();
+              // A 'running' job here was cut off by a reload or by switching novels
+              const interrupted = (await queue.list(novelId)).filter(j => j.status === 'running');
+              await queue.updateMany(interrupted.map(j => ({ ...j, status: 'pending' })));
+              const jobs = await refreshQueueJobs(novelId);
+              if (jobs.some(j => j.status === 'pending') && settingsRef.current.id === novelId) {
+                  runGenerationQueue(novelId);
+              }
+          } catch (e) {
+              console.error("Failed to restore generation queue", e);
+          }
+      })();
+  }, [state.settings.id]);
+
+  const handleRewriteAll = () => {
+     setShowRewriteAll(true);
+  };
+
+  const handleOpenGrammarReview = (chapterId: number, issues: GrammarIssue[]) => {
+      setGrammarReview({ chapterId, issues });
+      selectChapter(chapterId);
+      setCurrentView('workspace');
+      setShowGrammarBatch(false);
+  };
+
+  const startRewriteJob = (options: RewriteAllOptions) => {
+      const inRange = stateRef.current.chapters.filter(c => c.id >= options.fromChapterId && c.id <= options.toChapterId);
+      const skipped = options.keepManualEdits ? inRange.filter(c => c.isManuallyEdited).map(c => c.id) : [];
+      const queue = inRange.map(c => c.id).filter(id => !skipped.includes(id));
+      runRewriteJob({
+          options,
+          status: 'running',
+          queue,
+          completed: [],
+          skipped,
+          failed: [],
+          total: inRange.length,
+          outlineApplied: !options.regenerateOutline,
+          currentChapterId: null
+      });
+  };
+
+  const pauseRewriteJob = () => {
+      rewriteStopRef.current = 'pause';
+      abortControllerRef.current?.abort();
+  };
+
+  const cancelRewriteJob = () => {
+      rewriteStopRef.current = 'cancel';
+      abortControllerRef.current?.abort();
+  };
+
+  const discardRewriteJob = () => {
+      if (rewriteJob?.status === 'running') {
+          rewriteStopRef.current = 'discard';
+          abortControllerRef.current?.abort();
+      }
+      setRewriteJob(null);
+  };
+
+  const resumeRewriteJob = () => {
+      if (rewriteJob && rewriteJob.status === 'paused') runRewriteJob(rewriteJob);
+  };
+
+  // Rewrites the queued chapters one by one. Pause/cancel abort the chapter in flight and
+  // put its previous text back; a paused job keeps that chapter at the head of its queue.
+  const runRewriteJob = async (job: RewriteJob) => {
+      if (isQueueRunning) {
+          alert("生成队列正在运行，请先暂停队列。");
+          return;
+      }
+      if (abortControllerRef.current) {
+          abortControllerRef.current.abort();
+      }
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      rewriteStopRef.current = null;
+
+      let current: RewriteJob = { ...job, status: 'running', message: undefined };
+      const discarded = () => rewriteStopRef.current === 'discard';
+      const update = (patch: Partial<RewriteJob>) => {
+          current = { ...current, ...patch };
+          if (!discarded()) setRewriteJob(current);
+      };
+      const stopped = () => {
+          update({ status: rewriteStopRef.current === 'pause' ? 'paused' : 'cancelled', currentChapterId: null, message: undefined });
+          if (abortControllerRef.current === controller) abortControllerRef.current = null;
+      };
+      const wait = (ms: number) => new Promise<void>(resolve => {
+          const timer = setTimeout(resolve, ms);
+          controller.signal.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+      });
+      update({});
+
+      // Fresh briefs from this run; state catches up before the next resume
+      const planned = new Map<number, { title: string; summary: string }>();
+      if (!current.outlineApplied) {
+          update({ message: '正在重新生成大纲…' });
+          try {
+              const outline = await GeminiService.generateOutline(settingsRef.current, controller.signal, handleUsageUpdate);
+              const existing = new Map<number, Chapter>(stateRef.current.chapters.map(c => [c.id, c]));
+              outline.forEach(o => {
+                  const chapter = existing.get(o.id);
+                  if (chapter && current.queue.includes(o.id)) {
+                      planned.set(o.id, { title: o.title || chapter.title, summary: o.summary || chapter.summary });
+                  }
+              });
+              setState(prev => ({
+                  ...prev,
+                  chapters: prev.chapters.map(c => planned.has(c.id) ? { ...c, ...planned.get(c.id) } : c)
+              }));
+              update({ outlineApplied: true, message: undefined });
+          } catch (error: any) {
+              if (controller.signal.aborted) return stopped();
+              update({ status: 'paused', message: `大纲生成失败: ${error.message || 'Unknown'}` });
+              abortControllerRef.current = null;
+              return;
+          }
+      }
+
+      // Failed attempts on the chapter at the head of the queue; retried with the queue's backoff
+      let attempts = 0;
+      while (current.queue.length > 0) {
+          if (controller.signal.aborted) return stopped();
+
+          const chapterId = current.queue[0];
+          const chapters = stateRef.current.chapters;
+          const chapterIndex = chapters.findIndex(c => c.id === chapterId);
+          if (chapterIndex === -1) {
+              update({ queue: current.queue.slice(1), skipped: [...current.skipped, chapterId] });
+              continue;
+          }
+          const original = { ...chapters[chapterIndex], ...planned.get(chapterId) };
+
+          update({ currentChapterId: chapterId, message: undefined });
+          if (attempts === 0) await snapshotChapterVersion(original, 'ai_rewrite');
+
+          const setChapter = (data: Partial<Chapter>) => !discarded() && setState(prev => ({
+              ...prev,
+              chapters: prev.chapters.map(c => c.id === chapterId ? { ...c, ...data } : c)
+          }));
+          setState(prev => ({ ...prev, currentChapterId: chapterId }));
+          setChapter({ isGenerating: true, content: '', isDone: false });
+
+          try {
+              let fullContent = '';
+              const stream = GeminiService.generateChapterStream(
+                  settingsRef.current, original, chapters, stateRef.current.characters, stateRef.current.factLedger || [],
+                  controller.signal, handleUsageUpdate
+              );
+              for await (const chunk of stream) {
+                  fullContent += chunk;
+                  setChapter({ content: fullContent });
+              }
+              if (controller.signal.aborted) throw new DOMException('Aborted', 'AbortError');
+
+              // With a fresh outline the brief is new, so re-summarize what was actually written
+              let summary = original.summary;
+              if (current.options.regenerateOutline) {
+                  try {
+                      const generated = await GeminiService.summarizeChapter(fullContent, settingsRef.current, handleUsageUpdate);
+                      if (generated) summary = generated;
+                  } catch (e) { console.error("Summary failed", e); }
+              }
+              await trackChapterContinuity(chapterId, fullContent);
+
+              setChapter({
+                  content: fullContent, summary, isGenerating: false, isDone: true, isManuallyEdited: false,
+                  complianceHits: generatedComplianceHits(fullContent)
+              });
+              update({ queue: current.queue.slice(1), completed: [...current.completed, chapterId] });
+              attempts = 0;
+          } catch (error: any) {
+              setChapter({ content: original.content, isDone: original.isDone, isGenerating: false });
+              if (controller.signal.aborted || error.name === 'AbortError') return stopped();
+
+              const errorMsg = error.message || "Unknown";
+              attempts++;
+              if (isSafetyError(errorMsg) || attempts >= MAX_JOB_ATTEMPTS) {
+                  update({ queue: current.queue.slice(1), failed: [...current.failed, { chapterId, reason: errorMsg }] });
+                  attempts = 0;
+                  continue;
+              }
+              const delay = getBackoffDelay(attempts, errorMsg);
+              const reason = isRateLimitError(errorMsg) ? '触发速率限制' : `第 ${chapterId} 章失败`;
+              update({ message: `${reason}，${Math.round(delay / 1000)} 秒后重试（${attempts}/${MAX_JOB_ATTEMPTS}）…` });
+              await wait(delay);
+          }
+      }
+
+      update({ status: 'completed', currentChapterId: null, message: undefined });
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
+  };
+
+  const handleBackupProject = async () => {
+    const novelId = state.settings.id;
+    try {
+        const dao = DAOFactory.getDAO(state.settings);
+        const versions = novelId
+            ? (await Promise.all(state.chapters.map(c => dao.listChapterVersions(novelId, c.id)))).flat()
+            : [];
+        const archive = createProjectArchive(state, versions);
+        downloadBlob(new Blob([JSON.stringify(archive)], { type: 'application/json' }), exportFileName(state.settings.title, 'dreamweaver.json'));
+    } catch (e: any) {
+        console.error("Project backup failed", e);
+        alert("项目备份失败: " + e.message);
+    }
+  };
+
+  const handleRestoreProject = async (file: File) => {
+    try {
+        const archive = parseProjectArchive(await file.text());
+        const dao = DAOFactory.getDAO(state.settings);
+        const existing = (await dao.listNovels()).find(n => n.id === archive.novel.settings.id);
+        let mode: ArchiveRestoreMode = 'overwrite';
+        if (existing) {
+            if (window.confirm(`书架中已有《${existing.title}》。是否用备份覆盖它？（取消可选择作为副本导入）`)) {
+                mode = 'overwrite';
+            } else if (window.confirm(`将《${archive.novel.settings.title}》作为副本导入？`)) {
+                mode = 'copy';
+            } else {
+                return;
             }
         }
+        const restored = restoreProjectArchive(archive, state.settings, mode);
+        const id = await dao.saveNovel(restored.novel);
+        // Overwriting replaces the version history too, so history the archive predates does not linger
+        if (existing && mode === 'overwrite') await dao.deleteChapterVersions(id);
+        await dao.saveChapterVersions(restored.chapterVersions.map(version => ({ ...version, novelId: id })));
+        await refreshLibrary();
+        await handleLoadNovel(id);
+        alert(`已恢复《${restored.novel.settings.title}》：${restored.novel.chapters.length} 章，${restored.chapterVersions.length} 个历史版本。`);
+    } catch (e: any) {
+        console.error("Project restore failed", e);
+        alert("项目恢复失败: " + e.message);
     }
-    abortControllerRef.current = null;
   };
 
-  const handleRewriteAll = async () => {
-     alert("Feature under maintenance.");
+  // Applies the chapter selection and front/back matter chosen in the export dialog
+  const exportDocument = (): ExportDocument | null => {
+    const options = state.settings.exportOptions ?? defaultExportOptions(state.settings);
+    const doc = prepareExport(state.settings, state.chapters, state.characters, options);
+    if (doc.chapters.length === 0) {
+        alert("没有符合导出条件的章节。请检查导出范围，或取消“跳过未完成章节”。");
+        return null;
+    }
+    const compliance = complianceConfig(state.settings);
+    if (compliance.checkBeforeExport && compliance.rules.length > 0) {
+        const results = scanChapters(doc.chapters, compliance.rules);
+        recordComplianceResults(results);
+        const flagged = results.filter(r => r.hits.length > 0);
+        if (flagged.length > 0) {
+            const hitCount = flagged.reduce((sum, r) => sum + r.hits.length, 0);
+            const listed = flagged.slice(0, 10).map(r => r.chapterId).join('、') + (flagged.length > 10 ? ' 等' : '');
+            if (!window.confirm(`合规扫描：第 ${listed} 章共 ${hitCount} 处命中敏感词规则。仍要导出吗？`)) {
+                setShowExportMenu(false);
+                setShowCompliance(true);
+                return null;
+            }
+        }
+    }
+    return doc;
   };
 
   const handleExportText = () => {
-    const text = state.chapters.map(c => 
-        `第 ${c.id} 章 ${c.title}\n\n${c.content}\n`
-    ).join('\n--------------------------------------------------\n\n');
-    const fullText = `Title: ${state.settings.title}\n\n${text}`;
-    const blob = new Blob([fullText], { type: 'text/plain;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${state.settings.title || 'novel'}.txt`;
-    link.click();
+    const doc = exportDocument();
+    if (!doc) return;
+    downloadBlob(new Blob([renderNovelText(doc)], { type: 'text/plain;charset=utf-8' }), exportFileName(state.settings.title, 'txt'));
     setShowExportMenu(false);
   };
 
+  const handleExportEpub = () => {
+    const doc = exportDocument();
+    if (!doc) return;
+    try {
+        const bytes = buildEpub({ ...doc, coverImage: state.settings.coverImage });
+        downloadBlob(new Blob([bytes], { type: 'application/epub+zip' }), exportFileName(state.settings.title, 'epub'));
+        setShowExportMenu(false);
+    } catch (e: any) {
+        console.error("EPUB export failed", e);
+        alert("EPUB 导出失败: " + e.message);
+    }
+  };
+
+  const handleExportDocx = () => {
+    const doc = exportDocument();
+    if (!doc) return;
+    try {
+        const bytes = buildDocx(doc);
+        downloadBlob(
+            new Blob([bytes], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' }),
+            exportFileName(state.settings.title, 'docx')
+        );
+        setShowExportMenu(false);
+    } catch (e: any) {
+        console.error("DOCX export failed", e);
+        alert("DOCX 导出失败: " + e.message);
+    }
+  };
+
+  const exportLayout = () => state.settings.exportLayout ?? defaultPageLayout(state.settings);
+
   const handleExportPDF = () => {
-    const content = state.chapters.map(c => `
-        <div class="chapter">
-            <h2>第 ${c.id} 章：${c.title}</h2>
-            <div class="content">${c.content.replace(/\n/g, '<br/>')}</div>
-        </div>
-    `).join('');
-    
-    const html = `
-        <html>
-        <head>
-            <title>${state.settings.title}</title>
-            <style>
-                body { font-family: 'Times New Roman', Serif, 'Songti SC', 'SimSun'; padding: 40px; max-width: 800px; margin: 0 auto; }
-                h1 { text-align: center; margin-bottom: 50px; }
-                .chapter { page-break-before: always; margin-top: 50px; }
-                .chapter:first-child { page-break-before: auto; }
-                .content { line-height: 1.8; text-align: justify; white-space: pre-wrap; font-size: 16px; }
-                @media print {
-                    body { padding: 0; }
-                }
-            </style>
-        </head>
-        <body>
-            <h1>${state.settings.title}</h1>
-            <p style="text-align:center; color: #666;">Generated by DreamWeaver</p>
-            ${content}
-            <script>window.onload = () => window.print();</script>
-        </body>
-        </html>
-    `;
-    const win = window.open('', '_blank');
-    if (win) {
-        win.document.write(html);
-        win.document.close();
+    const doc = exportDocument();
+    if (!doc) return;
+    try {
+        const bytes = buildPdf({ ...doc, layout: exportLayout() });
+        downloadBlob(new Blob([bytes], { type: 'application/pdf' }), exportFileName(state.settings.title, 'pdf'));
+        setShowExportMenu(false);
+    } catch (e: any) {
+        console.error("PDF export failed", e);
+        alert("PDF 导出失败: " + e.message);
     }
+  };
+
+  const handleExportHtml = () => {
+    const doc = exportDocument();
+    if (!doc) return;
+    downloadBlob(new Blob([renderNovelHtml({ ...doc, layout: exportLayout() })], { type: 'text/html;charset=utf-8' }), exportFileName(state.settings.title, 'html'));
+    setShowExportMenu(false);
+  };
+
+  const handlePrint = () => {
+    const doc = exportDocument();
+    if (!doc) return;
+    printHtml(renderNovelHtml({ ...doc, layout: exportLayout() }));
     setShowExportMenu(false);
   };
 
@@ -844,10 +1371,18 @@ Technology: ${newWorld.technology}
           onNavigate={setCurrentView}
           onImport={() => setShowImporter(true)}
           onExport={() => setShowExportMenu(true)}
+          onBackupProject={handleBackupProject}
+          onRestoreProject={handleRestoreProject}
           chapters={state.chapters}
           currentChapterId={state.currentChapterId}
           onChapterSelect={selectChapter}
           onAutoGenerate={handleAutoGenerate}
+          onRewriteAll={handleRewriteAll}
+          onGrammarBatch={state.chapters.length > 0 ? () => setShowGrammarBatch(true) : undefined}
+          onCompliance={state.chapters.length > 0 ? () => setShowCompliance(true) : undefined}
+          onShowQueue={() => setShowQueuePanel(true)}
+          queueCount={queueJobs.length}
+          isQueueRunning={isQueueRunning}
         />
       </div>
 
@@ -880,6 +1415,8 @@ Technology: ${newWorld.technology}
                 onStop={handleStopGeneration}
                 chapters={state.chapters}
                 onChapterSelect={selectChapter}
+                grammarReview={grammarReview}
+                onUpdateSettings={(patch) => setState(prev => ({ ...prev, settings: { ...prev.settings, ...patch } }))}
               />
             )}
           </>
@@ -894,7 +1431,7 @@ Technology: ${newWorld.technology}
         )}
 
         {currentView === 'settings-storage' && (
-            <StorageConfigManager settings={state.settings} onSettingsChange={handleSettingsChange} />
+            <StorageConfigManager settings={state.settings} onSettingsChange={handleSettingsChange} onDataImported={refreshLibrary} />
         )}
 
         {currentView === 'settings-language' && (
@@ -913,6 +1450,9 @@ Technology: ${newWorld.technology}
                     <button onClick={() => setShowPlotPlanner(true)} className="p-3 bg-white rounded-full shadow-lg border border-gray-200 text-gray-600 hover:text-indigo-600 transition-colors" title="情节规划">
                         <GitMerge size={20} />
                     </button>
+                    <button onClick={() => setShowFactLedger(true)} className="p-3 bg-white rounded-full shadow-lg border border-gray-200 text-gray-600 hover:text-indigo-600 transition-colors" title="事实账本">
+                        <BookMarked size={20} />
+                    </button>
                     <button onClick={() => setShowConsistencyReport(true)} className="p-3 bg-white rounded-full shadow-lg border border-gray-200 text-gray-600 hover:text-indigo-600 transition-colors" title="一致性检查">
                         <FileSearch size={20} />
                     </button>
@@ -937,6 +1477,8 @@ Technology: ${newWorld.technology}
         onUpdateCharacters={handleUpdateCharacters}
         settings={state.settings}
         chapters={state.chapters}
+        facts={state.factLedger || []}
+        onRenameCharacter={handleRenameCharacter}
       />
       
       <WorldBuilder 
@@ -960,6 +1502,15 @@ Technology: ${newWorld.technology}
         onFixConsistency={(id) => generateChapterContent(true)}
       />
 
+      <FactLedger
+        isOpen={showFactLedger}
+        onClose={() => setShowFactLedger(false)}
+        facts={state.factLedger || []}
+        chapters={state.chapters}
+        onUpdateFacts={handleUpdateFactLedger}
+        onExtract={(chapter) => updateFactLedger(chapter.id, chapter.content || '')}
+      />
+
       <Importer
         isOpen={showImporter}
         onClose={() => setShowImporter(false)}
@@ -967,12 +1518,65 @@ Technology: ${newWorld.technology}
         baseSettings={state.settings}
       />
 
+      <RewriteAllModal
+        isOpen={showRewriteAll}
+        onClose={() => setShowRewriteAll(false)}
+        chapters={state.chapters}
+        job={rewriteJob}
+        isQueueRunning={isQueueRunning}
+        onStart={startRewriteJob}
+        onPause={pauseRewriteJob}
+        onResume={resumeRewriteJob}
+        onCancel={cancelRewriteJob}
+        onReset={() => setRewriteJob(null)}
+      />
+
+      <GrammarBatchModal
+        key={state.settings.id}
+        isOpen={showGrammarBatch}
+        onClose={() => setShowGrammarBatch(false)}
+        chapters={state.chapters}
+        settings={state.settings}
+        onOpenChapter={handleOpenGrammarReview}
+      />
+
+      <ComplianceModal
+        key={`compliance-${state.settings.id}`}
+        isOpen={showCompliance}
+        onClose={() => setShowCompliance(false)}
+        chapters={state.chapters}
+        settings={state.settings}
+        onUpdateSettings={(patch) => setState(prev => ({ ...prev, settings: { ...prev.settings, ...patch } }))}
+        onScanned={recordComplianceResults}
+        onApplyFixes={(chapterId, content) => handleUpdateChapter(chapterId, content, 'compliance_fix')}
+        onOpenChapter={(chapterId) => { selectChapter(chapterId); setCurrentView('workspace'); setShowCompliance(false); }}
+      />
+
+      <GenerationQueuePanel
+        isOpen={showQueuePanel}
+        onClose={() => setShowQueuePanel(false)}
+        jobs={queueJobs}
+        chapters={state.chapters}
+        isRunning={isQueueRunning}
+        onPause={pauseGenerationQueue}
+        onResume={resumeGenerationQueue}
+        onRetry={retryQueueJob}
+        onRemove={removeQueueJob}
+        onClear={clearGenerationQueue}
+      />
+
       <ExportModal 
         isOpen={showExportMenu}
         onClose={() => setShowExportMenu(false)}
-        title={state.settings.title}
+        settings={state.settings}
+        chapters={state.chapters}
+        onUpdateSettings={(patch) => setState(prev => ({ ...prev, settings: { ...prev.settings, ...patch } }))}
         onExportText={handleExportText}
         onExportPDF={handleExportPDF}
+        onExportHtml={handleExportHtml}
+        onPrint={handlePrint}
+        onExportEpub={handleExportEpub}
+        onExportDocx={handleExportDocx}
       />
     </div>
   );
@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { Plus, Book, Trash2, FileText, Layout, Settings, Cpu, MessageSquareQuote, ChevronDown, ChevronRight, Database, Globe, Upload, Download, Folder, FolderOpen, Copy, Check, Play, Loader2 } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Plus, Book, Trash2, FileText, Layout, Settings, Cpu, MessageSquareQuote, ChevronDown, ChevronRight, Database, Globe, Upload, Download, Folder, FolderOpen, Copy, Check, Play, Loader2, RefreshCw, ListOrdered, Archive, ArchiveRestore, SpellCheck, ShieldCheck, ShieldAlert } from 'lucide-react';
 import { NovelSettings, Chapter } from '../types';
 
 interface SavedNovel {
@@ -23,10 +23,18 @@ interface AppSidebarProps {
   onNavigate: (view: ViewType) => void;
   onImport?: () => void;
   onExport?: () => void;
+  onBackupProject?: () => void;
+  onRestoreProject?: (file: File) => void;
   chapters?: Chapter[];
   currentChapterId?: number | null;
   onChapterSelect?: (id: number) => void;
   onAutoGenerate?: () => void;
+  onRewriteAll?: () => void;
+  onGrammarBatch?: () => void;
+  onCompliance?: () => void;
+  onShowQueue?: () => void;
+  queueCount?: number;
+  isQueueRunning?: boolean;
 }
 
 interface VolumeGroup {
@@ -37,13 +45,15 @@ interface VolumeGroup {
 
 const AppSidebar: React.FC<AppSidebarProps> = ({ 
     novels, currentNovelId, onSelect, onCreate, onDelete, 
-    settings, onSettingsChange, currentView, onNavigate, onImport, onExport,
-    chapters = [], currentChapterId, onChapterSelect, onAutoGenerate
+    settings, onSettingsChange, currentView, onNavigate, onImport, onExport, onBackupProject, onRestoreProject,
+    chapters = [], currentChapterId, onChapterSelect, onAutoGenerate, onRewriteAll, onGrammarBatch, onCompliance,
+    onShowQueue, queueCount = 0, isQueueRunning = false
 }) => {
   const [isLibraryExpanded, setIsLibraryExpanded] = useState(true);
   const [isSettingsExpanded, setIsSettingsExpanded] = useState(false);
   const [expandedVolumes, setExpandedVolumes] = useState<Record<number, boolean>>({});
   const [copiedSummaryId, setCopiedSummaryId] = useState<number | null>(null);
+  const restoreInputRef = useRef<HTMLInputElement>(null);
 
   // Calculate stats
   const totalWordCount = useMemo(() => {
@@ -134,10 +144,51 @@ const AppSidebar: React.FC<AppSidebarProps> = ({
       <div className="mt-1 ml-3 pl-2 border-l border-gray-700 animate-in slide-in-from-top-1">
         
         {/* Batch Action Header */}
-        <div className="flex justify-between items-center px-2 py-1 mb-1">
+        <div className="flex justify-between items-center flex-wrap gap-1 px-2 py-1 mb-1">
             <span className="text-[10px] text-gray-500 uppercase font-bold tracking-wider">
                 共 {chapters.length} 章 · {formatWordCount(totalWordCount)} 字
             </span>
+            <div className="flex items-center flex-wrap justify-end gap-1">
+            {onShowQueue && queueCount > 0 && (
+                <button 
+                    onClick={(e) => { e.stopPropagation(); onShowQueue(); }}
+                    className="flex items-center gap-1 text-[10px] px-2 py-0.5 rounded bg-gray-800 hover:bg-gray-700 text-gray-400 hover:text-white transition-colors border border-gray-700"
+                    title="查看生成队列"
+                >
+                    {isQueueRunning ? <Loader2 size={10} className="animate-spin"/> : <ListOrdered size={10}/>}
+                    {queueCount}
+                </button>
+            )}
+            {onRewriteAll && (
+                <button 
+                    onClick={(e) => { e.stopPropagation(); onRewriteAll(); }}
+                    className="flex items-center gap-1 text-[10px] px-2 py-0.5 rounded bg-gray-800 hover:bg-gray-700 text-gray-400 hover:text-white transition-colors border border-gray-700"
+                    title="批量重写指定范围的章节"
+                >
+                    <RefreshCw size={10}/>
+                    批量重写
+                </button>
+            )}
+            {onGrammarBatch && (
+                <button 
+                    onClick={(e) => { e.stopPropagation(); onGrammarBatch(); }}
+                    className="flex items-center gap-1 text-[10px] px-2 py-0.5 rounded bg-gray-800 hover:bg-gray-700 text-gray-400 hover:text-white transition-colors border border-gray-700"
+                    title="检查全书语法并统计每章问题数"
+                >
+                    <SpellCheck size={10}/>
+                    全书检查
+                </button>
+            )}
+            {onCompliance && (
+                <button 
+                    onClick={(e) => { e.stopPropagation(); onCompliance(); }}
+                    className="flex items-center gap-1 text-[10px] px-2 py-0.5 rounded bg-gray-800 hover:bg-gray-700 text-gray-400 hover:text-white transition-colors border border-gray-700"
+                    title="按敏感词规则扫描全书"
+                >
+                    <ShieldCheck size={10}/>
+                    合规扫描
+                </button>
+            )}
             {onAutoGenerate && (
                 <button 
                     onClick={(e) => { e.stopPropagation(); onAutoGenerate(); }}
@@ -149,6 +200,7 @@ const AppSidebar: React.FC<AppSidebarProps> = ({
                     一键生成
                 </button>
             )}
+            </div>
         </div>
 
         {volumeGroups.map(group => (
@@ -185,6 +237,11 @@ const AppSidebar: React.FC<AppSidebarProps> = ({
                                 </div>
                                 
                                 <div className="flex items-center">
+                                    {chapter.complianceHits ? (
+                                        <span className="text-red-400 mr-1" title={`${chapter.complianceHits} 处命中合规规则`}>
+                                            <ShieldAlert size={10} />
+                                        </span>
+                                    ) : null}
                                     {chapter.wordCount ? (
                                         <span className="text-[9px] opacity-40 font-mono mr-1">
                                             {formatWordCount(chapter.wordCount)}
@@ -256,6 +313,37 @@ const AppSidebar: React.FC<AppSidebarProps> = ({
                 <span>导出</span>
                 </button>
             )}
+            {currentNovelId && onBackupProject && (
+                <button
+                onClick={onBackupProject}
+                className="flex items-center justify-center space-x-1 bg-gray-800 hover:bg-gray-700 text-gray-300 py-2 rounded-lg transition-all border border-gray-700 font-medium text-xs group"
+                title="备份整个项目（设定、人物、世界观、提示词、版本历史）"
+                >
+                <Archive size={14} />
+                <span>备份项目</span>
+                </button>
+            )}
+            {onRestoreProject && (
+                <button
+                onClick={() => restoreInputRef.current?.click()}
+                className="flex items-center justify-center space-x-1 bg-gray-800 hover:bg-gray-700 text-gray-300 py-2 rounded-lg transition-all border border-gray-700 font-medium text-xs group"
+                title="从项目备份恢复"
+                >
+                <ArchiveRestore size={14} />
+                <span>恢复项目</span>
+                </button>
+            )}
+            <input
+                ref={restoreInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) onRestoreProject?.(file);
+                }}
+            />
         </div>
       </div>
 
@@ -1,9 +1,13 @@
 
 import React from 'react';
-import { Character, NovelSettings, Chapter, PersonalityTraits } from '../types';
+import { Character, NovelSettings, Chapter, PersonalityTraits, FactEntry, CharacterRelationship } from '../types';
 import { Users, X, Copy, Download, Check, Edit2, Save, Plus, Trash2, Sparkles, Loader2, Network, Clock, Image as ImageIcon, Brain, TrendingUp, UserCog, Book, GitBranch } from 'lucide-react';
 import { useState, useEffect } from 'react';
 import { generateSingleCharacter, generateCharacterImage, analyzeCharacterDepth } from '../services/geminiService';
+import { CHARACTER_STATE_FIELDS, CHARACTER_STATE_LABELS, getCharacterStateAt } from '../services/characterState';
+import { RELATIONSHIP_TYPES, formatRelationship, formatRelationships, removeRelationshipsTo } from '../services/characterRelations';
+import { findNameOccurrences, RenameMatch, RenameTarget } from '../services/renameCharacter';
+import RenamePreview from './RenamePreview';
 
 interface CharacterListProps {
   characters: Character[];
@@ -12,6 +16,9 @@ interface CharacterListProps {
   onUpdateCharacters?: (characters: Character[]) => void;
   settings?: NovelSettings;
   chapters?: Chapter[];
+  facts?: FactEntry[];
+  // Replaces the old name in chapters, plot nodes, encyclopedia and fact ledger
+  onRenameCharacter?: (oldName: string, newName: string, targets: RenameTarget[]) => void;
 }
 
 // Sub-component: Personality Radar (Simple Bars for now to avoid external charts libs)
@@ -59,7 +66,11 @@ const CharacterNetwork: React.FC<{ characters: Character[] }> = ({ characters })
     nodes.forEach((node, i) => {
         nodes.forEach((target, j) => {
             if (i >= j) return;
-            if (node.relationships.includes(target.name) || target.relationships.includes(node.name)) {
+            const edges = [
+                ...(node.relationships || []).filter(r => r.targetId === target.id).map(r => `${node.name} → ${target.name}: ${r.type || r.description || ''}`),
+                ...(target.relationships || []).filter(r => r.targetId === node.id).map(r => `${target.name} → ${node.name}: ${r.type || r.description || ''}`)
+            ];
+            if (edges.length > 0) {
                 lines.push(
                     <line 
                         key={`${i}-${j}`} 
@@ -67,7 +78,9 @@ const CharacterNetwork: React.FC<{ characters: Character[] }> = ({ characters })
                         x2={target.x} y2={target.y} 
                         stroke="#e2e8f0" 
                         strokeWidth="1" 
-                    />
+                    >
+                        <title>{edges.join('\n')}</title>
+                    </line>
                 );
             }
         });
@@ -84,7 +97,7 @@ const CharacterNetwork: React.FC<{ characters: Character[] }> = ({ characters })
                              <image href={node.imageUrl} x={node.x - 15} y={node.y - 15} height="30" width="30" clipPath="circle(15px at 15px 15px)" />
                         )}
                         <text x={node.x} y={node.y + 35} textAnchor="middle" fontSize="10" className="fill-gray-600 font-bold select-none">{node.name}</text>
-                        <title>{node.role}: {node.relationships}</title>
+                        <title>{node.role}: {formatRelationships(node, characters)}</title>
                     </g>
                 ))}
             </svg>
@@ -92,47 +105,99 @@ const CharacterNetwork: React.FC<{ characters: Character[] }> = ({ characters })
     );
 };
 
-// Sub-component: Timeline (Mentions in Chapters)
+// Sub-component: Timeline (tracked state per chapter, falling back to mentions in chapters)
 const CharacterTimeline: React.FC<{ characters: Character[], chapters: Chapter[] }> = ({ characters, chapters }) => {
+    const lastChapterId = chapters[chapters.length - 1]?.id ?? 0;
+    const [asOfChapterId, setAsOfChapterId] = useState<number>(lastChapterId);
+    const asOf = chapters.some(c => c.id === asOfChapterId) ? asOfChapterId : lastChapterId;
+
+    const hasAnything = characters.some(char =>
+        (char.stateTimeline || []).length > 0 ||
+        chapters.some(c => c.summary?.includes(char.name) || c.content?.includes(char.name))
+    );
+
     return (
         <div className="space-y-6">
+            {chapters.length > 0 && (
+                <div className="flex items-center gap-2 text-xs text-gray-500">
+                    <span>截至</span>
+                    <select
+                        value={asOf}
+                        onChange={e => setAsOfChapterId(Number(e.target.value))}
+                        className="text-xs border p-1 rounded bg-white max-w-[220px]"
+                    >
+                        {chapters.map(c => <option key={c.id} value={c.id}>第 {c.id} 章 {c.title}</option>)}
+                    </select>
+                    <span>结束时的状态</span>
+                </div>
+            )}
             {characters.map(char => {
-                const mentions = chapters.filter(c => 
-                    (c.summary && c.summary.includes(char.name)) || 
-                    (c.content && c.content.includes(char.name))
-                );
-                
-                if (mentions.length === 0) return null;
+                const snapshots = (char.stateTimeline || []).filter(s => s.chapterId <= asOf);
+                const current = getCharacterStateAt(char, asOf + 1);
+
+                if (snapshots.length === 0) {
+                    const mentions = chapters.filter(c =>
+                        c.id <= asOf && ((c.summary && c.summary.includes(char.name)) || (c.content && c.content.includes(char.name)))
+                    );
+                    if (mentions.length === 0) return null;
+                    return (
+                        <div key={char.id} className="relative pl-4 border-l border-gray-200">
+                            <div className="flex items-center gap-2 mb-2">
+                                {char.imageUrl && <img src={char.imageUrl} className="w-6 h-6 rounded-full object-cover border border-gray-200" alt={char.name}/>}
+                                <h4 className="font-bold text-sm text-gray-800">{char.name}</h4>
+                            </div>
+                            <div className="space-y-2">
+                                {mentions.map(c => (
+                                    <div key={c.id} className="text-xs bg-gray-50 p-2 rounded border border-gray-100">
+                                        <span className="font-semibold text-indigo-600">第 {c.id} 章: </span>
+                                        <span className="text-gray-600 line-clamp-2">{c.summary || "提及于正文中。"}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    );
+                }
 
                 return (
-                    <div key={char.name} className="relative pl-4 border-l border-gray-200">
+                    <div key={char.id} className="relative pl-4 border-l border-gray-200">
                         <div className="flex items-center gap-2 mb-2">
                             {char.imageUrl && <img src={char.imageUrl} className="w-6 h-6 rounded-full object-cover border border-gray-200" alt={char.name}/>}
                             <h4 className="font-bold text-sm text-gray-800">{char.name}</h4>
                         </div>
+                        <div className="grid grid-cols-2 gap-2 mb-3">
+                            {CHARACTER_STATE_FIELDS.filter(f => current[f]).map(f => (
+                                <div key={f} className="text-xs bg-indigo-50 p-2 rounded border border-indigo-100">
+                                    <span className="font-semibold text-indigo-700 block mb-0.5">{CHARACTER_STATE_LABELS[f]}</span>
+                                    <span className="text-gray-700">{current[f]}</span>
+                                </div>
+                            ))}
+                        </div>
                         <div className="space-y-2">
-                            {mentions.map(c => (
-                                <div key={c.id} className="text-xs bg-gray-50 p-2 rounded border border-gray-100">
-                                    <span className="font-semibold text-indigo-600">第 {c.id} 章: </span>
-                                    <span className="text-gray-600 line-clamp-2">{c.summary || "提及于正文中。"}</span>
+                            {snapshots.map(s => (
+                                <div key={s.chapterId} className="text-xs bg-gray-50 p-2 rounded border border-gray-100">
+                                    <span className="font-semibold text-indigo-600">第 {s.chapterId} 章: </span>
+                                    {CHARACTER_STATE_FIELDS.filter(f => s[f]).map(f => (
+                                        <span key={f} className="text-gray-600 mr-3"><span className="text-gray-400">{CHARACTER_STATE_LABELS[f]}</span> {s[f]}</span>
+                                    ))}
                                 </div>
                             ))}
                         </div>
                     </div>
                 );
             })}
-            {characters.every(char => !chapters.some(c => c.summary?.includes(char.name) || c.content?.includes(char.name))) && (
+            {!hasAnything && (
                 <div className="text-center text-gray-400 py-10">暂未在已生成的内容中发现角色具体事件。</div>
             )}
         </div>
     );
 }
 
-const CharacterList: React.FC<CharacterListProps> = ({ characters, isOpen, onClose, onUpdateCharacters, settings, chapters = [] }) => {
+const CharacterList: React.FC<CharacterListProps> = ({ characters, isOpen, onClose, onUpdateCharacters, settings, chapters = [], facts = [], onRenameCharacter }) => {
   const [copied, setCopied] = useState(false);
   const [localCharacters, setLocalCharacters] = useState<Character[]>([]);
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
-  const [editForm, setEditForm] = useState<Character>({ name: '', role: '', description: '', relationships: '', voiceGuide: '', arc: '', psychology: '', goals: '', backgroundStory: '', skills: '' });
+  const [editForm, setEditForm] = useState<Character>({ id: '', name: '', role: '', description: '', relationships: [], voiceGuide: '', arc: '', psychology: '', goals: '', backgroundStory: '', skills: '' });
+  const [pendingRename, setPendingRename] = useState<{ updated: Character[]; oldName: string; newName: string; matches: RenameMatch[] } | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [analyzingIndex, setAnalyzingIndex] = useState<number | null>(null);
   const [generatingImageFor, setGeneratingImageFor] = useState<number | null>(null);
@@ -147,7 +212,7 @@ const CharacterList: React.FC<CharacterListProps> = ({ characters, isOpen, onClo
 
   const handleCopyAll = async () => {
       const text = localCharacters.map(c => 
-        `姓名: ${c.name}\n角色: ${c.role}\n描述: ${c.description}\n关系: ${c.relationships}\n`
+        `姓名: ${c.name}\n角色: ${c.role}\n描述: ${c.description}\n关系: ${formatRelationships(c, localCharacters)}\n`
       ).join('\n---\n\n');
       
       try {
@@ -161,7 +226,7 @@ const CharacterList: React.FC<CharacterListProps> = ({ characters, isOpen, onClo
 
   const handleExportTxt = () => {
       const text = localCharacters.map(c => 
-        `姓名: ${c.name}\n角色: ${c.role}\n描述: ${c.description}\n关系: ${c.relationships}\n`
+        `姓名: ${c.name}\n角色: ${c.role}\n描述: ${c.description}\n关系: ${formatRelationships(c, localCharacters)}\n`
       ).join('\n---\n\n');
       
       const blob = new Blob([text], { type: 'text/plain;charset=utf-8' });
@@ -178,15 +243,54 @@ const CharacterList: React.FC<CharacterListProps> = ({ characters, isOpen, onClo
       setEditForm({ ...localCharacters[index] });
   };
 
-  const saveEditing = () => {
-      if (editingIndex === null) return;
-      const updated = [...localCharacters];
-      updated[editingIndex] = editForm;
+  const commitCharacters = (updated: Character[]) => {
       setLocalCharacters(updated);
       if (onUpdateCharacters) onUpdateCharacters(updated);
       setEditingIndex(null);
   };
 
+  const saveEditing = () => {
+      if (editingIndex === null) return;
+      const updated = [...localCharacters];
+      const oldName = localCharacters[editingIndex].name;
+      const newName = editForm.name.trim();
+      updated[editingIndex] = { ...editForm, name: newName || oldName };
+
+      // Renamed: offer to carry the new name through the text, previewing every match first
+      if (onRenameCharacter && settings && newName && oldName && newName !== oldName) {
+          const matches = findNameOccurrences(oldName, { chapters, settings, facts });
+          if (matches.length > 0) {
+              setPendingRename({ updated, oldName, newName, matches });
+              return;
+          }
+      }
+      commitCharacters(updated);
+  };
+
+  const confirmRename = (targets: RenameTarget[] | null) => {
+      if (!pendingRename) return;
+      commitCharacters(pendingRename.updated);
+      if (targets && onRenameCharacter) onRenameCharacter(pendingRename.oldName, pendingRename.newName, targets);
+      setPendingRename(null);
+  };
+
+  const updateRelationship = (index: number, patch: Partial<CharacterRelationship>) => {
+      setEditForm(prev => ({
+          ...prev,
+          relationships: prev.relationships.map((r, i) => i === index ? { ...r, ...patch } : r)
+      }));
+  };
+
+  const addRelationship = () => {
+      const target = localCharacters.find(c => c.id !== editForm.id);
+      if (!target) return;
+      setEditForm(prev => ({ ...prev, relationships: [...(prev.relationships || []), { targetId: target.id, type: '', description: '' }] }));
+  };
+
+  const removeRelationship = (index: number) => {
+      setEditForm(prev => ({ ...prev, relationships: prev.relationships.filter((_, i) => i !== index) }));
+  };
+
   const updateTrait = (trait: keyof PersonalityTraits, val: string) => {
       const num = parseInt(val);
       setEditForm(prev => ({
@@ -199,7 +303,7 @@ const CharacterList: React.FC<CharacterListProps> = ({ characters, isOpen, onClo
   };
 
   const addNewCharacter = () => {
-      const newChar = { name: '新角色', role: '配角', description: '待补充...', relationships: '...' };
+      const newChar: Character = { id: crypto.randomUUID(), name: '新角色', role: '配角', description: '待补充...', relationships: [] };
       const updated = [newChar, ...localCharacters];
       setLocalCharacters(updated);
       if (onUpdateCharacters) onUpdateCharacters(updated);
@@ -261,7 +365,7 @@ const CharacterList: React.FC<CharacterListProps> = ({ characters, isOpen, onClo
 
   const deleteCharacter = (index: number) => {
       if (!window.confirm("确定要删除这个角色吗？")) return;
-      const updated = localCharacters.filter((_, i) => i !== index);
+      const updated = removeRelationshipsTo(localCharacters.filter((_, i) => i !== index), localCharacters[index].id);
       setLocalCharacters(updated);
       if (onUpdateCharacters) onUpdateCharacters(updated);
       if (editingIndex === index) setEditingIndex(null);
@@ -400,10 +504,32 @@ const CharacterList: React.FC<CharacterListProps> = ({ characters, isOpen, onClo
                             </div>
                         </div>
 
-                        <div className="grid grid-cols-2 gap-3">
-                             <div><label className="block text-xs font-medium text-gray-500 mb-1">人际关系 (Relationships)</label><textarea value={safeRender(editForm.relationships)} onChange={e => setEditForm({...editForm, relationships: e.target.value})} className="w-full text-sm border p-1 rounded h-16" /></div>
-                             <div><label className="block text-xs font-medium text-gray-500 mb-1">弧光/目标 (Arc/Goals)</label><textarea value={safeRender(editForm.arc || editForm.goals || '')} onChange={e => setEditForm({...editForm, arc: e.target.value})} className="w-full text-sm border p-1 rounded h-16" /></div>
+                        <div>
+                            <div className="flex items-center justify-between mb-1">
+                                <label className="block text-xs font-medium text-gray-500">人际关系 (Relationships)</label>
+                                <button onClick={addRelationship} disabled={localCharacters.length < 2} className="text-xs text-indigo-600 hover:underline disabled:opacity-40 flex items-center gap-0.5"><Plus size={12}/> 添加关系</button>
+                            </div>
+                            <datalist id="relationship-types">
+                                {RELATIONSHIP_TYPES.map(t => <option key={t} value={t} />)}
+                            </datalist>
+                            <div className="space-y-1.5">
+                                {(editForm.relationships || []).map((rel, ri) => (
+                                    <div key={ri} className="flex gap-2 items-center">
+                                        <select value={rel.targetId} onChange={e => updateRelationship(ri, { targetId: e.target.value })} className="w-32 text-sm border p-1 rounded bg-white">
+                                            {localCharacters.filter(c => c.id !== editForm.id).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                        </select>
+                                        <input list="relationship-types" value={rel.type} onChange={e => updateRelationship(ri, { type: e.target.value })} placeholder="关系类型" className="w-28 text-sm border p-1 rounded" />
+                                        <input value={rel.description || ''} onChange={e => updateRelationship(ri, { description: e.target.value })} placeholder="说明" className="flex-1 text-sm border p-1 rounded" />
+                                        <button onClick={() => removeRelationship(ri)} className="p-1 text-gray-400 hover:text-red-500"><X size={14}/></button>
+                                    </div>
+                                ))}
+                                {(editForm.relationships || []).length === 0 && <p className="text-xs text-gray-400">暂无关系。</p>}
+                            </div>
+                            {editForm.relationshipNotes !== undefined && (
+                                <textarea value={editForm.relationshipNotes} onChange={e => setEditForm({...editForm, relationshipNotes: e.target.value})} placeholder="其他关系备注" className="w-full text-sm border p-1 rounded h-12 mt-2" />
+                            )}
                         </div>
+                        <div><label className="block text-xs font-medium text-gray-500 mb-1">弧光/目标 (Arc/Goals)</label><textarea value={safeRender(editForm.arc || editForm.goals || '')} onChange={e => setEditForm({...editForm, arc: e.target.value})} className="w-full text-sm border p-1 rounded h-16" /></div>
                         {viewMode === 'depth' && (
                             <div><label className="block text-xs font-medium text-purple-600 mb-1">心理与内在冲突 (Psychology & Conflict)</label><textarea value={safeRender(editForm.psychology || '')} onChange={e => setEditForm({...editForm, psychology: e.target.value})} className="w-full text-sm border border-purple-200 p-1 rounded h-24 bg-purple-50" /></div>
                         )}
@@ -461,7 +587,7 @@ const CharacterList: React.FC<CharacterListProps> = ({ characters, isOpen, onClo
                                     </div>
                                 ) : (
                                     <div className="flex gap-2">
-                                        <div className="flex-1 bg-gray-50 p-2 rounded text-xs border border-gray-100"><span className="font-semibold text-gray-700 block mb-0.5">关系:</span> {safeRender(char.relationships)}</div>
+                                        <div className="flex-1 bg-gray-50 p-2 rounded text-xs border border-gray-100"><span className="font-semibold text-gray-700 block mb-0.5">关系:</span> {(char.relationships || []).map((rel, ri) => <span key={ri} className="block">{formatRelationship(rel, localCharacters)}</span>)}{char.relationshipNotes && <span className="block text-gray-500">{char.relationshipNotes}</span>}</div>
                                         {(char.arc || char.goals) && <div className="flex-1 bg-orange-50 p-2 rounded text-xs border border-orange-100"><span className="font-semibold text-orange-700 block mb-0.5">目标/弧光:</span> {safeRender(char.arc || char.goals)}</div>}
                                     </div>
                                 )}
@@ -487,6 +613,17 @@ const CharacterList: React.FC<CharacterListProps> = ({ characters, isOpen, onClo
         </div>
         <div className="p-4 border-t border-gray-100 bg-white text-center text-xs text-gray-400 rounded-b-xl">共 {localCharacters.length} 个角色</div>
       </div>
+
+      {pendingRename && (
+        <RenamePreview
+          oldName={pendingRename.oldName}
+          newName={pendingRename.newName}
+          matches={pendingRename.matches}
+          onReplace={(targets) => confirmRename(targets)}
+          onRenameOnly={() => confirmRename(null)}
+          onCancel={() => setPendingRename(null)}
+        />
+      )}
     </div>
   );
 };
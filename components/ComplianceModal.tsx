@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from 'react';
+import { Chapter, ComplianceConfig, ComplianceRule, NovelSettings } from '../types';
+import {
+    applyComplianceFixes, ChapterComplianceResult, complianceConfig, ComplianceHit, parseWordList, ruleError,
+    scanChapters, scanCompliance
+} from '../services/compliance';
+import { X, ShieldCheck, Play, Plus, Trash2, CheckCircle, AlertTriangle, ChevronDown, ChevronRight, Check, Wand2 } from 'lucide-react';
+
+interface ComplianceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  chapters: Chapter[];
+  settings: NovelSettings;
+  onUpdateSettings: (patch: Partial<NovelSettings>) => void;
+  // Records the scan result on the chapters (their compliance flags in the sidebar)
+  onScanned: (results: ChapterComplianceResult[]) => void;
+  onApplyFixes: (chapterId: number, content: string) => void;
+  onOpenChapter: (chapterId: number) => void;
+}
+
+// Context shown around a hit in the results list
+const CONTEXT_CHARS = 16;
+
+const ComplianceModal: React.FC<ComplianceModalProps> = ({ isOpen, onClose, chapters, settings, onUpdateSettings, onScanned, onApplyFixes, onOpenChapter }) => {
+  const [tab, setTab] = useState<'scan' | 'rules'>('scan');
+  const [results, setResults] = useState<ChapterComplianceResult[] | null>(null);
+  const [expanded, setExpanded] = useState<Record<number, boolean>>({});
+  const [bulkInput, setBulkInput] = useState('');
+
+  // Hits are offsets into the text as it was scanned, so every opening starts from a fresh scan
+  useEffect(() => {
+      if (!isOpen) return;
+      setResults(null);
+      setExpanded({});
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const config = complianceConfig(settings);
+  const updateConfig = (patch: Partial<ComplianceConfig>) => onUpdateSettings({ compliance: { ...config, ...patch } });
+  const updateRule = (id: string, patch: Partial<ComplianceRule>) =>
+      updateConfig({ rules: config.rules.map(r => r.id === id ? { ...r, ...patch } : r) });
+
+  const flagged = (results || []).filter(r => r.hits.length > 0);
+  const totalHits = flagged.reduce((sum, r) => sum + r.hits.length, 0);
+
+  const handleScan = () => {
+      const scanned = scanChapters(chapters, config.rules);
+      setResults(scanned);
+      setExpanded({});
+      onScanned(scanned);
+  };
+
+  const rescanChapter = (chapterId: number, content: string) =>
+      setResults(prev => prev && prev.map(r => r.chapterId === chapterId ? { chapterId, hits: scanCompliance(content, config.rules) } : r));
+
+  // Re-scans the patched text so the list reflects what is left in the chapter
+  const applyHits = (chapterId: number, hits: ComplianceHit[]) => {
+      const chapter = chapters.find(c => c.id === chapterId);
+      if (!chapter) return;
+      // The chapter was edited since the scan; its offsets would patch the wrong text
+      if (hits.some(hit => chapter.content.slice(hit.start, hit.end) !== hit.text)) {
+          rescanChapter(chapterId, chapter.content);
+          alert("本章在扫描后已被修改，已重新扫描，请确认后再替换。");
+          return;
+      }
+      const content = applyComplianceFixes(chapter.content, hits);
+      onApplyFixes(chapterId, content);
+      rescanChapter(chapterId, content);
+  };
+
+  const handleAddBulk = () => {
+      const added = parseWordList(bulkInput);
+      if (added.length === 0) return;
+      const existing = new Set(config.rules.map(r => `${r.isRegex}:${r.pattern}`));
+      updateConfig({ rules: [...config.rules, ...added.filter(r => !existing.has(`${r.isRegex}:${r.pattern}`))] });
+      setBulkInput('');
+  };
+
+  const handleAddRule = () => {
+      updateConfig({ rules: [...config.rules, { id: crypto.randomUUID(), pattern: '', isRegex: false, replacement: '' }] });
+  };
+
+  const renderHit = (chapter: Chapter, hit: ComplianceHit, index: number) => (
+      <div key={index} className="flex items-start justify-between gap-3 py-1.5 text-sm">
+          <div className="min-w-0 text-gray-600">
+              <span className="text-gray-400">…{chapter.content.slice(Math.max(0, hit.start - CONTEXT_CHARS), hit.start)}</span>
+              <span className="bg-red-100 text-red-700 line-through decoration-red-400">{hit.text}</span>
+              <span className="text-green-700 font-medium"> → {hit.suggestion}</span>
+              <span className="text-gray-400">{chapter.content.slice(hit.end, hit.end + CONTEXT_CHARS)}…</span>
+          </div>
+          <button
+              onClick={() => applyHits(chapter.id, [hit])}
+              className="flex items-center gap-1 px-2 py-0.5 text-xs font-medium text-white bg-green-600 hover:bg-green-700 rounded shrink-0"
+          >
+              <Check size={12} /> 替换
+          </button>
+      </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col animate-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between p-5 border-b border-gray-100">
+          <div className="flex items-center space-x-2 text-indigo-600">
+            <ShieldCheck className="w-5 h-5" />
+            <h3 className="text-lg font-bold">平台合规扫描</h3>
+          </div>
+          <button onClick={onClose} className="p-1.5 hover:bg-gray-100 rounded-full text-gray-400 hover:text-gray-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex border-b border-gray-100 px-5">
+            {(['scan', 'rules'] as const).map(id => (
+                <button
+                    key={id}
+                    onClick={() => setTab(id)}
+                    className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px ${tab === id ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                >
+                    {id === 'scan' ? '扫描结果' : `规则 (${config.rules.length})`}
+                </button>
+            ))}
+        </div>
+
+        {tab === 'scan' ? (
+            <>
+            <div className="p-4 border-b border-gray-100 flex items-center justify-between gap-3">
+                <div className="text-sm text-gray-600">
+                    {results === null
+                        ? `使用 ${config.rules.length} 条规则扫描全书。`
+                        : <>共 {flagged.length} 章命中，合计 <span className="font-bold text-gray-800">{totalHits}</span> 处</>}
+                </div>
+                <button
+                    onClick={handleScan}
+                    disabled={config.rules.length === 0}
+                    className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium rounded-lg disabled:opacity-50 shrink-0"
+                >
+                    <Play size={14} /> {results === null ? '扫描全书' : '重新扫描'}
+                </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto divide-y divide-gray-50">
+                {config.rules.length === 0 && (
+                    <p className="p-8 text-center text-sm text-gray-400">还没有规则。请先在“规则”中添加平台敏感词。</p>
+                )}
+                {results !== null && flagged.length === 0 && (
+                    <div className="flex flex-col items-center justify-center py-10 text-gray-400">
+                        <CheckCircle size={40} className="text-green-500 mb-3 opacity-50" />
+                        <p>没有章节命中规则。</p>
+                    </div>
+                )}
+                {flagged.map(({ chapterId, hits }) => {
+                    const chapter = chapters.find(c => c.id === chapterId);
+                    if (!chapter) return null;
+                    return (
+                        <div key={chapterId} className="px-5 py-2.5">
+                            <div className="flex items-center justify-between gap-3">
+                                <button
+                                    onClick={() => setExpanded(prev => ({ ...prev, [chapterId]: !prev[chapterId] }))}
+                                    className="flex items-center gap-1 text-sm text-gray-700 truncate hover:text-indigo-600"
+                                >
+                                    {expanded[chapterId] ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                                    <span className="truncate">第 {chapter.id} 章 {chapter.title}</span>
+                                    <span className="ml-1 text-xs font-medium px-2 py-0.5 rounded-full bg-red-50 text-red-700 border border-red-200 shrink-0">{hits.length} 处</span>
+                                </button>
+                                <div className="flex items-center gap-2 shrink-0">
+                                    <button onClick={() => onOpenChapter(chapterId)} className="text-xs text-gray-500 hover:text-indigo-600">查看章节</button>
+                                    <button
+                                        onClick={() => applyHits(chapterId, hits)}
+                                        className="flex items-center gap-1 px-2 py-0.5 text-xs font-medium text-indigo-700 bg-indigo-50 hover:bg-indigo-100 border border-indigo-200 rounded"
+                                    >
+                                        <Wand2 size={12} /> 全部替换
+                                    </button>
+                                </div>
+                            </div>
+                            {expanded[chapterId] && (
+                                <div className="mt-2 pl-5 divide-y divide-gray-50">
+                                    {hits.map((hit, i) => renderHit(chapter, hit, i))}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+            </>
+        ) : (
+            <div className="flex-1 overflow-y-auto p-5 space-y-5">
+                <div className="space-y-2 text-sm text-gray-700">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input type="checkbox" checked={config.checkOnGenerate} onChange={(e) => updateConfig({ checkOnGenerate: e.target.checked })} />
+                        自动生成和批量重写后扫描章节，并在目录中标出命中的章节
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input type="checkbox" checked={config.checkBeforeExport} onChange={(e) => updateConfig({ checkBeforeExport: e.target.checked })} />
+                        导出前扫描要导出的章节
+                    </label>
+                </div>
+
+                <div>
+                    <label className="block text-sm font-bold text-gray-700 mb-1">批量添加</label>
+                    <p className="text-xs text-gray-500 mb-2">每行一条。写成“词=替换词”可指定替换建议；用 /.../ 包裹表示正则，如 /杀(了|死)/=击败$1。未指定替换时用 * 遮蔽。</p>
+                    <textarea
+                        value={bulkInput}
+                        onChange={(e) => setBulkInput(e.target.value)}
+                        rows={4}
+                        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg font-mono focus:ring-2 focus:ring-indigo-500 outline-none"
+                    />
+                    <div className="flex justify-end mt-2">
+                        <button
+                            onClick={handleAddBulk}
+                            disabled={!bulkInput.trim()}
+                            className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium rounded-lg disabled:opacity-50"
+                        >
+                            添加到规则
+                        </button>
+                    </div>
+                </div>
+
+                <div>
+                    <div className="flex items-center justify-between mb-2">
+                        <label className="text-sm font-bold text-gray-700">规则列表</label>
+                        <button onClick={handleAddRule} className="flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-800">
+                            <Plus size={12} /> 新增规则
+                        </button>
+                    </div>
+                    {config.rules.length === 0 && <p className="text-sm text-gray-400 py-4 text-center">暂无规则</p>}
+                    <div className="space-y-2">
+                        {config.rules.map(rule => {
+                            const error = ruleError(rule);
+                            return (
+                                <div key={rule.id}>
+                                    <div className="flex items-center gap-2">
+                                        <input
+                                            value={rule.pattern}
+                                            onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                                            placeholder="敏感词或正则"
+                                            className={`flex-1 min-w-0 px-2 py-1 text-sm border rounded font-mono ${error ? 'border-red-300' : 'border-gray-300'}`}
+                                        />
+                                        <input
+                                            value={rule.replacement}
+                                            onChange={(e) => updateRule(rule.id, { replacement: e.target.value })}
+                                            placeholder="替换建议"
+                                            className="w-28 px-2 py-1 text-sm border border-gray-300 rounded"
+                                        />
+                                        <label className="flex items-center gap-1 text-xs text-gray-500 shrink-0" title="按正则表达式匹配">
+                                            <input type="checkbox" checked={rule.isRegex} onChange={(e) => updateRule(rule.id, { isRegex: e.target.checked })} />
+                                            正则
+                                        </label>
+                                        <button
+                                            onClick={() => updateConfig({ rules: config.rules.filter(r => r.id !== rule.id) })}
+                                            className="p-1 text-gray-400 hover:text-red-500"
+                                        >
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </div>
+                                    {error && rule.pattern && (
+                                        <p className="text-xs text-red-500 mt-1 flex items-center gap-1"><AlertTriangle size={12} /> {error}</p>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ComplianceModal;
@@ -1,45 +1,304 @@
-
-import React from 'react';
-import { X, FileText, FileType } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { X, FileText, FileType, BookOpen, FileEdit, FileCode, Printer, Upload, Sparkles, Loader2, Trash2, Image as ImageIcon } from 'lucide-react';
+import { Chapter, ExportOptions, NovelSettings, PageLayout, PageSize } from '../types';
+import { generateCoverImage } from '../services/geminiService';
+import {
+    chapterHeading, defaultExportOptions, defaultPageLayout, groupVolumes, HEADING_PRESETS, PAGE_SIZES,
+    readFileAsDataUrl, selectExportChapters
+} from '../services/exportUtils';
 
 interface ExportModalProps {
     isOpen: boolean;
     onClose: () => void;
-    title: string;
+    settings: NovelSettings;
+    chapters: Chapter[];
+    onUpdateSettings: (patch: Partial<NovelSettings>) => void;
     onExportText: () => void;
     onExportPDF: () => void;
+    onExportHtml: () => void;
+    onPrint: () => void;
+    onExportEpub: () => void;
+    onExportDocx: () => void;
 }
 
-const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, title, onExportText, onExportPDF }) => {
+const MAX_COVER_BYTES = 5 * 1024 * 1024;
+
+const FORMAT_BUTTON = "flex flex-col items-center justify-center p-4 border-2 border-gray-100 rounded-xl transition-all group";
+
+const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, settings, chapters, onUpdateSettings, onExportText, onExportPDF, onExportHtml, onPrint, onExportEpub, onExportDocx }) => {
+    const [isGeneratingCover, setIsGeneratingCover] = useState(false);
+    const [isEditingHeading, setIsEditingHeading] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
     if (!isOpen) return null;
 
+    const layout = settings.exportLayout ?? defaultPageLayout(settings);
+    const updateLayout = (patch: Partial<PageLayout>) => onUpdateSettings({ exportLayout: { ...layout, ...patch } });
+    const options = settings.exportOptions ?? defaultExportOptions(settings);
+    const updateOptions = (patch: Partial<ExportOptions>) => onUpdateSettings({ exportOptions: { ...options, ...patch } });
+
+    const volumes = groupVolumes(chapters).filter(v => v.volumeId !== undefined);
+    const selected = selectExportChapters(chapters, options);
+    const presets = HEADING_PRESETS[settings.language === 'en' ? 'en' : 'zh'];
+    const isCustomHeading = isEditingHeading || !presets.includes(options.headingTemplate);
+    const sample = selected[0] || chapters[0];
+
+    const toggleVolume = (volumeId: number) => updateOptions({
+        volumeIds: options.volumeIds.includes(volumeId)
+            ? options.volumeIds.filter(id => id !== volumeId)
+            : [...options.volumeIds, volumeId]
+    });
+
+    const handleUploadCover = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        if (!file.type.startsWith('image/')) {
+            alert("请选择图片文件。");
+            return;
+        }
+        if (file.size > MAX_COVER_BYTES) {
+            alert("封面图片不能超过 5MB。");
+            return;
+        }
+        try {
+            onUpdateSettings({ coverImage: await readFileAsDataUrl(file) });
+        } catch (err) {
+            console.error(err);
+            alert("读取图片失败。");
+        }
+    };
+
+    const handleGenerateCover = async () => {
+        setIsGeneratingCover(true);
+        try {
+            let cover = await generateCoverImage(settings);
+            // DashScope and some OpenAI-compatible services return a short-lived link; the EPUB needs the image itself
+            if (!cover.startsWith('data:')) {
+                try {
+                    const response = await fetch(cover);
+                    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+                    cover = await readFileAsDataUrl(await response.blob());
+                } catch (err) {
+                    console.error(err);
+                    alert(`封面已生成，但浏览器无法下载该图片（可能受跨域限制）。请打开以下链接保存图片，再点击“上传”设为封面：\n${cover}`);
+                    return;
+                }
+            }
+            onUpdateSettings({ coverImage: cover });
+        } catch (err: any) {
+            console.error(err);
+            alert("封面生成失败: " + err.message);
+        } finally {
+            setIsGeneratingCover(false);
+        }
+    };
+
     return (
         <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in">
-            <div className="bg-white rounded-xl shadow-xl w-full max-w-md p-6">
+            <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl p-6 max-h-[90vh] overflow-y-auto">
                 <div className="flex justify-between items-center mb-6">
                     <h3 className="text-lg font-bold text-gray-800">导出作品 (Export Novel)</h3>
                     <button onClick={onClose}><X className="text-gray-400 hover:text-gray-600" /></button>
                 </div>
-                
-                <p className="text-sm text-gray-600 mb-6">
-                    选择导出格式。将导出《{title}》的所有已生成章节。
-                </p>
-
-                <div className="grid grid-cols-2 gap-4">
-                    <button 
-                        onClick={onExportText}
-                        className="flex flex-col items-center justify-center p-6 border-2 border-gray-100 rounded-xl hover:border-indigo-500 hover:bg-indigo-50 transition-all group"
-                    >
-                        <FileText size={32} className="text-gray-400 group-hover:text-indigo-600 mb-3" />
+
+                <div className="flex gap-4 mb-4 p-4 bg-gray-50 rounded-xl border border-gray-100">
+                    <div className="w-24 h-32 shrink-0 bg-white rounded-md border border-gray-200 overflow-hidden flex items-center justify-center">
+                        {settings.coverImage
+                            ? <img src={settings.coverImage} alt="封面" className="w-full h-full object-cover" />
+                            : <ImageIcon className="text-gray-300" size={28} />}
+                    </div>
+                    <div className="flex-1 space-y-3">
+                        <div>
+                            <label className="block text-xs font-semibold text-gray-500 mb-1">作者 (Author)</label>
+                            <input
+                                value={settings.author || ''}
+                                onChange={(e) => onUpdateSettings({ author: e.target.value })}
+                                placeholder="用于书名页与电子书元数据"
+                                className="w-full text-sm px-3 py-1.5 border border-gray-300 rounded-md outline-none focus:ring-2 focus:ring-indigo-500"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-semibold text-gray-500 mb-1">封面 (Cover, 可选)</label>
+                            <div className="flex flex-wrap gap-2">
+                                <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 px-2.5 py-1 text-xs border border-gray-300 rounded-md text-gray-600 hover:bg-white">
+                                    <Upload size={12} /> 上传
+                                </button>
+                                <button onClick={handleGenerateCover} disabled={isGeneratingCover} className="flex items-center gap-1 px-2.5 py-1 text-xs border border-purple-200 rounded-md text-purple-600 hover:bg-purple-50 disabled:opacity-50">
+                                    {isGeneratingCover ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />} AI 生成
+                                </button>
+                                {settings.coverImage && (
+                                    <button onClick={() => onUpdateSettings({ coverImage: undefined })} className="flex items-center gap-1 px-2.5 py-1 text-xs border border-red-200 rounded-md text-red-600 hover:bg-red-50">
+                                        <Trash2 size={12} /> 移除
+                                    </button>
+                                )}
+                            </div>
+                            <input ref={fileInputRef} type="file" accept="image/jpeg,image/png,image/gif,image/webp" className="hidden" onChange={handleUploadCover} />
+                        </div>
+                    </div>
+                </div>
+
+                <div className="mb-4 p-4 bg-gray-50 rounded-xl border border-gray-100 space-y-3">
+                    <h4 className="text-xs font-semibold text-gray-500">导出范围</h4>
+                    <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+                        <label className="flex items-center gap-1.5 cursor-pointer">
+                            <input type="radio" checked={options.scope === 'all'} onChange={() => updateOptions({ scope: 'all' })} /> 全部章节
+                        </label>
+                        <label className={`flex items-center gap-1.5 ${volumes.length > 0 ? 'cursor-pointer' : 'opacity-50'}`}>
+                            <input type="radio" checked={options.scope === 'volumes'} disabled={volumes.length === 0} onChange={() => updateOptions({ scope: 'volumes' })} /> 按卷
+                        </label>
+                        <label className="flex items-center gap-1.5 cursor-pointer">
+                            <input type="radio" checked={options.scope === 'range'} onChange={() => updateOptions({ scope: 'range' })} /> 章节范围
+                        </label>
+                    </div>
+                    {options.scope === 'volumes' && (
+                        <div className="flex flex-wrap gap-3">
+                            {volumes.map(v => (
+                                <label key={v.volumeId} className="flex items-center gap-1.5 text-sm text-gray-700 cursor-pointer">
+                                    <input type="checkbox" checked={options.volumeIds.includes(v.volumeId!)} onChange={() => toggleVolume(v.volumeId!)} className="rounded text-indigo-600" />
+                                    {v.title}
+                                    <span className="text-xs text-gray-400">({v.chapters.length} 章)</span>
+                                </label>
+                            ))}
+                        </div>
+                    )}
+                    {options.scope === 'range' && (
+                        <div className="flex items-center gap-2 text-sm text-gray-600">
+                            第
+                            <input type="number" min={1} value={options.rangeStart ?? ''} onChange={(e) => updateOptions({ rangeStart: e.target.value ? Number(e.target.value) : undefined })} className="w-20 px-2 py-1 border border-gray-300 rounded-md" />
+                            章 至 第
+                            <input type="number" min={1} value={options.rangeEnd ?? ''} onChange={(e) => updateOptions({ rangeEnd: e.target.value ? Number(e.target.value) : undefined })} className="w-20 px-2 py-1 border border-gray-300 rounded-md" />
+                            章
+                        </div>
+                    )}
+                    <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                        <input type="checkbox" checked={options.skipUnfinished} onChange={(e) => updateOptions({ skipUnfinished: e.target.checked })} className="rounded text-indigo-600" />
+                        跳过未完成（无正文）的章节
+                    </label>
+                    <div>
+                        <label className="block text-xs text-gray-500 mb-1">章节标题格式（{'{{n}}'} 序号，{'{{cn}}'} 中文序号，{'{{title}}'} 标题）</label>
+                        <div className="flex gap-2">
+                            <select
+                                value={isCustomHeading ? 'custom' : options.headingTemplate}
+                                onChange={(e) => {
+                                    setIsEditingHeading(e.target.value === 'custom');
+                                    if (e.target.value !== 'custom') updateOptions({ headingTemplate: e.target.value });
+                                }}
+                                className="text-sm px-2 py-1.5 border border-gray-300 rounded-md bg-white"
+                            >
+                                {presets.map(p => <option key={p} value={p}>{p}</option>)}
+                                <option value="custom">自定义…</option>
+                            </select>
+                            {isCustomHeading && (
+                                <input
+                                    value={options.headingTemplate}
+                                    onChange={(e) => updateOptions({ headingTemplate: e.target.value })}
+                                    className="flex-1 text-sm px-3 py-1.5 border border-gray-300 rounded-md outline-none focus:ring-2 focus:ring-indigo-500"
+                                />
+                            )}
+                        </div>
+                        {sample && <p className="text-xs text-gray-400 mt-1">预览：{chapterHeading(settings, sample, options.headingTemplate)}</p>}
+                    </div>
+                    <p className={`text-xs ${selected.length > 0 ? 'text-gray-500' : 'text-red-500'}`}>
+                        将导出《{settings.title}》的 {selected.length} / {chapters.length} 章。
+                    </p>
+                </div>
+
+                <div className="mb-4 p-4 bg-gray-50 rounded-xl border border-gray-100 space-y-3">
+                    <h4 className="text-xs font-semibold text-gray-500">附加内容</h4>
+                    <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+                        <label className="flex items-center gap-1.5 cursor-pointer">
+                            <input type="checkbox" checked={options.includeSynopsis} onChange={(e) => updateOptions({ includeSynopsis: e.target.checked })} className="rounded text-indigo-600" />
+                            内容简介
+                        </label>
+                        <label className="flex items-center gap-1.5 cursor-pointer">
+                            <input type="checkbox" checked={options.includeCharacters} onChange={(e) => updateOptions({ includeCharacters: e.target.checked })} className="rounded text-indigo-600" />
+                            人物表
+                        </label>
+                        <label className="flex items-center gap-1.5 cursor-pointer">
+                            <input type="checkbox" checked={options.includeWorld} onChange={(e) => updateOptions({ includeWorld: e.target.checked })} className="rounded text-indigo-600" />
+                            世界设定附录
+                        </label>
+                        <label className="flex items-center gap-1.5 cursor-pointer">
+                            <input type="checkbox" checked={options.includeAuthorNotes} onChange={(e) => updateOptions({ includeAuthorNotes: e.target.checked })} className="rounded text-indigo-600" />
+                            作者的话
+                        </label>
+                    </div>
+                    {options.includeAuthorNotes && (
+                        <textarea
+                            value={settings.authorNotes || ''}
+                            onChange={(e) => onUpdateSettings({ authorNotes: e.target.value })}
+                            placeholder="写给读者的话，放在正文之后"
+                            rows={3}
+                            className="w-full text-sm px-3 py-2 border border-gray-300 rounded-md outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                    )}
+                </div>
+
+                <div className="mb-6 p-4 bg-gray-50 rounded-xl border border-gray-100">
+                    <h4 className="text-xs font-semibold text-gray-500 mb-3">版式 (PDF / HTML / 打印)</h4>
+                    <div className="grid grid-cols-3 gap-3 mb-3">
+                        <label className="text-xs text-gray-500">
+                            纸张
+                            <select value={layout.pageSize} onChange={(e) => updateLayout({ pageSize: e.target.value as PageSize })} className="mt-1 w-full text-sm px-2 py-1.5 border border-gray-300 rounded-md bg-white">
+                                {(Object.keys(PAGE_SIZES) as PageSize[]).map(size => <option key={size} value={size}>{size}</option>)}
+                            </select>
+                        </label>
+                        <label className="text-xs text-gray-500">
+                            字体
+                            <select value={layout.fontFamily} onChange={(e) => updateLayout({ fontFamily: e.target.value as PageLayout['fontFamily'] })} className="mt-1 w-full text-sm px-2 py-1.5 border border-gray-300 rounded-md bg-white">
+                                <option value="serif">宋体 / Serif</option>
+                                <option value="sans">黑体 / Sans</option>
+                            </select>
+                        </label>
+                        <label className="text-xs text-gray-500">
+                            字号 (pt)
+                            <input type="number" min={8} max={24} value={layout.fontSize} onChange={(e) => updateLayout({ fontSize: Math.min(24, Math.max(8, Number(e.target.value) || 12)) })} className="mt-1 w-full text-sm px-2 py-1.5 border border-gray-300 rounded-md" />
+                        </label>
+                    </div>
+                    <div className="flex items-center gap-3">
+                        <input
+                            value={layout.headerText}
+                            onChange={(e) => updateLayout({ headerText: e.target.value })}
+                            placeholder="页眉文字（留空则不显示）"
+                            className="flex-1 text-sm px-3 py-1.5 border border-gray-300 rounded-md outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                        <label className="flex items-center gap-1.5 text-sm text-gray-600 cursor-pointer whitespace-nowrap">
+                            <input type="checkbox" checked={layout.showPageNumbers} onChange={(e) => updateLayout({ showPageNumbers: e.target.checked })} className="rounded text-indigo-600" />
+                            页码
+                        </label>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                    <button onClick={onExportText} className={`${FORMAT_BUTTON} hover:border-indigo-500 hover:bg-indigo-50`}>
+                        <FileText size={28} className="text-gray-400 group-hover:text-indigo-600 mb-2" />
                         <span className="font-bold text-gray-700 group-hover:text-indigo-700">纯文本 (TXT)</span>
                     </button>
 
-                    <button 
-                        onClick={onExportPDF}
-                        className="flex flex-col items-center justify-center p-6 border-2 border-gray-100 rounded-xl hover:border-red-500 hover:bg-red-50 transition-all group"
-                    >
-                        <FileType size={32} className="text-gray-400 group-hover:text-red-600 mb-3" />
-                        <span className="font-bold text-gray-700 group-hover:text-red-700">PDF / 打印</span>
+                    <button onClick={onExportEpub} className={`${FORMAT_BUTTON} hover:border-emerald-500 hover:bg-emerald-50`}>
+                        <BookOpen size={28} className="text-gray-400 group-hover:text-emerald-600 mb-2" />
+                        <span className="font-bold text-gray-700 group-hover:text-emerald-700">电子书 (EPUB)</span>
+                    </button>
+
+                    <button onClick={onExportDocx} className={`${FORMAT_BUTTON} hover:border-blue-500 hover:bg-blue-50`}>
+                        <FileEdit size={28} className="text-gray-400 group-hover:text-blue-600 mb-2" />
+                        <span className="font-bold text-gray-700 group-hover:text-blue-700">Word (DOCX)</span>
+                    </button>
+
+                    <button onClick={onExportPDF} className={`${FORMAT_BUTTON} hover:border-red-500 hover:bg-red-50`}>
+                        <FileType size={28} className="text-gray-400 group-hover:text-red-600 mb-2" />
+                        <span className="font-bold text-gray-700 group-hover:text-red-700">PDF</span>
+                    </button>
+
+                    <button onClick={onExportHtml} className={`${FORMAT_BUTTON} hover:border-amber-500 hover:bg-amber-50`}>
+                        <FileCode size={28} className="text-gray-400 group-hover:text-amber-600 mb-2" />
+                        <span className="font-bold text-gray-700 group-hover:text-amber-700">网页 (HTML)</span>
+                    </button>
+
+                    <button onClick={onPrint} className={`${FORMAT_BUTTON} hover:border-gray-500 hover:bg-gray-50`}>
+                        <Printer size={28} className="text-gray-400 group-hover:text-gray-700 mb-2" />
+                        <span className="font-bold text-gray-700">打印</span>
                     </button>
                 </div>
             </div>
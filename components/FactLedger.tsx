@@ -0,0 +1,258 @@
+import React, { useMemo, useState } from 'react';
+import { Chapter, FactEntry, FactType } from '../types';
+import { X, BookMarked, Plus, Trash2, Search, Pencil, Check, RefreshCw, Loader2 } from 'lucide-react';
+
+interface FactLedgerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  facts: FactEntry[];
+  chapters: Chapter[];
+  onUpdateFacts: (facts: FactEntry[]) => void;
+  onExtract: (chapter: Chapter) => Promise<void>;
+}
+
+const TYPE_LABELS: Record<FactType, string> = {
+  knowledge: '得知信息',
+  injury: '受伤/状态',
+  item_gained: '获得物品',
+  item_lost: '失去物品',
+  location: '位置变化',
+  death: '死亡',
+  promise: '承诺/誓言'
+};
+
+const TYPE_COLORS: Record<FactType, string> = {
+  knowledge: 'bg-blue-50 text-blue-700',
+  injury: 'bg-orange-50 text-orange-700',
+  item_gained: 'bg-green-50 text-green-700',
+  item_lost: 'bg-gray-100 text-gray-600',
+  location: 'bg-teal-50 text-teal-700',
+  death: 'bg-red-50 text-red-700',
+  promise: 'bg-purple-50 text-purple-700'
+};
+
+const FACT_TYPES = Object.keys(TYPE_LABELS) as FactType[];
+
+const FactLedger: React.FC<FactLedgerProps> = ({ isOpen, onClose, facts, chapters, onUpdateFacts, onExtract }) => {
+  const [typeFilter, setTypeFilter] = useState<FactType | 'all'>('all');
+  const [chapterFilter, setChapterFilter] = useState<number | 'all'>('all');
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<FactEntry | null>(null);
+  const [extractingId, setExtractingId] = useState<number | null>(null);
+
+  const visible = useMemo(() => {
+      const q = query.trim().toLowerCase();
+      return facts
+          .filter(f => typeFilter === 'all' || f.type === typeFilter)
+          .filter(f => chapterFilter === 'all' || f.chapterId === chapterFilter)
+          .filter(f => !q || f.subject.toLowerCase().includes(q) || f.description.toLowerCase().includes(q))
+          .sort((a, b) => a.chapterId - b.chapterId);
+  }, [facts, typeFilter, chapterFilter, query]);
+
+  if (!isOpen) return null;
+
+  const startEdit = (fact: FactEntry) => {
+      setEditingId(fact.id);
+      setDraft({ ...fact });
+  };
+
+  const saveEdit = () => {
+      if (!draft || !draft.description.trim()) return;
+      // Edited entries are marked manual so re-extracting the chapter won't overwrite them
+      const edited = { ...draft, subject: draft.subject.trim(), description: draft.description.trim(), isManual: true };
+      onUpdateFacts(facts.some(f => f.id === edited.id) ? facts.map(f => f.id === edited.id ? edited : f) : [...facts, edited]);
+      setEditingId(null);
+      setDraft(null);
+  };
+
+  const cancelEdit = () => {
+      setEditingId(null);
+      setDraft(null);
+  };
+
+  const handleAdd = () => {
+      const fact: FactEntry = {
+          id: crypto.randomUUID(),
+          type: typeFilter === 'all' ? 'knowledge' : typeFilter,
+          subject: '',
+          description: '',
+          chapterId: chapterFilter === 'all' ? (chapters[0]?.id ?? 1) : chapterFilter,
+          isManual: true
+      };
+      setEditingId(fact.id);
+      setDraft(fact);
+  };
+
+  const handleDelete = (id: string) => {
+      if (!window.confirm("删除这条事实？")) return;
+      onUpdateFacts(facts.filter(f => f.id !== id));
+  };
+
+  const handleExtract = async () => {
+      const chapter = chapters.find(c => c.id === chapterFilter);
+      if (!chapter || !chapter.content) return;
+      setExtractingId(chapter.id);
+      try {
+          await onExtract(chapter);
+      } finally {
+          setExtractingId(null);
+      }
+  };
+
+  const chapterLabel = (id: number) => {
+      const c = chapters.find(ch => ch.id === id);
+      return c ? `第 ${c.id} 章 ${c.title}` : `第 ${id} 章`;
+  };
+
+  const renderEditor = () => draft && (
+      <div className="bg-indigo-50/50 p-3 rounded-lg border border-indigo-200 space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+              <select
+                  value={draft.type}
+                  onChange={(e) => setDraft({ ...draft, type: e.target.value as FactType })}
+                  className="text-sm px-2 py-1.5 border border-gray-300 rounded-md outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                  {FACT_TYPES.map(t => <option key={t} value={t}>{TYPE_LABELS[t]}</option>)}
+              </select>
+              <input
+                  value={draft.subject}
+                  onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                  placeholder="涉及角色"
+                  className="text-sm px-2 py-1.5 border border-gray-300 rounded-md outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <select
+                  value={draft.chapterId}
+                  onChange={(e) => setDraft({ ...draft, chapterId: Number(e.target.value) })}
+                  className="text-sm px-2 py-1.5 border border-gray-300 rounded-md outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                  {chapters.map(c => <option key={c.id} value={c.id}>{c.id}. {c.title}</option>)}
+              </select>
+          </div>
+          <textarea
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              placeholder="事实描述，例如：左臂被毒箭射伤，无法持剑"
+              rows={2}
+              className="w-full text-sm px-2 py-1.5 border border-gray-300 rounded-md outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
+          />
+          <div className="flex justify-end gap-2">
+              <button onClick={cancelEdit} className="px-3 py-1 text-xs border border-gray-300 rounded-md text-gray-600 hover:bg-white">取消</button>
+              <button
+                  onClick={saveEdit}
+                  disabled={!draft.description.trim()}
+                  className="flex items-center gap-1 px-3 py-1 text-xs bg-indigo-600 hover:bg-indigo-700 text-white rounded-md disabled:opacity-50"
+              >
+                  <Check size={12} /> 保存
+              </button>
+          </div>
+      </div>
+  );
+
+  const selectedChapter = chapterFilter === 'all' ? null : chapters.find(c => c.id === chapterFilter);
+  const isNew = draft && !facts.some(f => f.id === draft.id);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col animate-in zoom-in-95 duration-200 border border-gray-100">
+        <div className="flex items-center justify-between p-5 border-b border-gray-100">
+          <div className="flex items-center space-x-2 text-indigo-600">
+            <BookMarked className="w-5 h-5" />
+            <h3 className="text-lg font-bold">事实账本</h3>
+            <span className="text-sm text-gray-400 font-normal">{facts.length} 条</span>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-gray-100 rounded-full text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-5 py-3 border-b border-gray-100 bg-gray-50/50">
+            <div className="relative flex-1 min-w-[160px]">
+                <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-400" />
+                <input
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="搜索角色或描述"
+                    className="w-full text-sm pl-8 pr-3 py-1.5 border border-gray-300 rounded-md outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+            </div>
+            <select
+                value={typeFilter}
+                onChange={(e) => setTypeFilter(e.target.value as FactType | 'all')}
+                className="text-sm px-2 py-1.5 border border-gray-300 rounded-md outline-none"
+            >
+                <option value="all">全部类型</option>
+                {FACT_TYPES.map(t => <option key={t} value={t}>{TYPE_LABELS[t]}</option>)}
+            </select>
+            <select
+                value={chapterFilter}
+                onChange={(e) => setChapterFilter(e.target.value === 'all' ? 'all' : Number(e.target.value))}
+                className="text-sm px-2 py-1.5 border border-gray-300 rounded-md outline-none max-w-[180px]"
+            >
+                <option value="all">全部章节</option>
+                {chapters.map(c => <option key={c.id} value={c.id}>{c.id}. {c.title}</option>)}
+            </select>
+            {selectedChapter && (
+                <button
+                    onClick={handleExtract}
+                    disabled={!selectedChapter.content || extractingId !== null}
+                    className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 text-gray-700 text-sm rounded-md hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="重新从本章正文提取事实（保留手动编辑的条目）"
+                >
+                    {extractingId !== null ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+                    <span>重新提取</span>
+                </button>
+            )}
+            <button
+                onClick={handleAdd}
+                disabled={chapters.length === 0 || editingId !== null}
+                className="flex items-center space-x-1 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white text-sm rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                <Plus size={14} /><span>添加</span>
+            </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-2">
+            {isNew && renderEditor()}
+
+            {visible.length === 0 && !isNew && (
+                <p className="text-sm text-gray-400 text-center py-10">
+                    {facts.length === 0 ? '暂无事实。每章生成完成后会自动提取伤势、物品、死亡、承诺等关键事实，并在后续章节中作为约束。' : '没有符合筛选条件的事实。'}
+                </p>
+            )}
+
+            {visible.map(fact => editingId === fact.id ? (
+                <React.Fragment key={fact.id}>{renderEditor()}</React.Fragment>
+            ) : (
+                <div key={fact.id} className="group bg-white p-3 rounded-lg border border-gray-200 flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                        <div className="flex items-center gap-2 text-xs">
+                            <span className={`px-1.5 py-0.5 rounded font-medium ${TYPE_COLORS[fact.type] || 'bg-gray-100 text-gray-600'}`}>
+                                {TYPE_LABELS[fact.type] || fact.type}
+                            </span>
+                            {fact.subject && <span className="font-medium text-gray-700">{fact.subject}</span>}
+                            <span className="text-gray-400 truncate">{chapterLabel(fact.chapterId)}</span>
+                            {fact.isManual && <span className="text-[10px] text-indigo-500">手动</span>}
+                        </div>
+                        <p className="text-sm text-gray-700 mt-1.5 break-words">{fact.description}</p>
+                    </div>
+                    <div className="flex gap-1 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button onClick={() => startEdit(fact)} disabled={editingId !== null} className="p-1.5 rounded-md hover:bg-gray-100 text-gray-400 hover:text-indigo-600" title="编辑">
+                            <Pencil size={14} />
+                        </button>
+                        <button onClick={() => handleDelete(fact.id)} className="p-1.5 rounded-md hover:bg-gray-100 text-gray-400 hover:text-red-600" title="删除">
+                            <Trash2 size={14} />
+                        </button>
+                    </div>
+                </div>
+            ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FactLedger;
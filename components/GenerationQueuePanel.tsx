@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { Chapter, GenerationJob, GenerationJobStatus } from '../types';
+import { X, ListOrdered, Play, Pause, RotateCcw, Trash2, Loader2, Clock, AlertTriangle } from 'lucide-react';
+import { MAX_JOB_ATTEMPTS } from '../services/generationQueue';
+
+interface GenerationQueuePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  jobs: GenerationJob[];
+  chapters: Chapter[];
+  isRunning: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onRetry: (jobId?: string) => void;
+  onRemove: (jobId: string) => void;
+  onClear: () => void;
+}
+
+const SECTIONS: { status: GenerationJobStatus; label: string; color: string }[] = [
+  { status: 'running', label: '生成中', color: 'text-indigo-600' },
+  { status: 'pending', label: '等待中', color: 'text-gray-600' },
+  { status: 'paused', label: '已暂停', color: 'text-amber-600' },
+  { status: 'failed', label: '失败', color: 'text-red-600' }
+];
+
+const formatWait = (ms: number) => {
+    const seconds = Math.ceil(ms / 1000);
+    return seconds >= 60 ? `${Math.floor(seconds / 60)} 分 ${seconds % 60} 秒` : `${seconds} 秒`;
+};
+
+const GenerationQueuePanel: React.FC<GenerationQueuePanelProps> = ({
+  isOpen, onClose, jobs, chapters, isRunning, onPause, onResume, onRetry, onRemove, onClear
+}) => {
+  // Ticks the retry countdowns
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (!isOpen) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const chapterTitle = (id: number) => {
+      const c = chapters.find(ch => ch.id === id);
+      return c ? `第 ${c.id} 章 ${c.title}` : `第 ${id} 章`;
+  };
+
+  const hasPaused = jobs.some(j => j.status === 'paused');
+  const hasFailed = jobs.some(j => j.status === 'failed');
+  const hasPending = jobs.some(j => j.status === 'pending');
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col animate-in zoom-in-95 duration-200 border border-gray-100">
+        <div className="flex items-center justify-between p-5 border-b border-gray-100">
+          <div className="flex items-center space-x-2 text-indigo-600">
+            <ListOrdered className="w-5 h-5" />
+            <h3 className="text-lg font-bold">生成队列</h3>
+            {isRunning && <Loader2 size={16} className="animate-spin" />}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-gray-100 rounded-full text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 px-5 py-3 border-b border-gray-100 bg-gray-50/50">
+            {isRunning ? (
+                <button onClick={onPause} className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 text-gray-700 text-sm rounded-md hover:bg-white">
+                    <Pause size={14} /><span>暂停</span>
+                </button>
+            ) : (
+                <button
+                    onClick={onResume}
+                    disabled={!hasPaused && !hasPending}
+                    className="flex items-center space-x-1 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white text-sm rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <Play size={14} /><span>继续</span>
+                </button>
+            )}
+            <button
+                onClick={() => onRetry()}
+                disabled={!hasFailed}
+                className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 text-gray-700 text-sm rounded-md hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                <RotateCcw size={14} /><span>重试失败项</span>
+            </button>
+            <button
+                onClick={onClear}
+                disabled={jobs.length === 0}
+                className="ml-auto flex items-center space-x-1 px-3 py-1.5 border border-red-200 text-red-600 text-sm rounded-md hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                <Trash2 size={14} /><span>清空</span>
+            </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-5">
+            {jobs.length === 0 && (
+                <p className="text-sm text-gray-400 text-center py-10">队列为空。点击侧边栏的“一键生成”将未完成章节加入队列。</p>
+            )}
+
+            {SECTIONS.map(section => {
+                const items = jobs.filter(j => j.status === section.status);
+                if (items.length === 0) return null;
+                return (
+                    <div key={section.status}>
+                        <h4 className={`text-xs font-bold uppercase tracking-wider mb-2 ${section.color}`}>{section.label} ({items.length})</h4>
+                        <div className="space-y-2">
+                            {items.map(job => (
+                                <div key={job.id} className="bg-white p-3 rounded-lg border border-gray-200 flex items-start justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <div className="text-sm font-medium text-gray-800 truncate flex items-center gap-2">
+                                            {job.status === 'running' && <Loader2 size={14} className="animate-spin text-indigo-500 shrink-0" />}
+                                            {chapterTitle(job.chapterId)}
+                                        </div>
+                                        <div className="text-xs text-gray-400 mt-1 flex items-center gap-3">
+                                            <span>尝试 {job.attempts}/{MAX_JOB_ATTEMPTS}</span>
+                                            {job.status === 'pending' && job.nextAttemptAt > now && (
+                                                <span className="flex items-center gap-1 text-amber-600"><Clock size={12} /> {formatWait(job.nextAttemptAt - now)} 后重试</span>
+                                            )}
+                                        </div>
+                                        {job.lastError && (
+                                            <div className="text-xs text-red-500 mt-1 flex items-start gap-1 break-all">
+                                                <AlertTriangle size={12} className="mt-0.5 shrink-0" /> {job.lastError}
+                                            </div>
+                                        )}
+                                    </div>
+                                    <div className="flex gap-1 shrink-0">
+                                        {job.status === 'failed' && (
+                                            <button onClick={() => onRetry(job.id)} className="p-1.5 rounded-md hover:bg-gray-100 text-gray-400 hover:text-indigo-600" title="重试">
+                                                <RotateCcw size={14} />
+                                            </button>
+                                        )}
+                                        {job.status !== 'running' && (
+                                            <button onClick={() => onRemove(job.id)} className="p-1.5 rounded-md hover:bg-gray-100 text-gray-400 hover:text-red-600" title="移出队列">
+                                                <Trash2 size={14} />
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GenerationQueuePanel;
@@ -0,0 +1,135 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Chapter, GrammarIssue, NovelSettings } from '../types';
+import { checkGrammar } from '../services/geminiService';
+import { chapterHeading } from '../services/exportUtils';
+import { X, SpellCheck, Play, Square, Loader2, CheckCircle, AlertTriangle } from 'lucide-react';
+
+interface GrammarBatchModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  chapters: Chapter[];
+  settings: NovelSettings;
+  // Opens the chapter in the Reader with these issues loaded into its grammar panel
+  onOpenChapter: (chapterId: number, issues: GrammarIssue[]) => void;
+}
+
+type ChapterCheck =
+  | { status: 'running'; done: number; total: number }
+  | { status: 'done'; issues: GrammarIssue[] }
+  | { status: 'error'; error: string };
+
+// Whole-novel grammar check. Chapters run one after another; each chapter's chunks run concurrently.
+// Results stay in this component, so closing and reopening the dialog keeps them.
+const GrammarBatchModal: React.FC<GrammarBatchModalProps> = ({ isOpen, onClose, chapters, settings, onOpenChapter }) => {
+  const [results, setResults] = useState<Record<number, ChapterCheck>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const cancelRef = useRef(false);
+
+  // Stop after the current chapter when the dialog is unmounted (e.g. another novel is opened)
+  useEffect(() => () => { cancelRef.current = true; }, []);
+
+  if (!isOpen) return null;
+
+  const withContent = chapters.filter(c => c.content?.trim());
+  const checked = withContent.filter(c => results[c.id]?.status === 'done');
+  const totalIssues = checked.reduce((sum, c) => sum + (results[c.id] as { issues: GrammarIssue[] }).issues.length, 0);
+
+  const handleStart = async () => {
+      cancelRef.current = false;
+      setIsRunning(true);
+      setResults({});
+      for (const chapter of withContent) {
+          if (cancelRef.current) break;
+          setResults(prev => ({ ...prev, [chapter.id]: { status: 'running', done: 0, total: 1 } }));
+          try {
+              const issues = await checkGrammar(chapter.content, settings, {
+                  onProgress: (done, total) => setResults(prev => ({ ...prev, [chapter.id]: { status: 'running', done, total } }))
+              });
+              setResults(prev => ({ ...prev, [chapter.id]: { status: 'done', issues } }));
+          } catch (e: any) {
+              console.error(`Grammar check failed for chapter ${chapter.id}`, e);
+              setResults(prev => ({ ...prev, [chapter.id]: { status: 'error', error: e.message } }));
+          }
+      }
+      setIsRunning(false);
+  };
+
+  const renderStatus = (chapter: Chapter) => {
+      const result = results[chapter.id];
+      if (!result) return <span className="text-xs text-gray-400">待检查</span>;
+      if (result.status === 'running') {
+          return (
+              <span className="text-xs text-indigo-600 flex items-center gap-1">
+                  <Loader2 size={12} className="animate-spin" /> {result.total > 1 ? `${result.done}/${result.total} 段` : '检查中'}
+              </span>
+          );
+      }
+      if (result.status === 'error') {
+          return <span className="text-xs text-red-500 flex items-center gap-1" title={result.error}><AlertTriangle size={12} /> 失败</span>;
+      }
+      if (result.issues.length === 0) {
+          return <span className="text-xs text-green-600 flex items-center gap-1"><CheckCircle size={12} /> 无问题</span>;
+      }
+      return (
+          <button
+              onClick={() => onOpenChapter(chapter.id, result.issues)}
+              className="text-xs font-medium px-2 py-0.5 rounded-full bg-orange-50 text-orange-700 border border-orange-200 hover:bg-orange-100"
+              title="在阅读器中查看"
+          >
+              {result.issues.length} 个问题
+          </button>
+      );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[85vh] flex flex-col animate-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between p-5 border-b border-gray-100">
+          <div className="flex items-center space-x-2 text-indigo-600">
+            <SpellCheck className="w-5 h-5" />
+            <h3 className="text-lg font-bold">全书语法检查</h3>
+          </div>
+          <button onClick={onClose} className="p-1.5 hover:bg-gray-100 rounded-full text-gray-400 hover:text-gray-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-gray-100 flex items-center justify-between gap-3">
+            <div className="text-sm text-gray-600">
+                共 {withContent.length} 章有内容，已检查 {checked.length} 章，发现 <span className="font-bold text-gray-800">{totalIssues}</span> 个问题
+            </div>
+            {isRunning ? (
+                <button
+                    onClick={() => { cancelRef.current = true; }}
+                    className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm font-medium rounded-lg shrink-0"
+                >
+                    <Square size={14} /> 停止
+                </button>
+            ) : (
+                <button
+                    onClick={handleStart}
+                    disabled={withContent.length === 0}
+                    className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium rounded-lg disabled:opacity-50 shrink-0"
+                >
+                    <Play size={14} /> {Object.keys(results).length > 0 ? '重新检查' : '开始检查'}
+                </button>
+            )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-gray-50">
+            {withContent.length === 0 && (
+                <p className="p-8 text-center text-sm text-gray-400">还没有已写好的章节。</p>
+            )}
+            {withContent.map(chapter => (
+                <div key={chapter.id} className="flex items-center justify-between gap-3 px-5 py-2.5">
+                    <span className="text-sm text-gray-700 truncate">{chapterHeading(settings, chapter)}</span>
+                    <div className="shrink-0">{renderStatus(chapter)}</div>
+                </div>
+            ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GrammarBatchModal;
@@ -1,50 +1,60 @@
-
-import React from 'react';
-import { GrammarIssue } from '../types';
-import { X, SpellCheck, Wand2, Loader2, CheckCircle } from 'lucide-react';
+import React, { useEffect } from 'react';
+import { LocatedIssue } from '../services/grammarFixes';
+import { X, SpellCheck, Wand2, CheckCircle, Check, EyeOff, AlertTriangle } from 'lucide-react';
 
 interface GrammarReportProps {
   isOpen: boolean;
   onClose: () => void;
-  issues: GrammarIssue[];
-  onAutoFix: () => void;
-  isFixing: boolean;
+  issues: LocatedIssue[];
+  activeIndex: number | null;
+  onSelect: (index: number) => void;
+  onApply: (index: number) => void;
+  onIgnore: (index: number) => void;
+  onApplyAll: () => void;
 }
 
-const GrammarReport: React.FC<GrammarReportProps> = ({ isOpen, onClose, issues, onAutoFix, isFixing }) => {
+// Side panel next to the chapter text, so the located issues stay visible while reviewing them
+const GrammarReport: React.FC<GrammarReportProps> = ({ isOpen, onClose, issues, activeIndex, onSelect, onApply, onIgnore, onApplyAll }) => {
+  useEffect(() => {
+    if (isOpen && activeIndex !== null) {
+      document.getElementById(`grammar-card-${activeIndex}`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [isOpen, activeIndex]);
+
   if (!isOpen) return null;
 
+  const locatedCount = issues.filter(l => l.span).length;
+
   return (
-    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in duration-200">
-      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col animate-in zoom-in-95 duration-200 border border-gray-100">
-        <div className="flex items-center justify-between p-5 border-b border-gray-100">
+    <div className="absolute top-0 right-0 h-full w-full sm:w-96 z-40 bg-white border-l border-gray-200 shadow-2xl flex flex-col animate-in slide-in-from-right duration-200">
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
           <div className="flex items-center space-x-2 text-indigo-600">
             <SpellCheck className="w-5 h-5" />
-            <h3 className="text-lg font-bold">语法与拼写检查</h3>
+            <h3 className="text-base font-bold">语法与拼写检查</h3>
           </div>
-          <button 
+          <button
             onClick={onClose}
             className="p-1.5 hover:bg-gray-100 rounded-full text-gray-400 hover:text-gray-600 transition-colors"
           >
-            <X size={20} />
+            <X size={18} />
           </button>
         </div>
 
-        <div className="flex-1 overflow-y-auto p-6 space-y-6 bg-gray-50/50">
-           
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-gray-50/50">
+
            {/* Summary */}
-           <div className="p-4 bg-white rounded-lg border border-gray-200 flex justify-between items-center shadow-sm">
+           <div className="p-3 bg-white rounded-lg border border-gray-200 flex justify-between items-center shadow-sm gap-3">
                 <div>
-                   <h4 className="font-bold text-gray-800">发现 {issues.length} 个潜在问题</h4>
-                   <p className="text-xs text-gray-500 mt-1">查看以下建议或使用一键修复。</p>
+                   <h4 className="font-bold text-gray-800 text-sm">剩余 {issues.length} 个潜在问题</h4>
+                   <p className="text-xs text-gray-500 mt-1">逐条应用或忽略；全部应用只修改标出的片段。</p>
                 </div>
                 <button
-                    onClick={onAutoFix}
-                    disabled={isFixing || issues.length === 0}
-                    className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium rounded-lg transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    onClick={onApplyAll}
+                    disabled={locatedCount === 0}
+                    className="flex items-center space-x-1.5 px-3 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-medium rounded-lg transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed shrink-0"
                 >
-                    {isFixing ? <Loader2 size={16} className="animate-spin" /> : <Wand2 size={16} />}
-                    <span>一键修复</span>
+                    <Wand2 size={14} />
+                    <span>全部应用</span>
                 </button>
            </div>
 
@@ -57,26 +67,52 @@ const GrammarReport: React.FC<GrammarReportProps> = ({ isOpen, onClose, issues,
            )}
 
            {/* Issues List */}
-           <div className="space-y-4">
-               {issues.map((issue, idx) => (
-                   <div key={idx} className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm hover:shadow-md transition-shadow group">
-                       <div className="grid grid-cols-1 gap-3">
+           <div className="space-y-3">
+               {issues.map(({ issue, span }, idx) => (
+                   <div
+                       key={idx}
+                       id={`grammar-card-${idx}`}
+                       onClick={() => span && onSelect(idx)}
+                       className={`bg-white p-3 rounded-lg border shadow-sm transition-all ${span ? 'cursor-pointer hover:shadow-md' : 'opacity-60'} ${
+                           activeIndex === idx ? 'border-indigo-400 ring-2 ring-indigo-100' : 'border-gray-200'
+                       }`}
+                   >
+                       <div className="grid grid-cols-1 gap-2">
                            <div className="bg-red-50 p-2 rounded text-red-700 text-sm line-through decoration-red-400 decoration-2">
                                {issue.original}
                            </div>
                            <div className="flex items-center text-green-700 text-sm font-medium bg-green-50 p-2 rounded">
-                               <Wand2 size={14} className="mr-2" />
+                               <Wand2 size={14} className="mr-2 shrink-0" />
                                {issue.suggestion}
                            </div>
-                           <div className="text-xs text-gray-500 italic border-t border-gray-50 pt-2 mt-1">
+                           <div className="text-xs text-gray-500 italic">
                                说明: {issue.explanation}
                            </div>
+                           {!span && (
+                               <div className="text-xs text-orange-600 flex items-center gap-1">
+                                   <AlertTriangle size={12} /> 在正文中找不到原文，可能已被修改。
+                               </div>
+                           )}
+                           <div className="flex justify-end gap-2 border-t border-gray-50 pt-2">
+                               <button
+                                   onClick={(e) => { e.stopPropagation(); onIgnore(idx); }}
+                                   className="flex items-center gap-1 px-2.5 py-1 text-xs text-gray-500 hover:bg-gray-100 rounded"
+                               >
+                                   <EyeOff size={12} /> 忽略
+                               </button>
+                               <button
+                                   onClick={(e) => { e.stopPropagation(); onApply(idx); }}
+                                   disabled={!span}
+                                   className="flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-white bg-green-600 hover:bg-green-700 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                               >
+                                   <Check size={12} /> 应用
+                               </button>
+                           </div>
                        </div>
                    </div>
                ))}
            </div>
         </div>
-      </div>
     </div>
   );
 };
@@ -3,6 +3,14 @@ import React, { useState } from 'react';
 import { Upload, FileText, Check, AlertTriangle, Loader2 } from 'lucide-react';
 import { NovelSettings, Chapter, Character } from '../types';
 import { analyzeImportedNovel } from '../services/geminiService';
+import { IMPORT_FILE_TYPES, importFileTitle, isPlainTextImport, parseImportFile, ParsedImport, parsePlainTextImport } from '../services/importParsers';
+import { decodeText, detectEncoding, TEXT_ENCODINGS, TextEncodingId } from '../services/textEncoding';
+
+const PREVIEW_LINES = 12;
+
+// First non-empty lines, so a wrong encoding is obvious before importing
+const previewLines = (text: string) =>
+    text.split(/\r?\n/).map(l => l.trim()).filter(Boolean).slice(0, PREVIEW_LINES).map(l => l.length > 80 ? l.slice(0, 80) + '…' : l);
 
 interface ImporterProps {
     isOpen: boolean;
@@ -12,103 +20,68 @@ interface ImporterProps {
 }
 
 const Importer: React.FC<ImporterProps> = ({ isOpen, onClose, onImport, baseSettings }) => {
-    const [fileContent, setFileContent] = useState<string | null>(null);
+    const [parsed, setParsed] = useState<ParsedImport | null>(null);
     const [fileName, setFileName] = useState<string>("");
+    const [fileSize, setFileSize] = useState(0);
     const [isAnalyzing, setIsAnalyzing] = useState(false);
     const [status, setStatus] = useState<string>("");
+    // Plain-text sources keep their bytes so the encoding can be overridden
+    const [textSource, setTextSource] = useState<{ bytes: Uint8Array; detected: TextEncodingId } | null>(null);
+    const [encoding, setEncoding] = useState<TextEncodingId>('utf-8');
+    const [preview, setPreview] = useState<string[]>([]);
+    const [undecodable, setUndecodable] = useState(0);
 
     if (!isOpen) return null;
 
-    const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const volumeCount = parsed ? new Set(parsed.chapters.map(c => c.volumeId)).size : 0;
+
+    const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (!file) return;
         setFileName(file.name);
-        
-        const reader = new FileReader();
-        reader.onload = (e) => {
-            const text = e.target?.result as string;
-            setFileContent(text);
-        };
-        reader.readAsText(file);
-    };
-
-    const parseChapters = (text: string): Chapter[] => {
-        // Robust Regex for various formats:
-        // 1. 第X章 (Chinese Standard)
-        // 2. Chapter X (English Standard)
-        // 3. X. (Numeric list)
-        // 4. 卷X (Volume - though we treat as chapter for now or need volume logic)
-        // 5. 序章/前言 (Prologue)
-        const chapterRegex = /(?:^\s*第[0-9一二三四五六七八九十百千]+[章卷].*|^Chapter\s+\d+.*|^\d+\.\s+.*|^[Pp]rologue.*|^序[章言].*)/gm;
-        
-        const matches = [...text.matchAll(chapterRegex)];
-        const chapters: Chapter[] = [];
-        
-        if (matches.length === 0) {
-            // No chapters found, treat as short story
-            chapters.push({
-                id: 1,
-                title: "正文",
-                content: text.trim(),
-                summary: "导入的全文内容。",
-                isGenerating: false,
-                isDone: true,
-                volumeId: 1
-            });
-            return chapters;
-        }
+        setFileSize(file.size);
+        // Allow picking the same file again after a failed parse
+        e.target.value = '';
+        setStatus("正在解析章节结构...");
 
-        for (let i = 0; i < matches.length; i++) {
-            const match = matches[i];
-            const start = match.index! + match[0].length;
-            const end = i < matches.length - 1 ? matches[i+1].index! : text.length;
-            
-            const title = match[0].trim();
-            const content = text.substring(start, end).trim();
-            
-            // Basic validation to avoid empty chapters if regex matched noise
-            if (!content && i < matches.length - 1) continue;
-
-            chapters.push({
-                id: chapters.length + 1,
-                title: title,
-                content: content,
-                summary: "", // To be generated later
-                isGenerating: false,
-                isDone: true,
-                volumeId: 1 // Default to volume 1 for imported content
-            });
-        }
-        
-        // If content exists before the first chapter (Prologue?), add it
-        if (matches[0].index! > 0) {
-            const preContent = text.substring(0, matches[0].index!).trim();
-            if (preContent.length > 50) { // Filter out random header noise
-                chapters.unshift({
-                    id: 0,
-                    title: "前言/序",
-                    content: preContent,
-                    summary: "前言内容",
-                    isGenerating: false,
-                    isDone: true,
-                    volumeId: 1
-                });
-                // Re-index
-                chapters.forEach((c, idx) => c.id = idx + 1);
+        try {
+            if (isPlainTextImport(file.name)) {
+                const bytes = new Uint8Array(await file.arrayBuffer());
+                const detected = detectEncoding(bytes);
+                setTextSource({ bytes, detected });
+                decodeSource(bytes, detected, file.name);
+            } else {
+                setTextSource(null);
+                setParsed(await parseImportFile(file));
             }
+            setStatus("");
+        } catch (err: any) {
+            console.error(err);
+            setStatus("错误: 无法解析文件 - " + err.message);
         }
+    };
+
+    const decodeSource = (bytes: Uint8Array, nextEncoding: TextEncodingId, name: string) => {
+        const text = decodeText(bytes, nextEncoding);
+        setEncoding(nextEncoding);
+        setPreview(previewLines(text));
+        setUndecodable((text.match(/\uFFFD/g) || []).length);
+        setParsed(parsePlainTextImport(name, text));
+    };
 
-        return chapters;
+    const handleReset = () => {
+        setParsed(null);
+        setTextSource(null);
+        setStatus("");
     };
 
     const handleRunImport = async () => {
-        if (!fileContent) return;
+        if (!parsed) return;
         setIsAnalyzing(true);
-        setStatus("正在解析章节结构...");
 
         try {
-            const chapters = parseChapters(fileContent);
-            
+            const { chapters } = parsed;
+
             if (chapters.length === 0) {
                 throw new Error("无法解析章节，请检查文本格式。");
             }
@@ -124,7 +97,7 @@ const Importer: React.FC<ImporterProps> = ({ isOpen, onClose, onImport, baseSett
             } catch (err) {
                 console.warn("AI Analysis failed, falling back to defaults", err);
                 metadata = {
-                    title: fileName.replace(/\.txt$/i, ''),
+                    title: importFileTitle(fileName),
                     premise: "导入的小说。",
                     mainCategory: "其他",
                     worldSetting: "",
@@ -134,7 +107,8 @@ const Importer: React.FC<ImporterProps> = ({ isOpen, onClose, onImport, baseSett
             
             const newSettings: NovelSettings = {
                 ...baseSettings,
-                title: metadata.title || fileName.replace(/\.txt$/i, ''),
+                // Titles from EPUB/DOCX metadata or a Markdown title heading beat the AI's guess
+                title: parsed.title || metadata.title || importFileTitle(fileName),
                 premise: metadata.premise || "导入的小说",
                 mainCategory: metadata.mainCategory || "其他",
                 worldSetting: metadata.worldSetting,
@@ -165,19 +139,19 @@ const Importer: React.FC<ImporterProps> = ({ isOpen, onClose, onImport, baseSett
                     <Upload className="text-indigo-600"/> 导入小说
                 </h2>
                 
-                {!fileContent ? (
+                {!parsed ? (
                     <div className="border-2 border-dashed border-gray-300 rounded-xl p-8 text-center hover:bg-gray-50 transition-colors relative">
                         <input 
                             type="file" 
-                            accept=".txt" 
+                            accept={IMPORT_FILE_TYPES}
                             onChange={handleFileUpload}
                             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" 
                             id="file-upload"
                         />
                         <div className="pointer-events-none">
                             <FileText size={48} className="text-gray-400 mb-2 mx-auto"/>
-                            <span className="text-sm font-medium text-gray-700 block">点击上传 .txt 文件</span>
-                            <span className="text-xs text-gray-500 mt-1 block">支持 "第X章", "Chapter X" 等格式</span>
+                            <span className="text-sm font-medium text-gray-700 block">点击上传 .txt / .md / .epub / .docx 文件</span>
+                            <span className="text-xs text-gray-500 mt-1 block">TXT 支持 "第X章", "Chapter X" 等格式；EPUB 按目录、DOCX 按标题样式、Markdown 按 # 标题分卷分章</span>
                         </div>
                     </div>
                 ) : (
@@ -186,11 +160,42 @@ const Importer: React.FC<ImporterProps> = ({ isOpen, onClose, onImport, baseSett
                             <Check size={20} className="text-green-600"/>
                             <div className="overflow-hidden flex-1">
                                 <p className="text-sm font-medium text-green-800 truncate">{fileName}</p>
-                                <p className="text-xs text-green-600">已加载 {Math.round(fileContent.length / 1024)} KB</p>
+                                <p className="text-xs text-green-600">
+                                    已加载 {Math.round(fileSize / 1024)} KB，识别到 {parsed.chapters.length} 个章节
+                                    {volumeCount > 1 && `，${volumeCount} 卷`}
+                                </p>
                             </div>
-                            <button onClick={() => setFileContent(null)} className="text-xs text-gray-500 underline hover:text-gray-800">重选</button>
+                            <button onClick={handleReset} className="text-xs text-gray-500 underline hover:text-gray-800">重选</button>
                         </div>
 
+                        {textSource && (
+                            <div className="space-y-2">
+                                <div className="flex items-center justify-between gap-3">
+                                    <label className="text-xs font-medium text-gray-600">文本编码</label>
+                                    <select
+                                        value={encoding}
+                                        onChange={e => decodeSource(textSource.bytes, e.target.value as TextEncodingId, fileName)}
+                                        disabled={isAnalyzing}
+                                        className="text-xs border border-gray-300 rounded px-2 py-1 bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                                    >
+                                        {TEXT_ENCODINGS.map(e => (
+                                            <option key={e.id} value={e.id}>
+                                                {e.label}{e.id === textSource.detected ? '（自动检测）' : ''}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <pre className="text-xs text-gray-700 bg-gray-50 border border-gray-200 rounded-lg p-3 max-h-48 overflow-auto whitespace-pre-wrap font-sans leading-relaxed">
+                                    {preview.join('\n') || '（空文件）'}
+                                </pre>
+                                <p className={`text-xs ${undecodable > 0 ? 'text-orange-600' : 'text-gray-400'}`}>
+                                    {undecodable > 0
+                                        ? `有 ${undecodable} 个字符无法按当前编码解码，预览若为乱码请切换编码。`
+                                        : '请确认预览文字显示正常；若为乱码请切换编码。'}
+                                </p>
+                            </div>
+                        )}
+
                         {status && (
                             <div className="text-sm text-indigo-600 flex items-center gap-2 bg-indigo-50 p-2 rounded">
                                 {isAnalyzing && <Loader2 size={14} className="animate-spin"/>}
@@ -212,6 +217,10 @@ const Importer: React.FC<ImporterProps> = ({ isOpen, onClose, onImport, baseSett
                         </div>
                     </div>
                 )}
+
+                {!parsed && status && (
+                    <div className="mt-3 text-sm text-indigo-600 bg-indigo-50 p-2 rounded">{status}</div>
+                )}
                 
                 <div className="mt-4 p-3 bg-orange-50 border border-orange-100 rounded-lg flex gap-2 items-start">
                     <AlertTriangle size={16} className="text-orange-500 shrink-0 mt-0.5"/>
@@ -1,8 +1,9 @@
 
 import React, { useState, useEffect } from 'react';
-import { ModelConfig, NovelSettings, ModelProvider } from '../types';
+import { ModelConfig, NovelSettings, ModelProvider, ModelTask } from '../types';
 import { DAOFactory } from '../services/dao';
-import { Plus, Edit2, Trash2, Save, X, Bot, Server, Key, Link, Gauge, Play, CheckCircle2, Cpu } from 'lucide-react';
+import { LLMClientFactory } from '../services/llmClient';
+import { Plus, Edit2, Trash2, Save, X, Bot, Server, Key, Link, Gauge, Play, CheckCircle2, Cpu, GitBranch } from 'lucide-react';
 
 interface ModelConfigManagerProps {
     settings: NovelSettings;
@@ -20,6 +21,31 @@ const emptyConfig: ModelConfig = {
     createdAt: new Date()
 };
 
+const DEFAULT_BASE_URLS: Record<ModelProvider, string> = {
+    gemini: '',
+    alibaba: 'https://dashscope.aliyuncs.com/api/v1',
+    volcano: 'https://ark.cn-beijing.volces.com/api/v3',
+    custom: 'https://api.openai.com/v1/chat/completions',
+    mock: ''
+};
+
+const MODEL_NAME_PLACEHOLDERS: Record<ModelProvider, string> = {
+    gemini: 'gemini-3-flash-preview',
+    alibaba: 'qwen-plus',
+    volcano: 'ep-20240101000000-xxxxx',
+    custom: 'model-name',
+    mock: 'truncate:generate_outline, quota-once, safety:generate_chapter'
+};
+
+const TASK_LABELS: { task: ModelTask, label: string, hint: string }[] = [
+    { task: 'outline', label: '大纲与设定 (Outline)', hint: '大纲、角色、世界观、标题' },
+    { task: 'chapter', label: '章节创作 (Chapter)', hint: '生成、扩写、续写章节' },
+    { task: 'summary', label: '章节摘要 (Summary)', hint: '每章完成后的摘要' },
+    { task: 'grammar', label: '语法检查 (Grammar)', hint: '语法检查与一键修复' },
+    { task: 'analysis', label: '分析 (Analysis)', hint: '节奏、一致性、情节逻辑分析' },
+    { task: 'image', label: '图像生成 (Image)', hint: '角色立绘' },
+];
+
 const ModelConfigManager: React.FC<ModelConfigManagerProps> = ({ settings, onSettingsChange }) => {
     const [configs, setConfigs] = useState<ModelConfig[]>([]);
     const [viewMode, setViewMode] = useState<'list' | 'edit'>('list');
@@ -36,6 +62,7 @@ const ModelConfigManager: React.FC<ModelConfigManagerProps> = ({ settings, onSet
             const dao = DAOFactory.getDAO(settings);
             const list = await dao.listModelConfigs();
             setConfigs(list);
+            LLMClientFactory.registerModelConfigs(list);
         } catch (e) {
             console.error(e);
         } finally {
@@ -57,6 +84,12 @@ const ModelConfigManager: React.FC<ModelConfigManagerProps> = ({ settings, onSet
         if (!window.confirm("确定要删除此配置吗？")) return;
         const dao = DAOFactory.getDAO(settings);
         await dao.deleteModelConfig(id);
+        // Drop routes that pointed at the deleted config
+        const routing = { ...(settings.modelRouting || {}) };
+        (Object.keys(routing) as ModelTask[]).forEach(task => {
+            if (routing[task] === id) delete routing[task];
+        });
+        applyRouting(routing);
         await loadConfigs();
     };
 
@@ -67,10 +100,27 @@ const ModelConfigManager: React.FC<ModelConfigManagerProps> = ({ settings, onSet
         }
         const dao = DAOFactory.getDAO(settings);
         await dao.saveModelConfig(editingConfig);
+        // Routes hold config ids, so reloading the store is enough for them to pick up the edit
         await loadConfigs();
         setViewMode('list');
     };
 
+    const applyRouting = (routing: Partial<Record<ModelTask, string>>) => {
+        onSettingsChange({ ...settings, modelRouting: routing });
+        // Persist as global preference for new novels
+        localStorage.setItem('model_routing', JSON.stringify(routing));
+    };
+
+    const handleRouteChange = (task: ModelTask, configId: string) => {
+        const routing = { ...(settings.modelRouting || {}) };
+        if (configs.some(c => c.id === configId)) {
+            routing[task] = configId;
+        } else {
+            delete routing[task];
+        }
+        applyRouting(routing);
+    };
+
     const handleActivate = (config: ModelConfig) => {
         onSettingsChange({
             ...settings,
@@ -138,12 +188,13 @@ const ModelConfigManager: React.FC<ModelConfigManagerProps> = ({ settings, onSet
                                     <option value="alibaba">Alibaba Bailian (Qwen)</option>
                                     <option value="volcano">Volcano Engine (Doubao)</option>
                                     <option value="custom">Custom (OpenAI Compatible)</option>
+                                    <option value="mock">Mock (离线模拟)</option>
                                 </select>
                                 <Bot size={18} className="absolute left-3 top-2.5 text-gray-500 pointer-events-none" />
                             </div>
                          </div>
 
-                         {editingConfig.provider !== 'gemini' && (
+                         {editingConfig.provider !== 'gemini' && editingConfig.provider !== 'mock' && (
                             <div>
                                 <label className="block text-sm font-semibold text-gray-700 mb-1">API Key</label>
                                 <div className="relative">
@@ -159,15 +210,17 @@ const ModelConfigManager: React.FC<ModelConfigManagerProps> = ({ settings, onSet
                             </div>
                          )}
 
-                         {editingConfig.provider === 'custom' && (
+                         {editingConfig.provider !== 'gemini' && editingConfig.provider !== 'mock' && (
                             <div>
-                                <label className="block text-sm font-semibold text-gray-700 mb-1">Base URL</label>
+                                <label className="block text-sm font-semibold text-gray-700 mb-1">
+                                    Base URL {editingConfig.provider !== 'custom' && '(可选)'}
+                                </label>
                                 <div className="relative">
                                     <input 
                                         type="text" 
                                         value={editingConfig.baseUrl || ''}
                                         onChange={(e) => handleEditChange('baseUrl', e.target.value)}
-                                        placeholder="https://api.openai.com/v1/chat/completions"
+                                        placeholder={DEFAULT_BASE_URLS[editingConfig.provider]}
                                         className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
                                     />
                                     <Link size={18} className="absolute left-3 top-2.5 text-gray-500 pointer-events-none" />
@@ -177,18 +230,23 @@ const ModelConfigManager: React.FC<ModelConfigManagerProps> = ({ settings, onSet
 
                          <div>
                             <label className="block text-sm font-semibold text-gray-700 mb-1">
-                                {editingConfig.provider === 'volcano' ? 'Endpoint ID' : 'Model Name'}
+                                {editingConfig.provider === 'volcano' ? 'Endpoint ID' : editingConfig.provider === 'mock' ? '模拟场景 (Scenario, 可选)' : 'Model Name'}
                             </label>
                             <div className="relative">
                                 <input 
                                     type="text" 
                                     value={editingConfig.modelName || ''}
                                     onChange={(e) => handleEditChange('modelName', e.target.value)}
-                                    placeholder={editingConfig.provider === 'gemini' ? 'gemini-3-flash-preview' : 'model-name'}
+                                    placeholder={MODEL_NAME_PLACEHOLDERS[editingConfig.provider]}
                                     className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
                                 />
                                 <Server size={18} className="absolute left-3 top-2.5 text-gray-500 pointer-events-none" />
                             </div>
+                            {editingConfig.provider === 'mock' && (
+                                <p className="text-[10px] text-gray-400 mt-1">
+                                    * 返回内置的模拟数据，不消耗 Token。可用逗号分隔多个场景，格式为 行为[:提示词ID]：truncate（截断 JSON）、quota（429 配额错误）、quota-once（首次 429 后成功）、safety（安全拦截）。
+                                </p>
+                            )}
                          </div>
 
                          <div>
@@ -312,6 +370,36 @@ const ModelConfigManager: React.FC<ModelConfigManagerProps> = ({ settings, onSet
                         })}
                     </div>
                 )}
+
+                {configs.length > 0 && (
+                    <div className="mt-10 bg-white rounded-xl border border-gray-200 p-6">
+                        <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+                            <GitBranch size={18} className="text-indigo-600" />
+                            任务路由 (Task Routing)
+                        </h3>
+                        <p className="text-gray-500 text-sm mt-1 mb-5">为不同任务指定模型配置，例如用高级模型写正文、用廉价模型做摘要和语法检查。未指定的任务使用当前启用的配置。</p>
+                        <div className="divide-y divide-gray-100">
+                            {TASK_LABELS.map(({ task, label, hint }) => (
+                                <div key={task} className="py-3 flex items-center justify-between gap-4">
+                                    <div>
+                                        <div className="text-sm font-semibold text-gray-700">{label}</div>
+                                        <div className="text-xs text-gray-400">{hint}</div>
+                                    </div>
+                                    <select
+                                        value={settings.modelRouting?.[task] || ''}
+                                        onChange={(e) => handleRouteChange(task, e.target.value)}
+                                        className="w-64 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+                                    >
+                                        <option value="">默认 (当前启用的配置)</option>
+                                        {configs.map(config => (
+                                            <option key={config.id} value={config.id}>{config.name} · {config.modelName || config.provider}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
             </div>
         </div>
     );
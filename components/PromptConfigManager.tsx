@@ -18,8 +18,11 @@ const PREVIEW_LABELS: Record<string, { label: string, icon: any }> = {
     [PROMPT_KEYS.GENERATE_WORLD_SETTING]: { label: '世界观生成 (World Setting)', icon: Globe2 },
     [PROMPT_KEYS.GENERATE_PREMISE]: { label: '概要生成 (Premise)', icon: Sparkles },
     [PROMPT_KEYS.EXPAND_TEXT]: { label: 'AI 扩写 (Expand Text)', icon: Edit3 },
+    [PROMPT_KEYS.EDIT_SELECTION]: { label: '选段编辑 (Selection Edit)', icon: Edit3 },
     [PROMPT_KEYS.CHECK_CONSISTENCY]: { label: '一致性检查 (Check Consistency)', icon: CheckCircle2 },
     [PROMPT_KEYS.FIX_CONSISTENCY]: { label: '一致性修复 (Fix Consistency)', icon: Sparkles },
+    [PROMPT_KEYS.EXTRACT_FACTS]: { label: '事实提取 (Fact Ledger)', icon: CheckCircle2 },
+    [PROMPT_KEYS.EXTRACT_CHARACTER_STATES]: { label: '角色状态追踪 (Character States)', icon: CheckCircle2 },
 };
 
 const PromptConfigManager: React.FC<PromptConfigManagerProps> = ({ settings, onSettingsChange }) => {
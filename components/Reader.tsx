@@ -1,9 +1,13 @@
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { AppearanceSettings, Chapter, NovelSettings, GrammarIssue, Character } from '../types';
-import { Type, AlignLeft, AlignJustify, Moon, Sun, Monitor, ArrowUpDown, Home, ChevronRight, Edit3, Save, X, Sparkles, Loader2, AlertTriangle, FileText, BookOpen, Copy, Check, SpellCheck, PenLine, FileCode, RefreshCw, Square, Activity, ArrowLeft, List, Folder, FolderOpen, Target } from 'lucide-react';
-import { continueWriting, checkGrammar, autoCorrectGrammar, analyzePacing } from '../services/geminiService';
+import { AppearanceSettings, Chapter, NovelSettings, GrammarIssue, Character, ChapterVersionSource, SelectionEditAction, ProseLintConfig, ProseLintRule } from '../types';
+import { Type, AlignLeft, AlignJustify, Moon, Sun, Monitor, ArrowUpDown, Home, ChevronRight, Edit3, Save, X, Sparkles, Loader2, AlertTriangle, FileText, BookOpen, Copy, Check, SpellCheck, PenLine, FileCode, RefreshCw, Square, Activity, ArrowLeft, List, Folder, FolderOpen, Target, History, Wand, Maximize2, Minimize2, Palette, Eye, MessageSquare, Highlighter, Settings2 } from 'lucide-react';
+import { continueWriting, checkGrammar, analyzePacing, editSelection } from '../services/geminiService';
+import { applyIssueFixes, locateIssues } from '../services/grammarFixes';
+import { diffWords } from '../services/textDiff';
+import { lintProse, proseLintConfig, segmentByFindings, PROSE_LINT_RULES } from '../services/proseLint';
 import GrammarReport from './GrammarReport';
+import VersionHistory from './VersionHistory';
 
 interface ReaderProps {
   chapter: Chapter | undefined;
@@ -13,12 +17,46 @@ interface ReaderProps {
   onGenerate: () => void;
   onRewrite: () => void;
   onBack: () => void;
-  onUpdateContent: (id: number, content: string) => void;
+  // `source` snapshots the previous text into the chapter's version history
+  onUpdateContent: (id: number, content: string, source?: ChapterVersionSource) => void;
   onUpdateChapter?: (id: number, data: Partial<Chapter>) => void;
   characters?: Character[];
   onStop?: () => void;
   chapters?: Chapter[];
   onChapterSelect?: (id: number) => void;
+  // Issues found by the whole-novel grammar check, shown when this chapter is open
+  grammarReview?: { chapterId: number; issues: GrammarIssue[] } | null;
+  onUpdateSettings?: (patch: Partial<NovelSettings>) => void;
+}
+
+const SELECTION_ACTIONS: { id: SelectionEditAction; label: string; icon: any }[] = [
+    { id: 'rewrite', label: '改写', icon: Wand },
+    { id: 'expand', label: '扩写', icon: Maximize2 },
+    { id: 'condense', label: '精简', icon: Minimize2 },
+    { id: 'tone', label: '换语气', icon: Palette },
+    { id: 'sensory', label: '感官细节', icon: Eye },
+    { id: 'dialogue', label: '转为对话', icon: MessageSquare }
+];
+
+const TONE_PRESETS = ['更紧张', '更幽默', '更冷峻', '更温柔', '更悲伤'];
+
+// Underline colour per prose lint rule; long paragraphs get a quieter dotted line since they span a whole block
+const LINT_STYLES: Record<ProseLintRule, { underline: string; dot: string }> = {
+    repeated_phrase: { underline: 'decoration-wavy decoration-orange-400', dot: 'bg-orange-400' },
+    overused_word: { underline: 'decoration-wavy decoration-amber-500', dot: 'bg-amber-500' },
+    mixed_punctuation: { underline: 'decoration-wavy decoration-sky-500', dot: 'bg-sky-500' },
+    unbalanced_quotes: { underline: 'decoration-wavy decoration-red-500', dot: 'bg-red-500' },
+    long_paragraph: { underline: 'decoration-dotted decoration-gray-400', dot: 'bg-gray-400' },
+    untagged_dialogue: { underline: 'decoration-wavy decoration-purple-500', dot: 'bg-purple-500' }
+};
+
+// A pending selection edit: the span it replaces in editContent and the AI's replacement
+interface SelectionEdit {
+    start: number;
+    end: number;
+    original: string;
+    replacement: string;
+    action: SelectionEditAction;
 }
 
 interface VolumeGroup {
@@ -40,7 +78,9 @@ const Reader: React.FC<ReaderProps> = ({
   characters = [],
   onStop,
   chapters = [],
-  onChapterSelect
+  onChapterSelect,
+  grammarReview,
+  onUpdateSettings
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editContent, setEditContent] = useState('');
@@ -53,7 +93,9 @@ const Reader: React.FC<ReaderProps> = ({
   const [isCheckingGrammar, setIsCheckingGrammar] = useState(false);
   const [grammarIssues, setGrammarIssues] = useState<GrammarIssue[]>([]);
   const [showGrammarReport, setShowGrammarReport] = useState(false);
-  const [isFixingGrammar, setIsFixingGrammar] = useState(false);
+  const [activeIssueIndex, setActiveIssueIndex] = useState<number | null>(null);
+
+  const [showVersionHistory, setShowVersionHistory] = useState(false);
 
   // Pacing
   const [isAnalyzingPacing, setIsAnalyzingPacing] = useState(false);
@@ -65,20 +107,82 @@ const Reader: React.FC<ReaderProps> = ({
   const [expandedVolumes, setExpandedVolumes] = useState<Record<number, boolean>>({});
   const directoryScrollRef = useRef<HTMLDivElement>(null);
 
+  // Offline prose linter
+  const [showLint, setShowLint] = useState(false);
+  const [showLintSettings, setShowLintSettings] = useState(false);
+
   // Target Word Count Popover
   const [showTargetInput, setShowTargetInput] = useState(false);
 
+  // Selection-scoped AI editing (edit mode only)
+  const [selectionRange, setSelectionRange] = useState<{ start: number; end: number } | null>(null);
+  const [runningSelectionAction, setRunningSelectionAction] = useState<SelectionEditAction | null>(null);
+  const [selectionEdit, setSelectionEdit] = useState<SelectionEdit | null>(null);
+  const [showToneInput, setShowToneInput] = useState(false);
+  const [toneInput, setToneInput] = useState('');
+
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const contentEndRef = useRef<HTMLDivElement>(null);
+  const selectionDiffRef = useRef<HTMLSpanElement>(null);
+  // What a finished selection edit is checked against: the chapter and text may change while the model runs
+  const editSourceRef = useRef<{ chapterId?: number; content: string }>({ content: '' });
+
+  useEffect(() => {
+    editSourceRef.current = { chapterId: chapter?.id, content: editContent };
+  }, [chapter?.id, editContent]);
 
   useEffect(() => {
     if (chapter) {
         setEditContent(chapter.content || '');
         setIsEditing(false);
         setStreamingContent('');
+        setSelectionRange(null);
+        setSelectionEdit(null);
     }
   }, [chapter?.id, chapter?.content]);
 
+  // Grammar results belong to the chapter they were run on
+  useEffect(() => {
+    setGrammarIssues([]);
+    setShowGrammarReport(false);
+    setActiveIssueIndex(null);
+  }, [chapter?.id]);
+
+  // Runs after the reset above when a review opens its chapter in the same update
+  useEffect(() => {
+    if (grammarReview && grammarReview.chapterId === chapter?.id) {
+        setGrammarIssues(grammarReview.issues);
+        setActiveIssueIndex(null);
+        setShowGrammarReport(true);
+    }
+  }, [grammarReview]);
+
+  // Issue positions are recomputed from the current text, so they follow every edit and applied fix
+  const grammarText = isEditing ? editContent : (chapter?.content || '');
+  const locatedIssues = useMemo(() => locateIssues(grammarText, grammarIssues), [grammarText, grammarIssues]);
+  const grammarHighlights = useMemo(
+    () => locatedIssues
+        .map((located, index) => ({ index, span: located.span }))
+        .filter((h): h is { index: number; span: NonNullable<typeof h.span> } => h.span !== null)
+        .sort((a, b) => a.span.start - b.span.start),
+    [locatedIssues]
+  );
+
+  const lintConfig = proseLintConfig(settings);
+  const lintFindings = useMemo(
+    () => showLint ? lintProse(grammarText, lintConfig) : [],
+    [showLint, grammarText, settings.proseLint]
+  );
+
+  const selectionDiff = useMemo(
+    () => selectionEdit ? diffWords(selectionEdit.original, selectionEdit.replacement) : [],
+    [selectionEdit]
+  );
+
+  useEffect(() => {
+    if (selectionEdit) selectionDiffRef.current?.scrollIntoView({ block: 'center' });
+  }, [selectionEdit]);
+
   useEffect(() => {
     if (isAiWriting || (chapter && chapter.isGenerating)) {
         requestAnimationFrame(() => {
@@ -144,18 +248,86 @@ const Reader: React.FC<ReaderProps> = ({
   const handleStartEdit = () => {
     if (!chapter) return;
     setEditContent(chapter.content || '');
+    setSelectionRange(null);
     setIsEditing(true);
   };
 
   const handleSaveEdit = () => {
     if (!chapter) return;
-    onUpdateContent(chapter.id, editContent);
+    onUpdateContent(chapter.id, editContent, 'manual_edit');
     setIsEditing(false);
   };
 
   const handleCancelEdit = () => {
     setIsEditing(false);
     setEditContent(chapter?.content || '');
+    setSelectionRange(null);
+    setSelectionEdit(null);
+  };
+
+  const handleTextareaSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    setSelectionRange(selectionEnd > selectionStart ? { start: selectionStart, end: selectionEnd } : null);
+    if (selectionEnd <= selectionStart) setShowToneInput(false);
+  };
+
+  // Restores a selection in the textarea once it is rendered again
+  const reselect = (start: number, end: number) => {
+    setSelectionRange({ start, end });
+    requestAnimationFrame(() => {
+        textareaRef.current?.focus();
+        textareaRef.current?.setSelectionRange(start, end);
+    });
+  };
+
+  const runSelectionEdit = async (action: SelectionEditAction, start: number, end: number) => {
+    if (!chapter) return;
+    if (action === 'tone' && !toneInput.trim()) {
+        setShowToneInput(true);
+        return;
+    }
+    // Surrounding whitespace stays in place; only the passage itself goes to the model
+    const raw = editContent.slice(start, end);
+    const leading = raw.length - raw.trimStart().length;
+    const trailing = raw.length - raw.trimEnd().length;
+    const spanStart = start + leading;
+    const spanEnd = Math.max(spanStart, end - trailing);
+    const original = editContent.slice(spanStart, spanEnd);
+    if (!original) return;
+
+    const chapterId = chapter.id;
+    const content = editContent;
+    setRunningSelectionAction(action);
+    try {
+        const replacement = await editSelection(
+            content.slice(0, spanStart), original, content.slice(spanEnd),
+            action, settings, chapter.title, characters, toneInput.trim()
+        );
+        // The offsets belong to the text as sent; drop the result if the chapter or its text changed meanwhile
+        if (editSourceRef.current.chapterId !== chapterId || editSourceRef.current.content !== content) return;
+        if (!replacement) throw new Error("AI 返回了空内容");
+        setSelectionEdit({ start: spanStart, end: spanEnd, original, replacement, action });
+        setShowToneInput(false);
+    } catch (e: any) {
+        console.error("Selection edit failed", e);
+        alert(`选段编辑失败: ${e.message}`);
+    } finally {
+        setRunningSelectionAction(null);
+    }
+  };
+
+  const handleAcceptSelectionEdit = () => {
+    if (!selectionEdit) return;
+    const { start, end, replacement } = selectionEdit;
+    setEditContent(editContent.slice(0, start) + replacement + editContent.slice(end));
+    setSelectionEdit(null);
+    reselect(start, start + replacement.length);
+  };
+
+  const handleRejectSelectionEdit = () => {
+    if (!selectionEdit) return;
+    setSelectionEdit(null);
+    reselect(selectionEdit.start, selectionEdit.end);
   };
 
   const handleAiContinue = async () => {
@@ -165,7 +337,7 @@ const Reader: React.FC<ReaderProps> = ({
         baseContent += '\n';
     }
     if (isEditing) {
-        onUpdateContent(chapter.id, baseContent);
+        onUpdateContent(chapter.id, baseContent, 'manual_edit');
     }
     setIsEditing(false);
     setIsAiWriting(true);
@@ -180,7 +352,7 @@ const Reader: React.FC<ReaderProps> = ({
         }
         const finalContent = baseContent + accumulated;
         setEditContent(finalContent);
-        onUpdateContent(chapter.id, finalContent);
+        onUpdateContent(chapter.id, finalContent, 'ai_continue');
     } catch (e: any) {
         console.error("AI writing failed", e);
         alert(`AI assistant encountered an error: ${e.message}`);
@@ -233,6 +405,7 @@ const Reader: React.FC<ReaderProps> = ({
       try {
           const issues = await checkGrammar(textToCheck, settings);
           setGrammarIssues(issues);
+          setActiveIssueIndex(null);
           setShowGrammarReport(true);
       } catch (e) {
           console.error("Grammar check failed", e);
@@ -242,26 +415,95 @@ const Reader: React.FC<ReaderProps> = ({
       }
   };
 
-  const handleAutoFixGrammar = async () => {
-      const textToFix = isEditing ? editContent : chapter?.content;
-      if (!chapter || !textToFix) return;
-      setIsFixingGrammar(true);
-      try {
-          const fixed = await autoCorrectGrammar(textToFix, settings);
-          if (isEditing) {
-              setEditContent(fixed);
-          } else {
-              onUpdateContent(chapter.id, fixed);
-          }
-          setShowGrammarReport(false);
-      } catch (e) {
-          console.error("Auto fix failed", e);
-          alert("一键修复失败。");
-      } finally {
-          setIsFixingGrammar(false);
+  // In edit mode fixes go into the draft; otherwise each one is saved with a version snapshot
+  const updateGrammarText = (text: string) => {
+      if (!chapter) return;
+      if (isEditing) {
+          setEditContent(text);
+      } else {
+          onUpdateContent(chapter.id, text, 'grammar_fix');
+      }
+  };
+
+  const handleSelectIssue = (index: number) => {
+      setActiveIssueIndex(index);
+      const span = locatedIssues[index]?.span;
+      if (!span) return;
+      if (isEditing) {
+          textareaRef.current?.focus();
+          textareaRef.current?.setSelectionRange(span.start, span.end);
+      } else {
+          document.getElementById(`grammar-issue-${index}`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
       }
   };
 
+  const handleApplyIssue = (index: number) => {
+      const located = locatedIssues[index];
+      if (!located?.span) return;
+      updateGrammarText(applyIssueFixes(grammarText, [located]));
+      setGrammarIssues(prev => prev.filter((_, i) => i !== index));
+      setActiveIssueIndex(null);
+  };
+
+  const handleIgnoreIssue = (index: number) => {
+      setGrammarIssues(prev => prev.filter((_, i) => i !== index));
+      setActiveIssueIndex(null);
+  };
+
+  // Patches only the located spans; issues whose text can't be found stay in the list
+  const handleApplyAllIssues = () => {
+      if (grammarHighlights.length === 0) return;
+      updateGrammarText(applyIssueFixes(grammarText, locatedIssues));
+      setGrammarIssues(locatedIssues.filter(l => !l.span).map(l => l.issue));
+      setActiveIssueIndex(null);
+  };
+
+  const renderGrammarHighlights = (text: string) => {
+      const parts: React.ReactNode[] = [];
+      let pos = 0;
+      grammarHighlights.forEach(({ index, span }) => {
+          parts.push(text.slice(pos, span.start));
+          parts.push(
+              <mark
+                  key={index}
+                  id={`grammar-issue-${index}`}
+                  onClick={() => setActiveIssueIndex(index)}
+                  className={`cursor-pointer rounded-sm text-inherit underline decoration-wavy decoration-red-400 underline-offset-4 ${
+                      activeIssueIndex === index ? 'bg-yellow-300/70' : 'bg-yellow-200/30'
+                  }`}
+              >
+                  {text.slice(span.start, span.end)}
+              </mark>
+          );
+          pos = span.end;
+      });
+      parts.push(text.slice(pos));
+      return parts;
+  };
+
+  const updateLintConfig = (patch: Partial<ProseLintConfig>) => onUpdateSettings?.({ proseLint: { ...lintConfig, ...patch } });
+
+  const toggleLintRule = (rule: ProseLintRule) => {
+      const disabled = lintConfig.disabledRules;
+      updateLintConfig({ disabledRules: disabled.includes(rule) ? disabled.filter(r => r !== rule) : [...disabled, rule] });
+  };
+
+  const renderLintUnderlines = (text: string) =>
+      segmentByFindings(text, lintFindings).map((segment, i) => {
+          if (segment.findings.length === 0) return segment.text;
+          // The innermost finding decides the colour: a short match inside a long paragraph stays visible
+          const innermost = segment.findings.reduce((a, b) => (b.end - b.start < a.end - a.start ? b : a));
+          return (
+              <span
+                  key={i}
+                  title={segment.findings.map(f => f.message).join('\n')}
+                  className={`underline underline-offset-4 decoration-2 cursor-help ${LINT_STYLES[innermost.rule].underline}`}
+              >
+                  {segment.text}
+              </span>
+          );
+      });
+
   const handlePacingAnalysis = async () => {
       const text = isEditing ? editContent : chapter?.content;
       if(!text) return;
@@ -334,6 +576,8 @@ const Reader: React.FC<ReaderProps> = ({
   const targetWords = chapter.targetWordCount || settings.targetChapterWordCount || 3000;
   const progressPercent = Math.min(100, Math.round((displayWordCount / targetWords) * 100));
   const isBusy = isAiWriting || chapter.isGenerating;
+  const isSelectionBusy = !!selectionEdit || !!runningSelectionAction;
+  const selectionActionLabel = (action: SelectionEditAction) => SELECTION_ACTIONS.find(a => a.id === action)?.label || '';
 
   return (
     <div className={`flex-1 flex flex-col h-full overflow-hidden transition-colors duration-300 ${getContainerThemeClasses()}`}>
@@ -481,6 +725,8 @@ const Reader: React.FC<ReaderProps> = ({
                             </button>
                         )}
                         <button onClick={handleGrammarCheck} disabled={isCheckingGrammar || isBusy} className={`p-1.5 rounded-md hover:bg-black/5 transition-colors ${isCheckingGrammar ? 'text-indigo-400 animate-pulse' : 'text-gray-500 hover:text-indigo-600'}`} title="语法检查"><SpellCheck size={16} /></button>
+                        <button onClick={() => setShowLint(!showLint)} className={`p-1.5 rounded-md hover:bg-black/5 transition-colors ${showLint ? 'text-indigo-600 bg-black/5' : 'text-gray-500 hover:text-indigo-600'}`} title="文风检查（离线）"><Highlighter size={16} /></button>
+                        <button onClick={() => setShowVersionHistory(true)} disabled={isBusy} className="p-1.5 rounded-md hover:bg-black/5 text-gray-500 hover:text-indigo-600 transition-colors" title="版本历史"><History size={16} /></button>
                     </div>
 
                     <button 
@@ -517,8 +763,8 @@ const Reader: React.FC<ReaderProps> = ({
                 <div className="flex items-center space-x-2 w-full justify-end">
                     <button 
                         onClick={handleAiContinue}
-                        disabled={isAiWriting}
-                        className="flex items-center space-x-1 bg-purple-100 text-purple-700 px-3 py-1.5 rounded-md text-xs font-medium hover:bg-purple-200 transition-colors mr-auto"
+                        disabled={isAiWriting || isSelectionBusy}
+                        className="flex items-center space-x-1 bg-purple-100 text-purple-700 px-3 py-1.5 rounded-md text-xs font-medium hover:bg-purple-200 transition-colors mr-auto disabled:opacity-50"
                         title="让 AI 继续写作"
                     >
                          {isAiWriting ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
@@ -534,7 +780,9 @@ const Reader: React.FC<ReaderProps> = ({
                     </button>
                     <button 
                         onClick={handleSaveEdit}
-                        className="flex items-center space-x-1 bg-green-600 text-white px-3 py-1.5 rounded-md text-xs font-medium hover:bg-green-700 transition-colors shadow-sm"
+                        disabled={isSelectionBusy}
+                        title={selectionEdit ? '请先接受或拒绝选段修改' : undefined}
+                        className="flex items-center space-x-1 bg-green-600 text-white px-3 py-1.5 rounded-md text-xs font-medium hover:bg-green-700 transition-colors shadow-sm disabled:opacity-50"
                     >
                         <Save size={14} />
                         <span>保存</span>
@@ -544,15 +792,183 @@ const Reader: React.FC<ReaderProps> = ({
         </div>
       </div>
 
+      {/* Prose lint summary and per-novel rule settings */}
+      {showLint && (
+          <div className="px-4 md:px-6 py-2 border-b border-gray-200 bg-white text-xs text-gray-600 shrink-0">
+              <div className="flex items-center gap-3 flex-wrap">
+                  <span className="font-bold text-gray-700 flex items-center gap-1"><Highlighter size={12} /> 文风检查</span>
+                  {PROSE_LINT_RULES.filter(r => !lintConfig.disabledRules.includes(r.id)).map(rule => (
+                      <span key={rule.id} className="flex items-center gap-1" title={rule.description}>
+                          <span className={`w-2 h-2 rounded-full ${LINT_STYLES[rule.id].dot}`}></span>
+                          {rule.label} {lintFindings.filter(f => f.rule === rule.id).length}
+                      </span>
+                  ))}
+                  {isEditing && <span className="text-gray-400">保存后在正文中标出</span>}
+                  <div className="ml-auto flex items-center gap-1">
+                      {onUpdateSettings && (
+                          <button
+                              onClick={() => setShowLintSettings(!showLintSettings)}
+                              className={`flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-100 ${showLintSettings ? 'text-indigo-600' : ''}`}
+                          >
+                              <Settings2 size={12} /> 规则设置
+                          </button>
+                      )}
+                      <button onClick={() => { setShowLint(false); setShowLintSettings(false); }} className="p-1 rounded hover:bg-gray-100 text-gray-400"><X size={12} /></button>
+                  </div>
+              </div>
+
+              {showLintSettings && onUpdateSettings && (
+                  <div className="mt-2 pt-2 border-t border-gray-100 grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <div className="space-y-1">
+                          {PROSE_LINT_RULES.map(rule => (
+                              <label key={rule.id} className="flex items-center gap-2 cursor-pointer">
+                                  <input
+                                      type="checkbox"
+                                      checked={!lintConfig.disabledRules.includes(rule.id)}
+                                      onChange={() => toggleLintRule(rule.id)}
+                                  />
+                                  <span className="font-medium text-gray-700">{rule.label}</span>
+                                  <span className="text-gray-400 truncate">{rule.description}</span>
+                              </label>
+                          ))}
+                      </div>
+                      <div className="space-y-2">
+                          <div className="grid grid-cols-2 gap-2">
+                              <label className="flex items-center gap-1">
+                                  重复窗口
+                                  <input type="number" min="1" max="50" value={lintConfig.repeatWindow} onChange={(e) => updateLintConfig({ repeatWindow: parseInt(e.target.value) || 1 })} className="w-14 px-1 py-0.5 border rounded text-center" />
+                                  句
+                              </label>
+                              <label className="flex items-center gap-1">
+                                  短语至少
+                                  <input type="number" min="2" max="20" value={lintConfig.minPhraseLength} onChange={(e) => updateLintConfig({ minPhraseLength: parseInt(e.target.value) || 2 })} className="w-14 px-1 py-0.5 border rounded text-center" />
+                                  字
+                              </label>
+                              <label className="flex items-center gap-1">
+                                  高频上限
+                                  <input type="number" min="1" value={lintConfig.overusedLimit} onChange={(e) => updateLintConfig({ overusedLimit: parseInt(e.target.value) || 1 })} className="w-14 px-1 py-0.5 border rounded text-center" />
+                                  次
+                              </label>
+                              <label className="flex items-center gap-1">
+                                  段落上限
+                                  <input type="number" min="50" step="50" value={lintConfig.maxParagraphLength} onChange={(e) => updateLintConfig({ maxParagraphLength: parseInt(e.target.value) || 50 })} className="w-16 px-1 py-0.5 border rounded text-center" />
+                                  字
+                              </label>
+                          </div>
+                          <label className="block">
+                              <span className="block mb-1">高频词（逗号或空格分隔）</span>
+                              {/* Committed on blur, so separators can be typed freely */}
+                              <textarea
+                                  key={lintConfig.overusedWords.join(',')}
+                                  defaultValue={lintConfig.overusedWords.join('，')}
+                                  onBlur={(e) => updateLintConfig({ overusedWords: e.target.value.split(/[,，、\s]+/).filter(Boolean) })}
+                                  rows={2}
+                                  className="w-full px-2 py-1 border rounded resize-none focus:ring-2 focus:ring-indigo-500 outline-none"
+                              />
+                          </label>
+                      </div>
+                  </div>
+              )}
+          </div>
+      )}
+
       <div className="flex-1 relative w-full h-full min-h-0">
-        {isEditing ? (
+        {isEditing && selectionEdit ? (
+           <>
+           {/* Inline diff of the pending selection edit */}
+           <div className={`absolute inset-0 w-full h-full p-8 pb-24 overflow-y-auto whitespace-pre-wrap leading-loose ${getThemeClasses()} ${safeAppearance.fontFamily} ${safeAppearance.fontSize}`}>
+             <span className="opacity-50">{editContent.slice(0, selectionEdit.start)}</span>
+             <span ref={selectionDiffRef}>
+               {selectionDiff.map((segment, i) => segment.type === 'same' ? (
+                   <span key={i}>{segment.text}</span>
+               ) : segment.type === 'removed' ? (
+                   <del key={i} className="bg-red-500/15 text-red-600 decoration-red-400">{segment.text}</del>
+               ) : (
+                   <ins key={i} className="bg-green-500/15 text-green-700 no-underline">{segment.text}</ins>
+               ))}
+             </span>
+             <span className="opacity-50">{editContent.slice(selectionEdit.end)}</span>
+           </div>
+           <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-20 flex items-center gap-2 bg-white border border-gray-200 shadow-xl rounded-full px-4 py-2 text-xs animate-in fade-in slide-in-from-bottom-2">
+               <span className="font-medium text-gray-600">AI {selectionActionLabel(selectionEdit.action)}结果</span>
+               <div className="h-4 w-px bg-gray-200"></div>
+               <button onClick={handleAcceptSelectionEdit} disabled={!!runningSelectionAction} className="flex items-center gap-1 px-3 py-1 rounded-full bg-green-600 text-white font-medium hover:bg-green-700 disabled:opacity-50">
+                   <Check size={12} /> 接受
+               </button>
+               <button onClick={handleRejectSelectionEdit} disabled={!!runningSelectionAction} className="flex items-center gap-1 px-3 py-1 rounded-full bg-gray-100 text-gray-700 font-medium hover:bg-gray-200 disabled:opacity-50">
+                   <X size={12} /> 拒绝
+               </button>
+               <button
+                   onClick={() => runSelectionEdit(selectionEdit.action, selectionEdit.start, selectionEdit.end)}
+                   disabled={!!runningSelectionAction}
+                   className="flex items-center gap-1 px-3 py-1 rounded-full text-purple-700 hover:bg-purple-50 disabled:opacity-50"
+               >
+                   {runningSelectionAction ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />} 重试
+               </button>
+           </div>
+           </>
+        ) : isEditing ? (
+           <>
            <textarea
              ref={textareaRef}
              value={editContent}
              onChange={(e) => setEditContent(e.target.value)}
+             onSelect={handleTextareaSelect}
+             readOnly={!!runningSelectionAction}
              className={`absolute inset-0 w-full h-full p-8 resize-none outline-none leading-loose ${getThemeClasses()} ${safeAppearance.fontFamily} ${safeAppearance.fontSize}`}
              placeholder="开始写作..."
            />
+           {/* Actions for the selected passage */}
+           {selectionRange && !isAiWriting && (
+               <div className="absolute top-3 left-1/2 -translate-x-1/2 z-20 flex flex-col items-center gap-2 animate-in fade-in">
+                   <div className="flex items-center gap-0.5 bg-white border border-gray-200 shadow-lg rounded-full px-2 py-1 text-xs">
+                       <span className="px-2 text-gray-400 whitespace-nowrap">已选 {getWordCount(editContent.slice(selectionRange.start, selectionRange.end))} 字</span>
+                       {SELECTION_ACTIONS.map(({ id, label, icon: Icon }) => (
+                           <button
+                               key={id}
+                               onMouseDown={(e) => e.preventDefault()}
+                               onClick={() => id === 'tone' ? setShowToneInput(!showToneInput) : runSelectionEdit(id, selectionRange.start, selectionRange.end)}
+                               disabled={!!runningSelectionAction}
+                               className={`flex items-center gap-1 px-2 py-1 rounded-full whitespace-nowrap transition-colors disabled:opacity-50 ${
+                                   id === 'tone' && showToneInput ? 'bg-purple-100 text-purple-700' : 'text-gray-600 hover:bg-purple-50 hover:text-purple-700'
+                               }`}
+                           >
+                               {runningSelectionAction === id ? <Loader2 size={12} className="animate-spin" /> : <Icon size={12} />}
+                               <span className="hidden md:inline">{label}</span>
+                           </button>
+                       ))}
+                   </div>
+                   {showToneInput && (
+                       <div className="flex items-center gap-1.5 bg-white border border-gray-200 shadow-lg rounded-lg p-2 text-xs">
+                           {TONE_PRESETS.map(tone => (
+                               <button
+                                   key={tone}
+                                   onMouseDown={(e) => e.preventDefault()}
+                                   onClick={() => setToneInput(tone)}
+                                   className={`px-2 py-1 rounded border ${toneInput === tone ? 'border-purple-300 bg-purple-50 text-purple-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                               >
+                                   {tone}
+                               </button>
+                           ))}
+                           <input
+                               value={toneInput}
+                               onChange={(e) => setToneInput(e.target.value)}
+                               onKeyDown={(e) => { if (e.key === 'Enter') runSelectionEdit('tone', selectionRange.start, selectionRange.end); }}
+                               placeholder="自定义语气"
+                               className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-purple-500 outline-none"
+                           />
+                           <button
+                               onClick={() => runSelectionEdit('tone', selectionRange.start, selectionRange.end)}
+                               disabled={!toneInput.trim() || !!runningSelectionAction}
+                               className="px-2 py-1 rounded bg-purple-600 text-white font-medium hover:bg-purple-700 disabled:opacity-50"
+                           >
+                               应用
+                           </button>
+                       </div>
+                   )}
+               </div>
+           )}
+           </>
         ) : (
            <div 
              className={`absolute inset-0 w-full h-full overflow-y-auto p-8 prose max-w-none ${getThemeClasses()} ${safeAppearance.fontFamily} ${safeAppearance.fontSize} ${safeAppearance.textAlign} ${safeAppearance.lineHeight}`}
@@ -560,7 +976,11 @@ const Reader: React.FC<ReaderProps> = ({
              {chapter.content || chapter.isGenerating || streamingContent ? (
                 <div className="whitespace-pre-wrap max-w-3xl mx-auto pb-20">
                    <h1 className="text-3xl font-bold mb-8 text-center">{chapter.title}</h1>
-                   <span>{chapter.content}</span>
+                   <span>
+                       {showGrammarReport && grammarHighlights.length > 0
+                           ? renderGrammarHighlights(chapter.content)
+                           : lintFindings.length > 0 ? renderLintUnderlines(chapter.content) : chapter.content}
+                   </span>
                    
                    {streamingContent && (
                         <span className={`inline relative font-serif px-1 py-0.5 rounded mx-0.5 ${
@@ -620,6 +1040,17 @@ const Reader: React.FC<ReaderProps> = ({
              )}
            </div>
         )}
+
+        <GrammarReport
+          isOpen={showGrammarReport}
+          onClose={() => { setShowGrammarReport(false); setActiveIssueIndex(null); }}
+          issues={locatedIssues}
+          activeIndex={activeIssueIndex}
+          onSelect={handleSelectIssue}
+          onApply={handleApplyIssue}
+          onIgnore={handleIgnoreIssue}
+          onApplyAll={handleApplyAllIssues}
+        />
       </div>
 
       {isDirectoryOpen && (
@@ -675,13 +1106,16 @@ const Reader: React.FC<ReaderProps> = ({
           </div>
       )}
 
-      <GrammarReport 
-        isOpen={showGrammarReport}
-        onClose={() => setShowGrammarReport(false)}
-        issues={grammarIssues}
-        onAutoFix={handleAutoFixGrammar}
-        isFixing={isFixingGrammar}
-      />
+      {chapter && (
+        <VersionHistory
+          isOpen={showVersionHistory}
+          onClose={() => setShowVersionHistory(false)}
+          chapter={chapter}
+          settings={settings}
+          onRestore={(version) => onUpdateContent(chapter.id, version.content, 'restore')}
+        />
+      )}
+
 
       {/* Simple Pacing Analysis Modal */}
       {showPacingModal && (
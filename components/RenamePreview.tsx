@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { X, Replace } from 'lucide-react';
+import { RenameMatch, RenameTarget, RENAME_TARGET_LABELS, namePattern } from '../services/renameCharacter';
+
+interface RenamePreviewProps {
+  oldName: string;
+  newName: string;
+  matches: RenameMatch[];
+  onReplace: (targets: RenameTarget[]) => void;
+  onRenameOnly: () => void;
+  onCancel: () => void;
+}
+
+const TARGETS = Object.keys(RENAME_TARGET_LABELS) as RenameTarget[];
+
+const RenamePreview: React.FC<RenamePreviewProps> = ({ oldName, newName, matches, onReplace, onRenameOnly, onCancel }) => {
+  const present = TARGETS.filter(t => matches.some(m => m.target === t));
+  const [selected, setSelected] = useState<RenameTarget[]>(present);
+
+  const toggle = (target: RenameTarget) => {
+      setSelected(prev => prev.includes(target) ? prev.filter(t => t !== target) : [...prev, target]);
+  };
+
+  const total = matches.filter(m => selected.includes(m.target)).reduce((n, m) => n + m.count, 0);
+
+  const highlight = (snippet: string) => snippet.split(namePattern(oldName)).map((part, i, parts) => (
+      <React.Fragment key={i}>
+          {part}
+          {i < parts.length - 1 && (
+              <>
+              <span className="bg-red-100 text-red-700 line-through">{oldName}</span>
+              <span className="bg-green-100 text-green-700">{newName}</span>
+              </>
+          )}
+      </React.Fragment>
+  ));
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[60] flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col animate-in zoom-in-95 duration-200 border border-gray-100">
+        <div className="flex items-center justify-between p-5 border-b border-gray-100">
+          <div className="flex items-center space-x-2 text-indigo-600">
+            <Replace className="w-5 h-5" />
+            <h3 className="text-lg font-bold">角色改名</h3>
+            <span className="text-sm text-gray-500 font-normal">{oldName} → {newName}</span>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-1.5 hover:bg-gray-100 rounded-full text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-5 py-3 border-b border-gray-100 bg-gray-50/50">
+            <p className="text-xs text-gray-500 mb-2">在以下位置发现旧名字。勾选要一并替换的范围，章节正文在替换前会保存到版本历史。</p>
+            <div className="flex flex-wrap gap-3">
+                {present.map(t => (
+                    <label key={t} className="flex items-center gap-1.5 text-sm text-gray-700 cursor-pointer">
+                        <input type="checkbox" checked={selected.includes(t)} onChange={() => toggle(t)} className="rounded text-indigo-600" />
+                        {RENAME_TARGET_LABELS[t]}
+                        <span className="text-xs text-gray-400">({matches.filter(m => m.target === t).reduce((n, m) => n + m.count, 0)})</span>
+                    </label>
+                ))}
+            </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-2">
+            {matches.filter(m => selected.includes(m.target)).map((m, idx) => (
+                <div key={idx} className="bg-white p-3 rounded-lg border border-gray-200">
+                    <div className="flex items-center justify-between text-xs mb-1">
+                        <span className="font-medium text-gray-700">{RENAME_TARGET_LABELS[m.target]} · {m.label}</span>
+                        <span className="text-gray-400">{m.count} 处</span>
+                    </div>
+                    <p className="text-xs text-gray-600 leading-relaxed break-words">{highlight(m.snippet)}</p>
+                </div>
+            ))}
+            {total === 0 && <p className="text-sm text-gray-400 text-center py-6">未选择替换范围。</p>}
+        </div>
+
+        <div className="flex items-center justify-end gap-2 p-4 border-t border-gray-100">
+            <button onClick={onRenameOnly} className="px-3 py-2 border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-gray-50">
+                仅修改角色名
+            </button>
+            <button
+                onClick={() => onReplace(selected)}
+                disabled={total === 0}
+                className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium rounded-lg shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                替换 {total} 处
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RenamePreview;
@@ -0,0 +1,236 @@
+import React, { useEffect, useState } from 'react';
+import { Chapter, RewriteAllOptions, RewriteJob } from '../types';
+import { X, RefreshCw, Play, Pause, Square, Loader2, CheckCircle, AlertTriangle } from 'lucide-react';
+
+interface RewriteAllModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  chapters: Chapter[];
+  job: RewriteJob | null;
+  isQueueRunning: boolean; // Both batch paths write chapters, so only one may run at a time
+  onStart: (options: RewriteAllOptions) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onReset: () => void;
+}
+
+const STATUS_LABELS: Record<RewriteJob['status'], string> = {
+  running: '进行中',
+  paused: '已暂停',
+  cancelled: '已取消',
+  completed: '已完成'
+};
+
+const RewriteAllModal: React.FC<RewriteAllModalProps> = ({
+  isOpen, onClose, chapters, job, isQueueRunning, onStart, onPause, onResume, onCancel, onReset
+}) => {
+  const [fromChapterId, setFromChapterId] = useState<number>(chapters[0]?.id ?? 1);
+  const [toChapterId, setToChapterId] = useState<number>(chapters[chapters.length - 1]?.id ?? 1);
+  const [regenerateOutline, setRegenerateOutline] = useState(false);
+  const [keepManualEdits, setKeepManualEdits] = useState(true);
+
+  // Reset the range whenever the dialog is opened on a (possibly different) novel
+  useEffect(() => {
+    if (isOpen && !job) {
+        setFromChapterId(chapters[0]?.id ?? 1);
+        setToChapterId(chapters[chapters.length - 1]?.id ?? 1);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const inRange = chapters.filter(c => c.id >= fromChapterId && c.id <= toChapterId);
+  const manualCount = inRange.filter(c => c.isManuallyEdited).length;
+  const willRewrite = keepManualEdits ? inRange.length - manualCount : inRange.length;
+
+  const handleStart = () => {
+      if (willRewrite === 0) return;
+      if (!window.confirm(`将重写 ${willRewrite} 章。每章在覆盖前都会保存到版本历史，可随时恢复。继续？`)) return;
+      onStart({ fromChapterId, toChapterId, regenerateOutline, keepManualEdits });
+  };
+
+  const chapterTitle = (id: number) => {
+      const c = chapters.find(ch => ch.id === id);
+      return c ? `第 ${c.id} 章 ${c.title}` : `第 ${id} 章`;
+  };
+
+  const renderOptions = () => (
+      <div className="space-y-5">
+          <div className="grid grid-cols-2 gap-4">
+              <div>
+                  <label className="block text-xs font-semibold text-gray-500 mb-1">起始章节</label>
+                  <select
+                      value={fromChapterId}
+                      onChange={(e) => {
+                          const v = Number(e.target.value);
+                          setFromChapterId(v);
+                          if (v > toChapterId) setToChapterId(v);
+                      }}
+                      className="w-full text-sm px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+                  >
+                      {chapters.map(c => <option key={c.id} value={c.id}>{c.id}. {c.title}</option>)}
+                  </select>
+              </div>
+              <div>
+                  <label className="block text-xs font-semibold text-gray-500 mb-1">结束章节</label>
+                  <select
+                      value={toChapterId}
+                      onChange={(e) => {
+                          const v = Number(e.target.value);
+                          setToChapterId(v);
+                          if (v < fromChapterId) setFromChapterId(v);
+                      }}
+                      className="w-full text-sm px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+                  >
+                      {chapters.map(c => <option key={c.id} value={c.id}>{c.id}. {c.title}</option>)}
+                  </select>
+              </div>
+          </div>
+
+          <div>
+              <label className="block text-xs font-semibold text-gray-500 mb-2">章节大纲</label>
+              <div className="space-y-2">
+                  <label className="flex items-start gap-2 text-sm text-gray-700 cursor-pointer">
+                      <input type="radio" checked={!regenerateOutline} onChange={() => setRegenerateOutline(false)} className="mt-1 text-indigo-600" />
+                      <span>保留现有摘要<span className="block text-xs text-gray-400">按当前章节标题与摘要重写正文。</span></span>
+                  </label>
+                  <label className="flex items-start gap-2 text-sm text-gray-700 cursor-pointer">
+                      <input type="radio" checked={regenerateOutline} onChange={() => setRegenerateOutline(true)} className="mt-1 text-indigo-600" />
+                      <span>重新生成大纲<span className="block text-xs text-gray-400">先重新生成全书大纲并替换范围内的标题与摘要，写完后重新总结。</span></span>
+                  </label>
+              </div>
+          </div>
+
+          <label className="flex items-start gap-2 text-sm text-gray-700 cursor-pointer">
+              <input type="checkbox" checked={keepManualEdits} onChange={(e) => setKeepManualEdits(e.target.checked)} className="mt-1 rounded text-indigo-600" />
+              <span>
+                  保留手动编辑过的章节
+                  <span className="block text-xs text-gray-400">范围内有 {manualCount} 章包含手动修改{keepManualEdits && manualCount > 0 ? '，将被跳过' : ''}。</span>
+              </span>
+          </label>
+
+          <div className="flex items-center justify-between pt-4 border-t border-gray-100">
+              <span className="text-sm text-gray-500">
+                  {isQueueRunning ? '生成队列正在运行，请先暂停队列' : `共 ${willRewrite} 章将被重写`}
+              </span>
+              <button
+                  onClick={handleStart}
+                  disabled={willRewrite === 0 || isQueueRunning}
+                  className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium rounded-lg transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                  <Play size={16} />
+                  <span>开始重写</span>
+              </button>
+          </div>
+      </div>
+  );
+
+  const renderProgress = (job: RewriteJob) => {
+      const done = job.completed.length + job.failed.length + job.skipped.length;
+      const percent = job.total > 0 ? Math.round((done / job.total) * 100) : 100;
+      const finished = job.status === 'completed' || job.status === 'cancelled';
+
+      return (
+          <div className="space-y-5">
+              <div>
+                  <div className="flex justify-between text-sm mb-2">
+                      <span className="font-medium text-gray-700">
+                          {STATUS_LABELS[job.status]} · 第 {job.options.fromChapterId}–{job.options.toChapterId} 章
+                      </span>
+                      <span className="text-gray-500">{done} / {job.total}</span>
+                  </div>
+                  <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-indigo-500 transition-all" style={{ width: `${percent}%` }} />
+                  </div>
+              </div>
+
+              {job.currentChapterId !== null && (
+                  <div className="flex items-center gap-2 text-sm text-indigo-700 bg-indigo-50 px-3 py-2 rounded-lg">
+                      <Loader2 size={14} className="animate-spin" />
+                      正在重写 {chapterTitle(job.currentChapterId)}
+                  </div>
+              )}
+              {job.message && (
+                  <div className="flex items-center gap-2 text-sm text-amber-700 bg-amber-50 px-3 py-2 rounded-lg">
+                      {job.status === 'running' ? <Loader2 size={14} className="animate-spin" /> : <AlertTriangle size={14} />}
+                      {job.message}
+                  </div>
+              )}
+
+              <div className="grid grid-cols-3 gap-3 text-center text-xs">
+                  <div className="bg-green-50 text-green-700 rounded-lg py-2"><div className="text-lg font-bold">{job.completed.length}</div>已重写</div>
+                  <div className="bg-gray-50 text-gray-600 rounded-lg py-2"><div className="text-lg font-bold">{job.skipped.length}</div>已跳过</div>
+                  <div className="bg-red-50 text-red-700 rounded-lg py-2"><div className="text-lg font-bold">{job.failed.length}</div>失败</div>
+              </div>
+
+              {job.failed.length > 0 && (
+                  <ul className="text-xs text-red-600 space-y-1 max-h-32 overflow-y-auto">
+                      {job.failed.map(f => <li key={f.chapterId}>{chapterTitle(f.chapterId)}: {f.reason}</li>)}
+                  </ul>
+              )}
+
+              <div className="flex items-center justify-end gap-2 pt-4 border-t border-gray-100">
+                  {job.status === 'running' && (
+                      <button onClick={onPause} className="flex items-center space-x-1 px-3 py-2 border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-gray-50">
+                          <Pause size={14} /><span>暂停</span>
+                      </button>
+                  )}
+                  {job.status === 'paused' && (
+                      <button
+                          onClick={onResume}
+                          disabled={isQueueRunning}
+                          title={isQueueRunning ? '生成队列正在运行，请先暂停队列' : undefined}
+                          className="flex items-center space-x-1 px-3 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                          <Play size={14} /><span>继续</span>
+                      </button>
+                  )}
+                  {(job.status === 'running' || job.status === 'paused') && (
+                      <button
+                          onClick={() => job.status === 'paused' ? onReset() : onCancel()}
+                          className="flex items-center space-x-1 px-3 py-2 border border-red-200 text-red-600 text-sm rounded-lg hover:bg-red-50"
+                      >
+                          <Square size={14} /><span>取消</span>
+                      </button>
+                  )}
+                  {finished && (
+                      <>
+                      {job.status === 'completed' && <span className="flex items-center gap-1 text-sm text-green-600 mr-auto"><CheckCircle size={16} /> 批量重写完成</span>}
+                      <button onClick={onReset} className="px-3 py-2 border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-gray-50">
+                          新的重写任务
+                      </button>
+                      </>
+                  )}
+              </div>
+          </div>
+      );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[85vh] flex flex-col animate-in zoom-in-95 duration-200 border border-gray-100">
+        <div className="flex items-center justify-between p-5 border-b border-gray-100">
+          <div className="flex items-center space-x-2 text-indigo-600">
+            <RefreshCw className="w-5 h-5" />
+            <h3 className="text-lg font-bold">批量重写</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-gray-100 rounded-full text-gray-400 hover:text-gray-600 transition-colors"
+            title={job?.status === 'running' ? '关闭窗口，任务在后台继续' : '关闭'}
+          >
+            <X size={20} />
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6">
+            {chapters.length === 0
+                ? <p className="text-sm text-gray-400 text-center py-6">请先生成章节大纲。</p>
+                : job ? renderProgress(job) : renderOptions()}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RewriteAllModal;
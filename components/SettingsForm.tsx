@@ -3,6 +3,7 @@ import React, { useState } from 'react';
 import { NovelSettings, Language, WritingTone, WritingStyle, NarrativePerspective, NovelType, NarrativePacing, RhetoricLevel } from '../types';
 import { BookOpen, PenTool, Sparkles, Globe, Wand2, Loader2, Feather, Eye, Mic2, ScrollText, BookCopy, Globe2, Dna, Check, Square, Users, Tag, Layers, Type, Gauge, Palette } from 'lucide-react';
 import { generatePremise, generateWorldSetting, expandText, generateCharacterConcepts, generateTitles } from '../services/geminiService';
+import { DEFAULT_CONTEXT_TOKEN_BUDGET } from '../services/contextBuilder';
 
 interface SettingsFormProps {
   settings: NovelSettings;
@@ -714,6 +715,22 @@ const SettingsForm: React.FC<SettingsFormProps> = ({ settings, onSettingsChange,
                     目标生成长度
                  </p>
              </div>
+
+             <div className="col-span-2">
+                 <label className="block text-sm font-medium text-gray-700 mb-1">上下文预算 (Tokens)</label>
+                 <input
+                  type="number"
+                  min={1000}
+                  step={1000}
+                  value={settings.contextTokenBudget || DEFAULT_CONTEXT_TOKEN_BUDGET}
+                  onChange={(e) => handleChange('contextTokenBudget', parseInt(e.target.value))}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                 />
+                 <p className="text-[10px] text-gray-500 mt-1 flex items-center gap-1">
+                    <Layers size={10} />
+                    生成章节时可使用的前文上限：近章正文、章节摘要，以及从更早章节、角色卡和百科中检索出的相关片段
+                 </p>
+             </div>
           </div>
         </div>
 
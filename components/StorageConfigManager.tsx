@@ -1,17 +1,22 @@
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { NovelSettings } from '../types';
-import { Database, HardDrive, Server, Save, CheckCircle2, FolderOpen } from 'lucide-react';
-import { DAOFactory } from '../services/dao';
+import { Database, HardDrive, Server, Save, CheckCircle2, FolderOpen, Download, Upload } from 'lucide-react';
+import { DAOFactory, SQLiteDAO, DEFAULT_SQLITE_PATH } from '../services/dao';
 
 interface StorageConfigManagerProps {
     settings: NovelSettings;
     onSettingsChange: (settings: NovelSettings) => void;
+    onDataImported?: () => void;
 }
 
-const StorageConfigManager: React.FC<StorageConfigManagerProps> = ({ settings, onSettingsChange }) => {
+const StorageConfigManager: React.FC<StorageConfigManagerProps> = ({ settings, onSettingsChange, onDataImported }) => {
     const [isSaving, setIsSaving] = useState(false);
     const [saveMessage, setSaveMessage] = useState('');
+    const [isTransferring, setIsTransferring] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const sqlitePath = settings.storage.sqlitePath || DEFAULT_SQLITE_PATH;
 
     const handleStorageChange = (field: string, value: any) => {
         onSettingsChange({
@@ -39,6 +44,44 @@ const StorageConfigManager: React.FC<StorageConfigManagerProps> = ({ settings, o
         }
     };
 
+    const handleExportDatabase = async () => {
+        setIsTransferring(true);
+        try {
+            const bytes = await SQLiteDAO.getInstance(sqlitePath).exportDatabase();
+            const blob = new Blob([bytes], { type: 'application/vnd.sqlite3' });
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = sqlitePath.split(/[\\/]/).pop() || 'novel_db.sqlite';
+            a.click();
+            URL.revokeObjectURL(url);
+        } catch (e: any) {
+            alert("导出失败: " + e.message);
+        } finally {
+            setIsTransferring(false);
+        }
+    };
+
+    const handleImportDatabase = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        if (!window.confirm(`将 "${file.name}" 中的作品合并到当前数据库？同 ID 的作品会被覆盖。`)) return;
+
+        setIsTransferring(true);
+        try {
+            const bytes = new Uint8Array(await file.arrayBuffer());
+            const count = await SQLiteDAO.getInstance(sqlitePath).importDatabase(bytes);
+            setSaveMessage(`已导入 ${count} 部作品`);
+            setTimeout(() => setSaveMessage(''), 3000);
+            onDataImported?.();
+        } catch (err: any) {
+            alert("导入失败: " + err.message);
+        } finally {
+            setIsTransferring(false);
+        }
+    };
+
     return (
         <div className="flex-1 overflow-y-auto bg-gray-50 p-8">
             <div className="max-w-3xl mx-auto">
@@ -77,7 +120,7 @@ const StorageConfigManager: React.FC<StorageConfigManagerProps> = ({ settings, o
                                         <span>本地数据库 (SQLite)</span>
                                     </div>
                                     <p className="text-xs text-gray-500 mt-1">
-                                        使用本地 SQLite 数据库文件。Web 版本使用浏览器 IndexedDB 模拟。
+                                        在浏览器内运行的 SQLite (WASM) 数据库，可导出/导入 .sqlite 文件。
                                     </p>
                                 </div>
                             </label>
@@ -101,7 +144,7 @@ const StorageConfigManager: React.FC<StorageConfigManagerProps> = ({ settings, o
                                         <span>远程数据库 (Remote MySQL)</span>
                                     </div>
                                     <p className="text-xs text-gray-500 mt-1">
-                                        通过 API 连接远程 MySQL 服务器。需要后端支持。
+                                        通过内置后端服务 (npm run server) 连接远程 MySQL 服务器。
                                     </p>
                                 </div>
                             </label>
@@ -119,17 +162,42 @@ const StorageConfigManager: React.FC<StorageConfigManagerProps> = ({ settings, o
                                  <div className="relative">
                                     <input 
                                         type="text" 
-                                        placeholder="./data/novel_db.sqlite" 
-                                        readOnly
-                                        value="./data/novel_db.sqlite"
-                                        className="w-full text-sm px-3 py-2 border border-gray-300 rounded-lg bg-gray-50 text-gray-500"
+                                        placeholder={DEFAULT_SQLITE_PATH} 
+                                        value={settings.storage.sqlitePath || ''}
+                                        onChange={(e) => handleStorageChange('sqlitePath', e.target.value)}
+                                        className="w-full text-sm px-3 py-2 pr-10 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
                                     />
                                     <FolderOpen size={18} className="absolute right-3 top-2.5 text-gray-400" />
                                  </div>
                                  <p className="text-[10px] text-gray-400 mt-1">
-                                    * 当前 Web 版本使用 IndexedDB 模拟 SQLite 以兼容浏览器环境。如需使用原生 SQLite 文件，请配置后端服务。
+                                    * 数据库由 sql.js (SQLite WASM) 在浏览器中运行，文件内容保存在浏览器存储中，以上路径作为文件标识。不同路径对应相互独立的数据库；旧版 IndexedDB 数据会在首次使用默认路径时自动迁移。
                                  </p>
                              </div>
+                             <div className="flex gap-3 mt-4">
+                                 <button
+                                    onClick={handleExportDatabase}
+                                    disabled={isTransferring}
+                                    className="px-4 py-2 text-sm border border-gray-300 rounded-lg flex items-center gap-2 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                                 >
+                                    <Download size={16} />
+                                    <span>导出 .sqlite 文件</span>
+                                 </button>
+                                 <button
+                                    onClick={() => fileInputRef.current?.click()}
+                                    disabled={isTransferring}
+                                    className="px-4 py-2 text-sm border border-gray-300 rounded-lg flex items-center gap-2 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                                 >
+                                    <Upload size={16} />
+                                    <span>导入 .sqlite 文件</span>
+                                 </button>
+                                 <input
+                                    ref={fileInputRef}
+                                    type="file"
+                                    accept=".sqlite,.sqlite3,.db"
+                                    className="hidden"
+                                    onChange={handleImportDatabase}
+                                 />
+                             </div>
                         </div>
                     )}
 
@@ -140,55 +208,31 @@ const StorageConfigManager: React.FC<StorageConfigManagerProps> = ({ settings, o
                                 <Server size={16} /> 连接详情
                              </h3>
                              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                                 <div>
-                                     <label className="block text-xs font-semibold text-gray-500 mb-1">Host</label>
-                                     <input 
-                                        type="text" 
-                                        placeholder="localhost" 
-                                        value={settings.storage.mysqlHost || ''}
-                                        onChange={(e) => handleStorageChange('mysqlHost', e.target.value)}
-                                        className="w-full text-sm px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
-                                     />
-                                 </div>
-                                 <div>
-                                     <label className="block text-xs font-semibold text-gray-500 mb-1">Port</label>
-                                     <input 
-                                        type="text" 
-                                        placeholder="3306" 
-                                        value={settings.storage.mysqlPort || ''}
-                                        onChange={(e) => handleStorageChange('mysqlPort', e.target.value)}
-                                        className="w-full text-sm px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
-                                     />
-                                 </div>
-                                 <div>
-                                     <label className="block text-xs font-semibold text-gray-500 mb-1">User</label>
-                                     <input 
-                                        type="text" 
-                                        placeholder="root" 
-                                        value={settings.storage.mysqlUser || ''}
-                                        onChange={(e) => handleStorageChange('mysqlUser', e.target.value)}
-                                        className="w-full text-sm px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
-                                     />
-                                 </div>
-                                 <div>
-                                     <label className="block text-xs font-semibold text-gray-500 mb-1">Database</label>
+                                 <div className="md:col-span-2">
+                                     <label className="block text-xs font-semibold text-gray-500 mb-1">后端 API 地址 (Backend URL)</label>
                                      <input 
                                         type="text" 
-                                        placeholder="novel_db" 
-                                        value={settings.storage.mysqlDatabase || ''}
-                                        onChange={(e) => handleStorageChange('mysqlDatabase', e.target.value)}
+                                        placeholder="http://localhost:8787" 
+                                        value={settings.storage.apiUrl || ''}
+                                        onChange={(e) => handleStorageChange('apiUrl', e.target.value)}
                                         className="w-full text-sm px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
                                      />
+                                     <p className="text-[10px] text-gray-400 mt-1">
+                                        * 浏览器无法直接连接 MySQL。请在服务器上用 MYSQL_* 环境变量配置数据库并运行 <code>npm run server</code>，后端会自动执行 db_init.sql 建表。
+                                     </p>
                                  </div>
                                  <div className="md:col-span-2">
-                                     <label className="block text-xs font-semibold text-gray-500 mb-1">Password</label>
+                                     <label className="block text-xs font-semibold text-gray-500 mb-1">访问令牌 (API Token)</label>
                                      <input 
                                         type="password" 
                                         placeholder="••••••" 
-                                        value={settings.storage.mysqlPassword || ''}
-                                        onChange={(e) => handleStorageChange('mysqlPassword', e.target.value)}
+                                        value={settings.storage.apiToken || ''}
+                                        onChange={(e) => handleStorageChange('apiToken', e.target.value)}
                                         className="w-full text-sm px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
                                      />
+                                     <p className="text-[10px] text-gray-400 mt-1">
+                                        * 与后端启动时的 API_TOKEN 一致。模型配置的 API Key 只保存在本浏览器，不会上传到后端。
+                                     </p>
                                  </div>
                              </div>
                         </div>
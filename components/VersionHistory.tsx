@@ -0,0 +1,171 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Chapter, ChapterVersion, ChapterVersionSource, NovelSettings } from '../types';
+import { X, History, Loader2, RotateCcw, Clock } from 'lucide-react';
+import { DAOFactory } from '../services/dao';
+import { diffLines } from '../services/textDiff';
+
+interface VersionHistoryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  chapter: Chapter;
+  settings: NovelSettings;
+  onRestore: (version: ChapterVersion) => void;
+}
+
+const SOURCE_LABELS: Record<ChapterVersionSource, string> = {
+  ai_rewrite: 'AI 重写',
+  ai_continue: 'AI 续写',
+  grammar_fix: '语法修复',
+  manual_edit: '手动编辑',
+  restore: '恢复版本',
+  rename: '角色改名',
+  compliance_fix: '合规替换'
+};
+
+const SOURCE_COLORS: Record<ChapterVersionSource, string> = {
+  ai_rewrite: 'bg-red-50 text-red-700',
+  ai_continue: 'bg-purple-50 text-purple-700',
+  grammar_fix: 'bg-green-50 text-green-700',
+  manual_edit: 'bg-indigo-50 text-indigo-700',
+  restore: 'bg-amber-50 text-amber-700',
+  rename: 'bg-teal-50 text-teal-700',
+  compliance_fix: 'bg-orange-50 text-orange-700'
+};
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({ isOpen, onClose, chapter, settings, onRestore }) => {
+  const [versions, setVersions] = useState<ChapterVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    if (!settings.id) {
+        setVersions([]);
+        return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    DAOFactory.getDAO(settings).listChapterVersions(settings.id, chapter.id)
+        .then(list => {
+            if (cancelled) return;
+            setVersions(list);
+            setSelectedId(list[0]?.id || null);
+        })
+        .catch(e => {
+            console.error("Failed to load versions", e);
+            if (!cancelled) setVersions([]);
+        })
+        .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [isOpen, settings.id, settings.storage, chapter.id]);
+
+  const selected = versions.find(v => v.id === selectedId);
+
+  // Diff from the snapshot to the text currently in the chapter
+  const diff = useMemo(() => selected ? diffLines(selected.content, chapter.content || '') : [], [selected, chapter.content]);
+  const changedCount = diff.filter(d => d.type !== 'same').length;
+
+  if (!isOpen) return null;
+
+  const handleRestore = (version: ChapterVersion) => {
+      if (!window.confirm(`恢复到 ${version.createdAt.toLocaleString()} 的版本？当前内容会先保存为新的历史版本。`)) return;
+      onRestore(version);
+      onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col animate-in zoom-in-95 duration-200 border border-gray-100">
+        <div className="flex items-center justify-between p-5 border-b border-gray-100">
+          <div className="flex items-center space-x-2 text-indigo-600">
+            <History className="w-5 h-5" />
+            <h3 className="text-lg font-bold">版本历史</h3>
+            <span className="text-sm text-gray-400 font-normal truncate max-w-xs">{chapter.title}</span>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-gray-100 rounded-full text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex overflow-hidden">
+           {/* Version List */}
+           <div className="w-64 border-r border-gray-100 overflow-y-auto bg-gray-50/50">
+               {isLoading && (
+                   <div className="flex items-center justify-center py-10 text-gray-400">
+                       <Loader2 size={20} className="animate-spin" />
+                   </div>
+               )}
+               {!isLoading && versions.length === 0 && (
+                   <div className="p-6 text-center text-sm text-gray-400">
+                       {settings.id ? '暂无历史版本。重写、续写、语法修复或手动编辑前会自动保存快照。' : '作品保存后才会记录历史版本。'}
+                   </div>
+               )}
+               {versions.map(v => (
+                   <button
+                       key={v.id}
+                       onClick={() => setSelectedId(v.id)}
+                       className={`w-full text-left px-4 py-3 border-b border-gray-100 transition-colors ${selectedId === v.id ? 'bg-white border-l-4 border-l-indigo-500' : 'hover:bg-white'}`}
+                   >
+                       <div className="flex items-center justify-between">
+                           <span className={`text-[10px] px-1.5 py-0.5 rounded font-medium ${SOURCE_COLORS[v.source] || 'bg-gray-100 text-gray-600'}`}>
+                               {SOURCE_LABELS[v.source] || v.source}
+                           </span>
+                           <span className="text-[10px] text-gray-400">{v.content.length} 字符</span>
+                       </div>
+                       <div className="flex items-center gap-1 text-xs text-gray-500 mt-1.5">
+                           <Clock size={12} />
+                           {v.createdAt.toLocaleString()}
+                       </div>
+                   </button>
+               ))}
+           </div>
+
+           {/* Diff View */}
+           <div className="flex-1 flex flex-col overflow-hidden">
+               {selected ? (
+                   <>
+                   <div className="flex items-center justify-between px-5 py-3 border-b border-gray-100 text-xs text-gray-500">
+                       <span>
+                           对比: 该版本 → 当前内容 · {changedCount === 0 ? '无差异' : `${changedCount} 行变化`}
+                           <span className="ml-3 text-red-600">- 版本中的内容</span>
+                           <span className="ml-2 text-green-600">+ 当前内容</span>
+                       </span>
+                       <button
+                           onClick={() => handleRestore(selected)}
+                           disabled={changedCount === 0}
+                           className="flex items-center space-x-1 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md font-medium transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                       >
+                           <RotateCcw size={14} />
+                           <span>恢复此版本</span>
+                       </button>
+                   </div>
+                   <div className="flex-1 overflow-y-auto p-5 font-mono text-xs leading-relaxed">
+                       {diff.map((line, idx) => (
+                           <div
+                               key={idx}
+                               className={`whitespace-pre-wrap px-2 ${
+                                   line.type === 'added' ? 'bg-green-50 text-green-800' :
+                                   line.type === 'removed' ? 'bg-red-50 text-red-800 line-through decoration-red-300' :
+                                   'text-gray-600'
+                               }`}
+                           >
+                               <span className="select-none text-gray-400 mr-2">{line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}</span>
+                               {line.text || ' '}
+                           </div>
+                       ))}
+                   </div>
+                   </>
+               ) : (
+                   !isLoading && <div className="flex-1 flex items-center justify-center text-sm text-gray-400">选择左侧的版本查看差异</div>
+               )}
+           </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistory;
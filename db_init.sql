@@ -1 +1,30 @@
-��ڵ�ڱ�'�ؚ�,ڶ*'I����:�je�j��6�ޖ+-
\ No newline at end of file
+-- DreamWeaver Novelist schema
+-- Runs on MySQL 5.7+/8.x and on SQLite (used as a stand-in by the backend).
+-- The backend applies this file automatically on first connection.
+
+-- Full novel state (settings, chapters, characters, world, plot) stored as JSON
+CREATE TABLE IF NOT EXISTS novels (
+    id VARCHAR(64) NOT NULL PRIMARY KEY,
+    title VARCHAR(255) NOT NULL DEFAULT '',
+    data LONGTEXT NOT NULL,
+    updated_at BIGINT NOT NULL
+);
+
+-- Saved AI model configurations
+CREATE TABLE IF NOT EXISTS model_configs (
+    id VARCHAR(64) NOT NULL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL DEFAULT '',
+    data LONGTEXT NOT NULL,
+    created_at BIGINT NOT NULL
+);
+
+-- Chapter snapshots taken before AI rewrites, grammar fixes and manual edits
+CREATE TABLE IF NOT EXISTS chapter_versions (
+    id VARCHAR(64) NOT NULL PRIMARY KEY,
+    novel_id VARCHAR(64) NOT NULL,
+    chapter_id INT NOT NULL,
+    title VARCHAR(255) NOT NULL DEFAULT '',
+    content LONGTEXT NOT NULL,
+    source VARCHAR(32) NOT NULL,
+    created_at BIGINT NOT NULL
+);
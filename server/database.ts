@@ -0,0 +1,140 @@
+import fs from 'fs';
+import path from 'path';
+import mysql from 'mysql2/promise';
+import initSqlJs, { Database as SqlJsDatabase } from 'sql.js';
+
+// --- Database Interface ---
+// Minimal surface the REST handlers need; statements are written to run on both MySQL and SQLite.
+export interface IDatabase {
+  init(): Promise<void>;
+  all(sql: string, params?: any[]): Promise<any[]>;
+  run(sql: string, params?: any[]): Promise<void>;
+}
+
+export interface MySQLConnectionConfig {
+  host: string;
+  port: number;
+  user: string;
+  password: string;
+  database: string;
+}
+
+const SCHEMA_PATH = path.resolve(process.cwd(), 'db_init.sql');
+
+// Splits db_init.sql into individual statements, dropping comment lines
+const loadSchemaStatements = (): string[] => {
+  const sql = fs.readFileSync(SCHEMA_PATH, 'utf-8');
+  return sql
+    .split('\n')
+    .filter(line => !line.trim().startsWith('--'))
+    .join('\n')
+    .split(';')
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+};
+
+// --- MySQL Adapter ---
+class MySQLDatabase implements IDatabase {
+  private pool: mysql.Pool;
+  private initPromise: Promise<void> | null = null;
+
+  constructor(config: MySQLConnectionConfig) {
+    this.pool = mysql.createPool({ ...config, connectionLimit: 5 });
+  }
+
+  async init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = (async () => {
+        for (const statement of loadSchemaStatements()) {
+          await this.pool.query(statement);
+        }
+      })().catch(e => {
+        this.initPromise = null;
+        throw e;
+      });
+    }
+    return this.initPromise;
+  }
+
+  async all(sql: string, params: any[] = []): Promise<any[]> {
+    await this.init();
+    const [rows] = await this.pool.query(sql, params);
+    return rows as any[];
+  }
+
+  async run(sql: string, params: any[] = []): Promise<void> {
+    await this.init();
+    await this.pool.query(sql, params);
+  }
+}
+
+// --- SQLite Adapter (sql.js) ---
+// Stand-in for MySQL in development and tests. The whole database lives in memory and is
+// flushed to the file after every write.
+class SQLiteDatabase implements IDatabase {
+  private filePath: string;
+  private db: SqlJsDatabase | null = null;
+  private initPromise: Promise<void> | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = (async () => {
+        const SQL = await initSqlJs();
+        const existing = fs.existsSync(this.filePath) ? fs.readFileSync(this.filePath) : undefined;
+        this.db = new SQL.Database(existing);
+        for (const statement of loadSchemaStatements()) {
+          this.db.run(statement);
+        }
+        this.persist();
+      })();
+    }
+    return this.initPromise;
+  }
+
+  private persist() {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, Buffer.from(this.db!.export()));
+  }
+
+  async all(sql: string, params: any[] = []): Promise<any[]> {
+    await this.init();
+    const stmt = this.db!.prepare(sql);
+    stmt.bind(params);
+    const rows: any[] = [];
+    while (stmt.step()) rows.push(stmt.getAsObject());
+    stmt.free();
+    return rows;
+  }
+
+  async run(sql: string, params: any[] = []): Promise<void> {
+    await this.init();
+    this.db!.run(sql, params);
+    this.persist();
+  }
+}
+
+// --- Factory ---
+// The connection is configured by the server's environment, so one instance serves every request.
+let instance: IDatabase | null = null;
+
+export class DatabaseFactory {
+  static getDatabase(): IDatabase {
+    if (instance) return instance;
+    if (process.env.DB_CLIENT === 'sqlite') {
+      instance = new SQLiteDatabase(path.resolve(process.env.SQLITE_FILE || './data/novel_db.sqlite'));
+    } else {
+      instance = new MySQLDatabase({
+        host: process.env.MYSQL_HOST || 'localhost',
+        port: Number(process.env.MYSQL_PORT || 3306),
+        user: process.env.MYSQL_USER || 'root',
+        password: process.env.MYSQL_PASSWORD || '',
+        database: process.env.MYSQL_DATABASE || 'novel_db'
+      });
+    }
+    return instance;
+  }
+}
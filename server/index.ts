@@ -0,0 +1,239 @@
+import http from 'http';
+import { timingSafeEqual } from 'crypto';
+import { DatabaseFactory, IDatabase } from './database';
+
+// REST backend for the "Remote Database (MySQL)" storage option.
+// Endpoints mirror INovelDAO in services/dao.ts:
+//   GET    /api/health
+//   GET    /api/novels              -> [{ id, title, updatedAt }]
+//   GET    /api/novels/:id          -> NovelState
+//   PUT    /api/novels/:id          -> { id }
+//   DELETE /api/novels/:id
+//   DELETE /api/novels/:id/versions -> clears the novel's version history
+//   GET    /api/novels/:id/chapters/:chapterId/versions -> ChapterVersion[] (newest first)
+//   POST   /api/novels/:id/chapters/:chapterId/versions -> { id }
+//   GET    /api/model-configs       -> ModelConfig[] (without apiKey)
+//   GET    /api/model-configs/:id   -> ModelConfig (without apiKey)
+//   PUT    /api/model-configs/:id   -> { id }
+//   DELETE /api/model-configs/:id
+//
+// Every request must carry "Authorization: Bearer <API_TOKEN>". The database connection comes from the
+// MYSQL_* environment variables only. Set DB_CLIENT=sqlite to use a SQLite file instead.
+// Model API keys are never stored here; the app keeps them in the browser.
+
+const PORT = Number(process.env.PORT || 8787);
+const API_TOKEN = process.env.API_TOKEN || '';
+// The Vite dev server; set CORS_ORIGIN to where the app is hosted
+const CORS_ORIGIN = process.env.CORS_ORIGIN || 'http://localhost:3000';
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+// Keep in sync with MAX_CHAPTER_VERSIONS in services/dao.ts
+const MAX_CHAPTER_VERSIONS = 50;
+
+class HttpError extends Error {
+  status: number;
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const send = (res: http.ServerResponse, status: number, body?: any) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readJson = (req: http.IncomingMessage): Promise<any> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}'));
+      } catch {
+        reject(new HttpError(400, 'Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+};
+
+const isAuthorized = (req: http.IncomingMessage): boolean => {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+  if (!match) return false;
+  const given = Buffer.from(match[1]);
+  const expected = Buffer.from(API_TOKEN);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+// Rows saved before keys were kept client-side may still hold one
+const withoutApiKey = (config: any) => {
+  const { apiKey, ...rest } = config;
+  return rest;
+};
+
+// --- Handlers ---
+
+const listNovels = async (db: IDatabase) => {
+  const rows = await db.all('SELECT id, title, updated_at FROM novels ORDER BY updated_at DESC');
+  return rows.map(r => ({ id: r.id, title: r.title, updatedAt: Number(r.updated_at) }));
+};
+
+const getNovel = async (db: IDatabase, id: string) => {
+  const rows = await db.all('SELECT data FROM novels WHERE id = ?', [id]);
+  if (rows.length === 0) throw new HttpError(404, 'Novel not found');
+  const state = JSON.parse(rows[0].data);
+  return { ...state, settings: withoutApiKey(state.settings || {}) };
+};
+
+const saveNovel = async (db: IDatabase, id: string, state: any) => {
+  if (!state?.settings) throw new HttpError(400, 'Body must be a NovelState');
+  const now = Date.now();
+  const stored = { ...state, settings: withoutApiKey({ ...state.settings, id }), lastSaved: new Date(now).toISOString() };
+  await db.run(
+    'REPLACE INTO novels (id, title, data, updated_at) VALUES (?, ?, ?, ?)',
+    [id, state.settings.title || '', JSON.stringify(stored), now]
+  );
+  return { id };
+};
+
+const listChapterVersions = async (db: IDatabase, novelId: string, chapterId: number) => {
+  const rows = await db.all(
+    'SELECT id, novel_id, chapter_id, title, content, source, created_at FROM chapter_versions WHERE novel_id = ? AND chapter_id = ? ORDER BY created_at DESC',
+    [novelId, chapterId]
+  );
+  return rows.map(r => ({
+    id: r.id, novelId: r.novel_id, chapterId: Number(r.chapter_id), title: r.title || '',
+    content: r.content, source: r.source, createdAt: Number(r.created_at)
+  }));
+};
+
+const saveChapterVersion = async (db: IDatabase, novelId: string, chapterId: number, version: any) => {
+  if (!version?.id || typeof version.content !== 'string') throw new HttpError(400, 'Body must be a ChapterVersion');
+  const createdAt = new Date(version.createdAt).getTime() || Date.now();
+  await db.run(
+    'REPLACE INTO chapter_versions (id, novel_id, chapter_id, title, content, source, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+    [version.id, novelId, chapterId, version.title || '', version.content, version.source || 'manual_edit', createdAt]
+  );
+  // Prune beyond the newest MAX_CHAPTER_VERSIONS (MySQL cannot LIMIT inside IN subqueries, so do it here)
+  const stale = (await db.all(
+    'SELECT id FROM chapter_versions WHERE novel_id = ? AND chapter_id = ? ORDER BY created_at DESC',
+    [novelId, chapterId]
+  )).slice(MAX_CHAPTER_VERSIONS);
+  for (const row of stale) {
+    await db.run('DELETE FROM chapter_versions WHERE id = ?', [row.id]);
+  }
+  return { id: version.id };
+};
+
+const listModelConfigs = async (db: IDatabase) => {
+  const rows = await db.all('SELECT data FROM model_configs ORDER BY created_at ASC');
+  return rows.map(r => withoutApiKey(JSON.parse(r.data)));
+};
+
+const getModelConfig = async (db: IDatabase, id: string) => {
+  const rows = await db.all('SELECT data FROM model_configs WHERE id = ?', [id]);
+  if (rows.length === 0) throw new HttpError(404, 'Model config not found');
+  return withoutApiKey(JSON.parse(rows[0].data));
+};
+
+const saveModelConfig = async (db: IDatabase, id: string, config: any) => {
+  const createdAt = config?.createdAt ? new Date(config.createdAt).getTime() || Date.now() : Date.now();
+  await db.run(
+    'REPLACE INTO model_configs (id, name, data, created_at) VALUES (?, ?, ?, ?)',
+    [id, config?.name || '', JSON.stringify(withoutApiKey({ ...config, id })), createdAt]
+  );
+  return { id };
+};
+
+// --- Router ---
+
+const route = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const method = req.method || 'GET';
+  const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+  if (parts[0] !== 'api') throw new HttpError(404, 'Not found');
+  if (!isAuthorized(req)) throw new HttpError(401, 'Missing or invalid API token');
+  const [, resource, id, subResource, subId, subCollection] = parts;
+  const db = DatabaseFactory.getDatabase();
+
+  if (resource === 'health' && method === 'GET') {
+    await db.init();
+    return send(res, 200, { ok: true });
+  }
+
+  if (resource === 'novels' && subResource === 'chapters' && subId && subCollection === 'versions') {
+    const chapterId = Number(subId);
+    if (!Number.isFinite(chapterId)) throw new HttpError(400, 'Invalid chapter id');
+    if (method === 'GET') return send(res, 200, await listChapterVersions(db, id, chapterId));
+    if (method === 'POST') return send(res, 200, await saveChapterVersion(db, id, chapterId, await readJson(req)));
+  }
+
+  if (resource === 'novels' && id && subResource === 'versions' && !subId && method === 'DELETE') {
+    await db.run('DELETE FROM chapter_versions WHERE novel_id = ?', [id]);
+    return send(res, 204);
+  }
+
+  if (resource === 'novels' && !subResource) {
+    if (!id && method === 'GET') return send(res, 200, await listNovels(db));
+    if (id && method === 'GET') return send(res, 200, await getNovel(db, id));
+    if (id && method === 'PUT') return send(res, 200, await saveNovel(db, id, await readJson(req)));
+    if (id && method === 'DELETE') {
+      await db.run('DELETE FROM novels WHERE id = ?', [id]);
+      await db.run('DELETE FROM chapter_versions WHERE novel_id = ?', [id]);
+      return send(res, 204);
+    }
+  }
+
+  if (resource === 'model-configs') {
+    if (!id && method === 'GET') return send(res, 200, await listModelConfigs(db));
+    if (id && method === 'GET') return send(res, 200, await getModelConfig(db, id));
+    if (id && method === 'PUT') return send(res, 200, await saveModelConfig(db, id, await readJson(req)));
+    if (id && method === 'DELETE') {
+      await db.run('DELETE FROM model_configs WHERE id = ?', [id]);
+      return send(res, 204);
+    }
+  }
+
+  throw new HttpError(404, 'Not found');
+};
+
+const server = http.createServer(async (req, res) => {
+  // The app is served from another origin (Vite dev server / static hosting)
+  res.setHeader('Access-Control-Allow-Origin', CORS_ORIGIN);
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  try {
+    await route(req, res);
+  } catch (e: any) {
+    const status = e instanceof HttpError ? e.status : 500;
+    if (status === 500) console.error(e);
+    send(res, status, { error: e.message || 'Internal Server Error' });
+  }
+});
+
+if (!API_TOKEN) {
+  console.error('API_TOKEN is not set. Choose a shared token and enter the same one in Settings > Persistence.');
+  process.exit(1);
+}
+
+server.listen(PORT, () => {
+  console.log(`DreamWeaver backend listening on http://localhost:${PORT} (${process.env.DB_CLIENT === 'sqlite' ? 'SQLite' : 'MySQL'})`);
+});
@@ -0,0 +1,57 @@
+import { Character, CharacterRelationship } from "../types";
+
+// Relationship types offered in the editor; any other text is accepted too
+export const RELATIONSHIP_TYPES = ['亲属', '恋人', '朋友', '师徒', '盟友', '宿敌', '上下级', '竞争对手'];
+
+// Turns stored or generated relationships into edges between members of the cast:
+//   - edges with a known targetId are kept,
+//   - edges that name their target ({ target: "name", type, description }) are resolved by name,
+//   - legacy free text is split into clauses, each linked to every character it mentions.
+// Text that mentions nobody in the cast is returned as `unresolved` so it isn't lost.
+export const resolveRelationships = (
+    raw: any,
+    self: Pick<Character, 'id' | 'name'>,
+    cast: Pick<Character, 'id' | 'name'>[]
+): { relationships: CharacterRelationship[]; unresolved: string } => {
+    const others = cast.filter(c => c.id !== self.id && c.name);
+    const byName = (name: string) => others.find(c => c.name === name.trim());
+    const edges: CharacterRelationship[] = [];
+    const unresolved: string[] = [];
+    const add = (edge: CharacterRelationship) => {
+        if (!edges.some(e => e.targetId === edge.targetId && e.type === edge.type)) edges.push(edge);
+    };
+
+    if (Array.isArray(raw)) {
+        raw.forEach((r: any) => {
+            if (!r || typeof r !== 'object') return;
+            const target = others.find(c => c.id === r.targetId) || byName(String(r.target || r.name || ''));
+            const type = String(r.type || '').trim();
+            const description = String(r.description || '').trim() || undefined;
+            if (target) add({ targetId: target.id, type, description });
+            else if (description || type) unresolved.push([r.target || r.name, type, description].filter(Boolean).join(' '));
+        });
+    } else if (typeof raw === 'string' && raw.trim()) {
+        raw.split(/[;；。\n]+/).map(s => s.trim()).filter(Boolean).forEach(clause => {
+            const mentioned = others.filter(c => clause.includes(c.name));
+            if (mentioned.length === 0) unresolved.push(clause);
+            mentioned.forEach(c => add({ targetId: c.id, type: '', description: clause }));
+        });
+    }
+    return { relationships: edges, unresolved: unresolved.join('\n') };
+};
+
+export const formatRelationship = (edge: CharacterRelationship, cast: Character[]): string => {
+    const target = cast.find(c => c.id === edge.targetId);
+    const label = [edge.type, target?.name || '?'].filter(Boolean).join(': ');
+    return edge.description && edge.description !== edge.type ? `${label} (${edge.description})` : label;
+};
+
+export const formatRelationships = (character: Character, cast: Character[]): string =>
+    [...(character.relationships || []).map(r => formatRelationship(r, cast)), character.relationshipNotes]
+        .filter(Boolean).join('; ');
+
+// Drops edges that point at a character that no longer exists
+export const removeRelationshipsTo = (characters: Character[], removedId: string): Character[] =>
+    characters.map(c => (c.relationships || []).some(r => r.targetId === removedId)
+        ? { ...c, relationships: c.relationships.filter(r => r.targetId !== removedId) }
+        : c);
@@ -0,0 +1,47 @@
+import { Character, CharacterStateSnapshot } from "../types";
+
+// Time-indexed character state. Each snapshot only holds what changed in its chapter,
+// so the state at any point is the snapshots up to that chapter folded together.
+
+export type CharacterStateField = Exclude<keyof CharacterStateSnapshot, 'chapterId'>;
+
+export const CHARACTER_STATE_FIELDS: CharacterStateField[] = ['location', 'condition', 'relationships', 'knownSecrets', 'powerLevel'];
+
+export const CHARACTER_STATE_LABELS: Record<CharacterStateField, string> = {
+    location: '位置',
+    condition: '身体状况',
+    relationships: '关系',
+    knownSecrets: '已知秘密',
+    powerLevel: '实力'
+};
+
+// State after every chapter before `beforeChapterId` (i.e. at the start of that chapter)
+export const getCharacterStateAt = (character: Character, beforeChapterId: number): Partial<CharacterStateSnapshot> => {
+    const state: Partial<CharacterStateSnapshot> = {};
+    [...(character.stateTimeline || [])]
+        .filter(s => s.chapterId < beforeChapterId)
+        .sort((a, b) => a.chapterId - b.chapterId)
+        .forEach(s => {
+            CHARACTER_STATE_FIELDS.forEach(field => {
+                if (s[field]) state[field] = s[field];
+            });
+            state.chapterId = s.chapterId; // Last chapter that changed anything
+        });
+    return state;
+};
+
+export const formatCharacterState = (state: Partial<CharacterStateSnapshot>): string =>
+    CHARACTER_STATE_FIELDS.filter(f => state[f]).map(f => `${f}: ${state[f]}`).join('; ');
+
+// Replaces the snapshots recorded for one chapter (e.g. after a rewrite) with freshly extracted ones
+export const applyCharacterStates = (
+    characters: Character[],
+    chapterId: number,
+    updates: { name: string; snapshot: CharacterStateSnapshot }[]
+): Character[] => characters.map(c => {
+    const timeline = (c.stateTimeline || []).filter(s => s.chapterId !== chapterId);
+    const update = updates.find(u => u.name === c.name);
+    if (update) timeline.push(update.snapshot);
+    if (!update && timeline.length === (c.stateTimeline || []).length) return c;
+    return { ...c, stateTimeline: timeline.sort((a, b) => a.chapterId - b.chapterId) };
+});
@@ -0,0 +1,110 @@
+import { Chapter, ComplianceConfig, ComplianceRule, NovelSettings } from '../types';
+
+// Local scanner for platform-banned terms. Rules come from the user's own wordlists, so nothing is sent to a model
+// and the same rules run on a single chapter, the whole novel before export, and freshly generated chapters.
+
+export interface ComplianceHit {
+    ruleId: string;
+    start: number;
+    end: number;
+    text: string;
+    suggestion: string;
+}
+
+export interface ChapterComplianceResult {
+    chapterId: number;
+    hits: ComplianceHit[];
+}
+
+export const DEFAULT_COMPLIANCE: ComplianceConfig = {
+    rules: [],
+    checkOnGenerate: true,
+    checkBeforeExport: true
+};
+
+export const complianceConfig = (settings: NovelSettings): ComplianceConfig => ({ ...DEFAULT_COMPLIANCE, ...settings.compliance });
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matching ignores case so English terms are caught however they are written
+const compileRule = (rule: ComplianceRule): RegExp | null => {
+    if (!rule.pattern) return null;
+    try {
+        return new RegExp(rule.isRegex ? rule.pattern : escapeRegExp(rule.pattern), 'gi');
+    } catch {
+        return null;
+    }
+};
+
+// Error message for the rule editor, or null if the rule is usable
+export const ruleError = (rule: ComplianceRule): string | null => {
+    if (!rule.pattern.trim()) return '规则为空';
+    if (!rule.isRegex) return null;
+    try {
+        new RegExp(rule.pattern);
+        return null;
+    } catch (e: any) {
+        return `正则无效: ${e.message}`;
+    }
+};
+
+const suggestionFor = (rule: ComplianceRule, matched: string) => {
+    if (!rule.replacement) return '*'.repeat([...matched].length);
+    return rule.isRegex ? matched.replace(new RegExp(rule.pattern, 'i'), rule.replacement) : rule.replacement;
+};
+
+// Hits in text order. Where rules overlap, the earlier (then longer) match wins so replacements never collide.
+export const scanCompliance = (text: string, rules: ComplianceRule[]): ComplianceHit[] => {
+    const hits: ComplianceHit[] = [];
+    rules.forEach(rule => {
+        const pattern = compileRule(rule);
+        if (!pattern) return;
+        for (const match of text.matchAll(pattern)) {
+            if (!match[0]) continue;
+            hits.push({
+                ruleId: rule.id,
+                start: match.index!,
+                end: match.index! + match[0].length,
+                text: match[0],
+                suggestion: suggestionFor(rule, match[0])
+            });
+        }
+    });
+
+    let covered = 0;
+    return hits
+        .sort((a, b) => a.start - b.start || b.end - a.end)
+        .filter(hit => {
+            if (hit.start < covered) return false;
+            covered = hit.end;
+            return true;
+        });
+};
+
+export const scanChapters = (chapters: Chapter[], rules: ComplianceRule[]): ChapterComplianceResult[] =>
+    chapters
+        .filter(c => c.content)
+        .map(c => ({ chapterId: c.id, hits: scanCompliance(c.content, rules) }));
+
+// Replaces the given hits, back to front so earlier offsets stay valid
+export const applyComplianceFixes = (text: string, hits: ComplianceHit[]): string =>
+    hits
+        .slice()
+        .sort((a, b) => b.start - a.start)
+        .reduce((result, hit) => result.slice(0, hit.start) + hit.suggestion + result.slice(hit.end), text);
+
+// Bulk entry for the rule editor: one term per line, optionally "term=replacement"; "/pattern/" makes a regex rule
+export const parseWordList = (input: string): ComplianceRule[] =>
+    input
+        .split('\n')
+        .map(line => line.trim())
+        .filter(Boolean)
+        .map(line => {
+            const regexMatch = line.match(/^\/(.+)\/(?:=(.*))?$/);
+            if (regexMatch) {
+                return { id: crypto.randomUUID(), pattern: regexMatch[1], isRegex: true, replacement: (regexMatch[2] ?? '').trim() };
+            }
+            const [pattern, ...replacement] = line.split('=');
+            return { id: crypto.randomUUID(), pattern: pattern.trim(), isRegex: false, replacement: replacement.join('=').trim() };
+        })
+        .filter(rule => rule.pattern);
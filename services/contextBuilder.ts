@@ -0,0 +1,218 @@
+import { Chapter, Character, FactEntry, NovelSettings } from "../types";
+import { formatRelationships } from "./characterRelations";
+
+// Builds the long-range context for chapter generation within a token budget:
+//   1. the tail of the preceding chapter(s) for continuity,
+//   2. the most recent chapter summaries,
+//   3. established facts from the story bible (fact ledger),
+//   4. passages retrieved with BM25 from older chapters, summaries, character cards and world terms.
+// Everything runs locally, so it also works offline and with the mock provider.
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 8000;
+
+// Share of the budget for each part; retrieval also gets whatever the first two leave unused
+const PREVIOUS_SHARE = 0.35;
+const SUMMARY_SHARE = 0.25;
+const FACT_SHARE = 0.15;
+
+// Facts that most often cause contradictions are kept first when the ledger is over budget
+const FACT_PRIORITY: Record<string, number> = { death: 0, injury: 1, promise: 2, item_lost: 3, item_gained: 3, knowledge: 4, location: 5 };
+
+const CHUNK_CHARS = 600;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export interface ChapterContext {
+    storySummaries: string;
+    previousContext: string;
+    factLedger: string;
+    retrievedContext: string;
+    usedTokens: number;
+}
+
+interface ContextDocument {
+    label: string;
+    text: string;
+    terms: string[];
+}
+
+const CJK_RUN = /[㐀-鿿豈-﫿]+/g;
+
+// Rough token count: one token per CJK character, about four characters per token otherwise
+export const estimateTokens = (text: string): number => {
+    if (!text) return 0;
+    const runs: string[] = text.match(CJK_RUN) || [];
+    const cjk = runs.reduce((n, run) => n + run.length, 0);
+    return cjk + Math.ceil((text.length - cjk) / 4);
+};
+
+const fitTail = (text: string, maxTokens: number): string => {
+    const tokens = estimateTokens(text);
+    if (tokens <= maxTokens) return text;
+    if (maxTokens <= 0) return '';
+    return text.slice(-Math.floor(text.length * maxTokens / tokens));
+};
+
+// Latin words plus CJK character bigrams (CJK text has no word boundaries)
+export const tokenize = (text: string): string[] => {
+    const lower = text.toLowerCase();
+    const terms: string[] = lower.match(/[a-z0-9]{2,}/g) || [];
+    const runs: string[] = lower.match(CJK_RUN) || [];
+    for (const run of runs) {
+        if (run.length === 1) {
+            terms.push(run);
+            continue;
+        }
+        for (let i = 0; i < run.length - 1; i++) terms.push(run.slice(i, i + 2));
+    }
+    return terms;
+};
+
+const chunkText = (text: string): string[] => {
+    const chunks: string[] = [];
+    let current = '';
+    for (const paragraph of text.split(/\n+/).map(p => p.trim()).filter(Boolean)) {
+        if (current && current.length + paragraph.length > CHUNK_CHARS) {
+            chunks.push(current);
+            current = '';
+        }
+        // Very long paragraphs are cut hard so one chunk can't eat the budget
+        for (let i = 0; i < paragraph.length; i += CHUNK_CHARS) {
+            const piece = paragraph.slice(i, i + CHUNK_CHARS);
+            current = current ? `${current}\n${piece}` : piece;
+            if (current.length >= CHUNK_CHARS) {
+                chunks.push(current);
+                current = '';
+            }
+        }
+    }
+    if (current) chunks.push(current);
+    return chunks;
+};
+
+const makeDoc = (label: string, text: string): ContextDocument => ({ label, text, terms: tokenize(text) });
+
+// Repeated query terms weigh proportionally more
+export const rankBM25 = <T extends { terms: string[] }>(docs: T[], query: string[]): { doc: T; score: number }[] => {
+    if (docs.length === 0 || query.length === 0) return [];
+    const avgLength = docs.reduce((n, d) => n + d.terms.length, 0) / docs.length || 1;
+    const docFreq = new Map<string, number>();
+    docs.forEach(d => new Set(d.terms).forEach(t => docFreq.set(t, (docFreq.get(t) || 0) + 1)));
+
+    const queryWeights = new Map<string, number>();
+    query.forEach(t => queryWeights.set(t, (queryWeights.get(t) || 0) + 1));
+    return docs.map(doc => {
+        const tf = new Map<string, number>();
+        doc.terms.forEach(t => tf.set(t, (tf.get(t) || 0) + 1));
+        let score = 0;
+        for (const [term, weight] of queryWeights) {
+            const f = tf.get(term);
+            if (!f) continue;
+            const df = docFreq.get(term) || 0;
+            const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+            score += weight * idf * (f * (BM25_K1 + 1)) / (f + BM25_K1 * (1 - BM25_B + BM25_B * doc.terms.length / avgLength));
+        }
+        return { doc, score };
+    }).filter(r => r.score > 0).sort((a, b) => b.score - a.score);
+};
+
+export const formatFact = (f: FactEntry) => `- [Chapter ${f.chapterId}] ${f.subject ? `${f.subject} · ` : ''}${f.type}: ${f.description}`;
+
+const characterCard = (c: Character, cast: Character[]) => {
+    const relationships = formatRelationships(c, cast);
+    return [`${c.name} (${c.role}): ${c.description}`, relationships && `Relationships: ${relationships}`, c.backgroundStory && `Background: ${c.backgroundStory}`]
+        .filter(Boolean).join('\n');
+};
+
+export const buildChapterContext = (
+    settings: NovelSettings,
+    chapter: Chapter,
+    chapters: Chapter[],
+    characters: Character[],
+    facts: FactEntry[] = [],
+    budget: number = settings.contextTokenBudget || DEFAULT_CONTEXT_TOKEN_BUDGET
+): ChapterContext => {
+    const earlier = chapters.filter(c => c.isDone && c.id < chapter.id);
+
+    // 1. Continuity: walk back from the previous chapter until the share is used
+    const previousBudget = Math.floor(budget * PREVIOUS_SHARE);
+    const inPrevious = new Set<number>();
+    let previousContext = '';
+    for (let i = earlier.length - 1; i >= 0; i--) {
+        const content = earlier[i].content || '';
+        if (!content) continue;
+        const remaining = previousBudget - estimateTokens(previousContext);
+        if (remaining <= 0) break;
+        const piece = fitTail(content, remaining);
+        previousContext = previousContext ? `${piece}\n\n${previousContext}` : piece;
+        if (piece.length < content.length) break;
+        inPrevious.add(earlier[i].id);
+    }
+
+    // 2. Summaries, newest first, so the chapters leading up to this one are always covered
+    const summaryBudget = Math.floor(budget * SUMMARY_SHARE);
+    const summaryLines: string[] = [];
+    const inSummaries = new Set<number>();
+    let summaryTokens = 0;
+    for (let i = earlier.length - 1; i >= 0; i--) {
+        const line = `Chapter ${earlier[i].id}: ${earlier[i].summary}`;
+        const cost = estimateTokens(line) + 1;
+        if (summaryTokens + cost > summaryBudget) break;
+        summaryLines.unshift(line);
+        summaryTokens += cost;
+        inSummaries.add(earlier[i].id);
+    }
+    const storySummaries = summaryLines.join('\n');
+
+    // 3. Fact ledger: facts about characters in this chapter's brief first, then by severity and recency
+    const brief = `${chapter.title}\n${chapter.summary}`;
+    const factBudget = Math.floor(budget * FACT_SHARE);
+    const ranked = facts
+        .filter(f => f.chapterId < chapter.id)
+        .map(f => ({ f, named: f.subject && brief.includes(f.subject) ? 0 : 1 }))
+        .sort((a, b) => a.named - b.named || (FACT_PRIORITY[a.f.type] ?? 9) - (FACT_PRIORITY[b.f.type] ?? 9) || b.f.chapterId - a.f.chapterId);
+    const keptFacts: FactEntry[] = [];
+    let factTokens = 0;
+    for (const { f } of ranked) {
+        const cost = estimateTokens(formatFact(f)) + 1;
+        if (factTokens + cost > factBudget) continue;
+        keptFacts.push(f);
+        factTokens += cost;
+    }
+    const factLedger = keptFacts.sort((a, b) => a.chapterId - b.chapterId).map(formatFact).join('\n');
+
+    // 4. Retrieval over everything not already included verbatim
+    const docs: ContextDocument[] = [];
+    earlier.forEach(c => {
+        if (!inSummaries.has(c.id) && c.summary) docs.push(makeDoc(`Chapter ${c.id} summary`, c.summary));
+        if (!inPrevious.has(c.id) && c.content) {
+            chunkText(c.content).forEach(text => docs.push(makeDoc(`Chapter ${c.id}`, text)));
+        }
+    });
+    characters.forEach(c => docs.push(makeDoc('Character', characterCard(c, characters))));
+    (settings.structuredWorld?.encyclopedia || []).forEach(t => docs.push(makeDoc('Term', `${t.term}: ${t.definition}`)));
+    (settings.structuredWorld?.locations || []).forEach(l => docs.push(makeDoc('Location', `${l.name}: ${l.description}`)));
+
+    // Characters named in the brief are repeated so their cards and scenes rank higher
+    const named = characters.filter(c => c.name && brief.includes(c.name)).map(c => c.name);
+    const query = tokenize([brief, ...named, ...named].join('\n'));
+
+    const retrievalBudget = budget - estimateTokens(previousContext) - summaryTokens - factTokens;
+    const passages: string[] = [];
+    let retrievedTokens = 0;
+    for (const { doc } of rankBM25(docs, query)) {
+        const passage = `[${doc.label}] ${doc.text}`;
+        const cost = estimateTokens(passage) + 1;
+        if (retrievedTokens + cost > retrievalBudget) continue;
+        passages.push(passage);
+        retrievedTokens += cost;
+    }
+
+    return {
+        storySummaries,
+        previousContext,
+        factLedger,
+        retrievedContext: passages.join('\n\n'),
+        usedTokens: estimateTokens(previousContext) + summaryTokens + factTokens + retrievedTokens
+    };
+};
@@ -1,8 +1,11 @@
 
-import { NovelState, NovelSettings, Chapter, Character, ModelConfig } from "../types";
+import initSqlJs, { Database as SqlJsDatabase, SqlJsStatic } from "sql.js";
+import sqlWasmUrl from "sql.js/dist/sql-wasm-browser.wasm?url";
+import { NovelState, NovelSettings, Chapter, Character, ModelConfig, ChapterVersion } from "../types";
 
 // --- DAO Interface ---
-export interface INovelDAO {
+// Novels and model configs; every adapter, including the legacy one, stores these
+interface INovelStore {
   init(): Promise<void>;
   saveNovel(state: NovelState): Promise<string>; // Returns ID
   loadNovel(id: string): Promise<NovelState | null>;
@@ -16,8 +19,20 @@ export interface INovelDAO {
   deleteModelConfig(id: string): Promise<void>;
 }
 
-// --- Local SQLite-like Adapter (Using IndexedDB) ---
-class LocalDAO implements INovelDAO {
+export interface INovelDAO extends INovelStore {
+  // Chapter Version Methods (newest first)
+  saveChapterVersion(version: ChapterVersion): Promise<string>;
+  saveChapterVersions(versions: ChapterVersion[]): Promise<void>; // Bulk insert, e.g. when restoring a backup
+  listChapterVersions(novelId: string, chapterId: number): Promise<ChapterVersion[]>;
+  deleteChapterVersions(novelId: string): Promise<void>;
+}
+
+// Older snapshots beyond this are pruned per chapter
+export const MAX_CHAPTER_VERSIONS = 50;
+
+// --- Legacy IndexedDB Adapter ---
+// Stored one JSON blob per novel. Superseded by SQLiteDAO; kept so existing libraries can be migrated.
+class LocalDAO implements INovelStore {
   private static instance: LocalDAO;
   private dbName = "DreamWeaverDB";
   private dbVersion = 2; 
@@ -197,54 +212,728 @@ class LocalDAO implements INovelDAO {
   }
 }
 
-// --- MySQL Remote Adapter (Mock/Interface) ---
+// --- Local SQLite Adapter (sql.js / WASM) ---
+export const DEFAULT_SQLITE_PATH = './data/novel_db.sqlite';
+
+const SQLITE_SCHEMA = `
+CREATE TABLE IF NOT EXISTS novels (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL DEFAULT '',
+    settings TEXT NOT NULL,
+    status TEXT,
+    current_chapter_id INTEGER,
+    consistency_report TEXT,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    extra TEXT,
+    updated_at INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS chapters (
+    novel_id TEXT NOT NULL,
+    id INTEGER NOT NULL,
+    position INTEGER NOT NULL,
+    title TEXT NOT NULL DEFAULT '',
+    summary TEXT,
+    content TEXT,
+    word_count INTEGER,
+    volume_id INTEGER,
+    volume_title TEXT,
+    target_word_count INTEGER,
+    is_done INTEGER NOT NULL DEFAULT 0,
+    consistency_analysis TEXT,
+    extra TEXT,
+    PRIMARY KEY (novel_id, id)
+);
+CREATE TABLE IF NOT EXISTS characters (
+    novel_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    role TEXT,
+    data TEXT NOT NULL,
+    PRIMARY KEY (novel_id, position)
+);
+CREATE TABLE IF NOT EXISTS world (
+    novel_id TEXT PRIMARY KEY,
+    geography TEXT,
+    society TEXT,
+    culture TEXT,
+    technology TEXT
+);
+CREATE TABLE IF NOT EXISTS world_locations (
+    novel_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    name TEXT,
+    description TEXT,
+    x REAL,
+    y REAL,
+    type TEXT,
+    PRIMARY KEY (novel_id, id)
+);
+CREATE TABLE IF NOT EXISTS world_events (
+    novel_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    year TEXT,
+    description TEXT,
+    PRIMARY KEY (novel_id, id)
+);
+CREATE TABLE IF NOT EXISTS world_terms (
+    novel_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    term TEXT,
+    definition TEXT,
+    category TEXT,
+    PRIMARY KEY (novel_id, id)
+);
+CREATE TABLE IF NOT EXISTS plot (
+    novel_id TEXT PRIMARY KEY,
+    act1 TEXT,
+    act2 TEXT,
+    act3 TEXT
+);
+CREATE TABLE IF NOT EXISTS storylines (
+    novel_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    name TEXT,
+    description TEXT,
+    type TEXT,
+    PRIMARY KEY (novel_id, id)
+);
+CREATE TABLE IF NOT EXISTS plot_nodes (
+    novel_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    title TEXT,
+    description TEXT,
+    chapter_range TEXT,
+    type TEXT,
+    storyline_id TEXT,
+    tension INTEGER,
+    causal_link TEXT,
+    foreshadow_link TEXT,
+    PRIMARY KEY (novel_id, id)
+);
+CREATE TABLE IF NOT EXISTS model_configs (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL DEFAULT '',
+    data TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS chapter_versions (
+    id TEXT PRIMARY KEY,
+    novel_id TEXT NOT NULL,
+    chapter_id INTEGER NOT NULL,
+    title TEXT,
+    content TEXT NOT NULL,
+    source TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_chapter_versions ON chapter_versions (novel_id, chapter_id, created_at);
+`;
+
+// Tables holding per-novel rows, cleared and rewritten on every save
+const NOVEL_CHILD_TABLES = ['chapters', 'characters', 'world', 'world_locations', 'world_events', 'world_terms', 'plot', 'storylines', 'plot_nodes'];
+
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+const loadSqlJs = (): Promise<SqlJsStatic> => {
+    if (!sqlJsPromise) sqlJsPromise = initSqlJs({ locateFile: () => sqlWasmUrl });
+    return sqlJsPromise;
+};
+
+// sql.js refuses to bind undefined
+const runSql = (db: SqlJsDatabase, sql: string, params: any[] = []) => {
+    db.run(sql, params.map(p => p === undefined ? null : p));
+};
+
+const querySql = (db: SqlJsDatabase, sql: string, params: any[] = []): any[] => {
+    const stmt = db.prepare(sql);
+    stmt.bind(params.map(p => p === undefined ? null : p));
+    const rows: any[] = [];
+    while (stmt.step()) rows.push(stmt.getAsObject());
+    stmt.free();
+    return rows;
+};
+
+const parseJson = (text: any, fallback: any = undefined) => {
+    if (typeof text !== 'string' || !text) return fallback;
+    try { return JSON.parse(text); } catch { return fallback; }
+};
+
+// The browser has no file system, so the .sqlite file bytes are kept in IndexedDB keyed by path
+const FILE_STORE_DB = 'DreamWeaverFiles';
+
+const openFileStore = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = indexedDB.open(FILE_STORE_DB, 1);
+    request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains('files')) {
+            request.result.createObjectStore('files');
+        }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const readStoredFile = async (path: string): Promise<Uint8Array | null> => {
+    const db = await openFileStore();
+    return new Promise((resolve, reject) => {
+        const request = db.transaction('files', 'readonly').objectStore('files').get(path);
+        request.onsuccess = () => resolve(request.result ? new Uint8Array(request.result) : null);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const writeStoredFile = async (path: string, bytes: Uint8Array): Promise<void> => {
+    const db = await openFileStore();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction('files', 'readwrite');
+        tx.objectStore('files').put(bytes, path);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+export class SQLiteDAO implements INovelDAO {
+  private static instances: Record<string, SQLiteDAO> = {};
+  private path: string;
+  private db: SqlJsDatabase | null = null;
+  private initPromise: Promise<void> | null = null;
+  private persistRunning: Promise<void> | null = null;
+  private persistQueued: Promise<void> | null = null;
+  private readOnly = false;
+
+  private constructor(path: string) {
+      this.path = path;
+  }
+
+  public static getInstance(path: string = DEFAULT_SQLITE_PATH): SQLiteDAO {
+      if (!SQLiteDAO.instances[path]) {
+          SQLiteDAO.instances[path] = new SQLiteDAO(path);
+      }
+      return SQLiteDAO.instances[path];
+  }
+
+  async init(): Promise<void> {
+    if (this.db) return;
+    if (this.initPromise) return this.initPromise;
+
+    this.initPromise = (async () => {
+        const SQL = await loadSqlJs();
+        this.readOnly = !(await this.claimWriter());
+        const bytes = await readStoredFile(this.path);
+        const db = new SQL.Database(bytes || undefined);
+        db.exec(SQLITE_SCHEMA);
+        this.db = db;
+        if (!bytes && !this.readOnly) {
+            if (this.path === DEFAULT_SQLITE_PATH) await this.migrateFromIndexedDB();
+            await this.persist();
+        }
+    })().catch(e => {
+        this.initPromise = null;
+        throw e;
+    });
+    return this.initPromise;
+  }
+
+  // Every write replaces the whole stored file, so two tabs writing it would silently undo each other's
+  // changes. The first tab to open a file holds a Web Lock on it until it closes; later tabs open read-only.
+  private claimWriter(): Promise<boolean> {
+      if (typeof navigator === 'undefined' || !navigator.locks) return Promise.resolve(true);
+      return new Promise(resolve => {
+          navigator.locks.request(`sqlite:${this.path}`, { ifAvailable: true }, lock => {
+              resolve(!!lock);
+              // Never settles, so the lock is held for the lifetime of the tab
+              return lock ? new Promise<void>(() => {}) : undefined;
+          }).catch(() => resolve(true));
+      });
+  }
+
+  isReadOnly(): boolean {
+      return this.readOnly;
+  }
+
+  private async initForWrite(): Promise<void> {
+      if (!this.db) await this.init();
+      if (this.readOnly) {
+          throw new Error("This database is open in another tab, so this tab is read-only. Close the other tab and reload.");
+      }
+  }
+
+  // One-time copy of libraries saved by the old IndexedDB adapter
+  private async migrateFromIndexedDB(): Promise<void> {
+      try {
+          const legacy = LocalDAO.getInstance();
+          for (const meta of await legacy.listNovels()) {
+              const state = await legacy.loadNovel(meta.id);
+              if (state) this.writeNovel(this.db!, state, meta.id, new Date(meta.updatedAt).getTime());
+          }
+          for (const config of await legacy.listModelConfigs()) {
+              this.writeModelConfig(this.db!, config);
+          }
+      } catch (e) {
+          console.warn("Legacy IndexedDB migration skipped", e);
+      }
+  }
+
+  // Every write exports the whole database, so overlapping calls are coalesced: while one write is in
+  // flight, later callers share a single follow-up write that picks up all of their changes
+  private persist(): Promise<void> {
+      if (this.persistQueued) return this.persistQueued;
+      const write = () => {
+          this.persistRunning = writeStoredFile(this.path, this.db!.export()).finally(() => { this.persistRunning = null; });
+          return this.persistRunning;
+      };
+      if (!this.persistRunning) return write();
+      this.persistQueued = this.persistRunning.catch(() => {}).then(() => {
+          this.persistQueued = null;
+          return write();
+      });
+      return this.persistQueued;
+  }
+
+  private writeNovel(db: SqlJsDatabase, state: NovelState, id: string, updatedAt: number) {
+      const { structuredWorld, plotData, ...settings } = state.settings;
+      const { settings: _settings, chapters, characters, currentChapterId, status, consistencyReport, usage, lastSaved, ...extra } = state;
+
+      runSql(db, 'BEGIN');
+      try {
+          runSql(db,
+              `REPLACE INTO novels (id, title, settings, status, current_chapter_id, consistency_report, input_tokens, output_tokens, extra, updated_at)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+              [id, settings.title || '', JSON.stringify({ ...settings, id }), status, currentChapterId, consistencyReport,
+               usage?.inputTokens || 0, usage?.outputTokens || 0, JSON.stringify(extra), updatedAt]
+          );
+          NOVEL_CHILD_TABLES.forEach(table => runSql(db, `DELETE FROM ${table} WHERE novel_id = ?`, [id]));
+
+          (chapters || []).forEach((c, position) => {
+              const { id: chapterId, title, summary, content, wordCount, volumeId, volumeTitle, targetWordCount, isDone, isGenerating, consistencyAnalysis, ...chapterExtra } = c;
+              runSql(db,
+                  `INSERT INTO chapters (novel_id, id, position, title, summary, content, word_count, volume_id, volume_title, target_word_count, is_done, consistency_analysis, extra)
+                   VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                  [id, chapterId, position, title, summary, content, wordCount, volumeId, volumeTitle, targetWordCount, isDone ? 1 : 0, consistencyAnalysis, JSON.stringify(chapterExtra)]
+              );
+          });
+
+          (characters || []).forEach((c, position) => {
+              runSql(db, 'INSERT INTO characters (novel_id, position, name, role, data) VALUES (?, ?, ?, ?, ?)',
+                  [id, position, c.name, c.role, JSON.stringify(c)]);
+          });
+
+          if (structuredWorld) {
+              runSql(db, 'INSERT INTO world (novel_id, geography, society, culture, technology) VALUES (?, ?, ?, ?, ?)',
+                  [id, structuredWorld.geography, structuredWorld.society, structuredWorld.culture, structuredWorld.technology]);
+              (structuredWorld.locations || []).forEach((l, position) => runSql(db,
+                  'INSERT INTO world_locations (novel_id, id, position, name, description, x, y, type) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+                  [id, l.id, position, l.name, l.description, l.x, l.y, l.type]));
+              (structuredWorld.timeline || []).forEach((e, position) => runSql(db,
+                  'INSERT INTO world_events (novel_id, id, position, year, description) VALUES (?, ?, ?, ?, ?)',
+                  [id, e.id, position, e.year, e.description]));
+              (structuredWorld.encyclopedia || []).forEach((t, position) => runSql(db,
+                  'INSERT INTO world_terms (novel_id, id, position, term, definition, category) VALUES (?, ?, ?, ?, ?, ?)',
+                  [id, t.id, position, t.term, t.definition, t.category]));
+          }
+
+          if (plotData) {
+              runSql(db, 'INSERT INTO plot (novel_id, act1, act2, act3) VALUES (?, ?, ?, ?)',
+                  [id, plotData.act1, plotData.act2, plotData.act3]);
+              (plotData.storylines || []).forEach((sl, position) => runSql(db,
+                  'INSERT INTO storylines (novel_id, id, position, name, description, type) VALUES (?, ?, ?, ?, ?, ?)',
+                  [id, sl.id, position, sl.name, sl.description, sl.type]));
+              (plotData.nodes || []).forEach((n, position) => runSql(db,
+                  `INSERT INTO plot_nodes (novel_id, id, position, title, description, chapter_range, type, storyline_id, tension, causal_link, foreshadow_link)
+                   VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                  [id, n.id, position, n.title, n.description, n.chapterRange, n.type, n.storylineId, n.tension, n.causalLink, n.foreshadowLink]));
+          }
+          runSql(db, 'COMMIT');
+      } catch (e) {
+          runSql(db, 'ROLLBACK');
+          throw e;
+      }
+  }
+
+  private readNovel(db: SqlJsDatabase, id: string): NovelState | null {
+      const [row] = querySql(db, 'SELECT * FROM novels WHERE id = ?', [id]);
+      if (!row) return null;
+
+      const settings: NovelSettings = { ...parseJson(row.settings, {}), id };
+
+      const [world] = querySql(db, 'SELECT * FROM world WHERE novel_id = ?', [id]);
+      if (world) {
+          settings.structuredWorld = {
+              geography: world.geography || '',
+              society: world.society || '',
+              culture: world.culture || '',
+              technology: world.technology || '',
+              locations: querySql(db, 'SELECT * FROM world_locations WHERE novel_id = ? ORDER BY position', [id])
+                  .map(l => ({ id: l.id, name: l.name, description: l.description, x: l.x, y: l.y, type: l.type })),
+              timeline: querySql(db, 'SELECT * FROM world_events WHERE novel_id = ? ORDER BY position', [id])
+                  .map(e => ({ id: e.id, year: e.year, description: e.description })),
+              encyclopedia: querySql(db, 'SELECT * FROM world_terms WHERE novel_id = ? ORDER BY position', [id])
+                  .map(t => ({ id: t.id, term: t.term, definition: t.definition, category: t.category }))
+          };
+      }
+
+      const [plot] = querySql(db, 'SELECT * FROM plot WHERE novel_id = ?', [id]);
+      if (plot) {
+          settings.plotData = {
+              act1: plot.act1 || '',
+              act2: plot.act2 || '',
+              act3: plot.act3 || '',
+              storylines: querySql(db, 'SELECT * FROM storylines WHERE novel_id = ? ORDER BY position', [id])
+                  .map(sl => ({ id: sl.id, name: sl.name, description: sl.description, type: sl.type })),
+              nodes: querySql(db, 'SELECT * FROM plot_nodes WHERE novel_id = ? ORDER BY position', [id])
+                  .map(n => ({
+                      id: n.id, title: n.title, description: n.description, chapterRange: n.chapter_range ?? undefined,
+                      type: n.type, storylineId: n.storyline_id, tension: n.tension,
+                      causalLink: n.causal_link ?? undefined, foreshadowLink: n.foreshadow_link ?? undefined
+                  }))
+          };
+      }
+
+      const chapters: Chapter[] = querySql(db, 'SELECT * FROM chapters WHERE novel_id = ? ORDER BY position', [id])
+          .map(c => ({
+              ...parseJson(c.extra, {}),
+              id: c.id,
+              title: c.title,
+              summary: c.summary || '',
+              content: c.content || '',
+              wordCount: c.word_count ?? undefined,
+              volumeId: c.volume_id ?? undefined,
+              volumeTitle: c.volume_title ?? undefined,
+              targetWordCount: c.target_word_count ?? undefined,
+              isGenerating: false,
+              isDone: !!c.is_done,
+              consistencyAnalysis: c.consistency_analysis ?? undefined
+          }));
+
+      const characters: Character[] = querySql(db, 'SELECT data FROM characters WHERE novel_id = ? ORDER BY position', [id])
+          .map(c => parseJson(c.data, {}));
+
+      return {
+          ...parseJson(row.extra, {}),
+          settings,
+          chapters,
+          characters,
+          currentChapterId: row.current_chapter_id ?? null,
+          status: row.status || 'idle',
+          consistencyReport: row.consistency_report ?? null,
+          usage: { inputTokens: row.input_tokens || 0, outputTokens: row.output_tokens || 0 },
+          lastSaved: new Date(row.updated_at)
+      };
+  }
+
+  private writeModelConfig(db: SqlJsDatabase, config: ModelConfig) {
+      runSql(db, 'REPLACE INTO model_configs (id, name, data, created_at) VALUES (?, ?, ?, ?)',
+          [config.id, config.name, JSON.stringify(config), new Date(config.createdAt).getTime() || Date.now()]);
+  }
+
+  private readModelConfig(data: string): ModelConfig {
+      const config = parseJson(data, {});
+      return { ...config, createdAt: new Date(config.createdAt) };
+  }
+
+  async saveNovel(state: NovelState): Promise<string> {
+    await this.initForWrite();
+    const id = state.settings.id || crypto.randomUUID();
+    this.writeNovel(this.db!, state, id, Date.now());
+    await this.persist();
+    return id;
+  }
+
+  async loadNovel(id: string): Promise<NovelState | null> {
+    if (!this.db) await this.init();
+    return this.readNovel(this.db!, id);
+  }
+
+  async listNovels(): Promise<{ id: string; title: string; updatedAt: Date }[]> {
+    if (!this.db) await this.init();
+    return querySql(this.db!, 'SELECT id, title, updated_at FROM novels ORDER BY updated_at DESC')
+        .map(r => ({ id: r.id, title: r.title, updatedAt: new Date(r.updated_at) }));
+  }
+
+  async deleteNovel(id: string): Promise<void> {
+      await this.initForWrite();
+      runSql(this.db!, 'DELETE FROM novels WHERE id = ?', [id]);
+      NOVEL_CHILD_TABLES.forEach(table => runSql(this.db!, `DELETE FROM ${table} WHERE novel_id = ?`, [id]));
+      runSql(this.db!, 'DELETE FROM chapter_versions WHERE novel_id = ?', [id]);
+      await this.persist();
+  }
+
+  async saveModelConfig(config: ModelConfig): Promise<string> {
+      await this.initForWrite();
+      const id = config.id || crypto.randomUUID();
+      this.writeModelConfig(this.db!, { ...config, id });
+      await this.persist();
+      return id;
+  }
+
+  async listModelConfigs(): Promise<ModelConfig[]> {
+      if (!this.db) await this.init();
+      return querySql(this.db!, 'SELECT data FROM model_configs ORDER BY created_at')
+          .map(r => this.readModelConfig(r.data));
+  }
+
+  async getModelConfig(id: string): Promise<ModelConfig | null> {
+      if (!this.db) await this.init();
+      const [row] = querySql(this.db!, 'SELECT data FROM model_configs WHERE id = ?', [id]);
+      return row ? this.readModelConfig(row.data) : null;
+  }
+
+  async deleteModelConfig(id: string): Promise<void> {
+      await this.initForWrite();
+      runSql(this.db!, 'DELETE FROM model_configs WHERE id = ?', [id]);
+      await this.persist();
+  }
+
+  private writeChapterVersion(db: SqlJsDatabase, version: ChapterVersion) {
+      runSql(db,
+          'REPLACE INTO chapter_versions (id, novel_id, chapter_id, title, content, source, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+          [version.id, version.novelId, version.chapterId, version.title, version.content, version.source, new Date(version.createdAt).getTime() || Date.now()]
+      );
+      runSql(db,
+          `DELETE FROM chapter_versions WHERE novel_id = ? AND chapter_id = ? AND id NOT IN (
+               SELECT id FROM chapter_versions WHERE novel_id = ? AND chapter_id = ? ORDER BY created_at DESC LIMIT ?)`,
+          [version.novelId, version.chapterId, version.novelId, version.chapterId, MAX_CHAPTER_VERSIONS]
+      );
+  }
+
+  private readChapterVersions(db: SqlJsDatabase, novelId: string, chapterId?: number): ChapterVersion[] {
+      const rows = chapterId === undefined
+          ? querySql(db, 'SELECT * FROM chapter_versions WHERE novel_id = ? ORDER BY created_at DESC', [novelId])
+          : querySql(db, 'SELECT * FROM chapter_versions WHERE novel_id = ? AND chapter_id = ? ORDER BY created_at DESC', [novelId, chapterId]);
+      return rows.map(r => ({
+          id: r.id,
+          novelId: r.novel_id,
+          chapterId: r.chapter_id,
+          title: r.title || '',
+          content: r.content,
+          source: r.source,
+          createdAt: new Date(r.created_at)
+      }));
+  }
+
+  async saveChapterVersion(version: ChapterVersion): Promise<string> {
+      await this.initForWrite();
+      const id = version.id || crypto.randomUUID();
+      this.writeChapterVersion(this.db!, { ...version, id });
+      await this.persist();
+      return id;
+  }
+
+  async saveChapterVersions(versions: ChapterVersion[]): Promise<void> {
+      await this.initForWrite();
+      runSql(this.db!, 'BEGIN');
+      try {
+          versions.forEach(version => this.writeChapterVersion(this.db!, { ...version, id: version.id || crypto.randomUUID() }));
+          runSql(this.db!, 'COMMIT');
+      } catch (e) {
+          runSql(this.db!, 'ROLLBACK');
+          throw e;
+      }
+      await this.persist();
+  }
+
+  async listChapterVersions(novelId: string, chapterId: number): Promise<ChapterVersion[]> {
+      if (!this.db) await this.init();
+      return this.readChapterVersions(this.db!, novelId, chapterId);
+  }
+
+  async deleteChapterVersions(novelId: string): Promise<void> {
+      await this.initForWrite();
+      runSql(this.db!, 'DELETE FROM chapter_versions WHERE novel_id = ?', [novelId]);
+      await this.persist();
+  }
+
+  // --- File Exchange ---
+
+  async exportDatabase(): Promise<Uint8Array> {
+      if (!this.db) await this.init();
+      return this.db!.export();
+  }
+
+  // Merges novels and model configs from another .sqlite file; rows with the same id are replaced
+  async importDatabase(bytes: Uint8Array): Promise<number> {
+      await this.initForWrite();
+      const SQL = await loadSqlJs();
+      const source = new SQL.Database(bytes);
+      try {
+          const tables = querySql(source, "SELECT name FROM sqlite_master WHERE type = 'table'").map(t => t.name);
+          if (!tables.includes('novels') || !tables.includes('chapters')) {
+              throw new Error("Not a DreamWeaver database file.");
+          }
+          // Bring older files up to the current schema before reading
+          source.exec(SQLITE_SCHEMA);
+
+          const novels = querySql(source, 'SELECT id, updated_at FROM novels');
+          for (const n of novels) {
+              const state = this.readNovel(source, n.id);
+              if (state) this.writeNovel(this.db!, state, n.id, n.updated_at || Date.now());
+              this.readChapterVersions(source, n.id).forEach(v => this.writeChapterVersion(this.db!, v));
+          }
+          querySql(source, 'SELECT data FROM model_configs')
+              .forEach(r => this.writeModelConfig(this.db!, this.readModelConfig(r.data)));
+
+          await this.persist();
+          return novels.length;
+      } finally {
+          source.close();
+      }
+  }
+}
+
+// --- MySQL Remote Adapter ---
 // Since we are in a browser, we cannot connect to MySQL directly via TCP.
-// This adapter expects a backend API at the configured endpoint.
+// This adapter talks to the bundled REST backend (server/index.ts, `npm run server`), which
+// applies db_init.sql and connects to MySQL with its own environment; requests carry the shared API token.
+
+// The backend never stores API keys, so model config keys and the key a novel's settings carry
+// stay in this browser, keyed by config or novel id
+const MODEL_KEYS_STORAGE_KEY = 'model_config_api_keys';
+const NOVEL_KEYS_STORAGE_KEY = 'novel_api_keys';
+
+const readStoredKeys = (storageKey: string): Record<string, string> => {
+    try {
+        return JSON.parse(localStorage.getItem(storageKey) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+const writeStoredKey = (storageKey: string, id: string, apiKey: string | undefined) => {
+    const keys = readStoredKeys(storageKey);
+    if (apiKey) keys[id] = apiKey;
+    else delete keys[id];
+    localStorage.setItem(storageKey, JSON.stringify(keys));
+};
+
+class HttpError extends Error {
+  status: number;
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
 class MySQLDAO implements INovelDAO {
   private config: NovelSettings['storage'];
+  private apiUrl: string;
 
   constructor(config: NovelSettings['storage']) {
       this.config = config;
+      this.apiUrl = (config.apiUrl || 'http://localhost:8787').trim().replace(/\/+$/, '');
+  }
+
+  private async request<T>(method: string, path: string, body?: any): Promise<T> {
+      const headers: Record<string, string> = {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.config.apiToken || ''}`
+      };
+
+      let response: Response;
+      try {
+          response = await fetch(`${this.apiUrl}/api${path}`, {
+              method,
+              headers,
+              body: body === undefined ? undefined : JSON.stringify(body)
+          });
+      } catch (e) {
+          throw new Error(`Cannot reach storage backend at ${this.apiUrl}. Is the server running?`);
+      }
+
+      if (!response.ok) {
+          let message = response.statusText;
+          try {
+              message = (await response.json()).error || message;
+          } catch {}
+          throw new HttpError(response.status, `Storage backend error ${response.status}: ${message}`);
+      }
+      if (response.status === 204) return undefined as T;
+      return response.json();
   }
 
   async init(): Promise<void> {
-      console.log("Initializing MySQL Adapter via API...", this.config);
-      return Promise.resolve();
+      await this.request('GET', '/health');
   }
 
   async saveNovel(state: NovelState): Promise<string> {
-      console.log("Saving to MySQL...", state);
-      await new Promise(r => setTimeout(r, 500));
-      return state.settings.id || crypto.randomUUID();
+      const id = state.settings.id || crypto.randomUUID();
+      const { apiKey, ...shared } = state.settings;
+      await this.request('PUT', `/novels/${encodeURIComponent(id)}`, { ...state, settings: { ...shared, id } });
+      writeStoredKey(NOVEL_KEYS_STORAGE_KEY, id, apiKey);
+      return id;
   }
 
   async loadNovel(id: string): Promise<NovelState | null> {
-      console.log("Loading from MySQL...", id);
-      return null;
+      try {
+          const state = await this.request<NovelState>('GET', `/novels/${encodeURIComponent(id)}`);
+          if (state.lastSaved) state.lastSaved = new Date(state.lastSaved);
+          state.settings.apiKey = readStoredKeys(NOVEL_KEYS_STORAGE_KEY)[id];
+          return state;
+      } catch (e) {
+          if (e instanceof HttpError && e.status === 404) return null;
+          throw e;
+      }
   }
 
   async listNovels(): Promise<{ id: string; title: string; updatedAt: Date }[]> {
-      return [];
+      const rows = await this.request<{ id: string; title: string; updatedAt: number }[]>('GET', '/novels');
+      return rows.map(r => ({ id: r.id, title: r.title, updatedAt: new Date(r.updatedAt) }));
   }
 
   async deleteNovel(id: string): Promise<void> {
-      console.log("Deleting from MySQL...", id);
+      await this.request('DELETE', `/novels/${encodeURIComponent(id)}`);
+      writeStoredKey(NOVEL_KEYS_STORAGE_KEY, id, undefined);
   }
 
   async saveModelConfig(config: ModelConfig): Promise<string> {
-      // Mock save
-      return config.id || crypto.randomUUID();
+      const id = config.id || crypto.randomUUID();
+      const { apiKey, ...shared } = config;
+      await this.request('PUT', `/model-configs/${encodeURIComponent(id)}`, { ...shared, id });
+      writeStoredKey(MODEL_KEYS_STORAGE_KEY, id, apiKey);
+      return id;
   }
   
   async listModelConfigs(): Promise<ModelConfig[]> {
-      return [];
+      const configs = await this.request<Omit<ModelConfig, 'apiKey'>[]>('GET', '/model-configs');
+      const keys = readStoredKeys(MODEL_KEYS_STORAGE_KEY);
+      return configs.map(c => ({ ...c, apiKey: keys[c.id], createdAt: new Date(c.createdAt) }));
   }
 
   async getModelConfig(id: string): Promise<ModelConfig | null> {
-      return null;
+      try {
+          const config = await this.request<Omit<ModelConfig, 'apiKey'>>('GET', `/model-configs/${encodeURIComponent(id)}`);
+          return { ...config, apiKey: readStoredKeys(MODEL_KEYS_STORAGE_KEY)[id], createdAt: new Date(config.createdAt) };
+      } catch (e) {
+          if (e instanceof HttpError && e.status === 404) return null;
+          throw e;
+      }
   }
   
-  async deleteModelConfig(id: string): Promise<void> {}
+  async deleteModelConfig(id: string): Promise<void> {
+      await this.request('DELETE', `/model-configs/${encodeURIComponent(id)}`);
+      writeStoredKey(MODEL_KEYS_STORAGE_KEY, id, undefined);
+  }
+
+  async saveChapterVersion(version: ChapterVersion): Promise<string> {
+      const id = version.id || crypto.randomUUID();
+      await this.request('POST', `/novels/${encodeURIComponent(version.novelId)}/chapters/${version.chapterId}/versions`, { ...version, id });
+      return id;
+  }
+
+  async saveChapterVersions(versions: ChapterVersion[]): Promise<void> {
+      for (const version of versions) await this.saveChapterVersion(version);
+  }
+
+  async listChapterVersions(novelId: string, chapterId: number): Promise<ChapterVersion[]> {
+      const versions = await this.request<ChapterVersion[]>('GET', `/novels/${encodeURIComponent(novelId)}/chapters/${chapterId}/versions`);
+      return versions.map(v => ({ ...v, createdAt: new Date(v.createdAt) }));
+  }
+
+  async deleteChapterVersions(novelId: string): Promise<void> {
+      await this.request('DELETE', `/novels/${encodeURIComponent(novelId)}/versions`);
+  }
 }
 
 // --- Factory ---
@@ -253,6 +942,6 @@ export class DAOFactory {
         if (settings.storage.type === 'mysql') {
             return new MySQLDAO(settings.storage);
         }
-        return LocalDAO.getInstance();
+        return SQLiteDAO.getInstance(settings.storage.sqlitePath || DEFAULT_SQLITE_PATH);
     }
 }
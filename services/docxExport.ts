@@ -0,0 +1,146 @@
+import { createZip } from "./zip";
+import { chapterHeading, escapeXml, ExportDocument, groupVolumes, MatterSection, splitParagraphs } from "./exportUtils";
+
+// Office Open XML (WordprocessingML) builder. Volumes use "Heading 1" and chapters "Heading 2" so they show up
+// in Word's navigation pane and generated tables of contents; front and back matter sections also use "Heading 1".
+
+export interface DocxOptions extends ExportDocument {
+    modified?: Date;
+}
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+<Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>
+</Types>
+`;
+
+const PACKAGE_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/extended-properties" Target="docProps/app.xml"/>
+</Relationships>
+`;
+
+const DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>
+`;
+
+const APP_PROPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Application>DreamWeaver Novelist</Application></Properties>
+`;
+
+const styles = (isEnglish: boolean) => {
+    // Sizes are in half-points, spacing in twentieths of a point
+    const latin = 'Times New Roman';
+    const eastAsia = 'SimSun';
+    const heading = (id: string, name: string, size: number, level: number, centered = true) => `<w:style w:type="paragraph" w:styleId="${id}">
+<w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="9"/><w:qFormat/>
+<w:pPr><w:keepNext/><w:keepLines/>${centered ? '<w:spacing w:before="480" w:after="360"/>' : '<w:spacing w:before="240" w:after="120"/>'}<w:ind w:firstLine="0" w:firstLineChars="0"/><w:jc w:val="${centered ? 'center' : 'left'}"/><w:outlineLvl w:val="${level}"/></w:pPr>
+<w:rPr><w:rFonts w:eastAsia="SimHei"/><w:b/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr>
+</w:style>`;
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NS}">
+<w:docDefaults>
+<w:rPrDefault><w:rPr><w:rFonts w:ascii="${latin}" w:hAnsi="${latin}" w:eastAsia="${eastAsia}" w:cs="${latin}"/><w:sz w:val="24"/><w:szCs w:val="24"/><w:lang w:val="${isEnglish ? 'en-US' : 'zh-CN'}" w:eastAsia="zh-CN"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="0" w:line="360" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal">
+<w:name w:val="Normal"/><w:qFormat/>
+<w:pPr>${isEnglish ? '<w:ind w:firstLine="360"/>' : '<w:ind w:firstLineChars="200" w:firstLine="480"/>'}<w:jc w:val="both"/></w:pPr>
+</w:style>
+<w:style w:type="paragraph" w:styleId="Title">
+<w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Subtitle"/><w:qFormat/>
+<w:pPr><w:spacing w:before="2400" w:after="480"/><w:ind w:firstLine="0" w:firstLineChars="0"/><w:jc w:val="center"/></w:pPr>
+<w:rPr><w:rFonts w:eastAsia="SimHei"/><w:b/><w:sz w:val="56"/><w:szCs w:val="56"/></w:rPr>
+</w:style>
+<w:style w:type="paragraph" w:styleId="Subtitle">
+<w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:qFormat/>
+<w:pPr><w:spacing w:after="240"/><w:ind w:firstLine="0" w:firstLineChars="0"/><w:jc w:val="center"/></w:pPr>
+<w:rPr><w:sz w:val="28"/><w:szCs w:val="28"/></w:rPr>
+</w:style>
+${heading('Heading1', 'heading 1', 40, 0)}
+${heading('Heading2', 'heading 2', 32, 1)}
+${heading('Heading3', 'heading 3', 26, 2, false)}
+</w:styles>
+`;
+};
+
+const run = (text: string) => `<w:r><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+
+const paragraph = (text: string, style?: string, pageBreakBefore = false) => {
+    const pPr = style || pageBreakBefore
+        ? `<w:pPr>${style ? `<w:pStyle w:val="${style}"/>` : ''}${pageBreakBefore ? '<w:pageBreakBefore/>' : ''}</w:pPr>`
+        : '';
+    return `<w:p>${pPr}${run(text)}</w:p>`;
+};
+
+const matter = (section: MatterSection): string[] => [
+    paragraph(section.title, 'Heading1', true),
+    ...section.entries.flatMap(e => [
+        ...(e.heading ? [paragraph(e.heading, 'Heading3')] : []),
+        ...e.paragraphs.map(p => paragraph(p))
+    ])
+];
+
+export const buildDocx = ({ settings, chapters, headingTemplate, frontMatter = [], backMatter = [], modified = new Date() }: DocxOptions): Uint8Array => {
+    const author = settings.author;
+    const isEnglish = settings.language === 'en';
+    const title = settings.title || (isEnglish ? 'Untitled' : '未命名作品');
+    const body: string[] = [];
+
+    // Title page
+    body.push(paragraph(title, 'Title'));
+    if (author) body.push(paragraph(author, 'Subtitle'));
+    frontMatter.forEach(section => body.push(...matter(section)));
+
+    // Every volume or chapter heading starts a new page, except a chapter that directly follows its volume heading
+    groupVolumes(chapters).forEach(volume => {
+        if (volume.title !== undefined) body.push(paragraph(volume.title, 'Heading1', true));
+        volume.chapters.forEach((c, i) => {
+            body.push(paragraph(chapterHeading(settings, c, headingTemplate), 'Heading2', volume.title === undefined || i > 0));
+            splitParagraphs(c.content).forEach(p => body.push(paragraph(p)));
+        });
+    });
+
+    backMatter.forEach(section => body.push(...matter(section)));
+
+    // A4 portrait with 2.54cm margins
+    const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}">
+<w:body>
+${body.join('\n')}
+<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="851" w:footer="992" w:gutter="0"/></w:sectPr>
+</w:body>
+</w:document>
+`;
+
+    const timestamp = modified.toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const core = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXml(title)}</dc:title>
+${author ? `<dc:creator>${escapeXml(author)}</dc:creator>\n` : ''}<dc:language>${isEnglish ? 'en-US' : 'zh-CN'}</dc:language>
+<dcterms:created xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:created>
+<dcterms:modified xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:modified>
+</cp:coreProperties>
+`;
+
+    return createZip([
+        { path: '[Content_Types].xml', data: CONTENT_TYPES },
+        { path: '_rels/.rels', data: PACKAGE_RELS },
+        { path: 'word/document.xml', data: document },
+        { path: 'word/_rels/document.xml.rels', data: DOCUMENT_RELS },
+        { path: 'word/styles.xml', data: styles(isEnglish) },
+        { path: 'docProps/core.xml', data: core },
+        { path: 'docProps/app.xml', data: APP_PROPS }
+    ], modified);
+};
@@ -0,0 +1,236 @@
+import { createZip, ZipEntry } from "./zip";
+import { chapterHeading, escapeXml, ExportDocument, groupVolumes, languageTag, MatterSection, parseDataUrl, splitParagraphs } from "./exportUtils";
+
+// EPUB 3 package builder. Layout:
+//   mimetype                      (first entry, stored, as the OCF spec requires)
+//   META-INF/container.xml
+//   OEBPS/content.opf, nav.xhtml, toc.ncx (for EPUB 2 readers), styles.css
+//   OEBPS/text/*.xhtml            cover, title page, front matter, one page per volume and chapter, back matter
+//   OEBPS/images/cover.*
+
+export interface EpubOptions extends ExportDocument {
+    coverImage?: string; // Data URL
+    modified?: Date;
+}
+
+const COVER_TYPES: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/svg+xml': 'svg'
+};
+
+const STYLESHEET = `@charset "utf-8";
+html, body { margin: 0; padding: 0; }
+body {
+    font-family: "Songti SC", "Noto Serif CJK SC", "Source Han Serif SC", "SimSun", serif;
+    line-height: 1.8;
+    text-align: justify;
+    line-break: strict;
+    word-wrap: break-word;
+}
+body:lang(en) { font-family: Georgia, "Times New Roman", serif; line-height: 1.5; }
+h1, h2 { font-weight: bold; text-align: center; line-height: 1.4; page-break-after: avoid; }
+h1 { font-size: 1.6em; margin: 30% 0 1em; }
+h2 { font-size: 1.3em; margin: 2em 0 1.5em; }
+p { margin: 0; text-indent: 2em; }
+body:lang(en) p { text-indent: 1.5em; }
+body:lang(en) h2 + p { text-indent: 0; }
+.title-page { text-align: center; }
+.title-page p { text-indent: 0; margin-top: 1em; }
+.author { font-size: 1.1em; }
+.cover { margin: 0; padding: 0; text-align: center; height: 100%; }
+.cover img { max-width: 100%; max-height: 100%; }
+h3 { font-size: 1.1em; margin: 1.5em 0 0.5em; page-break-after: avoid; }
+.matter h1 { margin-top: 2em; }
+`;
+
+const xhtml = (lang: string, title: string, body: string, bodyClass?: string) => `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${lang}" xml:lang="${lang}">
+<head>
+<meta charset="utf-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="../styles.css"/>
+</head>
+<body${bodyClass ? ` class="${bodyClass}"` : ''}>
+${body}
+</body>
+</html>
+`;
+
+// dcterms:modified must be CCYY-MM-DDThh:mm:ssZ
+const epubDate = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+export const buildEpub = ({ settings, chapters, headingTemplate, frontMatter = [], backMatter = [], coverImage, modified = new Date() }: EpubOptions): Uint8Array => {
+    const author = settings.author;
+    const lang = languageTag(settings);
+    const title = settings.title || (settings.language === 'en' ? 'Untitled' : '未命名作品');
+    const identifier = `urn:uuid:${settings.id || crypto.randomUUID()}`;
+
+    // id/href of every content document, in reading order
+    const manifest: { id: string; href: string; mediaType: string; properties?: string }[] = [];
+    const spine: string[] = [];
+    const files: ZipEntry[] = [];
+    const addPage = (id: string, pageTitle: string, body: string, bodyClass?: string) => {
+        const href = `text/${id}.xhtml`;
+        files.push({ path: `OEBPS/${href}`, data: xhtml(lang, pageTitle, body, bodyClass) });
+        manifest.push({ id, href, mediaType: 'application/xhtml+xml' });
+        spine.push(id);
+        return href;
+    };
+
+    // Cover
+    const cover = coverImage ? parseDataUrl(coverImage) : null;
+    let coverPage: string | null = null;
+    if (cover && COVER_TYPES[cover.mediaType]) {
+        const href = `images/cover.${COVER_TYPES[cover.mediaType]}`;
+        files.push({ path: `OEBPS/${href}`, data: cover.data });
+        manifest.push({ id: 'cover-image', href, mediaType: cover.mediaType, properties: 'cover-image' });
+        coverPage = addPage('cover', title, `<section class="cover" epub:type="cover"><img src="../${href}" alt="${escapeXml(title)}"/></section>`, 'cover');
+    }
+
+    // Title page
+    const titlePage = addPage('title-page', title, `<section class="title-page" epub:type="titlepage">
+<h1>${escapeXml(title)}</h1>
+${author ? `<p class="author">${escapeXml(author)}</p>` : ''}
+</section>`);
+
+    const toc: { title: string; href: string; children: { title: string; href: string }[] }[] = [];
+    const addMatter = (section: MatterSection) => {
+        const body = section.entries.map(e => [
+            e.heading ? `<h3>${escapeXml(e.heading)}</h3>` : '',
+            ...e.paragraphs.map(p => `<p>${escapeXml(p)}</p>`)
+        ].filter(Boolean).join('\n')).join('\n');
+        const epubType = section.id === 'synopsis' ? 'preamble' : section.id === 'notes' ? 'afterword' : 'appendix';
+        const href = addPage(section.id, section.title, `<section class="matter" epub:type="${epubType}">
+<h1>${escapeXml(section.title)}</h1>
+${body}
+</section>`);
+        toc.push({ title: section.title, href, children: [] });
+    };
+
+    frontMatter.forEach(addMatter);
+
+    // Volumes and chapters
+    const bodyStart = toc.length;
+    groupVolumes(chapters).forEach((volume, vi) => {
+        const volumePage = volume.title !== undefined
+            ? addPage(`volume-${vi + 1}`, volume.title, `<section epub:type="part"><h1>${escapeXml(volume.title)}</h1></section>`)
+            : null;
+        const entries = volume.chapters.map((c, ci) => {
+            const heading = chapterHeading(settings, c, headingTemplate);
+            const paragraphs = splitParagraphs(c.content).map(p => `<p>${escapeXml(p)}</p>`).join('\n');
+            const href = addPage(`chapter-${vi + 1}-${ci + 1}`, heading, `<section epub:type="chapter">
+<h2>${escapeXml(heading)}</h2>
+${paragraphs}
+</section>`);
+            return { title: heading, href };
+        });
+        if (volumePage) {
+            toc.push({ title: volume.title!, href: volumePage, children: entries });
+        } else {
+            entries.forEach(e => toc.push({ ...e, children: [] }));
+        }
+    });
+
+    backMatter.forEach(addMatter);
+
+    // Navigation document (hrefs are relative to OEBPS/, like the nav document itself)
+    const navItem = (item: { title: string; href: string }) => `<a href="${item.href}">${escapeXml(item.title)}</a>`;
+    const navList = toc.map(item => item.children.length > 0
+        ? `<li>${navItem(item)}\n<ol>\n${item.children.map(c => `<li>${navItem(c)}</li>`).join('\n')}\n</ol>\n</li>`
+        : `<li>${navItem(item)}</li>`
+    ).join('\n');
+    const tocLabel = settings.language === 'en' ? 'Contents' : '目录';
+    const landmarks = [
+        coverPage && `<li><a epub:type="cover" href="${coverPage}">${settings.language === 'en' ? 'Cover' : '封面'}</a></li>`,
+        `<li><a epub:type="titlepage" href="${titlePage}">${settings.language === 'en' ? 'Title Page' : '扉页'}</a></li>`,
+        toc[bodyStart] && `<li><a epub:type="bodymatter" href="${toc[bodyStart].href}">${settings.language === 'en' ? 'Start' : '正文'}</a></li>`
+    ].filter(Boolean).join('\n');
+    const nav = `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${lang}" xml:lang="${lang}">
+<head>
+<meta charset="utf-8"/>
+<title>${tocLabel}</title>
+<link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body>
+<nav epub:type="toc" id="toc">
+<h1>${tocLabel}</h1>
+<ol>
+${navList}
+</ol>
+</nav>
+<nav epub:type="landmarks" hidden="hidden">
+<ol>
+${landmarks}
+</ol>
+</nav>
+</body>
+</html>
+`;
+
+    // NCX for EPUB 2 reading systems
+    let playOrder = 0;
+    const navPoint = (item: { title: string; href: string; children?: { title: string; href: string }[] }): string => {
+        const order = ++playOrder; // Parents are numbered before their children
+        const inner = (item.children || []).map(navPoint).join('\n');
+        return `<navPoint id="nav-${order}" playOrder="${order}"><navLabel><text>${escapeXml(item.title)}</text></navLabel><content src="${item.href}"/>${inner}</navPoint>`;
+    };
+    const ncxPoints = toc.map(navPoint).join('\n');
+    const ncx = `<?xml version="1.0" encoding="utf-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1" xml:lang="${lang}">
+<head>
+<meta name="dtb:uid" content="${escapeXml(identifier)}"/>
+<meta name="dtb:depth" content="${toc.some(t => t.children.length > 0) ? 2 : 1}"/>
+<meta name="dtb:totalPageCount" content="0"/>
+<meta name="dtb:maxPageNumber" content="0"/>
+</head>
+<docTitle><text>${escapeXml(title)}</text></docTitle>
+<navMap>
+${ncxPoints}
+</navMap>
+</ncx>
+`;
+
+    const opf = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${lang}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${escapeXml(identifier)}</dc:identifier>
+<dc:title>${escapeXml(title)}</dc:title>
+<dc:language>${lang}</dc:language>
+${author ? `<dc:creator>${escapeXml(author)}</dc:creator>\n` : ''}${settings.premise ? `<dc:description>${escapeXml(settings.premise)}</dc:description>\n` : ''}${settings.mainCategory ? `<dc:subject>${escapeXml(settings.mainCategory)}</dc:subject>\n` : ''}<meta property="dcterms:modified">${epubDate(modified)}</meta>
+${coverPage ? '<meta name="cover" content="cover-image"/>\n' : ''}</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
+<item id="css" href="styles.css" media-type="text/css"/>
+${manifest.map(m => `<item id="${m.id}" href="${m.href}" media-type="${m.mediaType}"${m.properties ? ` properties="${m.properties}"` : ''}/>`).join('\n')}
+</manifest>
+<spine toc="ncx">
+${spine.map(id => `<itemref idref="${id}"/>`).join('\n')}
+</spine>
+</package>
+`;
+
+    const container = `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`;
+
+    return createZip([
+        { path: 'mimetype', data: 'application/epub+zip' },
+        { path: 'META-INF/container.xml', data: container },
+        { path: 'OEBPS/content.opf', data: opf },
+        { path: 'OEBPS/nav.xhtml', data: nav },
+        { path: 'OEBPS/toc.ncx', data: ncx },
+        { path: 'OEBPS/styles.css', data: STYLESHEET },
+        ...files
+    ], modified);
+};
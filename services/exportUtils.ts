@@ -0,0 +1,223 @@
+import { Chapter, Character, ExportOptions, Language, NovelSettings, PageLayout, PageSize } from "../types";
+import { formatRelationships } from "./characterRelations";
+
+// Helpers shared by the export formats (EPUB, DOCX, HTML, TXT)
+
+export const escapeXml = (text: string): string =>
+    (text || '')
+        // Control characters are not allowed in XML 1.0 documents
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+
+export const languageTag = (settings: NovelSettings): string => settings.language === 'en' ? 'en' : 'zh-CN';
+
+// Chapter heading templates offered in the export dialog; the first one is the default
+export const HEADING_PRESETS: Record<Language, string[]> = {
+    zh: ['第 {{n}} 章 {{title}}', '第{{cn}}章 {{title}}', '{{n}}. {{title}}', '{{title}}'],
+    en: ['Chapter {{n}}: {{title}}', 'Chapter {{n}}', '{{n}}. {{title}}', '{{title}}']
+};
+
+const CN_DIGITS = '零一二三四五六七八九';
+const CN_UNITS = ['', '十', '百', '千'];
+
+// 1-9999 as Chinese numerals (十二, 一百零五); other numbers stay Arabic
+export const toChineseNumeral = (n: number): string => {
+    if (!Number.isInteger(n) || n <= 0 || n >= 10000) return String(n);
+    const digits = String(n).split('').map(Number);
+    let out = '';
+    let pendingZero = false;
+    digits.forEach((d, i) => {
+        if (d === 0) {
+            pendingZero = true;
+            return;
+        }
+        if (pendingZero) out += '零';
+        pendingZero = false;
+        out += CN_DIGITS[d] + CN_UNITS[digits.length - 1 - i];
+    });
+    return out.replace(/^一十/, '十');
+};
+
+export const chapterHeading = (settings: NovelSettings, chapter: Chapter, template?: string): string =>
+    (template || HEADING_PRESETS[settings.language === 'en' ? 'en' : 'zh'][0])
+        .replace(/\{\{(n|cn|title)\}\}/g, (_, key) =>
+            key === 'n' ? String(chapter.id) : key === 'cn' ? toChineseNumeral(chapter.id) : chapter.title)
+        .trim() || chapter.title;
+
+export const splitParagraphs = (content: string): string[] =>
+    (content || '').split(/\n+/).map(p => p.trim()).filter(Boolean);
+
+export interface ExportVolume {
+    volumeId?: number;
+    title?: string; // Undefined for chapters that don't belong to a volume
+    chapters: Chapter[];
+}
+
+// Groups consecutive chapters by volume, keeping chapter order
+export const groupVolumes = (chapters: Chapter[]): ExportVolume[] => {
+    const volumes: ExportVolume[] = [];
+    chapters.forEach(c => {
+        const last = volumes[volumes.length - 1];
+        if (last && last.volumeId === c.volumeId) {
+            last.chapters.push(c);
+            return;
+        }
+        volumes.push({
+            volumeId: c.volumeId,
+            title: c.volumeId === undefined ? undefined : (c.volumeTitle || `Volume ${c.volumeId}`),
+            chapters: [c]
+        });
+    });
+    return volumes;
+};
+
+export const parseDataUrl = (dataUrl: string): { mediaType: string; data: Uint8Array } | null => {
+    const match = /^data:([^;,]+)(;base64)?,(.*)$/s.exec(dataUrl || '');
+    if (!match) return null;
+    if (!match[2]) return { mediaType: match[1], data: new TextEncoder().encode(decodeURIComponent(match[3])) };
+    const binary = atob(match[3]);
+    const data = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+    return { mediaType: match[1], data };
+};
+
+export const readFileAsDataUrl = (file: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+export const exportFileName = (title: string, extension: string): string =>
+    `${(title || 'novel').replace(/[\\/:*?"<>|]+/g, '_').trim() || 'novel'}.${extension}`;
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // Revoke later: some browsers start the download asynchronously
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Page setup shared by the HTML, print and PDF exports. Sizes are in PDF points (1/72 inch).
+export const PAGE_SIZES: Record<PageSize, { width: number; height: number; css: string }> = {
+    A4: { width: 595.28, height: 841.89, css: 'A4' },
+    A5: { width: 419.53, height: 595.28, css: 'A5' },
+    Letter: { width: 612, height: 792, css: 'letter' }
+};
+
+export const defaultPageLayout = (settings: NovelSettings): PageLayout => ({
+    pageSize: 'A4',
+    fontFamily: 'serif',
+    fontSize: 12,
+    headerText: settings.title || '',
+    showPageNumbers: true
+});
+
+export const defaultExportOptions = (settings: NovelSettings): ExportOptions => ({
+    scope: 'all',
+    volumeIds: [],
+    skipUnfinished: true,
+    headingTemplate: HEADING_PRESETS[settings.language === 'en' ? 'en' : 'zh'][0],
+    includeSynopsis: false,
+    includeCharacters: false,
+    includeWorld: false,
+    includeAuthorNotes: false
+});
+
+export const isChapterFinished = (chapter: Chapter) => !!chapter.content?.trim();
+
+export const selectExportChapters = (chapters: Chapter[], options: ExportOptions): Chapter[] => chapters.filter(c => {
+    if (options.skipUnfinished && !isChapterFinished(c)) return false;
+    if (options.scope === 'volumes') return c.volumeId !== undefined && options.volumeIds.includes(c.volumeId);
+    if (options.scope === 'range') {
+        return (options.rangeStart === undefined || c.id >= options.rangeStart)
+            && (options.rangeEnd === undefined || c.id <= options.rangeEnd);
+    }
+    return true;
+});
+
+// Front and back matter are format-neutral: each section is a titled list of entries with optional sub-headings
+export interface MatterEntry {
+    heading?: string;
+    paragraphs: string[];
+}
+
+export interface MatterSection {
+    id: 'synopsis' | 'characters' | 'world' | 'notes';
+    title: string;
+    entries: MatterEntry[];
+}
+
+// Everything a format renderer needs; produced by prepareExport
+export interface ExportDocument {
+    settings: NovelSettings;
+    chapters: Chapter[];
+    headingTemplate?: string;
+    frontMatter?: MatterSection[];
+    backMatter?: MatterSection[];
+}
+
+const characterEntries = (characters: Character[], isEnglish: boolean): MatterEntry[] => characters.map(c => {
+    const label = (zh: string, en: string, value?: string) => value ? `${isEnglish ? en : zh}${isEnglish ? ': ' : '：'}${value}` : '';
+    return {
+        heading: c.role ? `${c.name} (${c.role})` : c.name,
+        paragraphs: [
+            ...splitParagraphs(c.description),
+            label('人物关系', 'Relationships', formatRelationships(c, characters)),
+            label('目标', 'Goals', c.goals),
+            label('成长弧光', 'Arc', c.arc)
+        ].filter(Boolean)
+    };
+});
+
+const worldEntries = (settings: NovelSettings, isEnglish: boolean): MatterEntry[] => {
+    const world = settings.structuredWorld;
+    if (!world) return settings.worldSetting ? [{ paragraphs: splitParagraphs(settings.worldSetting) }] : [];
+    const aspects: [string, string, string][] = [
+        ['地理', 'Geography', world.geography],
+        ['社会', 'Society', world.society],
+        ['文化', 'Culture', world.culture],
+        ['科技 / 力量体系', 'Technology', world.technology]
+    ];
+    const entries: MatterEntry[] = aspects
+        .filter(([, , text]) => text?.trim())
+        .map(([zh, en, text]) => ({ heading: isEnglish ? en : zh, paragraphs: splitParagraphs(text) }));
+    const other = isEnglish ? 'Other' : '其他';
+    const terms = world.encyclopedia || [];
+    Array.from(new Set(terms.map(t => t.category || other))).forEach(category => {
+        entries.push({
+            heading: category,
+            paragraphs: terms
+                .filter(t => (t.category || other) === category)
+                .map(t => `${t.term}${isEnglish ? ': ' : '：'}${t.definition}`)
+        });
+    });
+    return entries;
+};
+
+export const prepareExport = (settings: NovelSettings, chapters: Chapter[], characters: Character[], options: ExportOptions): ExportDocument => {
+    const isEnglish = settings.language === 'en';
+    const section = (id: MatterSection['id'], zh: string, en: string, entries: MatterEntry[]): MatterSection[] =>
+        entries.some(e => e.paragraphs.length > 0) ? [{ id, title: isEnglish ? en : zh, entries }] : [];
+
+    return {
+        settings,
+        chapters: selectExportChapters(chapters, options),
+        headingTemplate: options.headingTemplate,
+        frontMatter: options.includeSynopsis
+            ? section('synopsis', '内容简介', 'Synopsis', [{ paragraphs: splitParagraphs(settings.premise) }])
+            : [],
+        backMatter: [
+            ...(options.includeCharacters ? section('characters', '附录：人物表', 'Appendix: Characters', characterEntries(characters, isEnglish)) : []),
+            ...(options.includeWorld ? section('world', '附录：世界设定', 'Appendix: World', worldEntries(settings, isEnglish)) : []),
+            ...(options.includeAuthorNotes ? section('notes', '作者的话', "Author's Notes", [{ paragraphs: splitParagraphs(settings.authorNotes || '') }]) : [])
+        ]
+    };
+};
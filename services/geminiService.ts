@@ -1,23 +1,45 @@
 
 // ... existing imports
-import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
-import { NovelSettings, Chapter, Character, WorldData, PlotData, WorldLocation, WorldEvent, WorldTerm } from '../types';
-import { PROMPT_KEYS, getPromptTemplate, fillPrompt } from './promptTemplates';
+import { Type } from "@google/genai";
+import { NovelSettings, Chapter, Character, WorldData, PlotData, WorldLocation, WorldEvent, WorldTerm, FactEntry, FactType, CharacterStateSnapshot, SelectionEditAction, GrammarIssue } from '../types';
+import { PROMPT_KEYS, PROMPT_TASKS, getPromptTemplate, fillPrompt } from './promptTemplates';
+import { LLMClientFactory, ILLMClient } from './llmClient';
+import { buildChapterContext } from './contextBuilder';
+import { resolveRelationships } from './characterRelations';
+import { CHARACTER_STATE_FIELDS, formatCharacterState, getCharacterStateAt } from './characterState';
+import { chunkText, mapWithConcurrency } from './textChunks';
+import { ChunkIssue, mergeChunkIssues } from './grammarFixes';
 
 // ... (keep getClient and sanitizeCharacter)
 
-const getClient = (settings: NovelSettings) => {
-    const key = settings.apiKey || process.env.API_KEY;
-    if (!key) throw new Error("API Key is missing. Please configure it in Settings.");
-    return new GoogleGenAI({ apiKey: key });
+const isJsonObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Array answers from chat-completions providers sometimes come wrapped in an object ({"issues": [...]});
+// a single array-valued property is unwrapped, anything else yields an empty list.
+// Items are not validated: callers filter them before use.
+const parseJsonArray = <T>(text: string | undefined): T[] => {
+    const json: unknown = JSON.parse((text || "[]").replace(/```json\n?|```/g, '').trim() || "[]");
+    if (Array.isArray(json)) return json;
+    const arrays = isJsonObject(json) ? Object.values(json).filter(Array.isArray) : [];
+    return arrays.length === 1 ? arrays[0] : [];
 };
 
+// Picks the model routed to the prompt's task, falling back to the active model
+const getClient = (settings: NovelSettings, promptKey: string): ILLMClient => {
+    return LLMClientFactory.getClient(settings, PROMPT_TASKS[promptKey], promptKey);
+};
+
+// Single character, with an id. Relationships that still need resolving against the cast are dropped;
+// use sanitizeCharacters for anything that may contain names or legacy free text.
 export const sanitizeCharacter = (char: any): Character => {
     return {
+        id: char.id || crypto.randomUUID(),
         name: char.name || 'Unknown',
         role: char.role || 'Supporting',
         description: char.description || '',
-        relationships: char.relationships || '',
+        relationships: Array.isArray(char.relationships) ? char.relationships.filter((r: any) => r?.targetId) : [],
+        relationshipNotes: char.relationshipNotes,
         imageUrl: char.imageUrl,
         voiceGuide: char.voiceGuide,
         arc: char.arc,
@@ -26,14 +48,38 @@ export const sanitizeCharacter = (char: any): Character => {
         storylineId: char.storylineId,
         personalityTags: char.personalityTags,
         backgroundStory: char.backgroundStory,
-        skills: char.skills
+        skills: char.skills,
+        stateTimeline: char.stateTimeline
     };
 };
 
+// Sanitizes a batch and links relationships by id, resolving names against the batch plus `existing`
+export const sanitizeCharacters = (raw: any[], existing: Character[] = []): Character[] => {
+    const sanitized = raw.map(sanitizeCharacter);
+    const cast = [...existing, ...sanitized];
+    return sanitized.map((c, i) => {
+        const { relationships, unresolved } = resolveRelationships(raw[i]?.relationships, c, cast);
+        const notes = [c.relationshipNotes, unresolved].filter(Boolean).join('\n');
+        return { ...c, relationships, relationshipNotes: notes || undefined };
+    });
+};
+
+const RELATIONSHIP_SCHEMA = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            target: { type: Type.STRING },
+            type: { type: Type.STRING },
+            description: { type: Type.STRING }
+        }
+    }
+};
+
 // ... (keep basic generators: generateTitles, generatePremise, expandText, generateWorldSetting, generateCharacterConcepts)
 
 export const generateTitles = async (settings: NovelSettings): Promise<string[]> => {
-    const ai = getClient(settings);
+    const ai = getClient(settings, PROMPT_KEYS.GENERATE_TITLES);
     const template = getPromptTemplate(PROMPT_KEYS.GENERATE_TITLES, settings);
     const prompt = fillPrompt(template, {
         mainCategory: settings.mainCategory,
@@ -41,21 +87,18 @@ export const generateTitles = async (settings: NovelSettings): Promise<string[]>
         themes: settings.themes.join(', ')
     });
 
-    const response = await ai.models.generateContent({
+    const response = await ai.generate({
         model: 'gemini-3-flash-preview',
-        contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: {
-                type: Type.ARRAY,
-                items: { type: Type.STRING }
-            }
+        prompt,
+        json: true,
+        responseSchema: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING }
         }
     });
 
     try {
-        const text = response.text || "[]";
-        return JSON.parse(text);
+        return parseJsonArray<unknown>(response.text).filter((t): t is string => typeof t === 'string' && t.trim() !== '');
     } catch (e) {
         console.error("Failed to parse titles", e);
         return [];
@@ -63,7 +106,7 @@ export const generateTitles = async (settings: NovelSettings): Promise<string[]>
 };
 
 export const generatePremise = async (title: string, idea: string, settings: NovelSettings): Promise<string> => {
-    const ai = getClient(settings);
+    const ai = getClient(settings, PROMPT_KEYS.GENERATE_PREMISE);
     const template = getPromptTemplate(PROMPT_KEYS.GENERATE_PREMISE, settings);
     const prompt = fillPrompt(template, {
         title,
@@ -73,16 +116,16 @@ export const generatePremise = async (title: string, idea: string, settings: Nov
         writingTone: settings.writingTone
     });
 
-    const response = await ai.models.generateContent({
+    const response = await ai.generate({
         model: 'gemini-3-flash-preview',
-        contents: prompt,
+        prompt,
     });
 
     return response.text || '';
 };
 
 export const expandText = async (text: string, section: string, settings: NovelSettings): Promise<string> => {
-    const ai = getClient(settings);
+    const ai = getClient(settings, PROMPT_KEYS.EXPAND_TEXT);
     const template = getPromptTemplate(PROMPT_KEYS.EXPAND_TEXT, settings);
     const prompt = fillPrompt(template, {
         text,
@@ -90,15 +133,15 @@ export const expandText = async (text: string, section: string, settings: NovelS
         premise: settings.premise
     });
 
-    const response = await ai.models.generateContent({
+    const response = await ai.generate({
         model: 'gemini-3-flash-preview',
-        contents: prompt,
+        prompt,
     });
     return response.text || text;
 };
 
 export const generateWorldSetting = async (settings: NovelSettings): Promise<string> => {
-    const ai = getClient(settings);
+    const ai = getClient(settings, PROMPT_KEYS.GENERATE_WORLD_SETTING);
     const template = getPromptTemplate(PROMPT_KEYS.GENERATE_WORLD_SETTING, settings);
     const prompt = fillPrompt(template, {
         premise: settings.premise,
@@ -106,19 +149,19 @@ export const generateWorldSetting = async (settings: NovelSettings): Promise<str
         themes: settings.themes.join(', ')
     });
 
-    const response = await ai.models.generateContent({
+    const response = await ai.generate({
         model: 'gemini-3-flash-preview',
-        contents: prompt,
+        prompt,
     });
     return response.text || '';
 };
 
 export const generateCharacterConcepts = async (settings: NovelSettings): Promise<string> => {
-    const ai = getClient(settings);
+    const ai = getClient(settings, PROMPT_KEYS.GENERATE_CHARACTERS);
     const prompt = `Generate a list of main character concepts for a ${settings.mainCategory} story: ${settings.premise}. Return as a list.`;
-    const response = await ai.models.generateContent({
+    const response = await ai.generate({
         model: 'gemini-3-flash-preview',
-        contents: prompt,
+        prompt,
     });
     return response.text || '';
 };
@@ -130,7 +173,7 @@ export const generateOutline = async (
     signal?: AbortSignal,
     onUsage?: (usage: {input: number, output: number}) => void
 ): Promise<Chapter[]> => {
-    const ai = getClient(settings);
+    const ai = getClient(settings, PROMPT_KEYS.GENERATE_OUTLINE);
     const template = getPromptTemplate(PROMPT_KEYS.GENERATE_OUTLINE, settings);
     const prompt = fillPrompt(template, {
         novelType: settings.novelType,
@@ -141,41 +184,34 @@ export const generateOutline = async (
 
     // Use Flash for outlines - usually more stable for structured JSON lists than Pro in some cases
     // and avoids the "infinite number loop" issue seen with Pro sometimes.
-    const response = await ai.models.generateContent({
+    const response = await ai.generate({
         model: 'gemini-3-flash-preview', 
-        contents: prompt,
-        config: {
-            temperature: 0.7, // Reduce randomness slightly to prevent loops
-            responseMimeType: 'application/json',
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        id: { type: Type.INTEGER },
-                        title: { type: Type.STRING },
-                        summary: { type: Type.STRING },
-                        volumeId: { type: Type.INTEGER },
-                        volumeTitle: { type: Type.STRING }
-                    }
+        prompt,
+        temperature: 0.7, // Reduce randomness slightly to prevent loops
+        json: true,
+        responseSchema: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    id: { type: Type.INTEGER },
+                    title: { type: Type.STRING },
+                    summary: { type: Type.STRING },
+                    volumeId: { type: Type.INTEGER },
+                    volumeTitle: { type: Type.STRING }
                 }
             }
-        }
+        },
+        signal,
+        onUsage
     });
 
-    if (onUsage && response.usageMetadata) {
-        onUsage({
-            input: response.usageMetadata.promptTokenCount || 0,
-            output: response.usageMetadata.candidatesTokenCount || 0
-        });
-    }
-
     try {
         let cleanText = response.text || "[]";
         // 1. Remove Markdown
         cleanText = cleanText.replace(/```json\n?|```/g, '').trim();
         
-        let json;
+        let json: unknown;
         try {
             json = JSON.parse(cleanText);
         } catch (parseError) {
@@ -208,21 +244,18 @@ export const generateOutline = async (
             }
         }
 
-        if (!Array.isArray(json)) {
-             if (typeof json === 'object' && json !== null && (json as any).chapters && Array.isArray((json as any).chapters)) {
-                 json = (json as any).chapters;
-             } else {
-                 // Single object? Wrap it
-                 if (json && (json as any).title) {
-                     json = [json];
-                 } else {
-                     json = [];
-                 }
-             }
+        let outline: any[] = [];
+        if (Array.isArray(json)) {
+            outline = json;
+        } else if (isJsonObject(json) && Array.isArray(json.chapters)) {
+            outline = json.chapters;
+        } else if (isJsonObject(json) && json.title) {
+            // Single object? Wrap it
+            outline = [json];
         }
 
         // Post-processing: Assign volumes if missing for long novels
-        const processedChapters = json.map((c: any) => {
+        const processedChapters = outline.map((c: any) => {
             const sanitized = {
                 ...c,
                 content: '',
@@ -260,46 +293,36 @@ export const generateCharacters = async (
     signal?: AbortSignal,
     onUsage?: (usage: {input: number, output: number}) => void
 ): Promise<Character[]> => {
-    const ai = getClient(settings);
+    const ai = getClient(settings, PROMPT_KEYS.GENERATE_CHARACTERS);
     const template = getPromptTemplate(PROMPT_KEYS.GENERATE_CHARACTERS, settings);
     const prompt = fillPrompt(template, {
         premise: settings.premise
     });
 
-    const response = await ai.models.generateContent({
+    const response = await ai.generate({
         model: 'gemini-3-flash-preview',
-        contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        name: { type: Type.STRING },
-                        role: { type: Type.STRING },
-                        description: { type: Type.STRING },
-                        relationships: { type: Type.STRING },
-                        backgroundStory: { type: Type.STRING },
-                        skills: { type: Type.STRING }
-                    }
+        prompt,
+        json: true,
+        responseSchema: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    name: { type: Type.STRING },
+                    role: { type: Type.STRING },
+                    description: { type: Type.STRING },
+                    relationships: RELATIONSHIP_SCHEMA,
+                    backgroundStory: { type: Type.STRING },
+                    skills: { type: Type.STRING }
                 }
             }
-        }
+        },
+        signal,
+        onUsage
     });
 
-    if (onUsage && response.usageMetadata) {
-        onUsage({
-            input: response.usageMetadata.promptTokenCount || 0,
-            output: response.usageMetadata.candidatesTokenCount || 0
-        });
-    }
-
     try {
-        let text = response.text || "[]";
-        text = text.replace(/```json\n?|```/g, '').trim();
-        const json = JSON.parse(text);
-        return json.map(sanitizeCharacter);
+        return sanitizeCharacters(parseJsonArray(response.text));
     } catch (e) {
         console.error("Characters parse error", e);
         return [];
@@ -309,38 +332,55 @@ export const generateCharacters = async (
 export async function* generateChapterStream(
     settings: NovelSettings,
     chapter: Chapter,
-    storySummaries: string,
-    previousContext: string,
+    chapters: Chapter[],
     characters: Character[],
+    facts: FactEntry[],
     signal?: AbortSignal,
     onUsage?: (usage: {input: number, output: number}) => void
 ): AsyncGenerator<string, void, unknown> {
-    const ai = getClient(settings);
+    const ai = getClient(settings, PROMPT_KEYS.GENERATE_CHAPTER);
     const template = getPromptTemplate(PROMPT_KEYS.GENERATE_CHAPTER, settings);
     
-    // Construct char context
-    const charContext = characters.map(c => `${c.name} (${c.role}): ${c.description}`).join('\n');
+    // Construct char context, with each character's tracked state as of the start of this chapter
+    const charContext = characters.map(c => {
+        const state = formatCharacterState(getCharacterStateAt(c, chapter.id));
+        return `${c.name} (${c.role}): ${c.description}${state ? `\n  Current state: ${state}` : ''}`;
+    }).join('\n');
+
+    // Recent text, recent summaries and retrieved older passages, within the token budget
+    const context = buildChapterContext(settings, chapter, chapters, characters, facts);
 
     const prompt = fillPrompt(template, {
         chapterId: chapter.id.toString(),
         chapterTitle: chapter.title,
         chapterSummary: chapter.summary,
-        storySummaries: storySummaries || 'Start of story.',
-        previousContext: previousContext || 'None',
+        storySummaries: context.storySummaries || 'Start of story.',
+        factLedger: context.factLedger || 'None',
+        retrievedContext: context.retrievedContext || 'None',
+        previousContext: context.previousContext || 'None',
         writingTone: settings.writingTone,
         writingStyle: settings.writingStyle,
         narrativePerspective: settings.narrativePerspective,
         charContext
     });
 
-    const streamResult = await ai.models.generateContentStream({
+    // Custom templates saved before these placeholders existed would otherwise lose this context silently
+    const missingContext = [
+        { key: 'factLedger', label: 'Established Facts (must not be contradicted)', value: context.factLedger },
+        { key: 'retrievedContext', label: 'Relevant Earlier Passages and Notes', value: context.retrievedContext }
+    ].filter(block => block.value && !template.includes(`{{${block.key}}}`));
+    const fullPrompt = [prompt, ...missingContext.map(block => `${block.label}: ${block.value}`)].join('\n');
+
+    const stream = ai.generateStream({
         model: 'gemini-3-pro-preview', // High quality for writing
-        contents: prompt,
+        prompt: fullPrompt,
+        signal,
+        onUsage
     });
 
-    for await (const chunk of streamResult) {
+    for await (const chunk of stream) {
         if (signal?.aborted) break;
-        yield chunk.text || '';
+        yield chunk;
     }
 }
 
@@ -354,20 +394,22 @@ export async function* extendChapter(
     signal?: AbortSignal,
     onUsage?: (usage: {input: number, output: number}) => void
 ): AsyncGenerator<string, void, unknown> {
-    const ai = getClient(settings);
+    const ai = getClient(settings, PROMPT_KEYS.EXTEND_CHAPTER);
     const prompt = `You are writing chapter: ${chapterTitle}. 
     Current text:\n${currentContent.slice(-2000)}\n\n
     Goal: Continue the scene naturally to reach ${targetWords} words (currently ${currentWords}). 
     Keep the same tone and style.`;
 
-    const streamResult = await ai.models.generateContentStream({
+    const stream = ai.generateStream({
         model: 'gemini-3-pro-preview',
-        contents: prompt,
+        prompt,
+        signal,
+        onUsage
     });
 
-    for await (const chunk of streamResult) {
+    for await (const chunk of stream) {
         if (signal?.aborted) break;
-        yield chunk.text || '';
+        yield chunk;
     }
 }
 
@@ -377,95 +419,301 @@ export async function* continueWriting(
     chapterTitle: string,
     characters: Character[]
 ): AsyncGenerator<string, void, unknown> {
-    const ai = getClient(settings);
+    const ai = getClient(settings, PROMPT_KEYS.CONTINUE_WRITING);
     const prompt = `Continue writing this story (Chapter: ${chapterTitle}). 
     Context: ${currentText.slice(-2000)}.
     Maintain the style: ${settings.writingStyle}, Tone: ${settings.writingTone}.`;
 
-    const streamResult = await ai.models.generateContentStream({
+    const stream = ai.generateStream({
         model: 'gemini-3-flash-preview', // Faster for interactive continue
-        contents: prompt,
+        prompt,
     });
 
-    for await (const chunk of streamResult) {
-        yield chunk.text || '';
+    for await (const chunk of stream) {
+        yield chunk;
     }
 }
 
+const SELECTION_EDIT_INSTRUCTIONS: Record<SelectionEditAction, string> = {
+    rewrite: 'Rewrite it with fresher wording and smoother rhythm while keeping every plot point.',
+    expand: 'Expand it to roughly twice the length with more action, detail and interiority, without adding new plot events.',
+    condense: 'Condense it to roughly half the length, keeping the essential events and lines of dialogue.',
+    tone: 'Rewrite it so the tone becomes: {{tone}}. Keep the events the same.',
+    sensory: 'Enrich it with concrete sensory detail (sight, sound, smell, touch, taste) woven into the existing action.',
+    dialogue: 'Convert the narrated or summarized parts into a dramatized scene carried mainly by dialogue between the characters involved.'
+};
+
+// How much surrounding text is sent so the edit fits in seamlessly
+const SELECTION_CONTEXT_CHARS = 1500;
+
+// Rewrites only the selected span; the caller splices the result back between `before` and `after`
+export const editSelection = async (
+    before: string,
+    selection: string,
+    after: string,
+    action: SelectionEditAction,
+    settings: NovelSettings,
+    chapterTitle: string,
+    characters: Character[],
+    tone = ''
+): Promise<string> => {
+    const ai = getClient(settings, PROMPT_KEYS.EDIT_SELECTION);
+    const template = getPromptTemplate(PROMPT_KEYS.EDIT_SELECTION, settings);
+    const prompt = fillPrompt(template, {
+        chapterTitle,
+        instruction: SELECTION_EDIT_INSTRUCTIONS[action].replace('{{tone}}', tone),
+        writingStyle: settings.writingStyle,
+        writingTone: settings.writingTone,
+        characters: characters.map(c => `${c.name} (${c.role})`).join(', ') || 'None',
+        before: before.slice(-SELECTION_CONTEXT_CHARS) || '(start of chapter)',
+        selection,
+        after: after.slice(0, SELECTION_CONTEXT_CHARS) || '(end of chapter)'
+    });
+
+    const response = await ai.generate({
+        model: 'gemini-3-flash-preview',
+        prompt
+    });
+    // Models sometimes echo the passage markers despite the instructions
+    return (response.text || '').replace(/^\s*<<<\s*\n?|\n?\s*>>>\s*$/g, '').trim();
+};
+
+// Long chapters are processed in overlapping chunks, at most this many requests at a time
+export const DEFAULT_CHUNK_CONCURRENCY = 3;
+const SUMMARY_CHUNK_CHARS = 10000;
+const SUMMARY_CHUNK_OVERLAP = 300;
+const GRAMMAR_CHUNK_CHARS = 5000;
+const GRAMMAR_CHUNK_OVERLAP = 200;
+
+export interface ChunkedRunOptions {
+    concurrency?: number;
+    onProgress?: (done: number, total: number) => void;
+}
+
+// Chapters over one chunk are summarized part by part, then the partial summaries are combined
 export const summarizeChapter = async (
     content: string, 
     settings: NovelSettings,
     onUsage?: (usage: {input: number, output: number}) => void
 ): Promise<string> => {
-    const ai = getClient(settings);
-    const prompt = `Summarize the following chapter content in 2-3 sentences:\n\n${content.slice(0, 10000)}`;
-    const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: prompt,
-    });
-    
-    if (onUsage && response.usageMetadata) {
-        onUsage({
-            input: response.usageMetadata.promptTokenCount || 0,
-            output: response.usageMetadata.candidatesTokenCount || 0
+    const ai = getClient(settings, PROMPT_KEYS.SUMMARIZE_CHAPTER);
+    const chunks = chunkText(content, SUMMARY_CHUNK_CHARS, SUMMARY_CHUNK_OVERLAP);
+    if (chunks.length === 1) {
+        const prompt = `Summarize the following chapter content in 2-3 sentences:\n\n${content}`;
+        const response = await ai.generate({
+            model: 'gemini-3-flash-preview',
+            prompt,
+            onUsage
         });
+        return response.text || '';
     }
+
+    const partials = await mapWithConcurrency(chunks, DEFAULT_CHUNK_CONCURRENCY, async (chunk, i) => {
+        const response = await ai.generate({
+            model: 'gemini-3-flash-preview',
+            prompt: `Summarize part ${i + 1} of ${chunks.length} of a chapter in 2-3 sentences, keeping key events, names and outcomes:\n\n${chunk.text}`,
+            onUsage
+        });
+        return (response.text || '').trim();
+    });
+    const prompt = `Combine these consecutive partial summaries of one chapter into a single summary of 2-3 sentences:\n\n${
+        partials.map((p, i) => `${i + 1}. ${p}`).join('\n')}`;
+    const response = await ai.generate({
+        model: 'gemini-3-flash-preview',
+        prompt,
+        onUsage
+    });
     return response.text || '';
 };
 
-export const checkGrammar = async (text: string, settings: NovelSettings): Promise<any[]> => {
-    const ai = getClient(settings);
+// Per-character state changes in a finished chapter, matched to the cast by name
+export const extractCharacterStates = async (
+    content: string,
+    chapterId: number,
+    characters: Character[],
+    settings: NovelSettings,
+    onUsage?: (usage: {input: number, output: number}) => void
+): Promise<{ name: string; snapshot: CharacterStateSnapshot }[]> => {
+    if (characters.length === 0) return [];
+    const ai = getClient(settings, PROMPT_KEYS.EXTRACT_CHARACTER_STATES);
+    const template = getPromptTemplate(PROMPT_KEYS.EXTRACT_CHARACTER_STATES, settings);
+    const previousStates = characters
+        .map(c => ({ name: c.name, state: formatCharacterState(getCharacterStateAt(c, chapterId)) }))
+        .filter(c => c.state)
+        .map(c => `${c.name}: ${c.state}`)
+        .join('\n');
+    const prompt = fillPrompt(template, {
+        chapterId: chapterId.toString(),
+        characters: characters.map(c => c.name).join(', '),
+        previousStates: previousStates || 'None recorded.',
+        text: content.slice(0, 20000)
+    });
+
+    const response = await ai.generate({
+        model: 'gemini-3-flash-preview',
+        prompt,
+        json: true,
+        responseSchema: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    name: { type: Type.STRING },
+                    location: { type: Type.STRING },
+                    condition: { type: Type.STRING },
+                    relationships: { type: Type.STRING },
+                    knownSecrets: { type: Type.STRING },
+                    powerLevel: { type: Type.STRING }
+                },
+                required: ['name']
+            }
+        },
+        onUsage
+    });
+
+    try {
+        const names = new Set(characters.map(c => c.name));
+        return parseJsonArray<Record<string, unknown>>(response.text)
+            .filter(s => isJsonObject(s) && names.has(String(s.name || '').trim()))
+            .map(s => {
+                const snapshot: CharacterStateSnapshot = { chapterId };
+                CHARACTER_STATE_FIELDS.forEach(field => {
+                    const value = String(s[field] || '').trim();
+                    if (value) snapshot[field] = value;
+                });
+                return { name: String(s.name).trim(), snapshot };
+            })
+            .filter(u => CHARACTER_STATE_FIELDS.some(field => u.snapshot[field]));
+    } catch (e) {
+        console.error("Character state parse error", e);
+        return [];
+    }
+};
+
+const FACT_TYPES: FactType[] = ['knowledge', 'injury', 'item_gained', 'item_lost', 'location', 'death', 'promise'];
+
+// Second pass after summarizing: pulls continuity facts out of a finished chapter
+export const extractChapterFacts = async (
+    content: string,
+    chapterId: number,
+    characters: Character[],
+    settings: NovelSettings,
+    onUsage?: (usage: {input: number, output: number}) => void
+): Promise<FactEntry[]> => {
+    const ai = getClient(settings, PROMPT_KEYS.EXTRACT_FACTS);
+    const template = getPromptTemplate(PROMPT_KEYS.EXTRACT_FACTS, settings);
+    const prompt = fillPrompt(template, {
+        chapterId: chapterId.toString(),
+        characters: characters.map(c => c.name).join(', ') || 'Unknown',
+        text: content.slice(0, 20000)
+    });
+
+    const response = await ai.generate({
+        model: 'gemini-3-flash-preview',
+        prompt,
+        json: true,
+        responseSchema: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    type: { type: Type.STRING, enum: FACT_TYPES },
+                    subject: { type: Type.STRING },
+                    description: { type: Type.STRING }
+                }
+            }
+        },
+        onUsage
+    });
+
+    try {
+        return parseJsonArray<{ type: FactType; subject?: string; description: string }>(response.text)
+            .filter(f => isJsonObject(f) && FACT_TYPES.includes(f.type) && f.description)
+            .map(f => ({
+                id: crypto.randomUUID(),
+                type: f.type,
+                subject: String(f.subject || '').trim(),
+                description: String(f.description).trim(),
+                chapterId
+            }));
+    } catch (e) {
+        console.error("Fact extraction parse error", e);
+        return [];
+    }
+};
+
+const checkGrammarChunk = async (text: string, settings: NovelSettings): Promise<GrammarIssue[]> => {
+    const ai = getClient(settings, PROMPT_KEYS.CHECK_GRAMMAR);
     const prompt = `Check the following text for grammar and spelling errors. 
     Return a JSON array of objects with { original, suggestion, explanation }.
-    Text: ${text.slice(0, 5000)}`; // Limit context
+    "original" must be copied exactly from the text.
+    Text: ${text}`;
     
-    const response = await ai.models.generateContent({
+    const response = await ai.generate({
         model: 'gemini-3-flash-preview',
-        contents: prompt,
-        config: { responseMimeType: 'application/json' }
+        prompt,
+        json: true,
+        responseSchema: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    original: { type: Type.STRING },
+                    suggestion: { type: Type.STRING },
+                    explanation: { type: Type.STRING }
+                },
+                required: ['original', 'suggestion']
+            }
+        }
     });
 
     try {
-        return JSON.parse(response.text || "[]");
+        // Issues are applied by locating `original`, so both strings are required
+        return parseJsonArray<GrammarIssue>(response.text)
+            .filter(i => isJsonObject(i) && typeof i.original === 'string' && i.original && typeof i.suggestion === 'string')
+            .map(i => ({ original: i.original, suggestion: i.suggestion, explanation: String(i.explanation ?? '') }));
     } catch {
         return [];
     }
 };
 
-export const autoCorrectGrammar = async (text: string, settings: NovelSettings): Promise<string> => {
-    const ai = getClient(settings);
-    const prompt = `Correct the grammar and spelling of the following text directly. Maintain style.
-    Text: ${text.slice(0, 5000)}`;
-    
-    const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: prompt
+// Checks the whole text in overlapping chunks and merges the issues in text order, without duplicates
+export const checkGrammar = async (text: string, settings: NovelSettings, options: ChunkedRunOptions = {}): Promise<GrammarIssue[]> => {
+    const chunks = chunkText(text, GRAMMAR_CHUNK_CHARS, GRAMMAR_CHUNK_OVERLAP);
+    let done = 0;
+    const found = await mapWithConcurrency(chunks, options.concurrency ?? DEFAULT_CHUNK_CONCURRENCY, async (chunk): Promise<ChunkIssue[]> => {
+        const issues = await checkGrammarChunk(chunk.text, settings);
+        options.onProgress?.(++done, chunks.length);
+        return issues.map(issue => {
+            const index = chunk.text.indexOf(issue.original);
+            return { issue, position: index >= 0 ? chunk.start + index : -1 };
+        });
     });
-    return response.text || text;
+    return mergeChunkIssues(found.flat());
 };
 
 export const analyzePacing = async (text: string, settings: NovelSettings): Promise<string> => {
-    const ai = getClient(settings);
+    const ai = getClient(settings, PROMPT_KEYS.ANALYZE_PACING);
     const prompt = `Analyze the pacing and tension of this text.
     Text: ${text.slice(0, 5000)}`;
     
-    const response = await ai.models.generateContent({
+    const response = await ai.generate({
         model: 'gemini-3-flash-preview',
-        contents: prompt
+        prompt,
     });
     return response.text || '';
 };
 
 export const analyzeImportedNovel = async (text: string, settings: NovelSettings): Promise<any> => {
-    const ai = getClient(settings);
+    const ai = getClient(settings, PROMPT_KEYS.ANALYZE_IMPORTED);
     const prompt = `Analyze the beginning of this novel and extract metadata.
     Text: ${text.slice(0, 5000)}
     Output JSON with: title, premise, mainCategory, worldSetting, characters (array of {name, role}).`;
     
-    const response = await ai.models.generateContent({
+    const response = await ai.generate({
         model: 'gemini-3-flash-preview',
-        contents: prompt,
-        config: { responseMimeType: 'application/json' }
+        prompt,
+        json: true
     });
 
     try {
@@ -476,126 +724,145 @@ export const analyzeImportedNovel = async (text: string, settings: NovelSettings
 };
 
 export const generateSingleCharacter = async (settings: NovelSettings, existingChars: Character[]): Promise<Character> => {
-    const ai = getClient(settings);
+    const ai = getClient(settings, PROMPT_KEYS.GENERATE_SINGLE_CHARACTER);
     const existingNames = existingChars.map(c => c.name).join(', ');
     const prompt = `Create a new unique character for a ${settings.mainCategory} story.
     Existing characters: ${existingNames}.
     Premise: ${settings.premise}.
-    Output JSON: name, role, description, relationships, backgroundStory, skills, personalityTags (openness, etc 0-100).`;
+    Output JSON: name, role, description, relationships (array of {target: an existing character's name, type, description}), backgroundStory, skills, personalityTags (openness, etc 0-100).`;
 
-    const response = await ai.models.generateContent({
+    const response = await ai.generate({
         model: 'gemini-3-flash-preview',
-        contents: prompt,
-        config: { responseMimeType: 'application/json' }
+        prompt,
+        json: true
     });
 
     try {
         const json = JSON.parse(response.text || "{}");
-        return sanitizeCharacter(json);
+        return sanitizeCharacters([json], existingChars)[0];
     } catch {
         return sanitizeCharacter({});
     }
 };
 
 export const generateCharacterImage = async (character: Character, settings: NovelSettings): Promise<string> => {
-    const ai = getClient(settings);
+    const ai = getClient(settings, PROMPT_KEYS.GENERATE_CHARACTER_IMAGE);
     const prompt = `A portrait of ${character.name}, ${character.role}. 
     Description: ${character.description}. 
     Style: Digital Art, detailed.`;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: prompt,
-        config: {
-            imageConfig: { aspectRatio: '1:1' }
-        }
-    });
+    return ai.generateImage(prompt, 'gemini-2.5-flash-image');
+};
 
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
-            return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-        }
-    }
-    throw new Error("No image generated");
+export const generateCoverImage = async (settings: NovelSettings): Promise<string> => {
+    const ai = getClient(settings, PROMPT_KEYS.GENERATE_COVER_IMAGE);
+    const prompt = `A book cover illustration for a ${settings.mainCategory} novel titled "${settings.title}".
+    Story: ${settings.premise}.
+    Style: Digital Art, cinematic, portrait composition, no text or lettering.`;
+
+    return ai.generateImage(prompt, 'gemini-2.5-flash-image');
 };
 
 export const analyzeCharacterDepth = async (character: Character, settings: NovelSettings): Promise<string> => {
-    const ai = getClient(settings);
+    const ai = getClient(settings, PROMPT_KEYS.ANALYZE_CHARACTER_DEPTH);
     const prompt = `Analyze the depth, psychology, and potential arc for: ${character.name}.
     Description: ${character.description}.
     Role: ${character.role}.`;
     
-    const response = await ai.models.generateContent({
+    const response = await ai.generate({
         model: 'gemini-3-flash-preview',
-        contents: prompt
+        prompt,
     });
     return response.text || '';
 };
 
 export const generateWorldFoundation = async (settings: NovelSettings, category: string): Promise<string> => {
-    const ai = getClient(settings);
+    const ai = getClient(settings, PROMPT_KEYS.GENERATE_WORLD_FOUNDATION);
     const prompt = `Create detailed ${category} setting for a ${settings.mainCategory} world.
     Premise: ${settings.premise}.`;
     
-    const response = await ai.models.generateContent({
+    const response = await ai.generate({
         model: 'gemini-3-flash-preview',
-        contents: prompt
+        prompt,
     });
     return response.text || '';
 };
 
 export const generateWorldLocations = async (settings: NovelSettings): Promise<WorldLocation[]> => {
-    const ai = getClient(settings);
+    const ai = getClient(settings, PROMPT_KEYS.GENERATE_WORLD_LOCATIONS);
     const prompt = `Generate key locations for this world: ${settings.premise}.
     Output JSON array: name, description, type (city/region/landmark), x (0-400), y (0-300).`;
     
-    const response = await ai.models.generateContent({
+    const response = await ai.generate({
         model: 'gemini-3-flash-preview',
-        contents: prompt,
-        config: { responseMimeType: 'application/json' }
+        prompt,
+        json: true,
+        responseSchema: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    name: { type: Type.STRING },
+                    description: { type: Type.STRING },
+                    type: { type: Type.STRING },
+                    x: { type: Type.NUMBER },
+                    y: { type: Type.NUMBER }
+                }
+            }
+        }
     });
 
     try {
-        return JSON.parse(response.text || "[]");
+        return parseJsonArray<WorldLocation>(response.text);
     } catch {
         return [];
     }
 };
 
 export const generateWorldTimeline = async (settings: NovelSettings): Promise<WorldEvent[]> => {
-    const ai = getClient(settings);
+    const ai = getClient(settings, PROMPT_KEYS.GENERATE_WORLD_TIMELINE);
     const prompt = `Generate a historical timeline for this world.
     Output JSON array: year, description.`;
     
-    const response = await ai.models.generateContent({
+    const response = await ai.generate({
         model: 'gemini-3-flash-preview',
-        contents: prompt,
-        config: { responseMimeType: 'application/json' }
+        prompt,
+        json: true,
+        responseSchema: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    year: { type: Type.STRING },
+                    description: { type: Type.STRING }
+                }
+            }
+        }
     });
     try {
-        return JSON.parse(response.text || "[]");
+        return parseJsonArray<WorldEvent>(response.text);
     } catch {
         return [];
     }
 };
 
 export const analyzeWorldConsistency = async (world: WorldData, settings: NovelSettings): Promise<string> => {
-    const ai = getClient(settings);
+    const ai = getClient(settings, PROMPT_KEYS.ANALYZE_WORLD_CONSISTENCY);
     const prompt = `Analyze the consistency of this world setting:
     Geography: ${world.geography}
     Society: ${world.society}
     Magic/Tech: ${world.technology}
     Point out contradictions or gaps.`;
     
-    const response = await ai.models.generateContent({
+    const response = await ai.generate({
         model: 'gemini-3-flash-preview',
-        contents: prompt
+        prompt,
     });
     return response.text || '';
 };
 
 export const checkPlotLogic = async (plotData: PlotData, settings: NovelSettings): Promise<string> => {
-    const ai = getClient(settings);
+    const ai = getClient(settings, PROMPT_KEYS.CHECK_PLOT_LOGIC);
     const template = getPromptTemplate(PROMPT_KEYS.CHECK_PLOT_LOGIC, settings);
     
     const enrichedNodes = plotData.nodes.map(n => {
@@ -625,9 +892,9 @@ export const checkPlotLogic = async (plotData: PlotData, settings: NovelSettings
         plan: plan
     });
     
-    const response = await ai.models.generateContent({
+    const response = await ai.generate({
         model: 'gemini-3-pro-preview', // Reasoning needed
-        contents: prompt
+        prompt,
     });
     return response.text || '';
 };
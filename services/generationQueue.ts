@@ -0,0 +1,125 @@
+import { GenerationJob } from "../types";
+
+// Chapter generation jobs, persisted in IndexedDB so an interrupted run can pick up after a reload.
+// Jobs are kept apart from the novel storage backend: they describe this browser's work, not the novel.
+
+export const MAX_JOB_ATTEMPTS = 5;
+
+// Rate limits need a much longer cool-down than transient network/server errors
+const BACKOFF = {
+    rateLimit: { base: 30_000, max: 10 * 60_000 },
+    other: { base: 5_000, max: 2 * 60_000 }
+};
+
+export const isRateLimitError = (message: string) => message.includes('429') || message.includes('quota');
+
+export const isSafetyError = (message: string) => message.includes('Content Safety') || message.includes('inappropriate content');
+
+// attempts = number of attempts already made (>= 1). Adds up to 20% jitter so parallel tabs don't sync up.
+export const getBackoffDelay = (attempts: number, message: string): number => {
+    const { base, max } = isRateLimitError(message) ? BACKOFF.rateLimit : BACKOFF.other;
+    const delay = Math.min(max, base * Math.pow(2, Math.max(0, attempts - 1)));
+    return Math.round(delay * (1 + Math.random() * 0.2));
+};
+
+export class GenerationQueue {
+  private static instance: GenerationQueue;
+  private dbName = "DreamWeaverQueue";
+  private dbVersion = 1;
+  private db: IDBDatabase | null = null;
+  private initPromise: Promise<void> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): GenerationQueue {
+      if (!GenerationQueue.instance) {
+          GenerationQueue.instance = new GenerationQueue();
+      }
+      return GenerationQueue.instance;
+  }
+
+  async init(): Promise<void> {
+    if (this.db) return;
+    if (this.initPromise) return this.initPromise;
+
+    this.initPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, this.dbVersion);
+
+      request.onerror = () => {
+          this.initPromise = null;
+          reject("Queue database failed to open");
+      };
+
+      request.onsuccess = (event: any) => {
+        this.db = event.target.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event: any) => {
+        const db = event.target.result;
+        if (!db.objectStoreNames.contains("jobs")) {
+          const store = db.createObjectStore("jobs", { keyPath: "id" });
+          store.createIndex("by_novel", "novelId");
+        }
+      };
+    });
+
+    return this.initPromise;
+  }
+
+  private async write(mutate: (store: IDBObjectStore) => void): Promise<void> {
+      if (!this.db) await this.init();
+      const tx = this.db!.transaction("jobs", "readwrite");
+      mutate(tx.objectStore("jobs"));
+      return new Promise((resolve, reject) => {
+          tx.oncomplete = () => resolve();
+          tx.onerror = () => reject(tx.error);
+      });
+  }
+
+  // Jobs for one novel, in chapter order
+  async list(novelId: string): Promise<GenerationJob[]> {
+      if (!this.db) await this.init();
+      return new Promise((resolve, reject) => {
+          const request = this.db!.transaction("jobs", "readonly").objectStore("jobs").index("by_novel").getAll(novelId);
+          request.onsuccess = () => resolve((request.result as GenerationJob[]).sort((a, b) => a.chapterId - b.chapterId));
+          request.onerror = () => reject(request.error);
+      });
+  }
+
+  // Adds a pending job per chapter; chapters that already have a job are left as they are
+  async enqueue(novelId: string, chapterIds: number[]): Promise<GenerationJob[]> {
+      const existing = new Set((await this.list(novelId)).map(j => j.chapterId));
+      const now = Date.now();
+      const jobs: GenerationJob[] = chapterIds.filter(id => !existing.has(id)).map(chapterId => ({
+          id: crypto.randomUUID(),
+          novelId,
+          chapterId,
+          status: 'pending',
+          attempts: 0,
+          nextAttemptAt: now,
+          createdAt: now,
+          updatedAt: now
+      }));
+      await this.write(store => jobs.forEach(job => store.put(job)));
+      return jobs;
+  }
+
+  async update(job: GenerationJob): Promise<void> {
+      await this.write(store => store.put({ ...job, updatedAt: Date.now() }));
+  }
+
+  async updateMany(jobs: GenerationJob[]): Promise<void> {
+      const now = Date.now();
+      await this.write(store => jobs.forEach(job => store.put({ ...job, updatedAt: now })));
+  }
+
+  async remove(id: string): Promise<void> {
+      await this.write(store => store.delete(id));
+  }
+
+  async clear(novelId: string): Promise<void> {
+      const jobs = await this.list(novelId);
+      await this.write(store => jobs.forEach(job => store.delete(job.id)));
+  }
+}
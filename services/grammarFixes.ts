@@ -0,0 +1,83 @@
+import { GrammarIssue } from '../types';
+
+// Applies grammar-check suggestions as targeted patches: each issue's `original` is located in the chapter and
+// only that span is replaced, so nothing outside the reported problems changes.
+
+export interface IssueSpan {
+    start: number;
+    end: number;
+}
+
+export interface LocatedIssue {
+    issue: GrammarIssue;
+    span: IssueSpan | null; // null when `original` no longer occurs in the text
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Exact match first. Models often normalise whitespace and line breaks when quoting, so fall back to a pattern
+// where any whitespace run in the quote matches any whitespace (or none) in the text.
+const findSpan = (text: string, original: string, from: number): IssueSpan | null => {
+    const index = text.indexOf(original, from);
+    if (index >= 0) return { start: index, end: index + original.length };
+
+    const words = original.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return null;
+    const pattern = new RegExp(words.map(escapeRegExp).join('\\s*'), 'g');
+    pattern.lastIndex = from;
+    const match = pattern.exec(text);
+    return match ? { start: match.index, end: match.index + match[0].length } : null;
+};
+
+// Issues quoting the same passage take successive occurrences; spans never overlap
+export const locateIssues = (text: string, issues: GrammarIssue[]): LocatedIssue[] => {
+    const taken: IssueSpan[] = [];
+    return issues.map(issue => {
+        if (!issue.original) return { issue, span: null };
+        let from = 0;
+        let span = findSpan(text, issue.original, from);
+        while (span && taken.some(t => span!.start < t.end && t.start < span!.end)) {
+            from = span.start + 1;
+            span = findSpan(text, issue.original, from);
+        }
+        if (span) taken.push(span);
+        return { issue, span };
+    });
+};
+
+// Replaces the located spans, back to front so earlier offsets stay valid
+export const applyIssueFixes = (text: string, located: LocatedIssue[]): string =>
+    located
+        .filter(l => l.span)
+        .sort((a, b) => b.span!.start - a.span!.start)
+        .reduce((result, { issue, span }) => result.slice(0, span!.start) + issue.suggestion + result.slice(span!.end), text);
+
+// An issue reported for one chunk of a chapter; `position` is its offset in the full text, or -1 if the model's
+// quote doesn't occur verbatim in the chunk
+export interface ChunkIssue {
+    issue: GrammarIssue;
+    position: number;
+}
+
+// Merges per-chunk results in text order. Chunks overlap, so an issue at a position already covered by a kept
+// issue is a duplicate; unplaced issues are de-duplicated by their text.
+export const mergeChunkIssues = (found: ChunkIssue[]): GrammarIssue[] => {
+    const kept: IssueSpan[] = [];
+    const seen = new Set<string>();
+    return found
+        .slice()
+        .sort((a, b) => (a.position < 0 ? Number.MAX_SAFE_INTEGER : a.position) - (b.position < 0 ? Number.MAX_SAFE_INTEGER : b.position))
+        .filter(({ issue, position }) => {
+            if (position >= 0) {
+                const span = { start: position, end: position + issue.original.length };
+                if (kept.some(k => span.start < k.end && k.start < span.end)) return false;
+                kept.push(span);
+                return true;
+            }
+            const key = `${issue.original}\u0000${issue.suggestion}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .map(({ issue }) => issue);
+};
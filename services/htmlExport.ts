@@ -0,0 +1,151 @@
+import { PageLayout } from "../types";
+import { chapterHeading, escapeXml, ExportDocument, groupVolumes, languageTag, MatterSection, PAGE_SIZES, splitParagraphs } from "./exportUtils";
+
+// Standalone HTML rendering for download and printing. Templates use {{key}} for values, which are always
+// escaped, and {{{key}}} for fragments that were already rendered from escaped templates.
+
+export interface HtmlExportOptions extends ExportDocument {
+    layout: PageLayout;
+}
+
+const DOCUMENT_TEMPLATE = `<!DOCTYPE html>
+<html lang="{{lang}}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>{{title}}</title>
+<style>
+{{{styles}}}
+</style>
+</head>
+<body>
+<header class="title-page">
+<h1>{{title}}</h1>
+{{{byline}}}
+</header>
+{{{body}}}
+</body>
+</html>
+`;
+
+const BYLINE_TEMPLATE = `<p class="author">{{author}}</p>`;
+
+const VOLUME_TEMPLATE = `<section class="volume">
+<h1>{{title}}</h1>
+</section>`;
+
+const CHAPTER_TEMPLATE = `<section class="chapter" id="chapter-{{id}}">
+<h2>{{heading}}</h2>
+{{{paragraphs}}}
+</section>`;
+
+const MATTER_TEMPLATE = `<section class="matter" id="{{id}}">
+<h1>{{title}}</h1>
+{{{entries}}}
+</section>`;
+
+const ENTRY_HEADING_TEMPLATE = `<h3>{{heading}}</h3>`;
+
+const PARAGRAPH_TEMPLATE = `<p>{{text}}</p>`;
+
+export const renderTemplate = (template: string, values: Record<string, string | number>): string =>
+    template.replace(/\{\{\{(\w+)\}\}\}|\{\{(\w+)\}\}/g, (_, raw, escaped) =>
+        raw ? String(values[raw] ?? '') : escapeXml(String(values[escaped] ?? '')));
+
+const FONT_STACKS = {
+    serif: `"Times New Roman", "Songti SC", "Noto Serif CJK SC", "Source Han Serif SC", "SimSun", serif`,
+    sans: `"Helvetica Neue", Arial, "PingFang SC", "Noto Sans CJK SC", "Microsoft YaHei", sans-serif`
+};
+
+// CSS string literal; <, > and quotes are hex-escaped so the value can't close the string or the <style> element
+const cssString = (text: string) =>
+    `"${text.replace(/[\\"'<>\n\r]/g, c => `\\${c.charCodeAt(0).toString(16)} `)}"`;
+
+const stylesheet = (layout: PageLayout, isEnglish: boolean) => `@page {
+    size: ${PAGE_SIZES[layout.pageSize].css};
+    margin: 2.2cm 2cm;
+    ${layout.headerText ? `@top-center { content: ${cssString(layout.headerText)}; font-size: 9pt; color: #666; }` : ''}
+    ${layout.showPageNumbers ? '@bottom-center { content: counter(page); font-size: 9pt; color: #666; }' : ''}
+}
+@page :first {
+    @top-center { content: none; }
+    @bottom-center { content: none; }
+}
+body {
+    font-family: ${FONT_STACKS[layout.fontFamily]};
+    font-size: ${layout.fontSize}pt;
+    line-height: ${isEnglish ? 1.5 : 1.8};
+    max-width: 42em;
+    margin: 0 auto;
+    padding: 2em 1.5em;
+    color: #222;
+}
+h1, h2 { text-align: center; line-height: 1.4; break-after: avoid; }
+.title-page { text-align: center; padding-top: 25vh; }
+.title-page h1 { font-size: 2.2em; }
+.author { font-size: 1.2em; text-indent: 0; }
+.volume { break-before: page; text-align: center; padding-top: 20vh; }
+.volume h1 { font-size: 1.8em; }
+.chapter, .matter { break-before: page; }
+.matter h1 { font-size: 1.6em; }
+h3 { font-size: 1.1em; margin: 1.5em 0 0.5em; break-after: avoid; }
+.chapter h2 { font-size: 1.5em; margin: 2em 0 1.5em; }
+p { margin: 0; text-align: justify; text-indent: ${isEnglish ? '1.5em' : '2em'}; }
+${isEnglish ? 'h2 + p { text-indent: 0; }' : ''}
+@media screen {
+    .volume, .chapter, .matter { border-top: 1px solid #eee; margin-top: 3em; padding-top: 2em; }
+    .title-page, .volume { padding-top: 3em; }
+}
+@media print {
+    body { max-width: none; padding: 0; }
+}`;
+
+const renderParagraphs = (paragraphs: string[]) =>
+    paragraphs.map(text => renderTemplate(PARAGRAPH_TEMPLATE, { text })).join('\n');
+
+const renderMatter = (section: MatterSection) => renderTemplate(MATTER_TEMPLATE, {
+    id: section.id,
+    title: section.title,
+    entries: section.entries.map(e =>
+        (e.heading ? renderTemplate(ENTRY_HEADING_TEMPLATE, { heading: e.heading }) + '\n' : '') + renderParagraphs(e.paragraphs)
+    ).join('\n')
+});
+
+export const renderNovelHtml = ({ settings, chapters, headingTemplate, frontMatter = [], backMatter = [], layout }: HtmlExportOptions): string => {
+    const isEnglish = settings.language === 'en';
+    const author = settings.author;
+    const body = groupVolumes(chapters).map(volume => {
+        const chapterHtml = volume.chapters.map(c => renderTemplate(CHAPTER_TEMPLATE, {
+            id: c.id,
+            heading: chapterHeading(settings, c, headingTemplate),
+            paragraphs: renderParagraphs(splitParagraphs(c.content))
+        })).join('\n');
+        return volume.title !== undefined
+            ? `${renderTemplate(VOLUME_TEMPLATE, { title: volume.title })}\n${chapterHtml}`
+            : chapterHtml;
+    }).join('\n');
+
+    return renderTemplate(DOCUMENT_TEMPLATE, {
+        lang: languageTag(settings),
+        title: settings.title || (isEnglish ? 'Untitled' : '未命名作品'),
+        styles: stylesheet(layout, isEnglish),
+        byline: author ? renderTemplate(BYLINE_TEMPLATE, { author }) : '',
+        body: [...frontMatter.map(renderMatter), body, ...backMatter.map(renderMatter)].join('\n')
+    });
+};
+
+// Prints through a hidden iframe, so no popup window is needed
+export const printHtml = (html: string) => {
+    const frame = document.createElement('iframe');
+    frame.setAttribute('aria-hidden', 'true');
+    frame.style.cssText = 'position:fixed;right:0;bottom:0;width:0;height:0;border:0;';
+    frame.onload = () => {
+        const win = frame.contentWindow;
+        if (!win) return;
+        win.addEventListener('afterprint', () => frame.remove());
+        win.focus();
+        win.print();
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+};
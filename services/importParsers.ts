@@ -0,0 +1,535 @@
+import { Chapter } from "../types";
+import { openZip, ZipArchive } from "./zip";
+import { decodeText, detectEncoding } from "./textEncoding";
+
+// Client-side parsers for the importer. Structured formats are reduced to a flat list of text blocks, where
+// headings carry a level; the outermost of two heading levels becomes volumes and the next one chapters. EPUB
+// uses its table of contents when it has one, DOCX its heading styles, Markdown its # headings. Anything without
+// usable structure falls back to the plain-text chapter patterns.
+
+export interface ParsedImport {
+    title?: string;
+    chapters: Chapter[];
+}
+
+interface ImportBlock {
+    text: string;
+    level?: number; // Heading level, 0 for an explicit document title
+    anchors?: string[]; // EPUB element ids at or just before this block
+}
+
+const PREFACE_TITLE = "前言/序";
+
+const makeChapter = (id: number, title: string, content: string, volumeId = 1, volumeTitle?: string): Chapter => ({
+    id,
+    title,
+    content,
+    summary: "", // To be generated later
+    isGenerating: false,
+    isDone: true,
+    volumeId,
+    volumeTitle
+});
+
+// Plain text: chapter headings are recognised by pattern. Supported formats:
+// 1. 第X章 (Chinese Standard)
+// 2. Chapter X (English Standard)
+// 3. X. (Numeric list)
+// 4. 第X卷 (Volume - treated as a chapter here)
+// 5. 序章/前言 (Prologue)
+export const parseChapters = (text: string): Chapter[] => {
+    const chapterRegex = /(?:^\s*第[0-9一二三四五六七八九十百千]+[章卷].*|^Chapter\s+\d+.*|^\d+\.\s+.*|^[Pp]rologue.*|^序[章言].*)/gm;
+
+    const matches = [...text.matchAll(chapterRegex)];
+    const chapters: Chapter[] = [];
+
+    if (matches.length === 0) {
+        // No chapters found, treat as short story
+        chapters.push({ ...makeChapter(1, "正文", text.trim()), summary: "导入的全文内容。" });
+        return chapters;
+    }
+
+    for (let i = 0; i < matches.length; i++) {
+        const match = matches[i];
+        const start = match.index! + match[0].length;
+        const end = i < matches.length - 1 ? matches[i + 1].index! : text.length;
+        const content = text.substring(start, end).trim();
+
+        // Basic validation to avoid empty chapters if regex matched noise
+        if (!content && i < matches.length - 1) continue;
+
+        chapters.push(makeChapter(chapters.length + 1, match[0].trim(), content));
+    }
+
+    // If content exists before the first chapter (Prologue?), add it
+    const preContent = text.substring(0, matches[0].index!).trim();
+    if (preContent.length > 50) { // Filter out random header noise
+        chapters.unshift({ ...makeChapter(0, PREFACE_TITLE, preContent), summary: "前言内容" });
+        chapters.forEach((c, idx) => c.id = idx + 1);
+    }
+
+    return chapters;
+};
+
+const blocksToText = (blocks: ImportBlock[]) => blocks.map(b => b.text).join('\n\n');
+
+interface HeadingLevels {
+    title?: string;
+    volumeLevel?: number;
+    chapterLevel: number;
+}
+
+// Picks the levels that mark volumes and chapters. A heading level used exactly once before a more frequent
+// deeper level is the book title (e.g. a Title paragraph, or a single "# Title" over "## Chapter" headings).
+const detectHeadingLevels = (blocks: ImportBlock[], detectTitle: boolean): HeadingLevels | null => {
+    const counts = new Map<number, number>();
+    blocks.forEach(b => {
+        if (b.level !== undefined) counts.set(b.level, (counts.get(b.level) || 0) + 1);
+    });
+    const levels = Array.from(counts.keys()).sort((a, b) => a - b);
+    if (levels.length === 0) return null;
+
+    let title: string | undefined;
+    if (detectTitle && levels.length > 1 && counts.get(levels[0]) === 1 && counts.get(levels[1])! > 1) {
+        const titleIndex = blocks.findIndex(b => b.level === levels[0]);
+        if (titleIndex < blocks.findIndex(b => b.level === levels[1])) {
+            title = blocks[titleIndex].text;
+            levels.shift();
+        }
+    }
+    return levels.length > 1
+        ? { title, volumeLevel: levels[0], chapterLevel: levels[1] }
+        : { title, chapterLevel: levels[0] };
+};
+
+interface Section {
+    title: string;
+    volume: number; // 0 before the first volume heading
+    paragraphs: string[];
+    isIntro: boolean; // Preface or text between a volume heading and its first chapter
+}
+
+// Deeper headings become ordinary paragraphs. Chapters before the first volume join the first volume.
+const buildChapters = (blocks: ImportBlock[], { volumeLevel, chapterLevel }: HeadingLevels): Chapter[] => {
+    const volumes: string[] = [];
+    let current: Section = { title: PREFACE_TITLE, volume: 0, paragraphs: [], isIntro: true };
+    const sections: Section[] = [current];
+
+    blocks.forEach(block => {
+        if (block.level !== undefined && block.level === volumeLevel) {
+            volumes.push(block.text);
+            current = { title: block.text, volume: volumes.length, paragraphs: [], isIntro: true };
+            sections.push(current);
+        } else if (block.level === chapterLevel) {
+            current = { title: block.text, volume: volumes.length, paragraphs: [], isIntro: false };
+            sections.push(current);
+        } else if (block.text) {
+            current.paragraphs.push(block.text);
+        }
+    });
+
+    return sections
+        .map(s => ({ ...s, content: s.paragraphs.join('\n\n') }))
+        // Drop empty chapters and short intro noise (cover pages, bylines, volume subtitles)
+        .filter(s => s.isIntro ? s.content.length > 50 : s.content.length > 0)
+        .map((s, i) => {
+            const volumeId = volumes.length > 0 ? Math.max(s.volume, 1) : 1;
+            return makeChapter(i + 1, s.title, s.content, volumeId, volumes[volumeId - 1]);
+        });
+};
+
+// Uses heading levels when present, otherwise the plain-text patterns
+const structureBlocks = (blocks: ImportBlock[], detectTitle = true): ParsedImport => {
+    const levels = detectHeadingLevels(blocks, detectTitle);
+    if (levels) {
+        const chapters = buildChapters(blocks, levels);
+        if (chapters.length > 0) return { title: levels.title, chapters };
+    }
+    return { title: levels?.title, chapters: parseChapters(blocksToText(blocks.filter(b => b.level === undefined))) };
+};
+
+// --- Markdown ---
+
+const stripInlineMarkdown = (text: string) => text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/\*(.+?)\*/g, '$1')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\\([\\`*_{}\[\]()#+\-.!>~|])/g, '$1')
+    .trim();
+
+// "# Volume" / "## Chapter" (or Setext underlines). Paragraphs are separated by blank lines; line breaks inside
+// a paragraph are kept, since novels written in Markdown often put one paragraph per line.
+export const parseMarkdown = (text: string): ParsedImport => {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: ImportBlock[] = [];
+    let frontMatterTitle: string | undefined;
+    let paragraph: string[] = [];
+    let inFence = false;
+
+    const flush = () => {
+        const body = paragraph.map(stripInlineMarkdown).filter(Boolean).join('\n');
+        if (body) blocks.push({ text: body });
+        paragraph = [];
+    };
+
+    let i = 0;
+    // YAML front matter
+    if (lines[0]?.trim() === '---') {
+        const end = lines.indexOf('---', 1);
+        if (end > 0) {
+            const titleLine = lines.slice(1, end).find(l => /^title\s*:/i.test(l));
+            if (titleLine) frontMatterTitle = titleLine.replace(/^title\s*:\s*/i, '').replace(/^["']|["']$/g, '').trim() || undefined;
+            i = end + 1;
+        }
+    }
+
+    for (; i < lines.length; i++) {
+        const line = lines[i];
+        if (/^\s*(```|~~~)/.test(line)) {
+            inFence = !inFence;
+            continue;
+        }
+        if (inFence) {
+            paragraph.push(line);
+            continue;
+        }
+
+        const atx = line.match(/^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+        if (atx) {
+            flush();
+            blocks.push({ text: stripInlineMarkdown(atx[2]), level: atx[1].length });
+            continue;
+        }
+        const setext = line.match(/^\s{0,3}(=+|-+)\s*$/);
+        if (setext && paragraph.length === 1) {
+            blocks.push({ text: stripInlineMarkdown(paragraph[0]), level: setext[1][0] === '=' ? 1 : 2 });
+            paragraph = [];
+            continue;
+        }
+        // Blank lines and thematic breaks end a paragraph
+        if (!line.trim() || /^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+            flush();
+            continue;
+        }
+        paragraph.push(line.replace(/^\s{0,3}>\s?/, '').replace(/^\s{0,3}(?:[-*+]|\d+[.)])\s+/, ''));
+    }
+    flush();
+
+    const parsed = structureBlocks(blocks);
+    return { ...parsed, title: frontMatterTitle || parsed.title };
+};
+
+// --- XML helpers (browser DOMParser) ---
+
+const parseXml = (text: string, path: string): Document => {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) throw new Error(`Malformed XML in ${path}.`);
+    return doc;
+};
+
+// XHTML in the wild often uses HTML entities or stray markup, so fall back to the forgiving HTML parser
+const parseXhtml = (text: string): Document => {
+    const doc = new DOMParser().parseFromString(text, 'application/xhtml+xml');
+    return doc.getElementsByTagName('parsererror').length > 0
+        ? new DOMParser().parseFromString(text, 'text/html')
+        : doc;
+};
+
+const byTag = (node: Document | Element, localName: string): Element[] =>
+    Array.from(node.getElementsByTagNameNS('*', localName));
+
+const childElements = (el: Element, localName: string): Element[] =>
+    Array.from(el.children).filter(c => c.localName === localName);
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// --- DOCX ---
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const wVal = (el: Element | undefined) => el?.getAttributeNS(W_NS, 'val') ?? undefined;
+
+// Heading level per paragraph style: "heading N" names (Word always stores the English built-in names),
+// "Title" as level 0, or an explicit outline level, following basedOn chains
+const styleLevels = (stylesXml: string | null): (styleId: string) => number | undefined => {
+    const styles = new Map<string, { name?: string; basedOn?: string; outline?: number }>();
+    if (stylesXml) {
+        byTag(parseXml(stylesXml, 'word/styles.xml'), 'style')
+            .filter(s => s.getAttributeNS(W_NS, 'type') === 'paragraph')
+            .forEach(s => {
+                const outline = wVal(byTag(s, 'outlineLvl')[0]);
+                styles.set(s.getAttributeNS(W_NS, 'styleId') || '', {
+                    name: wVal(childElements(s, 'name')[0])?.toLowerCase(),
+                    basedOn: wVal(childElements(s, 'basedOn')[0]),
+                    outline: outline !== undefined ? Number(outline) : undefined
+                });
+            });
+    }
+    const resolve = (styleId: string, depth: number): number | undefined => {
+        const style = styles.get(styleId);
+        const name = style?.name ?? styleId.toLowerCase();
+        const heading = name.match(/^heading\s*(\d)$/);
+        if (heading) return Number(heading[1]);
+        if (name === 'title') return 0;
+        // Outline level 9 is body text
+        if (style?.outline !== undefined && style.outline < 9) return style.outline + 1;
+        return style?.basedOn && depth < 10 ? resolve(style.basedOn, depth + 1) : undefined;
+    };
+    return styleId => resolve(styleId, 0);
+};
+
+const docxParagraphText = (p: Element): string => {
+    let text = '';
+    const walk = (node: Element) => {
+        Array.from(node.children).forEach(child => {
+            if (child.namespaceURI !== W_NS) return;
+            switch (child.localName) {
+                case 't': text += child.textContent || ''; break;
+                case 'tab': text += '\t'; break;
+                case 'br': case 'cr': text += '\n'; break;
+                // Deleted revisions, field codes and nested text boxes (handled as their own paragraphs)
+                case 'del': case 'instrText': case 'txbxContent': case 'pPr': case 'rPr': break;
+                default: walk(child);
+            }
+        });
+    };
+    walk(p);
+    return text.trim();
+};
+
+export const parseDocx = async (bytes: Uint8Array): Promise<ParsedImport> => {
+    const zip = openZip(bytes);
+    const documentXml = await zip.readText('word/document.xml');
+    if (!documentXml) throw new Error("Not a Word document: word/document.xml is missing.");
+    const levelOf = styleLevels(await zip.readText('word/styles.xml'));
+
+    const blocks: ImportBlock[] = [];
+    byTag(parseXml(documentXml, 'word/document.xml'), 'p').forEach(p => {
+        const text = docxParagraphText(p);
+        if (!text) return;
+        const pPr = childElements(p, 'pPr')[0];
+        const outline = wVal(pPr && childElements(pPr, 'outlineLvl')[0]);
+        const style = wVal(pPr && childElements(pPr, 'pStyle')[0]);
+        const level = outline !== undefined && Number(outline) < 9
+            ? Number(outline) + 1
+            : style !== undefined ? levelOf(style) : undefined;
+        blocks.push({ text: level !== undefined ? collapseWhitespace(text) : text, level });
+    });
+
+    const core = await zip.readText('docProps/core.xml');
+    const coreTitle = core ? collapseWhitespace(byTag(parseXml(core, 'docProps/core.xml'), 'title')[0]?.textContent || '') : '';
+    const parsed = structureBlocks(blocks);
+    return { ...parsed, title: parsed.title || coreTitle || undefined };
+};
+
+// --- EPUB ---
+
+interface TocEntry {
+    title: string;
+    href?: string; // Absolute path inside the archive, optionally with #fragment
+    children: TocEntry[];
+}
+
+const resolvePath = (base: string, href: string): string => {
+    const [path, fragment] = href.split('#');
+    const parts = base.split('/').slice(0, -1);
+    decodeURIComponent(path).split('/').forEach(part => {
+        if (part === '..') parts.pop();
+        else if (part && part !== '.') parts.push(part);
+    });
+    const resolved = path ? parts.join('/') : base;
+    return fragment ? `${resolved}#${fragment}` : resolved;
+};
+
+const firstHref = (entry: TocEntry): string | undefined =>
+    entry.href ?? entry.children.map(firstHref).find(Boolean);
+
+const parseNav = (doc: Document, base: string): TocEntry[] => {
+    const navs = byTag(doc, 'nav');
+    const toc = navs.find(n => (n.getAttribute('epub:type') || '').split(/\s+/).includes('toc')) ?? navs[0];
+    const list = toc && childElements(toc, 'ol')[0];
+    const entries = (ol: Element): TocEntry[] => childElements(ol, 'li').map(li => {
+        const label = childElements(li, 'a')[0] ?? childElements(li, 'span')[0];
+        const href = label?.getAttribute('href');
+        const nested = childElements(li, 'ol')[0];
+        return {
+            title: collapseWhitespace(label?.textContent || ''),
+            href: href ? resolvePath(base, href) : undefined,
+            children: nested ? entries(nested) : []
+        };
+    });
+    return list ? entries(list) : [];
+};
+
+const parseNcx = (doc: Document, base: string): TocEntry[] => {
+    const entries = (parent: Element): TocEntry[] => childElements(parent, 'navPoint').map(point => {
+        const src = childElements(point, 'content')[0]?.getAttribute('src');
+        return {
+            title: collapseWhitespace(byTag(point, 'text')[0]?.textContent || ''),
+            href: src ? resolvePath(base, src) : undefined,
+            children: entries(point)
+        };
+    });
+    const navMap = byTag(doc, 'navMap')[0];
+    return navMap ? entries(navMap) : [];
+};
+
+const BLOCK_TAGS = new Set([
+    'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure', 'footer',
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table',
+    'td', 'th', 'tr', 'ul'
+]);
+
+// Placeholder for <br>, outside what \s matches so whitespace collapsing keeps it
+const LINE_BREAK = '\uE000';
+
+// Flattens an XHTML body into paragraphs and headings, remembering element ids so TOC fragments can be located
+const extractBlocks = (body: Element): ImportBlock[] => {
+    const blocks: ImportBlock[] = [];
+    let anchors: string[] = [];
+    let inline = '';
+
+    const flush = (level?: number) => {
+        const text = inline.replace(/\s+/g, ' ').split(LINE_BREAK).map(l => l.trim()).filter(Boolean).join('\n');
+        inline = '';
+        if (!text) return;
+        blocks.push({ text, level, anchors });
+        anchors = [];
+    };
+
+    const visit = (node: Node) => {
+        if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+            inline += node.nodeValue || '';
+            return;
+        }
+        if (node.nodeType !== Node.ELEMENT_NODE) return;
+        const el = node as Element;
+        const tag = el.localName.toLowerCase();
+        if (tag === 'script' || tag === 'style' || tag === 'head') return;
+        if (tag === 'br') {
+            inline += LINE_BREAK;
+            return;
+        }
+        const isBlock = BLOCK_TAGS.has(tag);
+        if (isBlock) flush();
+        const id = el.getAttribute('id') || (tag === 'a' ? el.getAttribute('name') : null);
+        if (id) anchors.push(id);
+        el.childNodes.forEach(visit);
+        if (isBlock) flush(/^h[1-6]$/.test(tag) ? Number(tag[1]) : undefined);
+    };
+
+    visit(body);
+    flush();
+    return blocks;
+};
+
+const readOpf = async (zip: ZipArchive) => {
+    const container = await zip.readText('META-INF/container.xml');
+    if (!container) throw new Error("Not an EPUB file: META-INF/container.xml is missing.");
+    const opfPath = byTag(parseXml(container, 'META-INF/container.xml'), 'rootfile')[0]?.getAttribute('full-path');
+    const opfText = opfPath && await zip.readText(opfPath);
+    if (!opfPath || !opfText) throw new Error("Not an EPUB file: the package document is missing.");
+    return { opfPath, opf: parseXml(opfText, opfPath) };
+};
+
+export const parseEpub = async (bytes: Uint8Array): Promise<ParsedImport> => {
+    const zip = openZip(bytes);
+    const { opfPath, opf } = await readOpf(zip);
+
+    const manifest = new Map<string, { path: string; type: string; properties: string }>();
+    byTag(opf, 'item').forEach(item => manifest.set(item.getAttribute('id') || '', {
+        path: resolvePath(opfPath, item.getAttribute('href') || ''),
+        type: item.getAttribute('media-type') || '',
+        properties: item.getAttribute('properties') || ''
+    }));
+    const title = collapseWhitespace(byTag(opf, 'title')[0]?.textContent || '') || undefined;
+
+    // Reading order: linear spine documents, flattened into one block stream
+    const spine = byTag(opf, 'spine')[0];
+    const blocks: ImportBlock[] = [];
+    const documents = new Map<string, { start: number; end: number }>();
+    for (const itemref of spine ? childElements(spine, 'itemref') : []) {
+        if (itemref.getAttribute('linear') === 'no') continue;
+        const item = manifest.get(itemref.getAttribute('idref') || '');
+        // The nav document is often in the spine too; its link list would otherwise become a preface
+        if (!item || !/html/.test(item.type) || item.properties.split(/\s+/).includes('nav') || documents.has(item.path)) continue;
+        const text = await zip.readText(item.path);
+        if (!text) continue;
+        const doc = parseXhtml(text);
+        const start = blocks.length;
+        blocks.push(...extractBlocks(byTag(doc, 'body')[0] ?? doc.documentElement));
+        documents.set(item.path, { start, end: blocks.length });
+    }
+
+    // Table of contents: EPUB 3 nav document, else the EPUB 2 NCX
+    let toc: TocEntry[] = [];
+    const nav = Array.from(manifest.values()).find(i => i.properties.split(/\s+/).includes('nav'));
+    const ncx = manifest.get(spine?.getAttribute('toc') || '') ?? Array.from(manifest.values()).find(i => i.type === 'application/x-dtbncx+xml');
+    if (nav) {
+        const text = await zip.readText(nav.path);
+        if (text) toc = parseNav(parseXhtml(text), nav.path);
+    }
+    if (toc.length === 0 && ncx) {
+        const text = await zip.readText(ncx.path);
+        if (text) toc = parseNcx(parseXml(text, ncx.path), ncx.path);
+    }
+
+    // Top-level entries with children are volumes, everything else a chapter; deeper levels are ignored
+    const markers = toc.flatMap(entry => entry.children.length > 0
+        ? [{ entry, level: 1 }, ...entry.children.map(child => ({ entry: child, level: 2 }))]
+        : [{ entry, level: 2 }]
+    ).flatMap(({ entry, level }) => {
+        const href = firstHref(entry);
+        if (!href || !entry.title) return [];
+        const [path, fragment] = href.split('#');
+        const range = documents.get(path);
+        if (!range) return [];
+        let index = range.start;
+        if (fragment) {
+            const found = blocks.findIndex((b, i) => i >= range.start && i < range.end && b.anchors?.includes(fragment));
+            if (found >= 0) index = found;
+        }
+        return [{ index, title: entry.title, level }];
+    }).sort((a, b) => a.index - b.index);
+
+    if (markers.length < 2) return { ...structureBlocks(blocks), title };
+
+    // TOC entries become the headings; the heading the entry points at is dropped as a duplicate of its title
+    const structured: ImportBlock[] = [];
+    let m = 0;
+    blocks.forEach((block, i) => {
+        let afterMarker: string | undefined;
+        for (; m < markers.length && markers[m].index === i; m++) {
+            structured.push({ text: markers[m].title, level: markers[m].level });
+            afterMarker = markers[m].title;
+        }
+        const isDuplicate = afterMarker !== undefined
+            && (block.level !== undefined || collapseWhitespace(block.text) === afterMarker);
+        if (!isDuplicate) structured.push({ text: block.text });
+    });
+
+    return { ...structureBlocks(structured, false), title };
+};
+
+export const IMPORT_FILE_TYPES = '.txt,.md,.markdown,.epub,.docx';
+
+export const importFileTitle = (fileName: string) => fileName.replace(/\.(txt|md|markdown|epub|docx)$/i, '');
+
+// Plain-text formats are decoded by the caller, which picks the encoding
+export const isPlainTextImport = (fileName: string) => /\.(txt|md|markdown)$/i.test(fileName);
+
+export const parsePlainTextImport = (fileName: string, text: string): ParsedImport =>
+    /\.(md|markdown)$/i.test(fileName) ? parseMarkdown(text) : { chapters: parseChapters(text) };
+
+// Dispatches on the file extension
+export const parseImportFile = async (file: File): Promise<ParsedImport> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.epub')) return parseEpub(bytes);
+    if (name.endsWith('.docx')) return parseDocx(bytes);
+    return parsePlainTextImport(file.name, decodeText(bytes, detectEncoding(bytes)));
+};
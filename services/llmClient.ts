@@ -0,0 +1,643 @@
+import { GenerateContentConfig, GoogleGenAI, Schema, Type } from "@google/genai";
+import { NovelSettings, ModelTask, ModelConfig, ModelProvider } from "../types";
+import { MOCK_FIXTURES } from "./mockFixtures";
+
+// --- LLM Client Interface ---
+export interface LLMUsage {
+  input: number;
+  output: number;
+}
+
+export interface LLMRequest {
+  prompt: string;
+  model: string; // Default Gemini model for this task (used when no model name is configured)
+  json?: boolean; // Ask for a JSON-only response
+  responseSchema?: Schema; // Gemini-style schema, optional
+  temperature?: number;
+  signal?: AbortSignal;
+  onUsage?: (usage: LLMUsage) => void;
+}
+
+export interface LLMResponse {
+  text: string;
+  usage?: LLMUsage;
+}
+
+export interface ILLMClient {
+  generate(request: LLMRequest): Promise<LLMResponse>;
+  generateStream(request: LLMRequest): AsyncGenerator<string, void, unknown>;
+  generateImage(prompt: string, model: string): Promise<string>; // Returns a data URL, or a remote URL from providers that only link to the image
+}
+
+// Strips ```json fences that chat models like to wrap around JSON answers
+const stripCodeFence = (text: string): string => {
+  return text.replace(/^\s*```(?:json)?\s*\n?/i, '').replace(/\n?```\s*$/, '').trim();
+};
+
+// json_object mode forces an object at the root, so it is only requested when the caller's schema declares one.
+// Other JSON requests (array roots, or no schema at all) rely on the system prompt.
+const wantsJsonObject = (request: LLMRequest): boolean => !!request.json && request.responseSchema?.type === Type.OBJECT;
+
+// Error body shared by the chat-completions and DashScope APIs
+interface ProviderErrorPayload {
+  code?: string | number;
+  message?: string;
+}
+
+interface ChatMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+// Instructs chat models that have no schema support to answer in JSON
+const buildMessages = (request: LLMRequest): ChatMessage[] => {
+  const messages: ChatMessage[] = [];
+  if (request.json) {
+    messages.push({ role: 'system', content: 'Respond with valid JSON only. Do not wrap it in Markdown.' });
+  }
+  messages.push({ role: 'user', content: request.prompt });
+  return messages;
+};
+
+// Reads an error body, falling back to the status text when it isn't JSON
+const readErrorPayload = async (response: Response): Promise<ProviderErrorPayload> => {
+  try {
+    const data = await response.json();
+    return data?.error || data;
+  } catch {
+    return { message: response.statusText };
+  }
+};
+
+// Yields the lines of a server-sent event stream. The last line is yielded too when the stream
+// ends without a trailing newline.
+async function* readLines(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<string, void, unknown> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      if (signal?.aborted) return;
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      // Keep the trailing partial line in the buffer until its newline arrives
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      yield* lines;
+    }
+    buffer += decoder.decode();
+    if (buffer) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Builds a provider error whose message keeps the markers the generation loops look for
+// ("429"/"quota" for rate limits, "Content Safety" for moderation blocks).
+const providerError = (provider: string, status: number, code: string, message: string, kind?: 'rate_limit' | 'safety'): Error => {
+  const label = code ? `${status} ${code}` : `${status}`;
+  if (kind === 'safety') return new Error(`Content Safety: ${provider} blocked the request (${label}): ${message}`);
+  if (kind === 'rate_limit') return new Error(`${provider} quota exceeded (${label}): ${message}`);
+  return new Error(`${provider} API error ${label}: ${message}`);
+};
+
+// --- Google Gemini Adapter ---
+class GeminiClient implements ILLMClient {
+  private ai: GoogleGenAI;
+  private modelName?: string;
+
+  constructor(settings: NovelSettings) {
+    const key = settings.apiKey || process.env.API_KEY;
+    if (!key) throw new Error("API Key is missing. Please configure it in Settings.");
+    this.ai = new GoogleGenAI({ apiKey: key });
+    this.modelName = settings.modelName || undefined;
+  }
+
+  private buildConfig(request: LLMRequest): GenerateContentConfig {
+    const config: GenerateContentConfig = {};
+    if (request.temperature !== undefined) config.temperature = request.temperature;
+    if (request.json) config.responseMimeType = 'application/json';
+    if (request.responseSchema) config.responseSchema = request.responseSchema;
+    if (request.signal) config.abortSignal = request.signal;
+    return config;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.ai.models.generateContent({
+      model: this.modelName || request.model,
+      contents: request.prompt,
+      config: this.buildConfig(request)
+    });
+
+    const usage = response.usageMetadata ? {
+      input: response.usageMetadata.promptTokenCount || 0,
+      output: response.usageMetadata.candidatesTokenCount || 0
+    } : undefined;
+    if (usage && request.onUsage) request.onUsage(usage);
+
+    return { text: response.text || '', usage };
+  }
+
+  async *generateStream(request: LLMRequest): AsyncGenerator<string, void, unknown> {
+    const streamResult = await this.ai.models.generateContentStream({
+      model: this.modelName || request.model,
+      contents: request.prompt,
+      config: this.buildConfig(request)
+    });
+
+    let usage: LLMUsage | undefined;
+    for await (const chunk of streamResult) {
+      if (request.signal?.aborted) break;
+      if (chunk.usageMetadata) {
+        usage = {
+          input: chunk.usageMetadata.promptTokenCount || 0,
+          output: chunk.usageMetadata.candidatesTokenCount || 0
+        };
+      }
+      yield chunk.text || '';
+    }
+    if (usage && request.onUsage) request.onUsage(usage);
+  }
+
+  async generateImage(prompt: string, model: string): Promise<string> {
+    const response = await this.ai.models.generateContent({
+      model: this.modelName || model,
+      contents: prompt,
+      config: {
+        imageConfig: { aspectRatio: '1:1' }
+      }
+    });
+
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData) {
+        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+      }
+    }
+    throw new Error("No image generated");
+  }
+}
+
+// --- OpenAI-Compatible Adapter (Chat Completions + SSE) ---
+interface ChatCompletionBody {
+  model: string;
+  messages: ChatMessage[];
+  stream: boolean;
+  temperature?: number;
+  max_tokens?: number;
+  response_format?: { type: 'json_object' };
+  stream_options?: { include_usage: boolean };
+}
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: ChatCompletionUsage;
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: ChatCompletionUsage | null;
+  error?: ProviderErrorPayload;
+}
+
+interface ImageGenerationResponse {
+  data?: { b64_json?: string; url?: string }[];
+}
+
+// Works with any server implementing the /chat/completions API (OpenAI, vLLM, Ollama, LM Studio, ...)
+class OpenAICompatibleClient implements ILLMClient {
+  protected settings: NovelSettings;
+  protected baseUrl: string;
+  protected providerName = 'OpenAI-compatible';
+
+  constructor(settings: NovelSettings, defaultBaseUrl?: string) {
+    const baseUrl = settings.baseUrl || defaultBaseUrl;
+    if (!baseUrl) throw new Error("Base URL is missing. Please configure it in Settings.");
+    if (!settings.modelName) throw new Error("Model name is missing. Please configure it in Settings.");
+    this.settings = settings;
+    // Accept both ".../v1" and the full ".../v1/chat/completions" endpoint
+    this.baseUrl = baseUrl.trim().replace(/\/+$/, '').replace(/\/chat\/completions$/, '');
+  }
+
+  // Maps an error payload to an Error; providers override this to classify their own codes
+  protected toError(status: number, error: ProviderErrorPayload): Error {
+    const code = error?.code ? String(error.code) : '';
+    const message = error?.message || JSON.stringify(error);
+    return providerError(this.providerName, status, code, message, status === 429 ? 'rate_limit' : undefined);
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.settings.apiKey) headers['Authorization'] = `Bearer ${this.settings.apiKey}`;
+    return headers;
+  }
+
+  private buildBody(request: LLMRequest, stream: boolean): ChatCompletionBody {
+    const body: ChatCompletionBody = {
+      model: this.settings.modelName!,
+      messages: buildMessages(request),
+      stream
+    };
+    if (request.temperature !== undefined) body.temperature = request.temperature;
+    if (this.settings.maxOutputTokens) body.max_tokens = this.settings.maxOutputTokens;
+    if (wantsJsonObject(request)) body.response_format = { type: 'json_object' };
+    if (stream) body.stream_options = { include_usage: true };
+    return body;
+  }
+
+  private async post(path: string, body: object, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify(body),
+      signal
+    });
+    if (!response.ok) throw this.toError(response.status, await readErrorPayload(response));
+    return response;
+  }
+
+  private parseUsage(usage?: ChatCompletionUsage | null): LLMUsage | undefined {
+    if (!usage) return undefined;
+    return {
+      input: usage.prompt_tokens || 0,
+      output: usage.completion_tokens || 0
+    };
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.post('/chat/completions', this.buildBody(request, false), request.signal);
+    const data: ChatCompletionResponse = await response.json();
+
+    const usage = this.parseUsage(data.usage);
+    if (usage && request.onUsage) request.onUsage(usage);
+
+    const text = data.choices?.[0]?.message?.content || '';
+    return { text: request.json ? stripCodeFence(text) : text, usage };
+  }
+
+  async *generateStream(request: LLMRequest): AsyncGenerator<string, void, unknown> {
+    const response = await this.post('/chat/completions', this.buildBody(request, true), request.signal);
+    if (!response.body) throw new Error("Streaming is not supported by this endpoint.");
+
+    let usage: LLMUsage | undefined;
+    for await (const line of readLines(response.body, request.signal)) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const payload = trimmed.slice(5).trim();
+      if (payload === '[DONE]') continue;
+
+      let event: ChatCompletionChunk;
+      try {
+        event = JSON.parse(payload);
+      } catch {
+        continue; // Ignore keep-alives and malformed fragments
+      }
+      if (event.error) throw this.toError(0, event.error);
+      if (event.usage) usage = this.parseUsage(event.usage);
+      const delta = event.choices?.[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+    if (usage && request.onUsage) request.onUsage(usage);
+  }
+
+  async generateImage(prompt: string, model: string): Promise<string> {
+    const response = await this.post('/images/generations', {
+      model: this.settings.modelName || model,
+      prompt,
+      n: 1,
+      size: '1024x1024',
+      response_format: 'b64_json'
+    });
+    const data: ImageGenerationResponse = await response.json();
+    const image = data.data?.[0];
+    if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+    if (image?.url) return image.url;
+    throw new Error("No image generated");
+  }
+}
+
+// --- Volcano Engine Ark Adapter (Doubao) ---
+// Ark speaks the chat-completions protocol; "model" is the inference Endpoint ID (ep-xxxx)
+class VolcanoClient extends OpenAICompatibleClient {
+  protected providerName = 'Volcano Ark';
+
+  constructor(settings: NovelSettings) {
+    if (!settings.apiKey) throw new Error("API Key is missing. Please configure it in Settings.");
+    if (!settings.modelName) throw new Error("Endpoint ID is missing. Please configure it in Settings.");
+    super(settings, 'https://ark.cn-beijing.volces.com/api/v3');
+  }
+
+  protected toError(status: number, error: ProviderErrorPayload): Error {
+    const code = error?.code ? String(error.code) : '';
+    const message = error?.message || JSON.stringify(error);
+    if (code.startsWith('SensitiveContentDetected') || code.startsWith('InputTextSensitiveContentDetected') || code.startsWith('OutputTextSensitiveContentDetected')) {
+      return providerError(this.providerName, status, code, message, 'safety');
+    }
+    if (status === 429 || code.startsWith('RateLimitExceeded') || code.startsWith('QuotaExceeded') || code === 'ServerOverloaded') {
+      return providerError(this.providerName, status || 429, code, message, 'rate_limit');
+    }
+    return providerError(this.providerName, status, code, message);
+  }
+}
+
+// --- Alibaba DashScope Adapter (Qwen, native API) ---
+interface DashScopeBody {
+  model: string;
+  input: { messages: ChatMessage[] };
+  parameters: {
+    result_format: 'message';
+    incremental_output?: boolean;
+    temperature?: number;
+    max_tokens?: number;
+    response_format?: { type: 'json_object' };
+  };
+}
+
+interface DashScopeUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+// Errors come back in the same body, with `code` and `message` next to `output`
+interface DashScopeResponse extends ProviderErrorPayload {
+  output?: { choices?: { message?: { content?: string } }[]; text?: string };
+  usage?: DashScopeUsage;
+}
+
+interface DashScopeTaskResponse extends ProviderErrorPayload {
+  output?: ProviderErrorPayload & { task_id?: string; task_status?: string; results?: { url?: string }[] };
+}
+
+class DashScopeClient implements ILLMClient {
+  private settings: NovelSettings;
+  private baseUrl: string;
+
+  constructor(settings: NovelSettings) {
+    if (!settings.apiKey) throw new Error("API Key is missing. Please configure it in Settings.");
+    this.settings = settings;
+    this.baseUrl = (settings.baseUrl || 'https://dashscope.aliyuncs.com/api/v1').trim().replace(/\/+$/, '');
+  }
+
+  private toError(status: number, error: ProviderErrorPayload): Error {
+    const code = error?.code ? String(error.code) : '';
+    const message = error?.message || JSON.stringify(error);
+    if (code === 'DataInspectionFailed' || code === 'data_inspection_failed') {
+      return providerError('DashScope', status, code, message, 'safety');
+    }
+    if (status === 429 || code.startsWith('Throttling') || code === 'Arrearage') {
+      return providerError('DashScope', status || 429, code, message, 'rate_limit');
+    }
+    return providerError('DashScope', status, code, message);
+  }
+
+  private async post(path: string, body: object, extraHeaders: Record<string, string>, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.settings.apiKey}`,
+        ...extraHeaders
+      },
+      body: JSON.stringify(body),
+      signal
+    });
+    if (!response.ok) throw this.toError(response.status, await readErrorPayload(response));
+    return response;
+  }
+
+  private buildBody(request: LLMRequest, stream: boolean): DashScopeBody {
+    const parameters: DashScopeBody['parameters'] = { result_format: 'message' };
+    if (stream) parameters.incremental_output = true;
+    if (request.temperature !== undefined) parameters.temperature = request.temperature;
+    if (this.settings.maxOutputTokens) parameters.max_tokens = this.settings.maxOutputTokens;
+    if (wantsJsonObject(request)) parameters.response_format = { type: 'json_object' };
+
+    return {
+      model: this.settings.modelName || 'qwen-plus',
+      input: { messages: buildMessages(request) },
+      parameters
+    };
+  }
+
+  private parseUsage(usage?: DashScopeUsage): LLMUsage | undefined {
+    if (!usage) return undefined;
+    return {
+      input: usage.input_tokens || 0,
+      output: usage.output_tokens || 0
+    };
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.post('/services/aigc/text-generation/generation', this.buildBody(request, false), {}, request.signal);
+    const data: DashScopeResponse = await response.json();
+    if (data.code) throw this.toError(response.status, data);
+
+    const usage = this.parseUsage(data.usage);
+    if (usage && request.onUsage) request.onUsage(usage);
+
+    const text = data.output?.choices?.[0]?.message?.content ?? data.output?.text ?? '';
+    return { text: request.json ? stripCodeFence(text) : text, usage };
+  }
+
+  async *generateStream(request: LLMRequest): AsyncGenerator<string, void, unknown> {
+    const response = await this.post(
+      '/services/aigc/text-generation/generation',
+      this.buildBody(request, true),
+      { 'X-DashScope-SSE': 'enable' },
+      request.signal
+    );
+    if (!response.body) throw new Error("Streaming is not supported by this endpoint.");
+
+    let eventType = '';
+    let usage: LLMUsage | undefined;
+    for await (const line of readLines(response.body, request.signal)) {
+      const trimmed = line.trim();
+      // DashScope SSE frames carry "id:", "event:", ":HTTP_STATUS/200" and "data:" lines
+      if (trimmed.startsWith('event:')) {
+        eventType = trimmed.slice(6).trim();
+        continue;
+      }
+      if (!trimmed.startsWith('data:')) continue;
+
+      let event: DashScopeResponse;
+      try {
+        event = JSON.parse(trimmed.slice(5).trim());
+      } catch {
+        continue;
+      }
+      if (eventType === 'error' || event.code) throw this.toError(0, event);
+      if (event.usage) usage = this.parseUsage(event.usage);
+      const delta = event.output?.choices?.[0]?.message?.content ?? event.output?.text;
+      if (delta) yield delta;
+    }
+    if (usage && request.onUsage) request.onUsage(usage);
+  }
+
+  // Wanx text-to-image is asynchronous: submit a task, then poll until it settles
+  async generateImage(prompt: string, model: string): Promise<string> {
+    const submit = await this.post(
+      '/services/aigc/text2image/image-synthesis',
+      { model: this.settings.modelName || 'wanx-v1', input: { prompt }, parameters: { size: '1024*1024', n: 1 } },
+      { 'X-DashScope-Async': 'enable' }
+    );
+    const submitted: DashScopeTaskResponse = await submit.json();
+    const taskId = submitted.output?.task_id;
+    if (!taskId) throw new Error("No image generated");
+
+    for (let attempt = 0; attempt < 60; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 2000));
+      const response = await fetch(`${this.baseUrl}/tasks/${taskId}`, {
+        headers: { 'Authorization': `Bearer ${this.settings.apiKey}` }
+      });
+      const data: DashScopeTaskResponse = await response.json();
+      const status = data.output?.task_status;
+      if (status === 'SUCCEEDED') {
+        const url = data.output?.results?.[0]?.url;
+        if (url) return url;
+        throw new Error("No image generated");
+      }
+      if (status === 'FAILED' || status === 'UNKNOWN') {
+        throw this.toError(response.status, data.output || data);
+      }
+    }
+    throw new Error("Image generation timed out");
+  }
+}
+
+// --- Mock Adapter (offline development & tests) ---
+// Serves MOCK_FIXTURES for the prompt template id. The config's model name holds the scenario:
+// comma-separated "behavior[:promptKey]" directives, e.g. "truncate:generate_outline, quota-once".
+//   truncate    - cut the response at 60% (exercises JSON recovery)
+//   quota       - always fail with a 429 quota error
+//   quota-once  - fail the first call per prompt with a 429, then succeed
+//   safety      - fail with a content-safety block
+const mockCallCounts: Record<string, number> = {};
+
+// Forgets the calls made so far, so "quota-once" fails again (for tests)
+export const resetMockCallCounts = () => {
+  Object.keys(mockCallCounts).forEach(key => delete mockCallCounts[key]);
+};
+
+class MockClient implements ILLMClient {
+  private settings: NovelSettings;
+  private promptKey: string;
+  private behaviors: Set<string>;
+
+  constructor(settings: NovelSettings, promptKey?: string) {
+    this.settings = settings;
+    this.promptKey = promptKey || '';
+    this.behaviors = new Set(
+      (settings.modelName || '')
+        .split(',')
+        .map(d => d.trim().split(':').map(p => p.trim()))
+        .filter(([behavior, key]) => behavior && (!key || key === this.promptKey))
+        .map(([behavior]) => behavior)
+    );
+  }
+
+  private respond(request: LLMRequest): string {
+    mockCallCounts[this.promptKey] = (mockCallCounts[this.promptKey] || 0) + 1;
+
+    if (this.behaviors.has('safety')) {
+      throw providerError('Mock', 400, 'SAFETY', 'Simulated safety block.', 'safety');
+    }
+    if (this.behaviors.has('quota') || (this.behaviors.has('quota-once') && mockCallCounts[this.promptKey] === 1)) {
+      throw providerError('Mock', 429, 'RESOURCE_EXHAUSTED', 'Simulated quota error.', 'rate_limit');
+    }
+
+    const fixture = MOCK_FIXTURES[this.promptKey];
+    let text = fixture ? fixture(request.prompt, this.settings) : `Mock response for "${this.promptKey || 'unknown prompt'}".`;
+    if (this.behaviors.has('truncate')) {
+      text = text.slice(0, Math.floor(text.length * 0.6));
+    }
+    return text;
+  }
+
+  private estimateUsage(prompt: string, text: string): LLMUsage {
+    return { input: Math.ceil(prompt.length / 4), output: Math.ceil(text.length / 4) };
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const text = this.respond(request);
+    const usage = this.estimateUsage(request.prompt, text);
+    if (request.onUsage) request.onUsage(usage);
+    return { text, usage };
+  }
+
+  async *generateStream(request: LLMRequest): AsyncGenerator<string, void, unknown> {
+    const text = this.respond(request);
+    const CHUNK_SIZE = 24;
+    for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+      if (request.signal?.aborted) break;
+      await new Promise(resolve => setTimeout(resolve, 20));
+      yield text.slice(i, i + CHUNK_SIZE);
+    }
+    if (request.onUsage) request.onUsage(this.estimateUsage(request.prompt, text));
+  }
+
+  async generateImage(prompt: string, model: string): Promise<string> {
+    return this.respond({ prompt, model });
+  }
+}
+
+// Image models used when the image task is not routed, since the active model is a text model
+const IMAGE_MODEL_DEFAULTS: Partial<Record<ModelProvider, string>> = {
+  gemini: 'gemini-2.5-flash-image',
+  custom: 'dall-e-3',
+  alibaba: 'wanx-v1',
+  volcano: 'doubao-seedream-3-0-t2i-250415'
+};
+
+// --- Factory ---
+export class LLMClientFactory {
+  // Model configs saved in Settings > Models. Novels route tasks by config id only, so API keys stay in the
+  // local config store instead of being saved with every novel.
+  private static modelConfigs = new Map<string, ModelConfig>();
+
+  static registerModelConfigs(configs: ModelConfig[]) {
+    LLMClientFactory.modelConfigs = new Map(configs.map(c => [c.id, c]));
+  }
+
+  static getClient(settings: NovelSettings, task?: ModelTask, promptKey?: string): ILLMClient {
+    const resolved = LLMClientFactory.resolveSettings(settings, task);
+    switch (resolved.provider) {
+      case 'mock':
+        return new MockClient(resolved, promptKey);
+      case 'custom':
+        return new OpenAICompatibleClient(resolved);
+      case 'alibaba':
+        return new DashScopeClient(resolved);
+      case 'volcano':
+        return new VolcanoClient(resolved);
+      default:
+        return new GeminiClient(resolved);
+    }
+  }
+
+  // Applies the model config routed to a task on top of the novel's active model settings. A route whose
+  // config was deleted falls back to the active model.
+  static resolveSettings(settings: NovelSettings, task?: ModelTask): NovelSettings {
+    const routeId = task ? settings.modelRouting?.[task] : undefined;
+    const route = routeId ? LLMClientFactory.modelConfigs.get(routeId) : undefined;
+    if (route) {
+      return {
+        ...settings,
+        provider: route.provider,
+        apiKey: route.apiKey,
+        baseUrl: route.baseUrl,
+        modelName: route.modelName,
+        maxOutputTokens: route.maxOutputTokens
+      };
+    }
+    // The mock provider keeps its scenario string
+    if (task === 'image' && settings.provider !== 'mock') {
+      return { ...settings, modelName: IMAGE_MODEL_DEFAULTS[settings.provider] };
+    }
+    return settings;
+  }
+}
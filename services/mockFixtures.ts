@@ -0,0 +1,178 @@
+import { NovelSettings } from '../types';
+import { PROMPT_KEYS } from './promptTemplates';
+
+// Canned responses for the offline "mock" provider, keyed by prompt template id.
+// Each fixture receives the final prompt so it can echo back ids/counts deterministically.
+export type MockFixture = (prompt: string, settings: NovelSettings) => string;
+
+const pick = (prompt: string, regex: RegExp, fallback: string): string => {
+    const match = prompt.match(regex);
+    return match ? match[1].trim() : fallback;
+};
+
+// The text under review is appended after "Text:" by the grammar/analysis prompts
+const extractText = (prompt: string): string => {
+    const idx = prompt.lastIndexOf('Text:');
+    return idx === -1 ? '' : prompt.slice(idx + 5).trim();
+};
+
+const paragraphs = (settings: NovelSettings, seed: string, count: number): string => {
+    const zh = [
+        `夜色沉沉，${seed}的风从街角吹来，带着潮湿的雨意。他停下脚步，回头望了一眼身后空无一人的长巷。`,
+        `“你来晚了。”她的声音很轻，却像一根细针扎进沉默里。桌上的茶早已凉透，杯沿还留着半枚唇印。`,
+        `他没有解释，只是把那封信推到她面前。信封上的火漆完好无损，可他们都知道，里面的秘密早已不再是秘密。`,
+        `窗外传来更夫的梆子声，三更了。她终于伸手拆开信封，指尖微微发抖，仿佛那薄薄一张纸有千斤之重。`,
+    ];
+    const en = [
+        `Night settled over the city as the wind from ${seed} carried the smell of rain. He stopped and glanced back at the empty alley behind him.`,
+        `"You're late," she said quietly, the words slipping into the silence like a needle. The tea on the table had long gone cold.`,
+        `He offered no excuse, only slid the letter across the table. The wax seal was unbroken, yet they both knew its secret was no longer a secret.`,
+        `Somewhere outside a bell struck midnight. She finally opened the envelope, her fingers trembling as if the thin page weighed a thousand pounds.`,
+    ];
+    const source = settings.language === 'en' ? en : zh;
+    return Array.from({ length: count }, (_, i) => source[i % source.length]).join('\n\n');
+};
+
+export const MOCK_FIXTURES: Record<string, MockFixture> = {
+    [PROMPT_KEYS.GENERATE_TITLES]: () => JSON.stringify([
+        'The Silent Ledger', 'Ashes of the Ninth Gate', 'A City Without Shadows', 'The Last Courier', 'Rain on Jade Street'
+    ]),
+
+    [PROMPT_KEYS.GENERATE_PREMISE]: (prompt) =>
+        `A reluctant courier in ${pick(prompt, /Title: "([^"]*)"/, 'a nameless city')} discovers that the letters he delivers are rewriting the memories of their readers, and must decide whether to expose the sender or protect the one person who still remembers him.`,
+
+    [PROMPT_KEYS.EXPAND_TEXT]: (prompt) =>
+        `${pick(prompt, /Text: "([\s\S]*?)"\n/, '')}\n\n(Mock expansion) The setting gains texture: crowded markets, old rivalries between guilds, and a rumor that no one dares repeat aloud.`,
+
+    [PROMPT_KEYS.GENERATE_WORLD_SETTING]: () =>
+        'A river-delta empire where memory can be bottled and traded. The Courier Guild controls every sealed letter; the Archivists keep the only unaltered records in the Ninth Gate library.',
+
+    [PROMPT_KEYS.GENERATE_WORLD_FOUNDATION]: (prompt) =>
+        `Mock ${pick(prompt, /Create detailed (\w+) setting/, 'world')} notes: three provinces bound by canals, a council of guild masters, and an uneasy truce that has held for forty years.`,
+
+    [PROMPT_KEYS.GENERATE_WORLD_LOCATIONS]: () => JSON.stringify([
+        { name: 'Jade Street', description: 'Market street where couriers gather.', type: 'landmark', x: 120, y: 90 },
+        { name: 'Ninth Gate', description: 'Archive city at the edge of the delta.', type: 'city', x: 300, y: 160 },
+        { name: 'Reed Marshes', description: 'Smugglers\' routes hidden among the reeds.', type: 'region', x: 60, y: 240 }
+    ]),
+
+    [PROMPT_KEYS.GENERATE_WORLD_TIMELINE]: () => JSON.stringify([
+        { year: 'Year 1', description: 'The Courier Guild is founded.' },
+        { year: 'Year 212', description: 'The first memory letter is sealed.' },
+        { year: 'Year 250', description: 'The Ninth Gate truce is signed.' }
+    ]),
+
+    [PROMPT_KEYS.GENERATE_CHARACTERS]: () => JSON.stringify([
+        { name: 'Lin Che', role: 'Protagonist', description: 'A tired courier with a perfect memory.', relationships: [{ target: 'Madam Qiao', type: 'Apprentice', description: 'Former apprentice of Madam Qiao' }], backgroundStory: 'Orphaned in the flood of Year 240.', skills: 'Lockpicking, recall' },
+        { name: 'Madam Qiao', role: 'Mentor', description: 'Retired guild master who trades in secrets.', relationships: [{ target: 'Lin Che', type: 'Mentor', description: 'Taught him the courier trade' }], backgroundStory: 'Signed the Ninth Gate truce.', skills: 'Negotiation' },
+        { name: 'Su Wan', role: 'Antagonist', description: 'An archivist who believes the past should be edited.', relationships: [{ target: 'Lin Che', type: 'Rival', description: 'Wants the letters he carries' }], backgroundStory: 'Lost her family to a forged letter.', skills: 'Forgery, persuasion' }
+    ]),
+
+    [PROMPT_KEYS.GENERATE_SINGLE_CHARACTER]: () => JSON.stringify({
+        name: 'Old Bai', role: 'Supporting', description: 'Ferryman who never forgets a face.', relationships: [{ target: 'Lin Che', type: 'Debtor', description: 'Owes Lin Che a favor' }],
+        backgroundStory: 'Ran the canal ferry for fifty years.', skills: 'Navigation',
+        personalityTags: { openness: 40, conscientiousness: 80, extraversion: 30, agreeableness: 70, neuroticism: 20 }
+    }),
+
+    [PROMPT_KEYS.GENERATE_OUTLINE]: (prompt) => {
+        const count = Math.min(200, Math.max(1, parseInt(pick(prompt, /Target Chapters:\s*(\d+)/, '10'), 10) || 10));
+        const perVolume = count > 40 ? 20 : count;
+        return JSON.stringify(Array.from({ length: count }, (_, i) => {
+            const volumeId = Math.floor(i / perVolume) + 1;
+            return {
+                id: i + 1,
+                title: `Mock Chapter ${i + 1}`,
+                summary: `Lin Che follows the trail of the ${i + 1}th sealed letter.`,
+                volumeId,
+                volumeTitle: `Volume ${volumeId}`
+            };
+        }));
+    },
+
+    [PROMPT_KEYS.GENERATE_CHAPTER]: (prompt, settings) =>
+        paragraphs(settings, `Chapter ${pick(prompt, /Chapter (\d+)/, '1')}`, 12),
+
+    [PROMPT_KEYS.EXTEND_CHAPTER]: (_prompt, settings) => paragraphs(settings, 'the harbor', 8),
+
+    [PROMPT_KEYS.CONTINUE_WRITING]: (_prompt, settings) => paragraphs(settings, 'the canal', 3),
+
+    // Echoes the passage with one sentence appended, so accepting or rejecting the edit is easy to see
+    [PROMPT_KEYS.EDIT_SELECTION]: (prompt, settings) => {
+        const passage = pick(prompt, /<<<\n([\s\S]*?)\n>>>/, '');
+        return settings.language === 'en'
+            ? `${passage} The air itself seemed to hold its breath.`
+            : `${passage}空气仿佛也屏住了呼吸。`;
+    },
+
+    [PROMPT_KEYS.SUMMARIZE_CHAPTER]: (_prompt, settings) => settings.language === 'en'
+        ? 'Lin Che delivers a sealed letter and realizes the recipient already knows its contents.'
+        : '林澈送出一封封缄的信，却发现收信人早已知道信中的内容。',
+
+    [PROMPT_KEYS.EXTRACT_FACTS]: (prompt, settings) => {
+        const chapter = pick(prompt, /Chapter (\d+)/, '1');
+        return JSON.stringify(settings.language === 'en' ? [
+            { type: 'item_gained', subject: 'Lin Che', description: `Receives the sealed letter numbered ${chapter}.` },
+            { type: 'knowledge', subject: 'Lin Che', description: 'Knows the recipient had already read the letter.' }
+        ] : [
+            { type: 'item_gained', subject: '林澈', description: `得到第 ${chapter} 封封缄的信。` },
+            { type: 'knowledge', subject: '林澈', description: '得知收信人早已知道信中的内容。' }
+        ]);
+    },
+
+    [PROMPT_KEYS.EXTRACT_CHARACTER_STATES]: (prompt, settings) => {
+        const chapter = pick(prompt, /Chapter (\d+)/, '1');
+        const name = pick(prompt, /Known Characters: ([^,\n]+)/, settings.language === 'en' ? 'Lin Che' : '林澈');
+        return JSON.stringify([settings.language === 'en'
+            ? { name, location: `The harbor district (chapter ${chapter})`, condition: 'A shallow cut on the left hand.' }
+            : { name, location: `港区（第 ${chapter} 章）`, condition: '左手有一道浅浅的划伤。' }]);
+    },
+
+    [PROMPT_KEYS.CHECK_GRAMMAR]: (prompt) => {
+        const text = extractText(prompt);
+        const sentence = (text.match(/[^。！？.!?\n]+[。！？.!?]?/) || [''])[0].trim();
+        if (!sentence) return '[]';
+        return JSON.stringify([{
+            original: sentence,
+            suggestion: sentence.replace(/\s+/g, ' '),
+            explanation: 'Mock issue: sentence flagged for review.'
+        }]);
+    },
+
+    [PROMPT_KEYS.ANALYZE_PACING]: () =>
+        '### Pacing\n- Opening is slow but atmospheric.\n- Tension peaks when the letter is opened.\n\n### Suggestions\n- Cut one paragraph of description before the dialogue.',
+
+    [PROMPT_KEYS.ANALYZE_WORLD_CONSISTENCY]: () =>
+        '- The truce date conflicts with the founding of the Archive.\n- Memory trade needs a clear cost.',
+
+    [PROMPT_KEYS.ANALYZE_CHARACTER_DEPTH]: () =>
+        'Mock analysis: the character wants safety but needs connection; the arc should force a public choice.',
+
+    [PROMPT_KEYS.ANALYZE_IMPORTED]: () => JSON.stringify({
+        title: 'Imported Mock Novel',
+        premise: 'A courier discovers that the letters he delivers rewrite memories.',
+        mainCategory: '悬疑',
+        worldSetting: 'A river-delta empire where memory can be traded.',
+        characters: [{ name: 'Lin Che', role: 'Protagonist' }, { name: 'Su Wan', role: 'Antagonist' }]
+    }),
+
+    [PROMPT_KEYS.CHECK_PLOT_LOGIC]: () =>
+        '### 1. Analysis Summary\nMock plot is coherent.\n\n### 2. Identified Issues\n- **[Pacing]**: Act 2 lacks a midpoint reversal.\n\n### 3. Suggestions for Improvement\n- **[Suggestion]**: Reveal the sender at the midpoint.\n\n### 4. Rating\n- **Cohesiveness**: 7/10\n- **Excitement**: 6/10',
+
+    [PROMPT_KEYS.GENERATE_CHARACTER_IMAGE]: () =>
+        'data:image/svg+xml;base64,' + btoa('<svg xmlns="http://www.w3.org/2000/svg" width="256" height="256"><rect width="256" height="256" fill="#e0e7ff"/><circle cx="128" cy="100" r="48" fill="#6366f1"/><rect x="64" y="160" width="128" height="72" rx="36" fill="#6366f1"/></svg>'),
+
+    [PROMPT_KEYS.GENERATE_COVER_IMAGE]: () =>
+        'data:image/svg+xml;base64,' + btoa('<svg xmlns="http://www.w3.org/2000/svg" width="600" height="800"><rect width="600" height="800" fill="#1e1b4b"/><circle cx="300" cy="320" r="140" fill="#6366f1"/><rect x="120" y="560" width="360" height="24" rx="12" fill="#e0e7ff"/><rect x="180" y="610" width="240" height="16" rx="8" fill="#a5b4fc"/></svg>'),
+};
+
+const DEFAULT_MOCK_FIXTURES = { ...MOCK_FIXTURES };
+
+// Lets dev tooling or tests swap in their own fixtures; resetMockFixtures puts the defaults back
+export const registerMockFixtures = (fixtures: Record<string, MockFixture>) => {
+    Object.assign(MOCK_FIXTURES, fixtures);
+};
+
+export const resetMockFixtures = () => {
+    Object.keys(MOCK_FIXTURES).forEach(key => delete MOCK_FIXTURES[key]);
+    Object.assign(MOCK_FIXTURES, DEFAULT_MOCK_FIXTURES);
+};
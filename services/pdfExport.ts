@@ -0,0 +1,283 @@
+import { PageLayout } from "../types";
+import { chapterHeading, ExportDocument, groupVolumes, MatterSection, PAGE_SIZES, splitParagraphs } from "./exportUtils";
+
+// Dependency-free PDF writer. Chinese text uses the Adobe-GB1 CID fonts (STSong-Light / AdobeHeitiStd-Regular)
+// with the UniGB-UCS2-H CMap, which PDF viewers provide themselves, so nothing has to be embedded. Latin text
+// in English novels uses the standard Times/Helvetica fonts. Both fonts declare their glyph widths, so the line
+// breaking below matches what the viewer draws.
+
+export interface PdfExportOptions extends ExportDocument {
+    layout: PageLayout;
+    created?: Date;
+}
+
+// Advance widths (1/1000 em) of ASCII 32-126 from the standard AFM metrics
+const TIMES_WIDTHS = [
+    250, 333, 408, 500, 500, 833, 778, 180, 333, 333, 500, 564, 250, 333, 250, 278,
+    500, 500, 500, 500, 500, 500, 500, 500, 500, 500, 278, 278, 564, 564, 564, 444,
+    921, 722, 667, 667, 722, 611, 556, 722, 722, 333, 389, 722, 611, 889, 722, 722,
+    556, 722, 667, 556, 611, 722, 722, 944, 722, 722, 611, 333, 278, 333, 469, 500,
+    333, 444, 500, 444, 500, 444, 333, 500, 500, 278, 278, 500, 278, 778, 500, 500,
+    500, 500, 333, 389, 278, 500, 500, 722, 500, 500, 444, 480, 200, 480, 541
+];
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+// WinAnsiEncoding codes of the typographic characters common in English prose, with [serif, sans] widths
+const WIN_ANSI_EXTRA: Record<string, [number, number, number]> = {
+    '€': [0x80, 500, 556], '…': [0x85, 1000, 1000], '‘': [0x91, 333, 222], '’': [0x92, 333, 222],
+    '“': [0x93, 444, 333], '”': [0x94, 444, 333], '•': [0x95, 350, 350], '–': [0x96, 500, 556], '—': [0x97, 1000, 1000]
+};
+
+const FONTS = {
+    serif: { latin: 'Times-Roman', cjk: 'STSong-Light', flags: 6 },
+    sans: { latin: 'Helvetica', cjk: 'AdobeHeitiStd-Regular', flags: 4 }
+};
+
+// Characters that must not start a line; they hang into the right margin instead
+const NO_LINE_START = '，。、；：？！）》」』〉】”’…—,.;:?!)]}%';
+
+interface Glyph {
+    ch: string;
+    cjk: boolean; // Drawn with the CID font
+    code: number; // WinAnsi byte or UCS-2 code unit
+    width: number; // 1/1000 em
+}
+
+interface DrawOp {
+    x: number;
+    y: number;
+    size: number;
+    glyphs: Glyph[];
+}
+
+const latinWidth = (code: number, sans: boolean) => {
+    if (code <= 126) return (sans ? HELVETICA_WIDTHS : TIMES_WIDTHS)[code - 32];
+    const extra = Object.values(WIN_ANSI_EXTRA).find(e => e[0] === code);
+    if (extra) return sans ? extra[2] : extra[1];
+    if (code === 0xa0) return sans ? 278 : 250;
+    return code >= 0xc0 && code <= 0xde ? (sans ? 667 : 722) : (sans ? 556 : 500);
+};
+
+const toGlyphs = (text: string, latinText: boolean, sans: boolean): Glyph[] => Array.from(text.replace(/\t/g, ' ')).map(ch => {
+    const cp = ch.codePointAt(0)!;
+    if (latinText) {
+        const code = cp >= 32 && cp <= 126 ? cp : cp >= 0xa0 && cp <= 0xff ? cp : WIN_ANSI_EXTRA[ch]?.[0];
+        if (code !== undefined) return { ch, cjk: false, code, width: latinWidth(code, sans) };
+    }
+    // UniGB-UCS2-H only covers the BMP; ASCII maps to the half-width glyphs
+    const code = cp > 0xffff ? 0x25a1 : cp;
+    return { ch, cjk: true, code, width: code >= 32 && code <= 126 ? 500 : 1000 };
+});
+
+const isBreakableAfter = (g: Glyph) => g.ch === ' ' || (g.cjk && g.code >= 0x2e80);
+
+const measure = (glyphs: Glyph[], size: number) => glyphs.reduce((w, g) => w + g.width, 0) * size / 1000;
+
+const trimSpaces = (glyphs: Glyph[]) => {
+    let start = 0;
+    let end = glyphs.length;
+    while (start < end && glyphs[start].ch === ' ') start++;
+    while (end > start && glyphs[end - 1].ch === ' ') end--;
+    return glyphs.slice(start, end);
+};
+
+// Greedy line breaking: Latin text breaks at spaces, CJK text between any two characters
+const wrap = (glyphs: Glyph[], size: number, maxWidth: number, indent = 0): Glyph[][] => {
+    const lines: Glyph[][] = [];
+    let line: Glyph[] = [];
+    let lineWidth = indent;
+    let lastBreak = -1; // Break allowed after line[lastBreak - 1]
+
+    glyphs.forEach((g, i) => {
+        const w = g.width * size / 1000;
+        if (line.length > 0 && lineWidth + w > maxWidth && !NO_LINE_START.includes(g.ch)) {
+            const cut = g.ch === ' ' || lastBreak <= 0 ? line.length : lastBreak;
+            lines.push(trimSpaces(line.slice(0, cut)));
+            line = trimSpaces(line.slice(cut));
+            lineWidth = measure(line, size);
+            lastBreak = -1;
+        }
+        if (g.ch === ' ' && line.length === 0) return;
+        line.push(g);
+        lineWidth += w;
+        const next = glyphs[i + 1];
+        if (isBreakableAfter(g) && !(next && NO_LINE_START.includes(next.ch))) lastBreak = line.length;
+    });
+    if (line.length > 0) lines.push(trimSpaces(line));
+    return lines;
+};
+
+const hex = (n: number, digits: number) => n.toString(16).toUpperCase().padStart(digits, '0');
+
+// Text string for metadata and bookmarks: UTF-16BE with a byte order mark
+const pdfText = (text: string) => {
+    let out = '<FEFF';
+    for (let i = 0; i < text.length; i++) out += hex(text.charCodeAt(i), 4);
+    return out + '>';
+};
+
+const pdfDate = (date: Date) => `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+
+const drawOps = (ops: DrawOp[]) => ops.map(op => {
+    let out = `BT\n1 0 0 1 ${op.x.toFixed(2)} ${op.y.toFixed(2)} Tm\n`;
+    let i = 0;
+    while (i < op.glyphs.length) {
+        const cjk = op.glyphs[i].cjk;
+        let run = '';
+        for (; i < op.glyphs.length && op.glyphs[i].cjk === cjk; i++) run += hex(op.glyphs[i].code, cjk ? 4 : 2);
+        out += `/${cjk ? 'F2' : 'F1'} ${op.size} Tf <${run}> Tj\n`;
+    }
+    return out + 'ET';
+}).join('\n');
+
+export const buildPdf = ({ settings, chapters, headingTemplate, frontMatter = [], backMatter = [], layout, created = new Date() }: PdfExportOptions): Uint8Array => {
+    const author = settings.author;
+    const isEnglish = settings.language === 'en';
+    const sans = layout.fontFamily === 'sans';
+    const title = settings.title || (isEnglish ? 'Untitled' : '未命名作品');
+    const glyphs = (text: string) => toGlyphs(text, isEnglish, sans);
+
+    const { width, height } = PAGE_SIZES[layout.pageSize];
+    const margin = Math.round(width * 0.12);
+    const textWidth = width - margin * 2;
+    const size = layout.fontSize;
+    const leading = size * (isEnglish ? 1.5 : 1.8);
+    const indent = size * (isEnglish ? 1.5 : 2);
+
+    const pages: DrawOp[][] = [];
+    const outline: { title: string; page: number; y: number }[] = [];
+    let y = 0;
+    const newPage = () => {
+        pages.push([]);
+        y = height - margin;
+    };
+    const centered = (text: string, fontSize: number, lineHeight: number) => {
+        wrap(glyphs(text), fontSize, textWidth).forEach(line => {
+            y -= lineHeight;
+            pages[pages.length - 1].push({ x: margin + (textWidth - measure(line, fontSize)) / 2, y, size: fontSize, glyphs: line });
+        });
+    };
+
+    const paragraphs = (texts: string[], firstIndent: number) => texts.forEach(text => {
+        wrap(glyphs(text), size, textWidth, firstIndent).forEach((line, i) => {
+            if (y - leading < margin) newPage();
+            y -= leading;
+            pages[pages.length - 1].push({ x: margin + (i === 0 ? firstIndent : 0), y, size, glyphs: line });
+        });
+    });
+    const matter = (section: MatterSection) => {
+        newPage();
+        outline.push({ title: section.title, page: pages.length - 1, y: height });
+        y -= size * 2;
+        centered(section.title, size * 1.5, size * 2.2);
+        y -= size;
+        section.entries.forEach(e => {
+            if (e.heading) {
+                // Keep the sub-heading together with the first lines of its entry
+                if (y - size * 2.5 - leading * 2 < margin) newPage();
+                y -= size;
+                wrap(glyphs(e.heading), size * 1.15, textWidth).forEach(line => {
+                    y -= size * 1.6;
+                    pages[pages.length - 1].push({ x: margin, y, size: size * 1.15, glyphs: line });
+                });
+                y -= size * 0.3;
+            }
+            paragraphs(e.paragraphs, indent);
+        });
+    };
+
+    // Title page
+    newPage();
+    y = height * 0.68;
+    centered(title, size * 2.2, size * 3);
+    if (author) {
+        y -= size * 2;
+        centered(author, size * 1.2, size * 2);
+    }
+
+    frontMatter.forEach(matter);
+
+    groupVolumes(chapters).forEach(volume => {
+        if (volume.title !== undefined) {
+            newPage();
+            outline.push({ title: volume.title, page: pages.length - 1, y: height });
+            y = height * 0.7;
+            centered(volume.title, size * 1.8, size * 2.6);
+        }
+        volume.chapters.forEach(c => {
+            const heading = chapterHeading(settings, c, headingTemplate);
+            newPage();
+            outline.push({ title: heading, page: pages.length - 1, y: height });
+            y -= size * 2;
+            centered(heading, size * 1.5, size * 2.2);
+            y -= size * 2;
+            paragraphs(splitParagraphs(c.content), indent);
+        });
+    });
+
+    backMatter.forEach(matter);
+
+    // Running header and page numbers, skipped on the title page
+    const chromeSize = Math.max(8, size * 0.75);
+    pages.forEach((ops, index) => {
+        if (index === 0) return;
+        if (layout.headerText) {
+            const line = glyphs(layout.headerText);
+            ops.push({ x: margin + (textWidth - measure(line, chromeSize)) / 2, y: height - margin / 2, size: chromeSize, glyphs: line });
+        }
+        if (layout.showPageNumbers) {
+            const line = glyphs(String(index + 1));
+            ops.push({ x: margin + (textWidth - measure(line, chromeSize)) / 2, y: margin / 2, size: chromeSize, glyphs: line });
+        }
+    });
+
+    // Object layout: 1 catalog, 2 page tree, 3-6 fonts, 7 info, 8 outline root, then page/content pairs and bookmarks
+    const fonts = FONTS[layout.fontFamily];
+    const latinWidths = Array.from({ length: 224 }, (_, i) => latinWidth(i + 32, sans));
+    const pageId = (index: number) => 9 + index * 2;
+    const outlineId = (index: number) => 9 + pages.length * 2 + index;
+    const objects: string[] = [
+        `<< /Type /Catalog /Pages 2 0 R${outline.length > 0 ? ' /Outlines 8 0 R /PageMode /UseOutlines' : ''} >>`,
+        `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${fonts.latin} /Encoding /WinAnsiEncoding /FirstChar 32 /LastChar 255 /Widths [${latinWidths.join(' ')}] >>`,
+        `<< /Type /Font /Subtype /Type0 /BaseFont /${fonts.cjk} /Encoding /UniGB-UCS2-H /DescendantFonts [5 0 R] >>`,
+        `<< /Type /Font /Subtype /CIDFontType0 /BaseFont /${fonts.cjk} /CIDSystemInfo << /Registry (Adobe) /Ordering (GB1) /Supplement 2 >> /FontDescriptor 6 0 R /DW 1000 /W [1 95 500] >>`,
+        `<< /Type /FontDescriptor /FontName /${fonts.cjk} /Flags ${fonts.flags} /FontBBox [-25 -254 1000 880] /ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 880 /StemV 93 >>`,
+        `<< /Title ${pdfText(title)}${author ? ` /Author ${pdfText(author)}` : ''} /Producer ${pdfText('DreamWeaver Novelist')} /CreationDate (${pdfDate(created)}) >>`,
+        outline.length > 0
+            ? `<< /Type /Outlines /First ${outlineId(0)} 0 R /Last ${outlineId(outline.length - 1)} 0 R /Count ${outline.length} >>`
+            : '<< /Type /Outlines /Count 0 >>'
+    ];
+    pages.forEach((ops, i) => {
+        const content = drawOps(ops);
+        objects.push(
+            `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId(i) + 1} 0 R >>`,
+            `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+        );
+    });
+    outline.forEach((entry, i) => {
+        objects.push(`<< /Title ${pdfText(entry.title)} /Parent 8 0 R${i > 0 ? ` /Prev ${outlineId(i - 1)} 0 R` : ''}${i < outline.length - 1 ? ` /Next ${outlineId(i + 1)} 0 R` : ''} /Dest [${pageId(entry.page)} 0 R /XYZ 0 ${entry.y} 0] >>`);
+    });
+
+    // Everything above is ASCII, so string offsets equal byte offsets
+    let pdf = '%PDF-1.4\n';
+    const offsets = objects.map((body, i) => {
+        const offset = pdf.length;
+        pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+        return offset;
+    });
+    const xref = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('')}`;
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 7 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(pdf.length);
+    for (let i = 0; i < pdf.length; i++) bytes[i] = pdf.charCodeAt(i);
+    return bytes;
+};
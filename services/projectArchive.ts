@@ -0,0 +1,155 @@
+import { ChapterVersion, NovelSettings, NovelState } from "../types";
+
+// Portable project backup: one JSON document holding the full NovelState (settings incl. customPrompts, world,
+// plot, characters, fact ledger) plus the chapter version history.
+//
+// Settings that only make sense in the exporting browser (model credentials and routing, storage backend) are
+// stripped on export and replaced with the importing browser's values on restore.
+
+export const PROJECT_ARCHIVE_FORMAT = 'dreamweaver-project';
+export const PROJECT_ARCHIVE_VERSION = 1;
+
+export interface ProjectArchive {
+    format: typeof PROJECT_ARCHIVE_FORMAT;
+    version: number;
+    exportedAt: string; // ISO timestamp
+    novel: NovelState;
+    chapterVersions: ChapterVersion[];
+}
+
+export type ArchiveRestoreMode = 'overwrite' | 'copy';
+
+const LOCAL_SETTINGS_KEYS = ['provider', 'baseUrl', 'apiKey', 'modelName', 'maxOutputTokens', 'modelRouting', 'storage'] as const;
+
+type LocalSettings = Pick<NovelSettings, typeof LOCAL_SETTINGS_KEYS[number]>;
+
+const pickLocalSettings = (settings: NovelSettings): LocalSettings =>
+    Object.fromEntries(LOCAL_SETTINGS_KEYS.map(key => [key, settings[key]])) as LocalSettings;
+
+export const createProjectArchive = (state: NovelState, chapterVersions: ChapterVersion[]): ProjectArchive => {
+    const settings: Partial<NovelSettings> = { ...state.settings };
+    LOCAL_SETTINGS_KEYS.forEach(key => delete settings[key]);
+    return {
+        format: PROJECT_ARCHIVE_FORMAT,
+        version: PROJECT_ARCHIVE_VERSION,
+        exportedAt: new Date().toISOString(),
+        novel: { ...state, settings: settings as NovelSettings, status: state.chapters.length > 0 ? 'ready' : 'idle' },
+        chapterVersions
+    };
+};
+
+// Each migration lifts an archive from the keyed version to the next one
+const MIGRATIONS: Record<number, (archive: any) => any> = {
+    // Version 0: a bare NovelState, e.g. a record copied out of the legacy IndexedDB store
+    0: (state: any) => ({
+        format: PROJECT_ARCHIVE_FORMAT,
+        version: 1,
+        exportedAt: new Date().toISOString(),
+        novel: state,
+        chapterVersions: []
+    })
+};
+
+const archiveVersion = (data: any): number => {
+    if (data?.format === PROJECT_ARCHIVE_FORMAT && Number.isInteger(data.version)) return data.version;
+    if (data && typeof data === 'object' && data.settings && Array.isArray(data.chapters)) return 0;
+    throw new Error("Not a DreamWeaver project archive.");
+};
+
+const fail = (path: string, expected: string): never => {
+    throw new Error(`Invalid project archive: ${path} should be ${expected}.`);
+};
+
+const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Checks the fields the app relies on and fills in safe defaults for optional ones
+const validateNovel = (novel: any): NovelState => {
+    if (!isObject(novel)) fail('novel', 'an object');
+    if (!isObject(novel.settings)) fail('novel.settings', 'an object');
+    if (typeof novel.settings.title !== 'string') fail('novel.settings.title', 'a string');
+    if (!Array.isArray(novel.chapters)) fail('novel.chapters', 'an array');
+    const ids = new Set<number>();
+    novel.chapters.forEach((c: any, i: number) => {
+        if (!isObject(c)) fail(`novel.chapters[${i}]`, 'an object');
+        if (!Number.isInteger(c.id)) fail(`novel.chapters[${i}].id`, 'an integer');
+        if (ids.has(c.id)) fail(`novel.chapters[${i}].id`, 'unique');
+        ids.add(c.id);
+        if (c.content !== undefined && typeof c.content !== 'string') fail(`novel.chapters[${i}].content`, 'a string');
+    });
+    if (novel.characters !== undefined && !Array.isArray(novel.characters)) fail('novel.characters', 'an array');
+    if (novel.factLedger !== undefined && !Array.isArray(novel.factLedger)) fail('novel.factLedger', 'an array');
+    if (novel.settings.customPrompts !== undefined && !isObject(novel.settings.customPrompts)) fail('novel.settings.customPrompts', 'an object');
+
+    return {
+        ...novel,
+        chapters: novel.chapters.map((c: any) => ({
+            ...c,
+            title: String(c.title ?? ''),
+            summary: String(c.summary ?? ''),
+            content: c.content ?? '',
+            isGenerating: false,
+            isDone: !!c.isDone
+        })),
+        characters: novel.characters || [],
+        currentChapterId: ids.has(novel.currentChapterId) ? novel.currentChapterId : null,
+        status: novel.chapters.length > 0 ? 'ready' : 'idle',
+        usage: isObject(novel.usage) ? novel.usage : { inputTokens: 0, outputTokens: 0 },
+        lastSaved: undefined
+    };
+};
+
+const validateVersions = (versions: any, chapterIds: Set<number>): ChapterVersion[] => {
+    if (!Array.isArray(versions)) fail('chapterVersions', 'an array');
+    return versions.map((v: any, i: number) => {
+        if (!isObject(v) || typeof v.content !== 'string' || !Number.isInteger(v.chapterId)) fail(`chapterVersions[${i}]`, 'a chapter version');
+        const createdAt = new Date(v.createdAt);
+        if (isNaN(createdAt.getTime())) fail(`chapterVersions[${i}].createdAt`, 'a date');
+        return { ...v, title: String(v.title ?? ''), createdAt };
+    }).filter(v => chapterIds.has(v.chapterId));
+};
+
+export const parseProjectArchive = (text: string): ProjectArchive => {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error("Not a DreamWeaver project archive (invalid JSON).");
+    }
+    let version = archiveVersion(data);
+    if (version > PROJECT_ARCHIVE_VERSION) {
+        throw new Error(`This archive was written by a newer version of the app (format ${version}).`);
+    }
+    while (version < PROJECT_ARCHIVE_VERSION) {
+        data = MIGRATIONS[version](data);
+        version = data.version;
+    }
+
+    const novel = validateNovel(data.novel);
+    return {
+        format: PROJECT_ARCHIVE_FORMAT,
+        version,
+        exportedAt: String(data.exportedAt ?? ''),
+        novel,
+        chapterVersions: validateVersions(data.chapterVersions ?? [], new Set(novel.chapters.map(c => c.id)))
+    };
+};
+
+// Applies this browser's local settings and, for copies, gives the novel and its versions fresh ids so nothing
+// in the library is overwritten
+export const restoreProjectArchive = (archive: ProjectArchive, localSettings: NovelSettings, mode: ArchiveRestoreMode): ProjectArchive => {
+    const isCopy = mode === 'copy' || !archive.novel.settings.id;
+    const novelId = isCopy ? crypto.randomUUID() : archive.novel.settings.id!;
+    const title = mode === 'copy' ? `${archive.novel.settings.title} (副本)` : archive.novel.settings.title;
+    return {
+        ...archive,
+        novel: {
+            ...archive.novel,
+            settings: { ...archive.novel.settings, ...pickLocalSettings(localSettings), id: novelId, title }
+        },
+        chapterVersions: archive.chapterVersions.map(v => ({
+            ...v,
+            id: isCopy ? crypto.randomUUID() : v.id,
+            novelId
+        }))
+    };
+};
@@ -1,5 +1,5 @@
 
-import { NovelSettings } from '../types';
+import { NovelSettings, ModelTask } from '../types';
 
 export const PROMPT_KEYS = {
     GENERATE_PREMISE: 'generate_premise',
@@ -17,15 +17,49 @@ export const PROMPT_KEYS = {
     GENERATE_CHAPTER: 'generate_chapter',
     CONTINUE_WRITING: 'continue_writing',
     EXTEND_CHAPTER: 'extend_chapter',
+    EDIT_SELECTION: 'edit_selection',
     SUMMARIZE_CHAPTER: 'summarize_chapter',
+    EXTRACT_FACTS: 'extract_facts',
+    EXTRACT_CHARACTER_STATES: 'extract_character_states',
     CHECK_GRAMMAR: 'check_grammar',
-    AUTO_CORRECT_GRAMMAR: 'auto_correct_grammar',
     ANALYZE_PACING: 'analyze_pacing',
     CHECK_CONSISTENCY: 'check_consistency',
     FIX_CONSISTENCY: 'fix_consistency',
     ANALYZE_IMPORTED: 'analyze_imported',
     CHECK_PLOT_LOGIC: 'check_plot_logic',
     GENERATE_CHARACTER_IMAGE: 'generate_character_image',
+    GENERATE_COVER_IMAGE: 'generate_cover_image',
+};
+
+// Which model route each prompt uses (see NovelSettings.modelRouting)
+export const PROMPT_TASKS: Record<string, ModelTask> = {
+    [PROMPT_KEYS.GENERATE_PREMISE]: 'outline',
+    [PROMPT_KEYS.EXPAND_TEXT]: 'outline',
+    [PROMPT_KEYS.GENERATE_TITLES]: 'outline',
+    [PROMPT_KEYS.GENERATE_WORLD_SETTING]: 'outline',
+    [PROMPT_KEYS.GENERATE_WORLD_FOUNDATION]: 'outline',
+    [PROMPT_KEYS.GENERATE_WORLD_LOCATIONS]: 'outline',
+    [PROMPT_KEYS.GENERATE_WORLD_TIMELINE]: 'outline',
+    [PROMPT_KEYS.GENERATE_CHARACTERS]: 'outline',
+    [PROMPT_KEYS.GENERATE_SINGLE_CHARACTER]: 'outline',
+    [PROMPT_KEYS.GENERATE_OUTLINE]: 'outline',
+    [PROMPT_KEYS.GENERATE_CHAPTER]: 'chapter',
+    [PROMPT_KEYS.CONTINUE_WRITING]: 'chapter',
+    [PROMPT_KEYS.EXTEND_CHAPTER]: 'chapter',
+    [PROMPT_KEYS.EDIT_SELECTION]: 'chapter',
+    [PROMPT_KEYS.FIX_CONSISTENCY]: 'chapter',
+    [PROMPT_KEYS.SUMMARIZE_CHAPTER]: 'summary',
+    [PROMPT_KEYS.EXTRACT_FACTS]: 'summary',
+    [PROMPT_KEYS.EXTRACT_CHARACTER_STATES]: 'summary',
+    [PROMPT_KEYS.CHECK_GRAMMAR]: 'grammar',
+    [PROMPT_KEYS.ANALYZE_PACING]: 'analysis',
+    [PROMPT_KEYS.ANALYZE_WORLD_CONSISTENCY]: 'analysis',
+    [PROMPT_KEYS.ANALYZE_CHARACTER_DEPTH]: 'analysis',
+    [PROMPT_KEYS.CHECK_CONSISTENCY]: 'analysis',
+    [PROMPT_KEYS.ANALYZE_IMPORTED]: 'analysis',
+    [PROMPT_KEYS.CHECK_PLOT_LOGIC]: 'analysis',
+    [PROMPT_KEYS.GENERATE_CHARACTER_IMAGE]: 'image',
+    [PROMPT_KEYS.GENERATE_COVER_IMAGE]: 'image',
 };
 
 export const DEFAULT_PROMPTS: Record<string, string> = {
@@ -53,7 +87,8 @@ Output: A concise description of the world, magic system/technology, and key loc
     [PROMPT_KEYS.GENERATE_CHARACTERS]: `Role: Character Designer.
 Task: Create a cast of main characters for the story.
 Context: {{premise}}
-Output: JSON array of character objects with fields: name, role, description, relationships, backgroundStory, skills.`,
+Output: JSON array of character objects with fields: name, role, description, relationships, backgroundStory, skills.
+"relationships" is an array of {"target": another character's name from this cast, "type": e.g. mentor/rival/lover, "description"}.`,
 
     [PROMPT_KEYS.GENERATE_OUTLINE]: `Role: Plot Architect.
 Task: Generate a chapter-by-chapter outline.
@@ -74,12 +109,63 @@ Requirements:
 Task: Write Chapter {{chapterId}}: {{chapterTitle}}.
 Summary: {{chapterSummary}}
 Previous Story: {{storySummaries}}
+Characters (state at the start of this chapter): {{charContext}}
+Established Facts (must not be contradicted): {{factLedger}}
+Relevant Earlier Passages and Notes: {{retrievedContext}}
 Previous Chapter Content: {{previousContext}}
 Tone: {{writingTone}}
 Style: {{writingStyle}}
 Perspective: {{narrativePerspective}}
 Requirements: Write a detailed, engaging chapter. Minimum 1000 words.`,
 
+    [PROMPT_KEYS.EXTRACT_FACTS]: `Role: Continuity Editor.
+Task: Extract the new story facts established in Chapter {{chapterId}} that later chapters must respect.
+Known Characters: {{characters}}
+Fact types:
+- knowledge: a character learns a secret or an important piece of information
+- injury: a character is injured, poisoned or falls ill (or recovers)
+- item_gained / item_lost: a character obtains, or loses / gives away, a notable object
+- location: a character arrives at or leaves a significant place
+- death: a character dies
+- promise: a character makes a promise, vow, oath or deal
+Rules: Only facts that actually happen in this chapter. One fact per entry. "subject" is the character's name as written in the text. Write "description" in the same language as the text, in one short sentence.
+Output: A JSON array of {"type", "subject", "description"}. Return [] if nothing qualifies.
+Text: {{text}}`,
+
+    [PROMPT_KEYS.EXTRACT_CHARACTER_STATES]: `Role: Continuity Editor.
+Task: Record how each character's state changed by the end of Chapter {{chapterId}}.
+Known Characters: {{characters}}
+State as of the previous chapter:
+{{previousStates}}
+Fields:
+- location: where the character is at the end of the chapter
+- condition: physical condition (injuries, illness, lost limbs, exhaustion, recovery)
+- relationships: how they now stand with other characters
+- knownSecrets: important secrets or information they now know
+- powerLevel: abilities, rank, cultivation stage or resources
+Rules: Only characters from the list who appear in this chapter. Only include a field when it changed in this chapter; leave the rest out. Write the values in the same language as the text, briefly.
+Output: A JSON array of {"name", "location", "condition", "relationships", "knownSecrets", "powerLevel"}. Return [] if nothing changed.
+Text: {{text}}`,
+
+    [PROMPT_KEYS.EDIT_SELECTION]: `Role: Professional Novel Editor.
+Task: Edit one passage of the chapter "{{chapterTitle}}". {{instruction}}
+Style: {{writingStyle}}, Tone: {{writingTone}}
+Characters: {{characters}}
+
+Text before the passage (context only, do not repeat it):
+{{before}}
+
+Passage to edit:
+<<<
+{{selection}}
+>>>
+
+Text after the passage (context only, do not repeat it):
+{{after}}
+
+Rules: Keep the language, point of view, tense and character voices of the original. The result must read seamlessly between the surrounding text.
+Output: Only the edited passage, without the markers, quotes around it or any commentary.`,
+
     [PROMPT_KEYS.EXPAND_TEXT]: `Role: Co-writer.
 Task: Expand and polish the following text for a {{section}} section.
 Text: "{{text}}"
@@ -0,0 +1,254 @@
+import { NovelSettings, ProseLintConfig, ProseLintRule } from '../types';
+
+// Offline prose linter for Chinese and English chapters. The rules are plain text scans, cheap enough to rerun
+// on every edit, and complement the model-based grammar check without costing tokens.
+
+export interface LintFinding {
+    rule: ProseLintRule;
+    start: number;
+    end: number;
+    message: string;
+}
+
+export const PROSE_LINT_RULES: { id: ProseLintRule; label: string; description: string }[] = [
+    { id: 'repeated_phrase', label: '重复短语', description: '相邻几句内重复出现的短语' },
+    { id: 'overused_word', label: '高频词', description: '本章出现次数超过上限的词' },
+    { id: 'mixed_punctuation', label: '全半角混用', description: '中文段落里的半角标点，或英文段落里的全角标点' },
+    { id: 'unbalanced_quotes', label: '引号不配对', description: '段落内未闭合或不匹配的引号' },
+    { id: 'long_paragraph', label: '段落过长', description: '超过字数上限的段落' },
+    { id: 'untagged_dialogue', label: '对话缺说话人', description: '没有主语的对话标签，如“……”说道。' }
+];
+
+export const DEFAULT_PROSE_LINT: ProseLintConfig = {
+    disabledRules: [],
+    repeatWindow: 5,
+    minPhraseLength: 4,
+    overusedWords: ['突然', '忽然', '不禁', '竟然', '缓缓', '微微', 'suddenly', 'very', 'really'],
+    overusedLimit: 3,
+    maxParagraphLength: 500
+};
+
+// Older projects have no config, and configs saved by older versions may lack newer fields
+export const proseLintConfig = (settings: NovelSettings): ProseLintConfig => ({ ...DEFAULT_PROSE_LINT, ...settings.proseLint });
+
+interface Range {
+    start: number;
+    end: number;
+}
+
+const CJK = /[㐀-鿿豈-﫿]/;
+const SENTENCE_END = /[。！？!?…]/;
+const CLOSING_MARKS = /[”’"'」』）)]/;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Lines with their offsets, leading and trailing whitespace excluded; blank lines are dropped
+const splitParagraphs = (text: string): Range[] => {
+    const paragraphs: Range[] = [];
+    let offset = 0;
+    for (const line of text.split('\n')) {
+        const trimmed = line.trim();
+        if (trimmed) {
+            const start = offset + line.indexOf(trimmed);
+            paragraphs.push({ start, end: start + trimmed.length });
+        }
+        offset += line.length + 1;
+    }
+    return paragraphs;
+};
+
+const splitSentences = (text: string): Range[] => {
+    const sentences: Range[] = [];
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        const isEnd = char === '\n' || SENTENCE_END.test(char) || (char === '.' && /\s/.test(text[i + 1] ?? ' '));
+        if (!isEnd) continue;
+        let end = i + 1;
+        while (end < text.length && CLOSING_MARKS.test(text[end])) end++;
+        if (text.slice(start, end).trim()) sentences.push({ start, end });
+        start = end;
+        i = end - 1;
+    }
+    if (text.slice(start).trim()) sentences.push({ start, end: text.length });
+    return sentences;
+};
+
+// Chinese phrases are runs of `length` characters; English phrases are three consecutive words
+const phrasesIn = (text: string, sentence: Range, length: number): (Range & { key: string })[] => {
+    const phrases: (Range & { key: string })[] = [];
+    const body = text.slice(sentence.start, sentence.end);
+    for (const run of body.matchAll(/[㐀-鿿豈-﫿]+/g)) {
+        for (let i = 0; i + length <= run[0].length; i++) {
+            const start = sentence.start + run.index! + i;
+            phrases.push({ start, end: start + length, key: run[0].slice(i, i + length) });
+        }
+    }
+    const words = [...body.matchAll(/[A-Za-z][A-Za-z']*/g)];
+    for (let i = 0; i + 3 <= words.length; i++) {
+        const last = words[i + 2];
+        phrases.push({
+            start: sentence.start + words[i].index!,
+            end: sentence.start + last.index! + last[0].length,
+            key: words.slice(i, i + 3).map(w => w[0].toLowerCase()).join(' ')
+        });
+    }
+    return phrases;
+};
+
+// Flags the later occurrence; overlapping matches merge, so a long repeated passage is one finding
+const lintRepeatedPhrases = (text: string, config: ProseLintConfig): LintFinding[] => {
+    const lastSeen = new Map<string, number>();
+    const spans: Range[] = [];
+    splitSentences(text).forEach((sentence, index) => {
+        const phrases = phrasesIn(text, sentence, Math.max(2, config.minPhraseLength));
+        phrases.forEach(phrase => {
+            const previous = lastSeen.get(phrase.key);
+            if (previous !== undefined && previous < index && index - previous <= config.repeatWindow) spans.push(phrase);
+        });
+        phrases.forEach(phrase => lastSeen.set(phrase.key, index));
+    });
+
+    const merged: Range[] = [];
+    spans.sort((a, b) => a.start - b.start).forEach(span => {
+        const last = merged[merged.length - 1];
+        if (last && span.start <= last.end) last.end = Math.max(last.end, span.end);
+        else merged.push({ ...span });
+    });
+    return merged.map(span => ({
+        rule: 'repeated_phrase' as const,
+        ...span,
+        message: `「${text.slice(span.start, span.end)}」在 ${config.repeatWindow} 句内重复出现`
+    }));
+};
+
+const lintOverusedWords = (text: string, config: ProseLintConfig): LintFinding[] =>
+    config.overusedWords
+        .map(word => word.trim())
+        .filter(Boolean)
+        .flatMap(word => {
+            // English words match whole words, case-insensitively
+            const pattern = /^[A-Za-z]/.test(word)
+                ? new RegExp(`\\b${escapeRegExp(word)}\\b`, 'gi')
+                : new RegExp(escapeRegExp(word), 'g');
+            const matches = [...text.matchAll(pattern)];
+            if (matches.length <= config.overusedLimit) return [];
+            return matches.map(match => ({
+                rule: 'overused_word' as const,
+                start: match.index!,
+                end: match.index! + match[0].length,
+                message: `「${word}」本章出现 ${matches.length} 次（上限 ${config.overusedLimit} 次）`
+            }));
+        });
+
+const HALF_TO_FULL: Record<string, string> = { ',': '，', '.': '。', '!': '！', '?': '？', ';': '；', ':': '：', '(': '（', ')': '）' };
+const FULL_TO_HALF: Record<string, string> = Object.fromEntries(Object.entries(HALF_TO_FULL).map(([half, full]) => [full, half]));
+
+// A paragraph containing Chinese should use full-width marks next to Chinese text; one without should use none
+const lintMixedPunctuation = (text: string, paragraphs: Range[]): LintFinding[] =>
+    paragraphs.flatMap(({ start, end }) => {
+        const findings: LintFinding[] = [];
+        const isChinese = CJK.test(text.slice(start, end));
+        for (let i = start; i < end; i++) {
+            const char = text[i];
+            if (isChinese && HALF_TO_FULL[char]) {
+                const prev = text[i - 1] ?? '';
+                const next = text[i + 1] ?? '';
+                if (CJK.test(char === '(' ? next : prev)) {
+                    findings.push({ rule: 'mixed_punctuation', start: i, end: i + 1, message: `中文句中使用了半角「${char}」，应为「${HALF_TO_FULL[char]}」` });
+                }
+            } else if (!isChinese && FULL_TO_HALF[char]) {
+                findings.push({ rule: 'mixed_punctuation', start: i, end: i + 1, message: `英文句中使用了全角「${char}」，应为「${FULL_TO_HALF[char]}」` });
+            }
+        }
+        return findings;
+    });
+
+const QUOTE_PAIRS: Record<string, string> = { '“': '”', '「': '」', '『': '』' };
+const CLOSING_QUOTES = new Set(Object.values(QUOTE_PAIRS));
+
+// Quotes are matched within each paragraph
+const lintQuotes = (text: string, paragraphs: Range[]): LintFinding[] =>
+    paragraphs.flatMap(({ start, end }) => {
+        const findings: LintFinding[] = [];
+        const open: number[] = [];
+        const straight: number[] = [];
+        for (let i = start; i < end; i++) {
+            const char = text[i];
+            if (QUOTE_PAIRS[char]) {
+                open.push(i);
+            } else if (CLOSING_QUOTES.has(char)) {
+                const top = open[open.length - 1];
+                if (top !== undefined && QUOTE_PAIRS[text[top]] === char) {
+                    open.pop();
+                } else {
+                    const message = top === undefined
+                        ? `「${char}」前没有对应的开引号`
+                        : `「${char}」与前面的「${text[top]}」不匹配`;
+                    findings.push({ rule: 'unbalanced_quotes', start: i, end: i + 1, message });
+                }
+            } else if (char === '"') {
+                straight.push(i);
+            }
+        }
+        open.forEach(i => findings.push({ rule: 'unbalanced_quotes', start: i, end: i + 1, message: `「${text[i]}」在段落结束前没有闭合` }));
+        if (straight.length % 2 === 1) {
+            const i = straight[straight.length - 1];
+            findings.push({ rule: 'unbalanced_quotes', start: i, end: i + 1, message: '段落中的半角引号 " 数量为奇数' });
+        }
+        return findings;
+    });
+
+const lintLongParagraphs = (text: string, paragraphs: Range[], config: ProseLintConfig): LintFinding[] =>
+    paragraphs.flatMap(({ start, end }) => {
+        const length = text.slice(start, end).replace(/\s/g, '').length;
+        return length > config.maxParagraphLength
+            ? [{ rule: 'long_paragraph' as const, start, end, message: `段落共 ${length} 字，超过 ${config.maxParagraphLength} 字` }]
+            : [];
+    });
+
+const SPEECH_VERBS = '说道|问道|答道|喊道|叫道|笑道|叹道|骂道|说|问|答|喊|道';
+const UNTAGGED_DIALOGUE = [
+    // “……”说道。 — a speech verb straight after the closing quote
+    new RegExp(`[”」』]\\s*[，,]?\\s*(${SPEECH_VERBS})(?=\\s*[。！？，：,.!?:])`, 'g'),
+    // 说道：“……” at the start of a sentence
+    new RegExp(`(?:^|[。！？!?\\n])\\s*(${SPEECH_VERBS})(?=\\s*[：:，,]\\s*[“「『"])`, 'g'),
+    // "...," said.
+    /["”]\s*(said|asked|replied|answered|shouted|whispered|cried)(?=\s*[.,!?])/gi
+];
+
+const lintUntaggedDialogue = (text: string): LintFinding[] =>
+    UNTAGGED_DIALOGUE.flatMap(pattern => [...text.matchAll(pattern)].map(match => {
+        const start = match.index! + match[0].length - match[1].length;
+        return { rule: 'untagged_dialogue' as const, start, end: start + match[1].length, message: `对话标签「${match[1]}」缺少说话人` };
+    }));
+
+export const lintProse = (text: string, config: ProseLintConfig): LintFinding[] => {
+    const enabled = (rule: ProseLintRule) => !config.disabledRules.includes(rule);
+    const paragraphs = splitParagraphs(text);
+    const findings: LintFinding[] = [];
+    if (enabled('repeated_phrase')) findings.push(...lintRepeatedPhrases(text, config));
+    if (enabled('overused_word')) findings.push(...lintOverusedWords(text, config));
+    if (enabled('mixed_punctuation')) findings.push(...lintMixedPunctuation(text, paragraphs));
+    if (enabled('unbalanced_quotes')) findings.push(...lintQuotes(text, paragraphs));
+    if (enabled('long_paragraph')) findings.push(...lintLongParagraphs(text, paragraphs, config));
+    if (enabled('untagged_dialogue')) findings.push(...lintUntaggedDialogue(text));
+    return findings.sort((a, b) => a.start - b.start || b.end - a.end);
+};
+
+export interface LintSegment {
+    text: string;
+    findings: LintFinding[]; // Findings covering this segment; empty for plain text
+}
+
+// Cuts the text at every finding boundary, so overlapping findings (e.g. inside a long paragraph) can all be shown
+export const segmentByFindings = (text: string, findings: LintFinding[]): LintSegment[] => {
+    const cuts = [...new Set([0, text.length, ...findings.flatMap(f => [f.start, f.end])])].sort((a, b) => a - b);
+    const segments: LintSegment[] = [];
+    for (let i = 0; i + 1 < cuts.length; i++) {
+        const [start, end] = [cuts[i], cuts[i + 1]];
+        if (start === end) continue;
+        segments.push({ text: text.slice(start, end), findings: findings.filter(f => f.start < end && start < f.end) });
+    }
+    return segments;
+};
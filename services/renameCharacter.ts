@@ -0,0 +1,104 @@
+import { Chapter, FactEntry, NovelSettings } from "../types";
+
+// Find-and-replace of a character's name across the novel, used when a character is renamed.
+// Matches are collected first so the user can review them before anything is changed.
+
+export type RenameTarget = 'content' | 'summary' | 'plot' | 'encyclopedia' | 'facts';
+
+export const RENAME_TARGET_LABELS: Record<RenameTarget, string> = {
+    content: '章节正文',
+    summary: '章节摘要',
+    plot: '情节节点',
+    encyclopedia: '百科词条',
+    facts: '事实账本'
+};
+
+export interface RenameMatch {
+    target: RenameTarget;
+    label: string; // Where the match is, e.g. "第 3 章 标题"
+    count: number;
+    snippet: string; // First occurrence with some surrounding text
+}
+
+export interface RenameSources {
+    chapters: Chapter[];
+    settings: NovelSettings;
+    facts: FactEntry[];
+}
+
+const SNIPPET_RADIUS = 30;
+
+// Latin names only match whole words ("Al" must not hit "Alice"); CJK text has no word boundaries
+export const namePattern = (name: string): RegExp => {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return /^[\w\s'-]+$/.test(name) ? new RegExp(`\\b${escaped}\\b`, 'g') : new RegExp(escaped, 'g');
+};
+
+const matchIn = (text: string | undefined, pattern: RegExp): { count: number; snippet: string } | null => {
+    if (!text) return null;
+    const matches = [...text.matchAll(pattern)];
+    if (matches.length === 0) return null;
+    const at = matches[0].index || 0;
+    const start = Math.max(0, at - SNIPPET_RADIUS);
+    const end = Math.min(text.length, at + matches[0][0].length + SNIPPET_RADIUS);
+    const snippet = `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
+    return { count: matches.length, snippet };
+};
+
+export const findNameOccurrences = (oldName: string, sources: RenameSources): RenameMatch[] => {
+    if (!oldName.trim()) return [];
+    const pattern = namePattern(oldName);
+    const results: RenameMatch[] = [];
+    const collect = (target: RenameTarget, label: string, ...texts: (string | undefined)[]) => {
+        const found = texts.map(t => matchIn(t, pattern)).filter((m): m is { count: number; snippet: string } => !!m);
+        if (found.length === 0) return;
+        results.push({ target, label, count: found.reduce((n, m) => n + m.count, 0), snippet: found[0].snippet });
+    };
+
+    sources.chapters.forEach(c => collect('content', `第 ${c.id} 章 ${c.title}`, c.content));
+    sources.chapters.forEach(c => collect('summary', `第 ${c.id} 章 ${c.title}`, c.title, c.summary));
+    (sources.settings.plotData?.nodes || []).forEach(n => collect('plot', n.title, n.title, n.description));
+    (sources.settings.structuredWorld?.encyclopedia || []).forEach(t => collect('encyclopedia', t.term, t.term, t.definition));
+    sources.facts.forEach(f => collect('facts', `第 ${f.chapterId} 章`, f.subject, f.description));
+    return results;
+};
+
+// Returns new copies of the sources with the name replaced in the selected targets
+export const replaceName = (oldName: string, newName: string, targets: RenameTarget[], sources: RenameSources): RenameSources => {
+    const pattern = namePattern(oldName);
+    const has = (t: RenameTarget) => targets.includes(t);
+    const swap = (text: string) => text ? text.replace(pattern, () => newName) : text;
+
+    const chapters = sources.chapters.map(c => ({
+        ...c,
+        content: has('content') ? swap(c.content) : c.content,
+        title: has('summary') ? swap(c.title) : c.title,
+        summary: has('summary') ? swap(c.summary) : c.summary
+    }));
+
+    let settings = sources.settings;
+    if (has('plot') && settings.plotData) {
+        settings = {
+            ...settings,
+            plotData: {
+                ...settings.plotData,
+                nodes: settings.plotData.nodes.map(n => ({ ...n, title: swap(n.title), description: swap(n.description) }))
+            }
+        };
+    }
+    if (has('encyclopedia') && settings.structuredWorld) {
+        settings = {
+            ...settings,
+            structuredWorld: {
+                ...settings.structuredWorld,
+                encyclopedia: settings.structuredWorld.encyclopedia.map(t => ({ ...t, term: swap(t.term), definition: swap(t.definition) }))
+            }
+        };
+    }
+
+    const facts = has('facts')
+        ? sources.facts.map(f => ({ ...f, subject: swap(f.subject), description: swap(f.description) }))
+        : sources.facts;
+
+    return { chapters, settings, facts };
+};
@@ -0,0 +1,81 @@
+// Splits long chapters into prompt-sized chunks, and runs the per-chunk requests with bounded concurrency.
+// Chunks end at paragraph or sentence boundaries where possible and overlap slightly, so a problem that
+// straddles a cut is still seen whole by one of the requests.
+
+export interface TextChunk {
+    start: number; // Offset of the chunk in the full text
+    text: string;
+}
+
+const SENTENCE_END = /[。！？!?…；;.]/;
+const CLOSING_MARKS = /[”’"'」』）)\]]/;
+
+// Index just after the sentence end at `i`, including closing quotes and brackets
+const afterSentenceEnd = (text: string, i: number, limit: number) => {
+    let j = i + 1;
+    while (j < limit && CLOSING_MARKS.test(text[j])) j++;
+    return j;
+};
+
+// Latest paragraph or sentence break in [min, max], or max if there is none
+const lastBreak = (text: string, min: number, max: number): number => {
+    const newline = text.lastIndexOf('\n', max - 1);
+    if (newline >= min) return newline + 1;
+    for (let i = max - 1; i >= min; i--) {
+        if (SENTENCE_END.test(text[i])) return afterSentenceEnd(text, i, max);
+    }
+    return max;
+};
+
+// Earliest sentence start in [min, max), or min if there is none
+const firstBreak = (text: string, min: number, max: number): number => {
+    for (let i = min; i < max; i++) {
+        if (text[i] === '\n') return i + 1;
+        if (SENTENCE_END.test(text[i])) return afterSentenceEnd(text, i, max);
+    }
+    return min;
+};
+
+// `overlap` must be well below half of `maxChars`
+export const chunkText = (text: string, maxChars: number, overlap = 0): TextChunk[] => {
+    if (text.length <= maxChars) return [{ start: 0, text }];
+
+    const chunks: TextChunk[] = [];
+    let start = 0;
+    while (start < text.length) {
+        let end = Math.min(start + maxChars, text.length);
+        if (end < text.length) end = lastBreak(text, start + Math.floor(maxChars / 2), end);
+        chunks.push({ start, text: text.slice(start, end) });
+        if (end >= text.length) break;
+        start = overlap > 0 ? firstBreak(text, Math.max(end - overlap, start + 1), end) : end;
+    }
+    return chunks;
+};
+
+// Like Promise.all over items.map(fn), with at most `limit` calls in flight. After a failure no new items are
+// started, and the first error is thrown once the running calls have settled.
+export const mapWithConcurrency = async <T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    let failed = false;
+    const worker = async () => {
+        while (!failed && next < items.length) {
+            const index = next++;
+            try {
+                results[index] = await fn(items[index], index);
+            } catch (e) {
+                failed = true;
+                throw e;
+            }
+        }
+    };
+    const workers = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker);
+    const settled = await Promise.allSettled(workers);
+    const rejected = settled.find((s): s is PromiseRejectedResult => s.status === 'rejected');
+    if (rejected) throw rejected.reason;
+    return results;
+};
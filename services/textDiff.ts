@@ -0,0 +1,75 @@
+// Line-based diff used by the chapter version history, and a word-level diff for inline edit previews.
+// Chapters are split into paragraphs/lines, so an LCS table stays small enough to compute in the UI thread.
+
+export interface DiffLine {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+// Above this many table cells we fall back to a coarse "all removed / all added" diff
+const MAX_LCS_CELLS = 4_000_000;
+
+const diffSequences = (a: string[], b: string[]): DiffLine[] => {
+    // Trim the common head and tail first; edits are usually local
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length, endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+    const head: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+    const tail: DiffLine[] = a.slice(endA).map(text => ({ type: 'same', text }));
+    const midA = a.slice(start, endA);
+    const midB = b.slice(start, endB);
+
+    if (midA.length * midB.length > MAX_LCS_CELLS) {
+        return [
+            ...head,
+            ...midA.map(text => ({ type: 'removed' as const, text })),
+            ...midB.map(text => ({ type: 'added' as const, text })),
+            ...tail
+        ];
+    }
+
+    // lcs[i][j] = length of the LCS of midA[i..] and midB[j..]
+    const n = midA.length, m = midB.length;
+    const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const middle: DiffLine[] = [];
+    let i = 0, j = 0;
+    while (i < n && j < m) {
+        if (midA[i] === midB[j]) {
+            middle.push({ type: 'same', text: midA[i] });
+            i++; j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            middle.push({ type: 'removed', text: midA[i++] });
+        } else {
+            middle.push({ type: 'added', text: midB[j++] });
+        }
+    }
+    while (i < n) middle.push({ type: 'removed', text: midA[i++] });
+    while (j < m) middle.push({ type: 'added', text: midB[j++] });
+
+    return [...head, ...middle, ...tail];
+};
+
+export const diffLines = (before: string, after: string): DiffLine[] =>
+    diffSequences(before ? before.split('\n') : [], after ? after.split('\n') : []);
+
+// CJK characters are compared one by one, other text by word, whitespace and punctuation run
+const WORD_TOKEN = /[\u3400-\u9fff\uf900-\ufaff]|[\p{L}\p{N}_'’-]+|\s+|./gsu;
+
+// Word-level diff; adjacent tokens of the same type are merged into one segment
+export const diffWords = (before: string, after: string): DiffLine[] => {
+    const segments: DiffLine[] = [];
+    diffSequences(before.match(WORD_TOKEN) || [], after.match(WORD_TOKEN) || []).forEach(token => {
+        const last = segments[segments.length - 1];
+        if (last && last.type === token.type) last.text += token.text;
+        else segments.push({ ...token });
+    });
+    return segments;
+};
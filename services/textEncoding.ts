@@ -0,0 +1,70 @@
+// Encoding detection for imported plain-text manuscripts. Web-novel TXT dumps are frequently GBK/GB18030
+// (mainland sites) or Big5 (Taiwan/Hong Kong sites) rather than UTF-8.
+
+export type TextEncodingId = 'utf-8' | 'gb18030' | 'big5' | 'utf-16le' | 'utf-16be';
+
+export const TEXT_ENCODINGS: { id: TextEncodingId; label: string }[] = [
+    { id: 'utf-8', label: 'UTF-8' },
+    { id: 'gb18030', label: 'GBK / GB18030 (简体)' },
+    { id: 'big5', label: 'Big5 (繁體)' },
+    { id: 'utf-16le', label: 'UTF-16 LE' },
+    { id: 'utf-16be', label: 'UTF-16 BE' }
+];
+
+const SAMPLE_SIZE = 64 * 1024;
+
+// The most frequent characters in Chinese prose, in both simplified and traditional forms. Text decoded with the
+// wrong legacy encoding turns into rare characters and invalid sequences, so it scores far lower.
+const COMMON_HANZI = new Set(
+    '的一是不了人我在有他这中大来上个们到说时地也子就道出要以会可你对着里后那过得她么去看没自还' +
+    '這來個們說時會對著裡後過麼沒還'
+);
+
+const scoreDecoding = (bytes: Uint8Array, encoding: TextEncodingId) => {
+    let score = 0;
+    for (const char of new TextDecoder(encoding).decode(bytes)) {
+        if (char === '\uFFFD') score -= 10;
+        else if (COMMON_HANZI.has(char)) score += 1;
+    }
+    return score;
+};
+
+const isValidUtf8 = (bytes: Uint8Array) => {
+    try {
+        // stream: true so a multi-byte character cut off at the end of the sample doesn't count as invalid
+        new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+export const detectEncoding = (bytes: Uint8Array): TextEncodingId => {
+    // Byte order marks
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+    const sample = bytes.subarray(0, SAMPLE_SIZE);
+
+    // UTF-16 without a BOM: ASCII characters (newlines, digits, punctuation) leave zero bytes on one side
+    let evenZeros = 0;
+    let oddZeros = 0;
+    sample.forEach((b, i) => {
+        if (b === 0) i % 2 === 0 ? evenZeros++ : oddZeros++;
+    });
+    if (oddZeros > sample.length / 8 && evenZeros < oddZeros / 4) return 'utf-16le';
+    if (evenZeros > sample.length / 8 && oddZeros < evenZeros / 4) return 'utf-16be';
+
+    // Legacy double-byte encodings are almost never valid UTF-8 once they contain any Chinese text
+    if (isValidUtf8(sample)) return 'utf-8';
+
+    // Otherwise pick the decoding that reads most like Chinese prose; ties go to GB18030, the most common
+    const candidates: TextEncodingId[] = ['gb18030', 'big5', 'utf-16le', 'utf-16be'];
+    const scores = candidates.map(encoding => scoreDecoding(sample, encoding));
+    return candidates[scores.indexOf(Math.max(...scores))];
+};
+
+// The BOM, if any, is dropped by TextDecoder
+export const decodeText = (bytes: Uint8Array, encoding: TextEncodingId): string =>
+    new TextDecoder(encoding).decode(bytes);
@@ -0,0 +1,28 @@
+import { chapterHeading, ExportDocument, MatterSection } from "./exportUtils";
+
+// Plain-text rendering; chapters and sections are separated by a rule
+
+const RULE = '\n--------------------------------------------------\n\n';
+
+const renderMatter = (section: MatterSection) => [
+    section.title,
+    ...section.entries.map(e => [e.heading, ...e.paragraphs].filter(Boolean).join('\n\n'))
+].join('\n\n') + '\n';
+
+export const renderNovelText = ({ settings, chapters, headingTemplate, frontMatter = [], backMatter = [] }: ExportDocument): string => {
+    const isEnglish = settings.language === 'en';
+    const titleBlock = [
+        `${isEnglish ? 'Title' : '书名'}: ${settings.title}`,
+        settings.author ? `${isEnglish ? 'Author' : '作者'}: ${settings.author}` : ''
+    ].filter(Boolean).join('\n') + '\n';
+
+    let currentVolume: number | undefined;
+    const chapterBlocks = chapters.map(c => {
+        // Volume titles are printed above the first exported chapter of each volume
+        const volumeLine = c.volumeId !== undefined && c.volumeId !== currentVolume && c.volumeTitle ? `${c.volumeTitle}\n\n` : '';
+        currentVolume = c.volumeId;
+        return `${volumeLine}${chapterHeading(settings, c, headingTemplate)}\n\n${c.content.trim()}\n`;
+    });
+
+    return [titleBlock, ...frontMatter.map(renderMatter), ...chapterBlocks, ...backMatter.map(renderMatter)].join(RULE);
+};
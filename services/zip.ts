@@ -0,0 +1,158 @@
+// Minimal ZIP support for the EPUB and DOCX exporters and importers. The writer stores entries uncompressed,
+// which both formats accept (EPUB even requires it for the leading "mimetype" entry); the reader handles stored
+// and deflated entries, inflating through the browser's DecompressionStream. No ZIP64.
+
+export interface ZipEntry {
+    path: string;
+    data: Uint8Array | string;
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const dosDateTime = (date: Date) => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+// Entries are written in the given order
+export const createZip = (entries: ZipEntry[], modified: Date = new Date()): Uint8Array => {
+    const encoder = new TextEncoder();
+    const { time, date } = dosDateTime(modified);
+    const locals: Uint8Array[] = [];
+    const centrals: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.path);
+        const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+        const crc = crc32(data);
+
+        const local = new Uint8Array(30 + name.length);
+        const lv = new DataView(local.buffer);
+        lv.setUint32(0, 0x04034b50, true);
+        lv.setUint16(4, 20, true);          // version needed
+        lv.setUint16(6, 0x0800, true);      // UTF-8 names
+        lv.setUint16(8, 0, true);           // stored
+        lv.setUint16(10, time, true);
+        lv.setUint16(12, date, true);
+        lv.setUint32(14, crc, true);
+        lv.setUint32(18, data.length, true);
+        lv.setUint32(22, data.length, true);
+        lv.setUint16(26, name.length, true);
+        lv.setUint16(28, 0, true);          // no extra field
+        local.set(name, 30);
+
+        const central = new Uint8Array(46 + name.length);
+        const cv = new DataView(central.buffer);
+        cv.setUint32(0, 0x02014b50, true);
+        cv.setUint16(4, 20, true);          // version made by
+        cv.setUint16(6, 20, true);
+        cv.setUint16(8, 0x0800, true);
+        cv.setUint16(10, 0, true);
+        cv.setUint16(12, time, true);
+        cv.setUint16(14, date, true);
+        cv.setUint32(16, crc, true);
+        cv.setUint32(20, data.length, true);
+        cv.setUint32(24, data.length, true);
+        cv.setUint16(28, name.length, true);
+        cv.setUint32(42, offset, true);
+        central.set(name, 46);
+
+        locals.push(local, data);
+        centrals.push(central);
+        offset += local.length + data.length;
+    }
+
+    const centralSize = centrals.reduce((n, c) => n + c.length, 0);
+    const end = new Uint8Array(22);
+    const ev = new DataView(end.buffer);
+    ev.setUint32(0, 0x06054b50, true);
+    ev.setUint16(8, entries.length, true);
+    ev.setUint16(10, entries.length, true);
+    ev.setUint32(12, centralSize, true);
+    ev.setUint32(16, offset, true);
+
+    const out = new Uint8Array(offset + centralSize + end.length);
+    let pos = 0;
+    for (const part of [...locals, ...centrals, end]) {
+        out.set(part, pos);
+        pos += part.length;
+    }
+    return out;
+};
+
+export interface ZipArchive {
+    paths: string[];
+    read(path: string): Promise<Uint8Array | null>;
+    readText(path: string): Promise<string | null>;
+}
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Reads the central directory; entry data is decompressed on demand
+export const openZip = (bytes: Uint8Array): ZipArchive => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    // The end-of-central-directory record sits in the last 22 bytes plus an optional comment of up to 64KB
+    let eocd = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === 0x06054b50) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd < 0) throw new Error("Not a ZIP file.");
+
+    const count = view.getUint16(eocd + 10, true);
+    let pos = view.getUint32(eocd + 16, true);
+    const decoder = new TextDecoder();
+    const entries = new Map<string, { method: number; size: number; offset: number }>();
+    for (let i = 0; i < count; i++) {
+        if (view.getUint32(pos, true) !== 0x02014b50) throw new Error("Corrupt ZIP central directory.");
+        const method = view.getUint16(pos + 10, true);
+        const size = view.getUint32(pos + 20, true);
+        const nameLength = view.getUint16(pos + 28, true);
+        const extraLength = view.getUint16(pos + 30, true);
+        const commentLength = view.getUint16(pos + 32, true);
+        const offset = view.getUint32(pos + 42, true);
+        const path = decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLength));
+        entries.set(path, { method, size, offset });
+        pos += 46 + nameLength + extraLength + commentLength;
+    }
+
+    const read = async (path: string): Promise<Uint8Array | null> => {
+        const entry = entries.get(path);
+        if (!entry) return null;
+        // Local header name/extra lengths can differ from the central directory's
+        const start = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true);
+        const data = bytes.subarray(start, start + entry.size);
+        if (entry.method === 0) return data;
+        if (entry.method === 8) return inflateRaw(data);
+        throw new Error(`Unsupported ZIP compression method ${entry.method} for ${path}.`);
+    };
+
+    return {
+        paths: Array.from(entries.keys()),
+        read,
+        readText: async (path: string) => {
+            const data = await read(path);
+            return data ? decoder.decode(data) : null;
+        }
+    };
+};
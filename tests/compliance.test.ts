@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyComplianceFixes, complianceConfig, parseWordList, ruleError, scanChapters, scanCompliance } from '../services/compliance';
+import { ComplianceRule } from '../types';
+import { chapter, mockSettings } from './helpers';
+
+const rule = (pattern: string, patch: Partial<ComplianceRule> = {}): ComplianceRule => ({ id: pattern, pattern, isRegex: false, replacement: '', ...patch });
+
+test('defaults to checking on generate and before export', () => {
+    const config = complianceConfig(mockSettings());
+    assert.deepEqual(config, { rules: [], checkOnGenerate: true, checkBeforeExport: true });
+});
+
+test('finds plain terms case-insensitively and masks them by default', () => {
+    const hits = scanCompliance('The Drug lord sold drugs. 赌博是违法的。', [rule('drug'), rule('赌博')]);
+    assert.deepEqual(hits.map(h => h.text), ['Drug', 'drug', '赌博']);
+    assert.deepEqual(hits.map(h => h.suggestion), ['****', '****', '**']);
+});
+
+test('escapes plain terms and expands regex replacements', () => {
+    assert.equal(scanCompliance('a+b ab', [rule('a+b')]).length, 1);
+    const [hit] = scanCompliance('杀了他', [rule('杀(了)', { isRegex: true, replacement: '打$1' })]);
+    assert.equal(hit.suggestion, '打了');
+});
+
+test('keeps the earlier, then longer, match where rules overlap', () => {
+    const hits = scanCompliance('暴力血腥', [rule('力血'), rule('暴力'), rule('暴力血腥')]);
+    assert.deepEqual(hits.map(h => h.text), ['暴力血腥']);
+});
+
+test('skips invalid regexes and reports them in the editor', () => {
+    const broken = rule('(', { isRegex: true });
+    assert.deepEqual(scanCompliance('(((', [broken]), []);
+    assert.match(ruleError(broken)!, /正则无效/);
+    assert.equal(ruleError(rule(' ')), '规则为空');
+    assert.equal(ruleError(rule('ok')), null);
+});
+
+test('applies fixes back to front so offsets stay valid', () => {
+    const text = '赌博和赌博';
+    const hits = scanCompliance(text, [rule('赌博', { replacement: '博弈游戏' })]);
+    assert.equal(applyComplianceFixes(text, hits), '博弈游戏和博弈游戏');
+    // Applying a subset leaves the other hit alone
+    assert.equal(applyComplianceFixes(text, hits.slice(1)), '赌博和博弈游戏');
+});
+
+test('scans only chapters with content', () => {
+    const results = scanChapters([chapter(1, { content: '赌博' }), chapter(2)], [rule('赌博')]);
+    assert.deepEqual(results.map(r => [r.chapterId, r.hits.length]), [[1, 1]]);
+});
+
+test('parses word lists with replacements and regex rules', () => {
+    const rules = parseWordList('赌博=博弈\n\n  /杀+/=打  \na=b=c\n');
+    assert.deepEqual(rules.map(({ id, ...r }) => r), [
+        { pattern: '赌博', isRegex: false, replacement: '博弈' },
+        { pattern: '杀+', isRegex: true, replacement: '打' },
+        { pattern: 'a', isRegex: false, replacement: 'b=c' }
+    ]);
+    assert.ok(rules.every(r => r.id));
+});
@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildChapterContext, estimateTokens, rankBM25, tokenize } from '../services/contextBuilder';
+import { FactEntry } from '../types';
+import { chapter, mockSettings } from './helpers';
+
+test('estimates one token per CJK character and about four characters per token otherwise', () => {
+    assert.equal(estimateTokens(''), 0);
+    assert.equal(estimateTokens('林澈送信'), 4);
+    assert.equal(estimateTokens('abcdefgh'), 2);
+});
+
+test('ranks documents sharing the query terms first', () => {
+    const docs = ['港口的灯塔在雨中熄灭', '林澈在港口等船', '山上的寺庙'].map(text => ({ text, terms: tokenize(text) }));
+    const ranked = rankBM25(docs, tokenize('林澈 港口'));
+    assert.equal(ranked[0].doc.text, '林澈在港口等船');
+    assert.ok(!ranked.some(r => r.doc.text === '山上的寺庙'));
+});
+
+test('uses the tail of the previous chapter and the summaries of finished chapters only', () => {
+    const chapters = [
+        chapter(1, { summary: '林澈收到信。', content: '第一章正文。', isDone: true }),
+        chapter(2, { summary: '林澈去港口。', content: '第二章正文，结尾在港口。', isDone: true }),
+        chapter(3, { summary: '未完成的章节。', content: '草稿', isDone: false }),
+        chapter(4, { summary: '林澈拆信。' })
+    ];
+    const context = buildChapterContext(mockSettings(), chapters[3], chapters, []);
+    assert.match(context.previousContext, /结尾在港口/);
+    assert.equal(context.storySummaries, 'Chapter 1: 林澈收到信。\nChapter 2: 林澈去港口。');
+    assert.doesNotMatch(context.storySummaries + context.previousContext + context.retrievedContext, /未完成|草稿/);
+});
+
+test('keeps facts from earlier chapters and stays within the token budget', () => {
+    const long = '林澈沿着运河走了很久，雨一直没有停。'.repeat(200);
+    const chapters = Array.from({ length: 8 }, (_, i) => chapter(i + 1, { summary: `第${i + 1}章摘要`, content: long, isDone: true }));
+    const facts: FactEntry[] = [
+        { id: 'a', type: 'death', subject: '老周', description: '老周死于火灾', chapterId: 2 },
+        { id: 'b', type: 'knowledge', subject: '林澈', description: '林澈知道了真相', chapterId: 9 }
+    ];
+    const budget = 1000;
+    const context = buildChapterContext(mockSettings(), chapter(9), [...chapters, chapter(9)], [], facts, budget);
+    assert.match(context.factLedger, /老周死于火灾/);
+    assert.doesNotMatch(context.factLedger, /知道了真相/);
+    assert.ok(context.usedTokens <= budget);
+    assert.ok(estimateTokens(context.previousContext) < long.length);
+});
+
+test('retrieves older passages and character cards relevant to the chapter brief', () => {
+    const chapters = [
+        chapter(1, { summary: '开端', content: '老周把一枚铜钥匙藏在灯塔下面。', isDone: true }),
+        ...Array.from({ length: 6 }, (_, i) => chapter(i + 2, { summary: '林澈送信', content: '林澈在城里送信。'.repeat(150), isDone: true })),
+        chapter(8, { title: '铜钥匙', summary: '林澈去灯塔寻找铜钥匙' })
+    ];
+    const characters = [{ id: 'c1', name: '林澈', role: 'Protagonist', description: '年轻的邮差', relationships: [] }];
+    const context = buildChapterContext(mockSettings(), chapters[7], chapters, characters, [], 1200);
+    assert.match(context.retrievedContext, /铜钥匙藏在灯塔/);
+    assert.match(context.retrievedContext, /年轻的邮差/);
+});
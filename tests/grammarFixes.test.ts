@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyIssueFixes, locateIssues } from '../services/grammarFixes';
+
+const issue = (original: string, suggestion: string) => ({ original, suggestion, explanation: '' });
+
+test('patches only the reported spans', () => {
+    const text = '他走近了房间。她没有抬头看他。';
+    const located = locateIssues(text, [issue('走近了', '走进了'), issue('抬头看他', '抬头看')]);
+    assert.deepEqual(located.map(l => l.span), [{ start: 1, end: 4 }, { start: 10, end: 14 }]);
+    assert.equal(applyIssueFixes(text, located), '他走进了房间。她没有抬头看。');
+});
+
+test('matches quotes whose whitespace was normalised by the model', () => {
+    const text = 'He walked\n  into the room.';
+    const [located] = locateIssues(text, [issue('walked into', 'walked into')]);
+    assert.deepEqual(located.span, { start: 3, end: 16 });
+});
+
+test('gives issues quoting the same passage successive occurrences', () => {
+    const text = '的的确确，的的确确。';
+    const located = locateIssues(text, [issue('的的', '的'), issue('的的', '的')]);
+    assert.deepEqual(located.map(l => l.span!.start), [0, 5]);
+    assert.equal(applyIssueFixes(text, located), '的确确，的确确。');
+});
+
+test('leaves issues whose quote no longer occurs unplaced', () => {
+    const text = '原文没有变化。';
+    const located = locateIssues(text, [issue('已被删除', '删除'), issue('', 'x')]);
+    assert.ok(located.every(l => l.span === null));
+    assert.equal(applyIssueFixes(text, located), text);
+});
@@ -0,0 +1,36 @@
+import { Chapter, NovelSettings } from '../types';
+
+// Settings for a novel driven by the offline mock provider; `modelName` holds mock behaviours (see MockClient)
+export const mockSettings = (patch: Partial<NovelSettings> = {}): NovelSettings => ({
+    id: 'novel-1',
+    title: '封缄之信',
+    premise: '邮差林澈发现自己送出的每一封信都早已被人读过。',
+    mainCategory: '',
+    themes: [],
+    roles: [],
+    plots: [],
+    novelType: 'long',
+    targetWordCount: 60000,
+    chapterCount: 5,
+    language: 'zh',
+    provider: 'mock',
+    modelName: '',
+    writingTone: 'Neutral',
+    writingStyle: 'Moderate',
+    narrativePerspective: 'Third Person Limited',
+    pacing: 'Moderate',
+    rhetoricLevel: 'Moderate',
+    storage: { type: 'sqlite' },
+    customPrompts: {},
+    ...patch
+});
+
+export const chapter = (id: number, patch: Partial<Chapter> = {}): Chapter => ({
+    id,
+    title: `第${id}章`,
+    summary: '',
+    content: '',
+    isGenerating: false,
+    isDone: false,
+    ...patch
+});
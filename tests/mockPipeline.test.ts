@@ -0,0 +1,118 @@
+import { afterEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    checkGrammar, extractChapterFacts, generateChapterStream, generateCharacters, generateCoverImage, generateOutline, generateTitles
+} from '../services/geminiService';
+import { getBackoffDelay, isRateLimitError, isSafetyError } from '../services/generationQueue';
+import { LLMClientFactory, resetMockCallCounts } from '../services/llmClient';
+import { registerMockFixtures, resetMockFixtures } from '../services/mockFixtures';
+import { PROMPT_KEYS } from '../services/promptTemplates';
+import { chapter, mockSettings } from './helpers';
+
+// The whole generation pipeline against the offline mock provider: no network, deterministic output
+
+afterEach(() => {
+    resetMockFixtures();
+    resetMockCallCounts();
+});
+
+test('generates an outline with one chapter per requested chapter', async () => {
+    const outline = await generateOutline(mockSettings({ chapterCount: 5 }));
+    assert.deepEqual(outline.map(c => c.id), [1, 2, 3, 4, 5]);
+    assert.ok(outline.every(c => c.title && c.summary && !c.isDone && c.content === ''));
+});
+
+test('groups long outlines into volumes', async () => {
+    const outline = await generateOutline(mockSettings({ chapterCount: 45 }));
+    assert.equal(outline.length, 45);
+    assert.equal(outline[0].volumeId, 1);
+    assert.equal(outline[44].volumeId, 3);
+});
+
+test('recovers the complete chapters from a truncated outline', async () => {
+    const outline = await generateOutline(mockSettings({ chapterCount: 10, modelName: 'truncate' }));
+    assert.ok(outline.length > 0 && outline.length < 10);
+    outline.forEach((c, i) => assert.equal(c.id, i + 1));
+});
+
+test('streams a chapter and reports usage', async () => {
+    const settings = mockSettings();
+    const outline = await generateOutline(settings);
+    let usage: { input: number; output: number } | null = null;
+    let text = '';
+    for await (const chunk of generateChapterStream(settings, outline[0], outline, [], [], undefined, u => { usage = u; })) {
+        text += chunk;
+    }
+    assert.ok(text.length > 200);
+    assert.ok(usage && usage!.input > 0 && usage!.output > 0);
+});
+
+test('stops streaming when aborted', async () => {
+    const controller = new AbortController();
+    let chunks = 0;
+    for await (const _ of generateChapterStream(mockSettings(), chapter(1), [chapter(1)], [], [], controller.signal)) {
+        if (++chunks === 2) controller.abort();
+    }
+    assert.equal(chunks, 2);
+});
+
+test('puts earlier chapters and facts into the chapter prompt', async () => {
+    let prompt = '';
+    registerMockFixtures({ [PROMPT_KEYS.GENERATE_CHAPTER]: p => { prompt = p; return '正文'; } });
+    const earlier = chapter(1, { summary: '林澈收到第一封信。', content: '林澈在雨夜收到了一封没有署名的信。', isDone: true });
+    const facts = [{ id: 'f1', type: 'injury' as const, subject: '林澈', description: '左手受伤', chapterId: 1 }];
+    for await (const _ of generateChapterStream(mockSettings(), chapter(2, { summary: '林澈拆开信' }), [earlier, chapter(2)], [], facts)) { /* drain */ }
+    assert.match(prompt, /林澈收到第一封信/);
+    assert.match(prompt, /左手受伤/);
+});
+
+test('parses characters, facts and grammar issues from JSON fixtures', async () => {
+    const settings = mockSettings();
+    const characters = await generateCharacters(settings);
+    assert.ok(characters.length > 0);
+    assert.ok(characters.every(c => c.id && c.name && Array.isArray(c.relationships)));
+
+    const facts = await extractChapterFacts('林澈拿到了信。', 3, characters, settings);
+    assert.ok(facts.length > 0);
+    assert.ok(facts.every(f => f.chapterId === 3 && f.id));
+
+    const issues = await checkGrammar('他走进房间。她没有抬头。', settings);
+    assert.equal(issues.length, 1);
+    assert.equal(issues[0].original, '他走进房间。');
+});
+
+test('returns titles and a data URL cover', async () => {
+    assert.ok((await generateTitles(mockSettings())).length > 0);
+    assert.match(await generateCoverImage(mockSettings()), /^data:image\//);
+});
+
+test('simulates quota errors and safety blocks', async () => {
+    const quota = await generateOutline(mockSettings({ modelName: 'quota' })).catch((e: Error) => e);
+    assert.ok(quota instanceof Error && isRateLimitError(quota.message));
+    assert.ok(getBackoffDelay(1, quota.message) > 0);
+
+    const blocked = await generateTitles(mockSettings({ modelName: 'safety' })).catch((e: Error) => e);
+    assert.ok(blocked instanceof Error && isSafetyError(blocked.message));
+});
+
+test('scopes mock behaviours to one prompt', async () => {
+    const settings = mockSettings({ modelName: `safety:${PROMPT_KEYS.GENERATE_TITLES}` });
+    await assert.rejects(generateTitles(settings), /Content Safety/);
+    assert.equal((await generateOutline(settings)).length, 5);
+});
+
+test('routes tasks to registered model configs by id', () => {
+    LLMClientFactory.registerModelConfigs([
+        { id: 'cheap', name: 'Cheap', provider: 'custom', apiKey: 'sk-test', modelName: 'small-model', createdAt: new Date() }
+    ]);
+    const settings = mockSettings({ provider: 'gemini', modelName: 'big-model', modelRouting: { summary: 'cheap', grammar: 'deleted' } });
+
+    const summary = LLMClientFactory.resolveSettings(settings, 'summary');
+    assert.equal(summary.provider, 'custom');
+    assert.equal(summary.apiKey, 'sk-test');
+    assert.equal(summary.modelName, 'small-model');
+    // A route to a config that no longer exists falls back to the active model
+    assert.equal(LLMClientFactory.resolveSettings(settings, 'grammar').modelName, 'big-model');
+    // Unrouted image requests use the provider's image model rather than the text model
+    assert.equal(LLMClientFactory.resolveSettings(settings, 'image').modelName, 'gemini-2.5-flash-image');
+});
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createProjectArchive, parseProjectArchive, PROJECT_ARCHIVE_VERSION, restoreProjectArchive } from '../services/projectArchive';
+import { ChapterVersion, NovelState } from '../types';
+import { chapter, mockSettings } from './helpers';
+
+const novel = (): NovelState => ({
+    settings: mockSettings({ apiKey: 'sk-secret', modelRouting: { summary: 'cheap' }, customPrompts: { generate_chapter: 'custom' } }),
+    chapters: [chapter(1, { content: '正文', isDone: true }), chapter(2, { isGenerating: true })],
+    characters: [],
+    currentChapterId: 1,
+    status: 'ready',
+    factLedger: [{ id: 'f1', type: 'death', subject: '老周', description: '老周死了', chapterId: 1 }],
+    usage: { inputTokens: 10, outputTokens: 20 }
+});
+
+const version = (id: string, chapterId: number): ChapterVersion => ({
+    id, novelId: 'novel-1', chapterId, title: '', content: `v-${id}`, source: 'manual_edit', createdAt: new Date('2026-01-02T03:04:05Z')
+});
+
+test('round-trips a novel without the browser-local settings', () => {
+    const archive = createProjectArchive(novel(), [version('v1', 1)]);
+    assert.equal(archive.version, PROJECT_ARCHIVE_VERSION);
+    assert.equal(archive.novel.settings.apiKey, undefined);
+    assert.equal(archive.novel.settings.modelRouting, undefined);
+    assert.equal(archive.novel.settings.storage, undefined);
+
+    const parsed = parseProjectArchive(JSON.stringify(archive));
+    assert.equal(parsed.novel.settings.customPrompts!.generate_chapter, 'custom');
+    assert.equal(parsed.novel.factLedger!.length, 1);
+    assert.equal(parsed.novel.chapters[1].isGenerating, false);
+    assert.ok(parsed.chapterVersions[0].createdAt instanceof Date);
+    assert.equal(parsed.chapterVersions[0].content, 'v-v1');
+});
+
+test('migrates a bare NovelState (format 0)', () => {
+    const parsed = parseProjectArchive(JSON.stringify(novel()));
+    assert.equal(parsed.version, PROJECT_ARCHIVE_VERSION);
+    assert.equal(parsed.novel.chapters.length, 2);
+    assert.deepEqual(parsed.chapterVersions, []);
+});
+
+test('rejects invalid, foreign and newer archives', () => {
+    assert.throws(() => parseProjectArchive('{'), /invalid JSON/);
+    assert.throws(() => parseProjectArchive('{"hello":1}'), /Not a DreamWeaver project archive/);
+    assert.throws(() => parseProjectArchive(JSON.stringify({ format: 'dreamweaver-project', version: PROJECT_ARCHIVE_VERSION + 1 })), /newer version/);
+    const duplicate = { ...novel(), chapters: [chapter(1), chapter(1)] };
+    assert.throws(() => parseProjectArchive(JSON.stringify(duplicate)), /novel\.chapters\[1\]\.id should be unique/);
+});
+
+test('drops versions of chapters that are not in the archive', () => {
+    const archive = createProjectArchive(novel(), [version('v1', 1), version('v9', 9)]);
+    assert.deepEqual(parseProjectArchive(JSON.stringify(archive)).chapterVersions.map(v => v.id), ['v1']);
+});
+
+test('restores with the local settings, keeping ids when overwriting', () => {
+    const archive = parseProjectArchive(JSON.stringify(createProjectArchive(novel(), [version('v1', 1)])));
+    const local = mockSettings({ apiKey: 'sk-local', storage: { type: 'mysql', apiUrl: 'http://db' } });
+    const restored = restoreProjectArchive(archive, local, 'overwrite');
+    assert.equal(restored.novel.settings.id, 'novel-1');
+    assert.equal(restored.novel.settings.apiKey, 'sk-local');
+    assert.equal(restored.novel.settings.storage.type, 'mysql');
+    assert.equal(restored.chapterVersions[0].id, 'v1');
+});
+
+test('restores a copy under fresh ids', () => {
+    const archive = parseProjectArchive(JSON.stringify(createProjectArchive(novel(), [version('v1', 1)])));
+    const copy = restoreProjectArchive(archive, mockSettings(), 'copy');
+    assert.notEqual(copy.novel.settings.id, 'novel-1');
+    assert.equal(copy.novel.settings.title, '封缄之信 (副本)');
+    assert.notEqual(copy.chapterVersions[0].id, 'v1');
+    assert.equal(copy.chapterVersions[0].novelId, copy.novel.settings.id);
+});
@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_PROSE_LINT, lintProse, proseLintConfig, segmentByFindings } from '../services/proseLint';
+import { ProseLintConfig, ProseLintRule } from '../types';
+import { mockSettings } from './helpers';
+
+const only = (rule: ProseLintRule, patch: Partial<ProseLintConfig> = {}): ProseLintConfig => ({
+    ...DEFAULT_PROSE_LINT,
+    disabledRules: ['repeated_phrase', 'overused_word', 'mixed_punctuation', 'unbalanced_quotes', 'long_paragraph', 'untagged_dialogue']
+        .filter(r => r !== rule) as ProseLintRule[],
+    ...patch
+});
+
+test('fills in defaults for novels without a lint config', () => {
+    assert.deepEqual(proseLintConfig(mockSettings()), DEFAULT_PROSE_LINT);
+    assert.equal(proseLintConfig(mockSettings({ proseLint: { overusedLimit: 1 } as ProseLintConfig })).maxParagraphLength, 500);
+});
+
+test('flags a phrase repeated within the window, once', () => {
+    const text = '他慢慢地走向门口。雨下得很大。他慢慢地走向窗边。';
+    const findings = lintProse(text, only('repeated_phrase'));
+    assert.equal(findings.length, 1);
+    assert.equal(text.slice(findings[0].start, findings[0].end), '他慢慢地走向');
+    assert.ok(findings[0].start > text.indexOf('雨'));
+});
+
+test('ignores repeats further apart than the window', () => {
+    const text = ['他慢慢地走向门口。', '一。', '二。', '三。', '他慢慢地走向窗边。'].join('');
+    assert.equal(lintProse(text, only('repeated_phrase', { repeatWindow: 2 })).length, 0);
+});
+
+test('flags every use of a word over the limit; English words match whole words only', () => {
+    const text = 'Suddenly he ran. suddenly she fell. Suddenlyness is not a word.';
+    const findings = lintProse(text, only('overused_word', { overusedWords: ['suddenly'], overusedLimit: 1 }));
+    assert.equal(findings.length, 2);
+    assert.ok(findings.every(f => text.slice(f.start, f.end).toLowerCase() === 'suddenly'));
+});
+
+test('flags half-width punctuation in Chinese and full-width punctuation in English', () => {
+    const zh = lintProse('他来了,她走了。', only('mixed_punctuation'));
+    assert.deepEqual(zh.map(f => f.start), [3]);
+    const en = lintProse('He came，she left.', only('mixed_punctuation'));
+    assert.deepEqual(en.map(f => f.start), [7]);
+});
+
+test('flags unclosed, unmatched and odd straight quotes per paragraph', () => {
+    const findings = lintProse('“你好」\n“没有闭合\n他说"好', only('unbalanced_quotes'));
+    assert.deepEqual(findings.map(f => f.start), [0, 3, 5, 13]);
+});
+
+test('flags paragraphs over the length limit', () => {
+    const findings = lintProse(`短段落。\n${'长'.repeat(30)}`, only('long_paragraph', { maxParagraphLength: 20 }));
+    assert.equal(findings.length, 1);
+    assert.equal(findings[0].start, 5);
+});
+
+test('flags dialogue tags without a speaker', () => {
+    const findings = lintProse('“走吧。”说道。\n“走吧。”他说道。\n"Go," said.', only('untagged_dialogue'));
+    assert.equal(findings.length, 2);
+});
+
+test('segments cover the text and carry every overlapping finding', () => {
+    const text = '甲乙丙丁戊';
+    const findings = [
+        { rule: 'long_paragraph' as const, start: 0, end: 5, message: '' },
+        { rule: 'overused_word' as const, start: 1, end: 3, message: '' }
+    ];
+    const segments = segmentByFindings(text, findings);
+    assert.equal(segments.map(s => s.text).join(''), text);
+    assert.deepEqual(segments.map(s => s.findings.length), [1, 2, 1]);
+});
@@ -0,0 +1,167 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChildProcess, spawn } from 'node:child_process';
+import { mkdtempSync, rmSync, statSync } from 'node:fs';
+import { createServer } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+// Runs the REST backend in SQLite mode (DB_CLIENT=sqlite) against a temporary file
+
+const TOKEN = 'test-token';
+const dir = mkdtempSync(path.join(tmpdir(), 'dreamweaver-server-'));
+const sqliteFile = path.join(dir, 'novel_db.sqlite');
+let server: ChildProcess | null = null;
+let baseUrl = '';
+
+const freePort = (): Promise<number> => new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.once('error', reject);
+    probe.listen(0, () => {
+        const { port } = probe.address() as { port: number };
+        probe.close(() => resolve(port));
+    });
+});
+
+const startServer = async (env: Record<string, string> = {}) => {
+    const port = await freePort();
+    const child = spawn(process.execPath, ['--import', 'tsx', 'server/index.ts'], {
+        cwd: path.resolve(import.meta.dirname, '..'),
+        env: { ...process.env, DB_CLIENT: 'sqlite', SQLITE_FILE: sqliteFile, PORT: String(port), API_TOKEN: TOKEN, ...env },
+        stdio: ['ignore', 'pipe', 'pipe']
+    });
+    await new Promise<void>((resolve, reject) => {
+        let output = '';
+        const onData = (chunk: Buffer) => {
+            output += chunk;
+            if (output.includes('listening')) resolve();
+        };
+        child.stdout!.on('data', onData);
+        child.stderr!.on('data', onData);
+        child.once('exit', code => reject(new Error(`Server exited with ${code}: ${output}`)));
+    });
+    server = child;
+    baseUrl = `http://localhost:${port}`;
+};
+
+const stopServer = async () => {
+    if (!server) return;
+    const child = server;
+    server = null;
+    if (child.exitCode !== null) return;
+    const exited = new Promise(resolve => child.once('exit', resolve));
+    child.kill();
+    await exited;
+};
+
+const api = (method: string, route: string, body?: unknown, token: string | null = TOKEN) => fetch(`${baseUrl}/api${route}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...(token === null ? {} : { Authorization: `Bearer ${token}` }) },
+    body: body === undefined ? undefined : JSON.stringify(body)
+});
+
+const novel = (id: string, title: string) => ({
+    settings: { id, title, apiKey: 'sk-novel' },
+    chapters: [{ id: 1, title: '第一章', summary: '', content: '正文', isGenerating: false, isDone: true }],
+    characters: [],
+    currentChapterId: 1,
+    status: 'ready',
+    usage: { inputTokens: 0, outputTokens: 0 }
+});
+
+before(() => startServer());
+
+after(async () => {
+    await stopServer();
+    rmSync(dir, { recursive: true, force: true });
+});
+
+test('rejects requests without the shared token', async () => {
+    assert.equal((await api('GET', '/health', undefined, null)).status, 401);
+    assert.equal((await api('GET', '/novels', undefined, 'wrong-token')).status, 401);
+    assert.deepEqual(await (await api('GET', '/health')).json(), { ok: true });
+});
+
+test('allows only the configured origin and answers preflights without the token', async () => {
+    const response = await fetch(`${baseUrl}/api/novels`, { method: 'OPTIONS' });
+    assert.equal(response.status, 204);
+    assert.equal(response.headers.get('access-control-allow-origin'), 'http://localhost:3000');
+    assert.match(response.headers.get('access-control-allow-headers')!, /Authorization/);
+    assert.doesNotMatch(response.headers.get('access-control-allow-headers')!, /X-MySQL/i);
+});
+
+test('saves, lists, loads and deletes novels', async () => {
+    assert.deepEqual(await (await api('PUT', '/novels/n1', novel('ignored', '封缄之信'))).json(), { id: 'n1' });
+    await api('PUT', '/novels/n2', novel('n2', '第二本'));
+
+    const list = await (await api('GET', '/novels')).json();
+    assert.deepEqual(list.map((n: any) => n.title).sort(), ['封缄之信', '第二本'].sort());
+
+    const loaded = await (await api('GET', '/novels/n1')).json();
+    assert.equal(loaded.settings.id, 'n1');
+    assert.equal('apiKey' in loaded.settings, false);
+    assert.equal(loaded.chapters[0].content, '正文');
+    assert.ok(loaded.lastSaved);
+
+    assert.equal((await api('DELETE', '/novels/n2')).status, 204);
+    assert.equal((await api('GET', '/novels/n2')).status, 404);
+});
+
+test('keeps the newest 50 versions per chapter, newest first, and deletes them with the novel', async () => {
+    await api('PUT', '/novels/n3', novel('n3', '版本测试'));
+    for (let i = 0; i < 52; i++) {
+        const response = await api('POST', '/novels/n3/chapters/1/versions', {
+            id: `v${i}`, content: `版本 ${i}`, source: 'manual_edit', createdAt: new Date(Date.UTC(2026, 0, 1, 0, 0, i)).toISOString()
+        });
+        assert.equal(response.status, 200);
+    }
+    const versions = await (await api('GET', '/novels/n3/chapters/1/versions')).json();
+    assert.equal(versions.length, 50);
+    assert.equal(versions[0].id, 'v51');
+    assert.equal(versions[49].id, 'v2');
+    assert.equal(versions[0].chapterId, 1);
+
+    await api('DELETE', '/novels/n3');
+    assert.deepEqual(await (await api('GET', '/novels/n3/chapters/1/versions')).json(), []);
+});
+
+test('clears a novel\'s version history without deleting the novel', async () => {
+    await api('PUT', '/novels/n4', novel('n4', '覆盖恢复'));
+    await api('POST', '/novels/n4/chapters/1/versions', { id: 'old', content: '旧版本', source: 'manual_edit', createdAt: new Date().toISOString() });
+
+    assert.equal((await api('DELETE', '/novels/n4/versions')).status, 204);
+    assert.deepEqual(await (await api('GET', '/novels/n4/chapters/1/versions')).json(), []);
+    assert.equal((await (await api('GET', '/novels/n4')).json()).settings.title, '覆盖恢复');
+});
+
+test('never stores or returns model API keys', async () => {
+    await api('PUT', '/model-configs/m1', { name: 'Qwen', provider: 'alibaba', apiKey: 'sk-secret', modelName: 'qwen-max', createdAt: new Date().toISOString() });
+    const [listed] = await (await api('GET', '/model-configs')).json();
+    assert.equal(listed.id, 'm1');
+    assert.equal(listed.modelName, 'qwen-max');
+    assert.equal('apiKey' in listed, false);
+    assert.equal('apiKey' in await (await api('GET', '/model-configs/m1')).json(), false);
+
+    assert.equal((await api('DELETE', '/model-configs/m1')).status, 204);
+    assert.equal((await api('GET', '/model-configs/m1')).status, 404);
+});
+
+test('reports bad requests and unknown routes', async () => {
+    const invalid = await fetch(`${baseUrl}/api/novels/n1`, { method: 'PUT', headers: { Authorization: `Bearer ${TOKEN}` }, body: '{' });
+    assert.equal(invalid.status, 400);
+    assert.equal((await api('PUT', '/novels/n1', { title: 'no settings' })).status, 400);
+    assert.equal((await api('POST', '/novels/n1/chapters/x/versions', { id: 'v', content: '' })).status, 400);
+    assert.equal((await api('GET', '/nothing-here')).status, 404);
+});
+
+test('persists to the SQLite file across restarts', async () => {
+    await api('PUT', '/novels/n4', novel('n4', '重启之后'));
+    await stopServer();
+    assert.ok(statSync(sqliteFile).size > 0);
+    await startServer();
+    assert.equal((await (await api('GET', '/novels/n4')).json()).settings.title, '重启之后');
+});
+
+test('refuses to start without an API token', async () => {
+    await assert.rejects(startServer({ API_TOKEN: '' }), /API_TOKEN is not set/);
+});
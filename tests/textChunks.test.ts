@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { chunkText, mapWithConcurrency } from '../services/textChunks';
+import { mergeChunkIssues } from '../services/grammarFixes';
+
+const issue = (original: string, suggestion = `${original}!`) => ({ original, suggestion, explanation: '' });
+
+test('returns short text as a single chunk', () => {
+    assert.deepEqual(chunkText('短文本。', 100), [{ start: 0, text: '短文本。' }]);
+});
+
+test('cuts at paragraph or sentence breaks, covers the whole text and records offsets', () => {
+    const text = Array.from({ length: 30 }, (_, i) => `第${i}段。这里有两句话。`).join('\n');
+    const chunks = chunkText(text, 80);
+    assert.ok(chunks.length > 1);
+    assert.equal(chunks.map(c => c.text).join(''), text);
+    chunks.forEach(c => {
+        assert.ok(c.text.length <= 80);
+        assert.equal(text.slice(c.start, c.start + c.text.length), c.text);
+    });
+    chunks.slice(0, -1).forEach(c => assert.match(c.text, /[\n。]$/));
+});
+
+test('overlapping chunks start at a sentence and repeat the end of the previous chunk', () => {
+    const text = '一句话在这里。'.repeat(60);
+    const chunks = chunkText(text, 100, 20);
+    for (let i = 1; i < chunks.length; i++) {
+        const previousEnd = chunks[i - 1].start + chunks[i - 1].text.length;
+        assert.ok(chunks[i].start < previousEnd);
+        assert.equal(text[chunks[i].start - 1], '。');
+    }
+    assert.equal(chunks[chunks.length - 1].start + chunks[chunks.length - 1].text.length, text.length);
+});
+
+test('runs at most `limit` calls at once and keeps the result order', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, i) => {
+        peak = Math.max(peak, ++running);
+        await new Promise(resolve => setTimeout(resolve, ms));
+        running--;
+        return i;
+    });
+    assert.deepEqual(results, [0, 1, 2, 3, 4]);
+    assert.equal(peak, 2);
+});
+
+test('stops starting new calls after a failure and rethrows it', async () => {
+    const started: number[] = [];
+    await assert.rejects(mapWithConcurrency([1, 2, 3, 4, 5], 1, async n => {
+        started.push(n);
+        if (n === 2) throw new Error('boom');
+        return n;
+    }), /boom/);
+    assert.deepEqual(started, [1, 2]);
+});
+
+test('merges chunk issues in text order and drops duplicates from overlaps', () => {
+    const merged = mergeChunkIssues([
+        { issue: issue('第二句'), position: 40 },
+        { issue: issue('第一句'), position: 10 },
+        { issue: issue('第二句'), position: 40 },    // Seen again by the overlapping chunk
+        { issue: issue('二句话'), position: 41 },    // Overlaps a kept issue
+        { issue: issue('找不到'), position: -1 },
+        { issue: issue('找不到'), position: -1 }
+    ]);
+    assert.deepEqual(merged.map(i => i.original), ['第一句', '第二句', '找不到']);
+});
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeText, detectEncoding } from '../services/textEncoding';
+
+const PROSE = '的是我他说了一';
+// The same prose in the legacy encodings (TextDecoder can decode them but not encode)
+const GB18030 = 'B5C4CAC7CED2CBFBCBB5C1CBD2BB';
+const BIG5 = 'AABAAC4FA7DAA54CBBA1A446A440';
+
+const repeatHex = (hex: string, times: number) => new Uint8Array(Buffer.from(`${hex}0A`.repeat(times), 'hex'));
+
+const utf16 = (text: string, bigEndian: boolean) => {
+    const bytes = Buffer.from(text, 'utf16le');
+    if (bigEndian) bytes.swap16();
+    return new Uint8Array(bytes);
+};
+
+test('detects byte order marks', () => {
+    assert.equal(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x41])), 'utf-8');
+    assert.equal(detectEncoding(new Uint8Array([0xff, 0xfe, 0x41, 0x00])), 'utf-16le');
+    assert.equal(detectEncoding(new Uint8Array([0xfe, 0xff, 0x00, 0x41])), 'utf-16be');
+});
+
+test('detects UTF-8, including a sample cut inside a character', () => {
+    const bytes = new TextEncoder().encode(`第一章\n${PROSE}`.repeat(20));
+    assert.equal(detectEncoding(bytes), 'utf-8');
+    assert.equal(detectEncoding(bytes.subarray(0, bytes.length - 1)), 'utf-8');
+});
+
+test('detects UTF-16 without a byte order mark', () => {
+    const text = `Chapter 1\n${PROSE}\n`.repeat(20);
+    assert.equal(detectEncoding(utf16(text, false)), 'utf-16le');
+    assert.equal(detectEncoding(utf16(text, true)), 'utf-16be');
+});
+
+test('tells GB18030 from Big5 by how the decoded text reads', () => {
+    const gb = repeatHex(GB18030, 20);
+    const big5 = repeatHex(BIG5, 20);
+    assert.equal(detectEncoding(gb), 'gb18030');
+    assert.equal(detectEncoding(big5), 'big5');
+    assert.equal(decodeText(gb, 'gb18030').split('\n')[0], PROSE);
+    assert.equal(decodeText(big5, 'big5').split('\n')[0], '的是我他說了一');
+});
+
+test('drops the byte order mark when decoding', () => {
+    assert.equal(decodeText(new Uint8Array([0xef, 0xbb, 0xbf, 0x41]), 'utf-8'), 'A');
+});
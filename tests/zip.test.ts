@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { deflateRawSync } from 'node:zlib';
+import { crc32, createZip, openZip } from '../services/zip';
+
+// A one-entry archive with a deflated entry, as written by common ZIP tools
+const deflatedZip = (path: string, text: string): Uint8Array => {
+    const name = new TextEncoder().encode(path);
+    const raw = new TextEncoder().encode(text);
+    const data = deflateRawSync(raw);
+    const local = Buffer.alloc(30 + name.length);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(crc32(raw), 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.set(name, 30);
+    const central = Buffer.alloc(46 + name.length);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc32(raw), 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.set(name, 46);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(1, 8);
+    end.writeUInt16LE(1, 10);
+    end.writeUInt32LE(central.length, 12);
+    end.writeUInt32LE(local.length + data.length, 16);
+    return new Uint8Array(Buffer.concat([local, data, central, end]));
+};
+
+test('computes the standard CRC-32', () => {
+    assert.equal(crc32(new TextEncoder().encode('123456789')), 0xcbf43926);
+});
+
+test('round-trips text and binary entries in order', async () => {
+    const binary = new Uint8Array([0, 255, 1, 254]);
+    const zip = openZip(createZip([
+        { path: 'mimetype', data: 'application/epub+zip' },
+        { path: 'OEBPS/第一章.xhtml', data: '<p>林澈</p>' },
+        { path: 'images/cover.png', data: binary }
+    ]));
+    assert.deepEqual(zip.paths, ['mimetype', 'OEBPS/第一章.xhtml', 'images/cover.png']);
+    assert.equal(await zip.readText('mimetype'), 'application/epub+zip');
+    assert.equal(await zip.readText('OEBPS/第一章.xhtml'), '<p>林澈</p>');
+    assert.deepEqual(await zip.read('images/cover.png'), binary);
+    assert.equal(await zip.read('missing'), null);
+});
+
+test('stores the leading mimetype entry uncompressed at a fixed offset, as EPUB requires', () => {
+    const bytes = createZip([{ path: 'mimetype', data: 'application/epub+zip' }]);
+    assert.equal(new TextDecoder().decode(bytes.subarray(30, 38)), 'mimetype');
+    assert.equal(new TextDecoder().decode(bytes.subarray(38, 58)), 'application/epub+zip');
+});
+
+test('inflates deflated entries', async () => {
+    const text = '夜色沉沉，风从街角吹来。'.repeat(50);
+    assert.equal(await openZip(deflatedZip('word/document.xml', text)).readText('word/document.xml'), text);
+});
+
+test('rejects files that are not ZIP archives', () => {
+    assert.throws(() => openZip(new TextEncoder().encode('just some text, long enough to search')), /Not a ZIP file/);
+});
@@ -2,7 +2,7 @@
 export type Language = 'zh' | 'en';
 export type NovelType = 'long' | 'short';
 
-export type ModelProvider = 'gemini' | 'alibaba' | 'volcano' | 'custom';
+export type ModelProvider = 'gemini' | 'alibaba' | 'volcano' | 'custom' | 'mock';
 
 export type WritingTone = 
   | 'Neutral' | 'Dark' | 'Humorous' | 'Melancholic' | 'Fast-paced' | 'Romantic' | 'Cynical' 
@@ -23,12 +23,9 @@ export type StorageType = 'sqlite' | 'mysql';
 
 export interface StorageConfig {
   type: StorageType;
-  // MySQL specific config
-  mysqlHost?: string;
-  mysqlPort?: string;
-  mysqlUser?: string;
-  mysqlPassword?: string;
-  mysqlDatabase?: string;
+  sqlitePath?: string; // Local SQLite file name (kept in browser storage)
+  apiUrl?: string; // Backend REST endpoint (see server/), e.g. http://localhost:8787
+  apiToken?: string; // Shared token the backend was started with (API_TOKEN)
 }
 
 export interface ModelConfig {
@@ -42,6 +39,9 @@ export interface ModelConfig {
   createdAt: Date;
 }
 
+// Coarse task categories used to route prompts to different model configs
+export type ModelTask = 'outline' | 'chapter' | 'summary' | 'grammar' | 'analysis' | 'image';
+
 // Tomato Novel Classification Types
 export interface TagOption {
     id: string;
@@ -110,6 +110,31 @@ export interface PlotData {
     nodes: PlotNode[];
 }
 
+// Page setup of the HTML, print and PDF exports
+export type PageSize = 'A4' | 'A5' | 'Letter';
+
+export interface PageLayout {
+  pageSize: PageSize;
+  fontFamily: 'serif' | 'sans';
+  fontSize: number; // pt
+  headerText: string; // Empty for no running header
+  showPageNumbers: boolean;
+}
+
+// Which chapters and extra sections an export contains
+export interface ExportOptions {
+  scope: 'all' | 'volumes' | 'range';
+  volumeIds: number[]; // Used when scope is 'volumes'
+  rangeStart?: number; // Chapter ids, inclusive; used when scope is 'range'
+  rangeEnd?: number;
+  skipUnfinished: boolean; // Leave out chapters without content
+  headingTemplate: string; // Chapter heading with {{n}}, {{cn}} (Chinese numeral) and {{title}} placeholders
+  includeSynopsis: boolean;
+  includeCharacters: boolean;
+  includeWorld: boolean;
+  includeAuthorNotes: boolean;
+}
+
 export interface NovelSettings {
   id?: string; // UUID for persistence
   title: string;
@@ -124,6 +149,7 @@ export interface NovelSettings {
   novelType: NovelType;
   targetWordCount: number; // Kept for backward compatibility/Total estimation
   targetChapterWordCount?: number; // Target words per chapter
+  contextTokenBudget?: number; // Max tokens of earlier story passed to chapter generation
   chapterCount: number;
   language: Language;
   
@@ -133,6 +159,15 @@ export interface NovelSettings {
   plotData?: PlotData; // Narrative structure data
 
   mainCharacters?: string; 
+
+  // Publishing metadata and export preferences
+  author?: string;
+  coverImage?: string; // Data URL, generated or uploaded
+  authorNotes?: string; // Optional afterword for exports
+  exportLayout?: PageLayout; // Last used page setup of the HTML/PDF export
+  exportOptions?: ExportOptions; // Last used chapter selection and front/back matter
+  proseLint?: ProseLintConfig; // Rules of the Reader's offline prose linter
+  compliance?: ComplianceConfig; // Platform wordlists checked before publishing
   
   // Model Configuration (Active Session)
   provider: ModelProvider;
@@ -140,6 +175,7 @@ export interface NovelSettings {
   apiKey?: string; 
   modelName?: string; 
   maxOutputTokens?: number; 
+  modelRouting?: Partial<Record<ModelTask, string>>; // Per-task model config ids, resolved from the local config store
   
   // Prompt Configuration
   customPrompts?: Record<string, string>; // Key: template_id, Value: user modified template
@@ -172,11 +208,30 @@ export interface PersonalityTraits {
     neuroticism: number;
 }
 
+// What changed for a character by the end of a chapter; fields left out are unchanged
+export interface CharacterStateSnapshot {
+  chapterId: number;
+  location?: string;
+  condition?: string; // Physical condition: injuries, illness, lost limbs...
+  relationships?: string;
+  knownSecrets?: string;
+  powerLevel?: string;
+}
+
+// Directed edge from one character to another
+export interface CharacterRelationship {
+  targetId: string; // Character.id
+  type: string; // e.g. 师徒, 宿敌, 恋人
+  description?: string;
+}
+
 export interface Character {
+  id: string; // Stable UUID; names can change
   name: string;
   role: string;
   description: string;
-  relationships: string;
+  relationships: CharacterRelationship[];
+  relationshipNotes?: string; // Legacy free-text relationships that mention no known character
   // New Fields for Consistency & Visualization
   imageUrl?: string;
   voiceGuide?: string; // Dialogue style instructions
@@ -191,6 +246,8 @@ export interface Character {
   personalityTags?: PersonalityTraits;
   backgroundStory?: string;
   skills?: string;
+
+  stateTimeline?: CharacterStateSnapshot[]; // Extracted from generated chapters, in chapter order
 }
 
 export interface Chapter {
@@ -208,15 +265,109 @@ export interface Chapter {
 
   isGenerating: boolean;
   isDone: boolean;
+  isManuallyEdited?: boolean; // Set by manual edits, cleared when AI rewrites the chapter
   consistencyAnalysis?: string;
+  complianceHits?: number; // Compliance rule matches found by the last scan; kept up to date while set
+}
+
+// --- Story Bible (Fact Ledger) ---
+export type FactType = 'knowledge' | 'injury' | 'item_gained' | 'item_lost' | 'location' | 'death' | 'promise';
+
+export interface FactEntry {
+  id: string;
+  type: FactType;
+  subject: string;      // Character the fact is about
+  description: string;
+  chapterId: number;    // Source chapter
+  isManual?: boolean;   // Added or edited by hand; survives re-extraction
 }
 
+// --- Generation Queue ---
+export type GenerationJobStatus = 'pending' | 'running' | 'paused' | 'failed';
+
+export interface GenerationJob {
+  id: string;
+  novelId: string;
+  chapterId: number;
+  status: GenerationJobStatus;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt: number; // epoch ms; backoff delays push this forward
+  createdAt: number;
+  updatedAt: number;
+}
+
+// --- Batch Rewrite ---
+export interface RewriteAllOptions {
+  fromChapterId: number;
+  toChapterId: number;
+  regenerateOutline: boolean; // false = keep existing titles/summaries as the chapter briefs
+  keepManualEdits: boolean;   // true = skip chapters flagged isManuallyEdited
+}
+
+export type RewriteJobStatus = 'running' | 'paused' | 'cancelled' | 'completed';
+
+export interface RewriteJob {
+  options: RewriteAllOptions;
+  status: RewriteJobStatus;
+  queue: number[];      // Chapter ids still to rewrite, in order
+  completed: number[];
+  skipped: number[];    // Manually edited, or missing from the novel
+  failed: { chapterId: number; reason: string }[];
+  total: number;
+  outlineApplied: boolean;
+  currentChapterId: number | null;
+  message?: string;
+}
+
+// What replaced the chapter text right after the snapshot was taken
+export type ChapterVersionSource = 'ai_rewrite' | 'ai_continue' | 'grammar_fix' | 'manual_edit' | 'restore' | 'rename' | 'compliance_fix';
+
+export interface ChapterVersion {
+  id: string;
+  novelId: string;
+  chapterId: number;
+  title: string;
+  content: string;
+  source: ChapterVersionSource;
+  createdAt: Date;
+}
+
+// AI edits that apply to a selected passage in the Reader's editor
+export type SelectionEditAction = 'rewrite' | 'expand' | 'condense' | 'tone' | 'sensory' | 'dialogue';
+
 export interface GrammarIssue {
   original: string;
   suggestion: string;
   explanation: string;
 }
 
+export type ProseLintRule = 'repeated_phrase' | 'overused_word' | 'mixed_punctuation' | 'unbalanced_quotes' | 'long_paragraph' | 'untagged_dialogue';
+
+// Per-novel configuration of the offline prose linter
+export interface ProseLintConfig {
+  disabledRules: ProseLintRule[];
+  repeatWindow: number; // Sentences within which a repeated phrase is flagged
+  minPhraseLength: number; // Chinese characters; English phrases are compared as word triples
+  overusedWords: string[];
+  overusedLimit: number; // Occurrences per chapter before a word is flagged
+  maxParagraphLength: number; // Characters
+}
+
+// A banned term of a publishing platform, as a literal word or a regular expression
+export interface ComplianceRule {
+  id: string;
+  pattern: string;
+  isRegex: boolean;
+  replacement: string; // Suggested substitute; regex rules may use $1 etc. Empty masks the match with *
+}
+
+export interface ComplianceConfig {
+  rules: ComplianceRule[];
+  checkOnGenerate: boolean; // Scan chapters written by the generation queue and batch rewrite
+  checkBeforeExport: boolean;
+}
+
 export interface UsageStats {
   inputTokens: number;
   outputTokens: number;
@@ -229,6 +380,7 @@ export interface NovelState {
   currentChapterId: number | null;
   status: 'idle' | 'generating_outline' | 'ready';
   consistencyReport?: string | null;
+  factLedger?: FactEntry[]; // Story bible, fed into chapter prompts
   usage: UsageStats; 
   lastSaved?: Date; // Track save time
 }